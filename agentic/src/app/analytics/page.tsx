@@ -0,0 +1,173 @@
+import Link from "next/link";
+import { LineChart } from "../components/LineChart";
+import { buildAlignmentRecords, describeKappa, summariseAgreement } from "@/lib/alignment";
+import { listRuns } from "@/lib/runStore";
+import { formatScore } from "@/lib/scoring";
+
+export const dynamic = "force-dynamic";
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export default async function AnalyticsPage() {
+  const runs = await listRuns();
+  const records = buildAlignmentRecords(runs);
+  const summary = summariseAgreement(records);
+
+  const names = new Map<string, string>();
+  runs.forEach((run) => run.models.forEach((model) => names.set(model.id, model.name)));
+  const nameOf = (modelId: string) => names.get(modelId) ?? modelId;
+  const confusionIds = summary.models.map((entry) => entry.modelId);
+
+  const stats = [
+    { label: "Votes recorded", value: String(summary.total) },
+    { label: "Agreement rate", value: summary.total ? formatPercent(summary.agreementRate) : "-" },
+    {
+      label: "Mean rank offset",
+      value: summary.meanDelta === null ? "-" : formatScore(summary.meanDelta),
+      hint: `${summary.outsideShortlist} pick(s) outside the shortlist`,
+    },
+    {
+      label: "Cohen's kappa",
+      value: summary.kappa === null ? "-" : summary.kappa.toFixed(2),
+      hint: describeKappa(summary.kappa),
+    },
+  ];
+
+  return (
+    <div className="grid" style={{ gap: "1.75rem" }}>
+      <header className="card" style={{ padding: "2.2rem" }}>
+        <span className="badge badgePrimary" style={{ marginBottom: "0.75rem" }}>
+          Human vs arbiter
+        </span>
+        <h1 style={{ fontSize: "2.1rem", fontWeight: 700, lineHeight: 1.1 }}>
+          Agreement analytics
+        </h1>
+        <p className="cardSubtitle" style={{ marginTop: "0.75rem", marginBottom: 0 }}>
+          How often does the arbiter pick the response you would deploy? Kappa
+          corrects raw agreement for chance, so it is the number to watch before letting the
+          arbiter stand in for human reviewers.
+        </p>
+      </header>
+
+      {!summary.total ? (
+        <section className="card" style={{ textAlign: "center", color: "rgba(226,232,240,0.7)" }}>
+          <p style={{ marginBottom: "0.75rem" }}>
+            No votes yet. Cast &quot;Your call&quot; on a run to start tracking agreement.
+          </p>
+          <Link href="/" className="buttonPrimary">
+            Launch the arena
+          </Link>
+        </section>
+      ) : (
+        <>
+          <section
+            className="grid"
+            style={{ gridTemplateColumns: "repeat(auto-fit, minmax(200px, 1fr))", gap: "1rem" }}
+          >
+            {stats.map((stat) => (
+              <div key={stat.label} className="card" style={{ padding: "1.25rem" }}>
+                <p className="fieldLabel">{stat.label}</p>
+                <p style={{ fontSize: "1.8rem", fontWeight: 700 }}>{stat.value}</p>
+                {stat.hint ? (
+                  <p style={{ color: "rgba(226,232,240,0.6)", fontSize: "0.85rem" }}>{stat.hint}</p>
+                ) : null}
+              </div>
+            ))}
+          </section>
+
+          <article className="card" style={{ padding: "1.5rem" }}>
+            <p className="sectionTitle">Agreement over time</p>
+            <LineChart
+              ariaLabel="Daily and cumulative agreement rate"
+              yDomain={[0, 1]}
+              formatY={formatPercent}
+              series={[
+                {
+                  label: "Daily agreement",
+                  color: "rgba(148,163,184,0.8)",
+                  points: summary.timeline.map((point) => ({ x: point.date, y: point.rate })),
+                },
+                {
+                  label: "Cumulative agreement",
+                  color: "#38bdf8",
+                  points: summary.timeline.map((point) => ({
+                    x: point.date,
+                    y: point.cumulativeRate,
+                  })),
+                },
+              ]}
+            />
+          </article>
+
+          <article className="card" style={{ padding: "1.5rem" }}>
+            <p className="sectionTitle">Confusion breakdown</p>
+            <p className="cardSubtitle">
+              Rows are your picks, columns the arbiter&apos;s winner. The diagonal is agreement.
+            </p>
+            <div style={{ overflowX: "auto" }}>
+              <table className="table" style={{ minWidth: "560px" }}>
+                <thead>
+                  <tr>
+                    <th>You → Arbiter</th>
+                    {confusionIds.map((modelId) => (
+                      <th key={`col-${modelId}`}>{nameOf(modelId)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {confusionIds.map((rowId) => (
+                    <tr key={`row-${rowId}`}>
+                      <td style={{ fontWeight: 600 }}>{nameOf(rowId)}</td>
+                      {confusionIds.map((colId) => {
+                        const count = summary.confusion[rowId]?.[colId] ?? 0;
+                        return (
+                          <td
+                            key={`${rowId}-${colId}`}
+                            style={{
+                              fontWeight: rowId === colId ? 700 : 400,
+                              color: count
+                                ? rowId === colId
+                                  ? "#38bdf8"
+                                  : "rgba(226,232,240,0.85)"
+                                : "rgba(148,163,184,0.5)",
+                            }}
+                          >
+                            {count}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </article>
+
+          <article className="card" style={{ padding: "1.5rem" }}>
+            <p className="sectionTitle">Per-model picks</p>
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Model</th>
+                  <th>Your picks</th>
+                  <th>Arbiter picks</th>
+                  <th>Joint picks</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.models.map((entry) => (
+                  <tr key={entry.modelId}>
+                    <td style={{ fontWeight: 600 }}>{nameOf(entry.modelId)}</td>
+                    <td>{entry.humanPicks}</td>
+                    <td>{entry.arbiterPicks}</td>
+                    <td>{entry.jointPicks}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </article>
+        </>
+      )}
+    </div>
+  );
+}
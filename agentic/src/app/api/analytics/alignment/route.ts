@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { buildAlignmentRecords, summariseAgreement } from "@/lib/alignment";
+import { listRuns } from "@/lib/runStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const records = buildAlignmentRecords(await listRuns());
+  return NextResponse.json({ records, summary: summariseAgreement(records) });
+}
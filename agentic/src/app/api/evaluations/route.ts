@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { EvaluationRequestError, parseEvaluationRequest, runEvaluation } from "@/lib/arena";
+import { listModels } from "@/lib/modelStore";
+import { listRubrics } from "@/lib/rubricStore";
+import { ProviderError } from "@/lib/providers";
+import { saveEvaluationRun } from "@/lib/runStore";
+import { listTemplates } from "@/lib/templateStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be valid JSON." }, { status: 400 });
+  }
+
+  try {
+    const [models, rubrics, templates] = await Promise.all([
+      listModels(),
+      listRubrics(),
+      listTemplates(),
+    ]);
+    const evaluationRequest = parseEvaluationRequest(body, models, rubrics, templates);
+    const result = await runEvaluation(evaluationRequest, { models });
+    const run = await saveEvaluationRun(evaluationRequest, result, models);
+    return NextResponse.json({ ...result, runId: run.id });
+  } catch (error) {
+    if (error instanceof EvaluationRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof ProviderError) {
+      return NextResponse.json({ error: error.message }, { status: 502 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { EvaluationRequestError, parseEvaluationRequest, runEvaluation } from "@/lib/arena";
+import { encodeEvent } from "@/lib/eventStream";
+import { listModels } from "@/lib/modelStore";
+import { listRubrics } from "@/lib/rubricStore";
+import { saveEvaluationRun } from "@/lib/runStore";
+import { listTemplates } from "@/lib/templateStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be valid JSON." }, { status: 400 });
+  }
+
+  let models;
+  let evaluationRequest;
+  try {
+    const [storedModels, rubrics, templates] = await Promise.all([
+      listModels(),
+      listRubrics(),
+      listTemplates(),
+    ]);
+    models = storedModels;
+    evaluationRequest = parseEvaluationRequest(body, models, rubrics, templates);
+  } catch (error) {
+    if (error instanceof EvaluationRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    // Unreadable stores fail before the stream opens, so they answer in JSON too.
+    const message = error instanceof Error ? error.message : "Evaluation failed.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        const result = await runEvaluation(evaluationRequest, {
+          models,
+          onEvent: (event) => {
+            if (event.type !== "complete") controller.enqueue(encodeEvent(event));
+          },
+        });
+        const run = await saveEvaluationRun(evaluationRequest, result, models);
+        controller.enqueue(encodeEvent({ type: "complete", result, runId: run.id }));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Evaluation failed.";
+        controller.enqueue(encodeEvent({ type: "error", message }));
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "content-type": "text/event-stream; charset=utf-8",
+      "cache-control": "no-cache, no-transform",
+      connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { ModelRegistryError } from "@/lib/modelRegistry";
+import { deleteModel, getModel, updateModel } from "@/lib/modelStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const model = await getModel(params.id);
+  if (!model) {
+    return NextResponse.json({ error: "Model not found." }, { status: 404 });
+  }
+  return NextResponse.json(model);
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const body = await request.json().catch(() => null);
+  try {
+    const model = await updateModel(params.id, body);
+    if (!model) {
+      return NextResponse.json({ error: "Model not found." }, { status: 404 });
+    }
+    return NextResponse.json(model);
+  } catch (error) {
+    if (error instanceof ModelRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    if (!(await deleteModel(params.id))) {
+      return NextResponse.json({ error: "Model not found." }, { status: 404 });
+    }
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof ModelRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
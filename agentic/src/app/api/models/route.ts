@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { ModelRegistryError } from "@/lib/modelRegistry";
+import { createModel, listModels, replaceModels } from "@/lib/modelStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json(await listModels());
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  try {
+    return NextResponse.json(await createModel(body), { status: 201 });
+  } catch (error) {
+    if (error instanceof ModelRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
+
+/** Replaces the whole registry; accepts a bare list or the `{ models }` export. */
+export async function PUT(request: Request) {
+  const body = (await request.json().catch(() => null)) as { models?: unknown } | null;
+  try {
+    const models = await replaceModels(Array.isArray(body) ? body : body?.models);
+    return NextResponse.json(models);
+  } catch (error) {
+    if (error instanceof ModelRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { computeRatings, parseRatingMethod } from "@/lib/ratings";
+import { listRuns } from "@/lib/runStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const method = parseRatingMethod(new URL(request.url).searchParams.get("method"));
+  return NextResponse.json(computeRatings(await listRuns(), method));
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { RubricError } from "@/lib/rubrics";
+import { deleteRubric, getRubric, updateRubric } from "@/lib/rubricStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const rubric = await getRubric(params.id);
+  if (!rubric) {
+    return NextResponse.json({ error: "Rubric not found." }, { status: 404 });
+  }
+  return NextResponse.json(rubric);
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const body = await request.json().catch(() => null);
+  try {
+    const rubric = await updateRubric(params.id, body);
+    if (!rubric) {
+      return NextResponse.json({ error: "Rubric not found." }, { status: 404 });
+    }
+    return NextResponse.json(rubric);
+  } catch (error) {
+    if (error instanceof RubricError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    if (!(await deleteRubric(params.id))) {
+      return NextResponse.json({ error: "Rubric not found." }, { status: 404 });
+    }
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof RubricError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { RubricError } from "@/lib/rubrics";
+import { createRubric, listRubrics } from "@/lib/rubricStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json(await listRubrics());
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  try {
+    return NextResponse.json(await createRubric(body), { status: 201 });
+  } catch (error) {
+    if (error instanceof RubricError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
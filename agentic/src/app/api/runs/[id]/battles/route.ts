@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { BattleError, validateBattleVote } from "@/lib/battles";
+import { sealRun, unsealId } from "@/lib/blind";
+import { getRun, recordBattle } from "@/lib/runStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const run = await getRun(params.id);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found." }, { status: 404 });
+  }
+  return NextResponse.json(sealRun(run).battles ?? []);
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const body = await request.json().catch(() => null);
+  const run = await getRun(params.id);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found." }, { status: 404 });
+  }
+  try {
+    // A sealed run's client only knows the aliases; store the real ids.
+    const vote = {
+      ...validateBattleVote(
+        body,
+        sealRun(run).result.responses.map((response) => response.modelId),
+      ),
+      votedAt: new Date().toISOString(),
+    };
+    await recordBattle(params.id, {
+      ...vote,
+      leftId: unsealId(run, vote.leftId),
+      rightId: unsealId(run, vote.rightId),
+    });
+    return NextResponse.json(vote, { status: 201 });
+  } catch (error) {
+    if (error instanceof BattleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { isSealed } from "@/lib/blind";
+import { EXPORT_FORMATS, exportFileName, exportRun } from "@/lib/exporters";
+import { getRun } from "@/lib/runStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const requested = new URL(request.url).searchParams.get("format") ?? "json";
+  const option = EXPORT_FORMATS.find((item) => item.format === requested);
+  if (!option) {
+    return NextResponse.json(
+      { error: `Format must be one of ${EXPORT_FORMATS.map((item) => item.format).join(", ")}.` },
+      { status: 400 },
+    );
+  }
+  const run = await getRun(params.id);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found." }, { status: 404 });
+  }
+  if (isSealed(run)) {
+    return NextResponse.json(
+      { error: "Vote on this blind run before exporting it." },
+      { status: 409 },
+    );
+  }
+  return new Response(exportRun(run, option.format), {
+    headers: {
+      "content-type": `${option.mimeType}; charset=utf-8`,
+      "content-disposition": `attachment; filename="${exportFileName(run, option.format)}"`,
+    },
+  });
+}
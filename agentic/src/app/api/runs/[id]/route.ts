@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { sealRun, unsealId } from "@/lib/blind";
+import { getRun, recordUserChoice } from "@/lib/runStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const run = await getRun(params.id);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found." }, { status: 404 });
+  }
+  return NextResponse.json(sealRun(run));
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const body = (await request.json().catch(() => null)) as { userChoice?: unknown } | null;
+  const userChoice = body?.userChoice;
+  if (userChoice !== null && typeof userChoice !== "string") {
+    return NextResponse.json(
+      { error: "userChoice must be a model id or null." },
+      { status: 400 },
+    );
+  }
+  const run = await getRun(params.id);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found." }, { status: 404 });
+  }
+  const modelId = userChoice && unsealId(run, userChoice);
+  if (modelId && !run.models.some((model) => model.id === modelId)) {
+    return NextResponse.json(
+      { error: `Model ${userChoice} was not part of this run.` },
+      { status: 400 },
+    );
+  }
+  const updated = await recordUserChoice(params.id, modelId);
+  return NextResponse.json(updated && sealRun(updated));
+}
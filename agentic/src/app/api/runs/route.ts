@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { sealRun } from "@/lib/blind";
+import { listRuns, summariseRun } from "@/lib/runStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const runs = await listRuns();
+  return NextResponse.json(runs.map((run) => summariseRun(sealRun(run))));
+}
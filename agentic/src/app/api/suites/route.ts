@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import type { SuiteEvent } from "@/types";
+import { AggregationError, validateAggregation } from "@/lib/aggregation";
+import { encodeEvent } from "@/lib/eventStream";
+import { listModels } from "@/lib/modelStore";
+import { getRubric } from "@/lib/rubricStore";
+import { DEFAULT_RUBRIC_ID } from "@/lib/rubrics";
+import { buildSuiteRequests, runSuite } from "@/lib/suiteRunner";
+import { parsePromptSuite, SuiteParseError, type SuiteFormat } from "@/lib/suites";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface SuiteRequestBody {
+  content?: unknown;
+  format?: unknown;
+  modelIds?: unknown;
+  rubricId?: unknown;
+  aggregation?: unknown;
+}
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as SuiteRequestBody | null;
+  if (!body || typeof body.content !== "string") {
+    return NextResponse.json({ error: "Provide the suite as a content string." }, { status: 400 });
+  }
+  const format =
+    body.format === "jsonl" || body.format === "csv" ? (body.format as SuiteFormat) : undefined;
+  const modelIds = Array.isArray(body.modelIds)
+    ? body.modelIds.filter((id): id is string => typeof id === "string")
+    : [];
+
+  const rubricId = typeof body.rubricId === "string" ? body.rubricId : DEFAULT_RUBRIC_ID;
+  let models;
+  let rubric;
+  let rows;
+  let aggregation;
+  try {
+    const [storedModels, storedRubric] = await Promise.all([listModels(), getRubric(rubricId)]);
+    if (!storedRubric) {
+      return NextResponse.json({ error: `Unknown rubric "${rubricId}".` }, { status: 400 });
+    }
+    models = storedModels;
+    rubric = storedRubric;
+    aggregation = body.aggregation == null ? undefined : validateAggregation(body.aggregation);
+    rows = parsePromptSuite(body.content, format);
+    buildSuiteRequests(rows, modelIds, models, rubric, aggregation);
+  } catch (error) {
+    if (error instanceof SuiteParseError) {
+      return NextResponse.json({ error: error.message, line: error.line }, { status: 400 });
+    }
+    if (error instanceof AggregationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    // Unreadable stores fail before the stream opens, so they answer in JSON too.
+    const message = error instanceof Error ? error.message : "Suite run failed.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        await runSuite(rows, modelIds, {
+          models,
+          rubric,
+          aggregation,
+          onEvent: (event) => controller.enqueue(encodeEvent<SuiteEvent>(event)),
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Suite run failed.";
+        controller.enqueue(encodeEvent<SuiteEvent>({ type: "error", message }));
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "content-type": "text/event-stream; charset=utf-8",
+      "cache-control": "no-cache, no-transform",
+      connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { TemplateError } from "@/lib/templates";
+import { deleteTemplate, getTemplate, updateTemplate } from "@/lib/templateStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const template = await getTemplate(params.id);
+  if (!template) {
+    return NextResponse.json({ error: "Template not found." }, { status: 404 });
+  }
+  return NextResponse.json(template);
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const body = await request.json().catch(() => null);
+  try {
+    const template = await updateTemplate(params.id, body);
+    if (!template) {
+      return NextResponse.json({ error: "Template not found." }, { status: 404 });
+    }
+    return NextResponse.json(template);
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    if (!(await deleteTemplate(params.id))) {
+      return NextResponse.json({ error: "Template not found." }, { status: 404 });
+    }
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { TemplateError } from "@/lib/templates";
+import { createTemplate, listTemplates } from "@/lib/templateStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json(await listTemplates());
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  try {
+    return NextResponse.json(await createTemplate(body), { status: 201 });
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
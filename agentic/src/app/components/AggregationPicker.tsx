@@ -0,0 +1,110 @@
+"use client";
+
+import type { AggregationConfig } from "@/types";
+import { AGGREGATION_PRESETS, describeAggregation, matchPreset } from "@/lib/aggregation";
+
+interface AggregationPickerProps {
+  value: AggregationConfig;
+  onChange: (config: AggregationConfig) => void;
+}
+
+const CUSTOM = "custom";
+
+export function AggregationPicker({ value, onChange }: AggregationPickerProps) {
+  const preset = matchPreset(value);
+
+  const setWeight = (key: keyof AggregationConfig["weights"], raw: string) => {
+    const weight = Number(raw);
+    if (raw.trim() && Number.isFinite(weight) && weight >= 0) {
+      onChange({ ...value, weights: { ...value.weights, [key]: weight } });
+    }
+  };
+
+  return (
+    <section className="card grid" style={{ gap: "1rem" }}>
+      <div>
+        <p className="sectionTitle">Leaderboard aggregation</p>
+        <p className="cardSubtitle" style={{ marginBottom: 0 }}>
+          How own scores, peer reviews and the self-check are folded into the aggregate.
+        </p>
+      </div>
+      <select
+        className="select"
+        value={preset?.id ?? CUSTOM}
+        onChange={(event) => {
+          const next = AGGREGATION_PRESETS.find((item) => item.id === event.target.value);
+          if (next) onChange(next.config);
+        }}
+      >
+        {AGGREGATION_PRESETS.map((item) => (
+          <option key={item.id} value={item.id}>
+            {item.label} — {item.description}
+          </option>
+        ))}
+        {preset ? null : <option value={CUSTOM}>Custom</option>}
+      </select>
+      <div className="flexRow" style={{ flexWrap: "wrap", gap: "1rem", fontSize: "0.9rem" }}>
+        <Toggle
+          label="Exclude self-review"
+          checked={value.excludeSelf}
+          onChange={(excludeSelf) => onChange({ ...value, excludeSelf })}
+        />
+        <Toggle
+          label="Z-score each reviewer"
+          checked={value.normalisation === "zscore"}
+          onChange={(on) => onChange({ ...value, normalisation: on ? "zscore" : "none" })}
+        />
+        <Toggle
+          label="Weight reviewers by reliability"
+          checked={value.peerWeighting === "reliability"}
+          onChange={(on) => onChange({ ...value, peerWeighting: on ? "reliability" : "uniform" })}
+        />
+        <Toggle
+          label="Median peer score"
+          checked={value.peerAverage === "median"}
+          onChange={(on) => onChange({ ...value, peerAverage: on ? "median" : "mean" })}
+        />
+      </div>
+      <div className="flexRow" style={{ gap: "0.75rem", flexWrap: "wrap" }}>
+        {(["own", "peer", "self"] as const).map((key) => (
+          <label key={key} className="flexRow" style={{ gap: "0.4rem", fontSize: "0.9rem" }}>
+            <span className="fieldLabel" style={{ marginBottom: 0 }}>
+              {key} weight
+            </span>
+            <input
+              className="input"
+              style={{ width: "5rem" }}
+              inputMode="decimal"
+              disabled={key === "self" && value.excludeSelf}
+              defaultValue={value.weights[key]}
+              key={`${key}-${value.weights[key]}`}
+              onBlur={(event) => setWeight(key, event.target.value)}
+            />
+          </label>
+        ))}
+      </div>
+      <p style={{ fontSize: "0.85rem", color: "rgba(226,232,240,0.65)" }}>
+        {describeAggregation(value).join(" • ")}
+      </p>
+    </section>
+  );
+}
+
+interface ToggleProps {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+function Toggle({ label, checked, onChange }: ToggleProps) {
+  return (
+    <label className="flexRow" style={{ gap: "0.4rem", cursor: "pointer" }}>
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(event) => onChange(event.target.checked)}
+      />
+      {label}
+    </label>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import type { ArbiterConfig, ArbiterProtocol, ModelOption, PanelVoting } from "@/types";
+import {
+  ARBITER_PROTOCOLS,
+  BUILT_IN_ARBITER,
+  describeArbiter,
+  MAX_JUDGES,
+  MIN_SHORTLIST,
+  PANEL_VOTINGS,
+} from "@/lib/arbiter";
+import { MAX_SELECTIONS } from "@/lib/models";
+
+interface ArbiterPickerProps {
+  /** Every registered model; judges need not be in the comparison. */
+  models: ModelOption[];
+  value: ArbiterConfig;
+  onChange: (config: ArbiterConfig) => void;
+}
+
+export function ArbiterPicker({ models, value, onChange }: ArbiterPickerProps) {
+  const nameOf = (modelId: string) =>
+    models.find((model) => model.id === modelId)?.name ?? modelId;
+
+  const toggleJudge = (modelId: string) => {
+    const judgeIds = value.judgeIds.includes(modelId)
+      ? value.judgeIds.filter((id) => id !== modelId)
+      : [...value.judgeIds, modelId];
+    if (judgeIds.length <= MAX_JUDGES) onChange({ ...value, judgeIds });
+  };
+
+  return (
+    <section className="card grid" style={{ gap: "1rem" }}>
+      <div>
+        <p className="sectionTitle">Arbiter</p>
+        <p className="cardSubtitle" style={{ marginBottom: 0 }}>
+          Who ranks the shortlist and how. With no judges ticked the built-in{" "}
+          {BUILT_IN_ARBITER.name} arbiter decides; two or more form a voting panel.
+        </p>
+      </div>
+      <div
+        className="grid"
+        style={{ gridTemplateColumns: "repeat(auto-fit, minmax(180px, 1fr))", gap: "0.75rem" }}
+      >
+        <label style={{ display: "grid", gap: "0.35rem" }}>
+          <span className="fieldLabel" style={{ marginBottom: 0 }}>
+            Protocol
+          </span>
+          <select
+            className="select"
+            value={value.protocol}
+            onChange={(event) =>
+              onChange({ ...value, protocol: event.target.value as ArbiterProtocol })
+            }
+          >
+            {ARBITER_PROTOCOLS.map((item) => (
+              <option key={item.id} value={item.id} title={item.description}>
+                {item.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={{ display: "grid", gap: "0.35rem" }}>
+          <span className="fieldLabel" style={{ marginBottom: 0 }}>
+            Panel voting
+          </span>
+          <select
+            className="select"
+            value={value.voting}
+            disabled={value.judgeIds.length < 2}
+            onChange={(event) => onChange({ ...value, voting: event.target.value as PanelVoting })}
+          >
+            {PANEL_VOTINGS.map((item) => (
+              <option key={item.id} value={item.id} title={item.description}>
+                {item.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={{ display: "grid", gap: "0.35rem" }}>
+          <span className="fieldLabel" style={{ marginBottom: 0 }}>
+            Shortlist size
+          </span>
+          <select
+            className="select"
+            value={value.shortlistSize}
+            onChange={(event) => onChange({ ...value, shortlistSize: Number(event.target.value) })}
+          >
+            {Array.from(
+              { length: MAX_SELECTIONS - MIN_SHORTLIST + 1 },
+              (_, index) => index + MIN_SHORTLIST,
+            ).map((size) => (
+              <option key={size} value={size}>
+                Top {size}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="grid" style={{ gap: "0.5rem" }}>
+        <p className="fieldLabel" style={{ marginBottom: 0 }}>
+          Judges (up to {MAX_JUDGES})
+        </p>
+        <div className="flexRow" style={{ flexWrap: "wrap", gap: "1rem", fontSize: "0.9rem" }}>
+          {models.map((model) => (
+            <label key={model.id} className="flexRow" style={{ gap: "0.4rem", cursor: "pointer" }}>
+              <input
+                type="checkbox"
+                checked={value.judgeIds.includes(model.id)}
+                disabled={
+                  !value.judgeIds.includes(model.id) && value.judgeIds.length >= MAX_JUDGES
+                }
+                onChange={() => toggleJudge(model.id)}
+              />
+              {model.name}
+            </label>
+          ))}
+        </div>
+      </div>
+      <p style={{ fontSize: "0.85rem", color: "rgba(226,232,240,0.65)" }}>
+        {describeArbiter(value, nameOf)} •{" "}
+        {ARBITER_PROTOCOLS.find((item) => item.id === value.protocol)?.description}
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Shuffle, Swords } from "lucide-react";
+import type { BattleOutcome, BattleVote, ModelOption, ModelResponse } from "@/types";
+import { BATTLE_OUTCOMES, battleResult, describeBattle, nextBattle } from "@/lib/battles";
+import { maskIdentities } from "@/lib/blind";
+
+interface BattleModeProps {
+  runId: string;
+  responses: ModelResponse[];
+  models: ModelOption[];
+  /** A sealed blind run's aliases: reveals use these until the results vote. */
+  aliases?: Record<string, string>;
+  battles: BattleVote[];
+  onBattlesChange: (battles: BattleVote[]) => void;
+}
+
+const SIDES = [
+  { key: "leftId", label: "Response A" },
+  { key: "rightId", label: "Response B" },
+] as const;
+
+export function BattleMode({
+  runId,
+  responses,
+  models,
+  aliases: runAliases,
+  battles,
+  onBattlesChange,
+}: BattleModeProps) {
+  const [revealed, setRevealed] = useState<BattleVote | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const modelIds = responses.map((response) => response.modelId);
+  const pairing = revealed ?? nextBattle(modelIds, battles, runId);
+  const nameOf = (modelId: string) =>
+    runAliases?.[modelId] ?? models.find((model) => model.id === modelId)?.name ?? modelId;
+
+  if (!pairing) {
+    return (
+      <section className="card" style={{ textAlign: "center", color: "rgba(226,232,240,0.7)" }}>
+        Battles need at least two responses.
+      </section>
+    );
+  }
+
+  // Every roster name is masked, not just the pair's, so cross-references stay blind too.
+  const aliases = models.map((model) => ({
+    model,
+    alias:
+      model.id === pairing.leftId
+        ? "Response A"
+        : model.id === pairing.rightId
+          ? "Response B"
+          : "another model",
+  }));
+  const result = revealed ? battleResult(revealed) : null;
+
+  const vote = async (outcome: BattleOutcome) => {
+    setIsSaving(true);
+    setErrorMessage(null);
+    try {
+      const response = await fetch(`/api/runs/${runId}/battles`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ ...pairing, outcome }),
+      });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(payload.error ?? `Vote failed with status ${response.status}.`);
+      }
+      setRevealed(payload as BattleVote);
+      onBattlesChange([...battles, payload as BattleVote]);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Your vote could not be saved.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <section className="card grid" style={{ gap: "1.25rem", padding: "1.5rem" }}>
+      <header className="flexRow" style={{ justifyContent: "space-between", flexWrap: "wrap" }}>
+        <div>
+          <p className="sectionTitle">Blind battle</p>
+          <p className="cardSubtitle" style={{ marginBottom: 0 }}>
+            Two anonymised answers to the same prompt. Names stay hidden until you vote, and
+            every vote feeds the run history and the global ratings.
+          </p>
+        </div>
+        <span className="badge badgeNeutral">
+          <Swords size={14} /> {battles.length} vote{battles.length === 1 ? "" : "s"} on this run
+        </span>
+      </header>
+      <div
+        className="grid"
+        style={{ gridTemplateColumns: "repeat(auto-fit, minmax(280px, 1fr))", gap: "1rem" }}
+      >
+        {SIDES.map((side) => {
+          const modelId = pairing[side.key];
+          const response = responses.find((item) => item.modelId === modelId);
+          const model = models.find((item) => item.id === modelId);
+          const won = result?.winner === modelId;
+          return (
+            <article
+              key={side.key}
+              className="card"
+              style={{
+                padding: "1.25rem",
+                border: won ? "1px solid rgba(14,165,233,0.7)" : "1px solid rgba(148,163,184,0.25)",
+                background: won ? "rgba(14,165,233,0.15)" : "rgba(15,23,42,0.55)",
+              }}
+            >
+              <header className="flexRow" style={{ justifyContent: "space-between", gap: "0.5rem" }}>
+                <p style={{ fontWeight: 600 }}>{side.label}</p>
+                {revealed ? (
+                  <span className={`badge ${won ? "badgePrimary" : "badgeNeutral"}`}>
+                    {nameOf(modelId)}
+                    {model && !runAliases ? ` • ${model.provider}` : ""}
+                  </span>
+                ) : null}
+              </header>
+              <p style={{ marginTop: "0.85rem", whiteSpace: "pre-line", lineHeight: 1.5 }}>
+                {response ? maskIdentities(response.content, aliases) : "No response recorded."}
+              </p>
+            </article>
+          );
+        })}
+      </div>
+      {revealed ? (
+        <div className="flexRow" style={{ justifyContent: "space-between", flexWrap: "wrap" }}>
+          <p style={{ color: "rgba(226,232,240,0.75)" }}>{describeBattle(revealed, nameOf)}.</p>
+          <button type="button" className="buttonPrimary" onClick={() => setRevealed(null)}>
+            <Shuffle size={18} /> Next battle
+          </button>
+        </div>
+      ) : (
+        <div className="flexRow" style={{ gap: "0.75rem", flexWrap: "wrap" }}>
+          {BATTLE_OUTCOMES.map((outcome) => (
+            <button
+              key={outcome.id}
+              type="button"
+              className="buttonPrimary"
+              style={
+                outcome.id === "a" || outcome.id === "b"
+                  ? undefined
+                  : { background: "rgba(148,163,184,0.2)", color: "rgba(226,232,240,0.8)" }
+              }
+              disabled={isSaving}
+              onClick={() => vote(outcome.id)}
+            >
+              {outcome.label}
+            </button>
+          ))}
+          {isSaving ? <Loader2 size={18} className="spin" /> : null}
+        </div>
+      )}
+      {errorMessage ? <p style={{ color: "#fecaca" }}>{errorMessage}</p> : null}
+      {battles.length ? (
+        <div className="grid" style={{ gap: "0.35rem" }}>
+          <p className="fieldLabel" style={{ marginBottom: 0 }}>
+            Battle history
+          </p>
+          {[...battles].reverse().map((item) => (
+            <p
+              key={`${item.votedAt}-${item.leftId}-${item.rightId}`}
+              style={{ fontSize: "0.85rem", color: "rgba(226,232,240,0.65)" }}
+            >
+              {new Date(item.votedAt).toLocaleString("en")} • {describeBattle(item, nameOf)}
+            </p>
+          ))}
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { MessagesSquare, Plus, Trash2 } from "lucide-react";
+import type { ScenarioTurn } from "@/types";
+import { MAX_TURNS } from "@/lib/scenarios";
+
+/** The script as sent: the opening turn always carries the current prompt. */
+export function toScenarioPayload(turns: ScenarioTurn[], prompt: string) {
+  if (!turns.length) return undefined;
+  return turns.map((turn, index) => (index ? turn : { ...turn, content: prompt }));
+}
+
+interface ConversationEditorProps {
+  prompt: string;
+  /** Empty for a single-shot run. */
+  value: ScenarioTurn[];
+  onChange: (turns: ScenarioTurn[]) => void;
+}
+
+const EMPTY_FOLLOW_UP: ScenarioTurn = { content: "" };
+
+export function ConversationEditor({ prompt, value, onChange }: ConversationEditorProps) {
+  const updateTurn = (index: number, patch: Partial<ScenarioTurn>) =>
+    onChange(value.map((turn, position) => (position === index ? { ...turn, ...patch } : turn)));
+
+  return (
+    <section className="card grid" style={{ gap: "1rem" }}>
+      <header className="flexRow" style={{ justifyContent: "space-between", flexWrap: "wrap" }}>
+        <div>
+          <p className="sectionTitle">Conversation</p>
+          <p className="cardSubtitle" style={{ marginBottom: 0 }}>
+            Script follow-up turns to run every model through a whole dialogue. Reviewers
+            score each turn against its expectation and the conversation as a whole.
+          </p>
+        </div>
+        <button
+          type="button"
+          className="chip"
+          style={{ cursor: "pointer", color: "inherit" }}
+          onClick={() => onChange(value.length ? [] : [{ content: "" }, EMPTY_FOLLOW_UP])}
+        >
+          <MessagesSquare size={16} /> {value.length ? "Back to single-shot" : "Make it multi-turn"}
+        </button>
+      </header>
+      {value.map((turn, index) => (
+        <div
+          key={index}
+          className="card grid"
+          style={{ gap: "0.6rem", padding: "1rem", background: "rgba(15,23,42,0.55)" }}
+        >
+          <div className="flexRow" style={{ justifyContent: "space-between", gap: "0.75rem" }}>
+            <p className="fieldLabel" style={{ marginBottom: 0 }}>
+              Turn {index + 1}
+            </p>
+            {index ? (
+              <div className="flexRow" style={{ gap: "0.5rem" }}>
+                <select
+                  className="select"
+                  value={turn.simulated ? "simulated" : "scripted"}
+                  onChange={(event) =>
+                    updateTurn(index, { simulated: event.target.value === "simulated" })
+                  }
+                >
+                  <option value="scripted">Scripted message</option>
+                  <option value="simulated">Simulated user</option>
+                </select>
+                <button
+                  type="button"
+                  className="chip"
+                  style={{ cursor: "pointer", color: "inherit" }}
+                  onClick={() => onChange(value.filter((_, position) => position !== index))}
+                  aria-label={`Remove turn ${index + 1}`}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ) : null}
+          </div>
+          {index ? (
+            <textarea
+              className="textarea"
+              style={{ minHeight: "70px" }}
+              placeholder={
+                turn.simulated
+                  ? "The simulated user's ask, e.g. Could this work on half the budget?"
+                  : "The user's next message..."
+              }
+              value={turn.content}
+              onChange={(event) => updateTurn(index, { content: event.target.value })}
+            />
+          ) : (
+            <p style={{ fontSize: "0.9rem", color: "rgba(226,232,240,0.7)" }}>
+              {prompt.trim()
+                ? prompt.length > 160
+                  ? `${prompt.slice(0, 160)}…`
+                  : prompt
+                : "The prompt above opens the conversation."}
+            </p>
+          )}
+          <input
+            className="input"
+            placeholder="Expectation for the reply (optional), e.g. Keeps the policy and asks one clarifying question."
+            value={turn.expectation ?? ""}
+            onChange={(event) => updateTurn(index, { expectation: event.target.value })}
+          />
+        </div>
+      ))}
+      {value.length ? (
+        <div className="flexRow" style={{ justifyContent: "space-between", flexWrap: "wrap" }}>
+          <p style={{ fontSize: "0.85rem", color: "rgba(226,232,240,0.65)" }}>
+            Simulated users quote a point from the model&apos;s previous reply, so each model is
+            pushed on its own words.
+          </p>
+          <button
+            type="button"
+            className="chip"
+            style={{ cursor: "pointer", color: "inherit" }}
+            disabled={value.length >= MAX_TURNS}
+            onClick={() => onChange([...value, EMPTY_FOLLOW_UP])}
+          >
+            <Plus size={16} /> Add turn ({value.length}/{MAX_TURNS})
+          </button>
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,820 @@
+"use client";
+
+import Link from "next/link";
+import {
+  AlertTriangle,
+  ArrowRight,
+  Award,
+  BarChart3,
+  EyeOff,
+  Loader2,
+  Lock,
+  Sparkles,
+  Trophy,
+} from "lucide-react";
+import type {
+  CrossEvaluation,
+  ModelOption,
+  ResultState,
+  Rubric,
+  RubricMetric,
+  ToolTrace,
+  TranscriptTurn,
+} from "@/types";
+import { aggregationLabel, describeAggregation, resolveAggregation } from "@/lib/aggregation";
+import { ARBITER_PROTOCOLS, BUILT_IN_ARBITER, describeArbiter, resolveArbiter } from "@/lib/arbiter";
+import { aliasPairs, maskIdentities } from "@/lib/blind";
+import { analyseRaters } from "@/lib/raterAnalysis";
+import { resolveRubric } from "@/lib/rubrics";
+import { formatSpread } from "@/lib/sampling";
+import { turnPeerScores } from "@/lib/scenarios";
+import { formatInterval, formatPValue, tiedModelIds } from "@/lib/significance";
+import { describeToolCall } from "@/lib/tools";
+import { formatMetric, formatScore, joinNames, type AlignmentSummary } from "@/lib/scoring";
+import { heatColor, RaterAnalysisPanel } from "./RaterAnalysisPanel";
+
+/** Alternating accents that mark where one tie group ends and the next begins. */
+const TIE_GROUP_COLORS = ["rgba(167, 139, 250, 0.7)", "rgba(56, 189, 248, 0.7)"];
+
+export interface EvaluationDeckProps {
+  result: ResultState;
+  selectedModels: ModelOption[];
+  userChoice: string | null;
+  onUserChoice: (modelId: string) => void;
+  alignment: AlignmentSummary | null;
+  formatModelName: (id: string) => string;
+  isStreaming?: boolean;
+}
+
+export function EvaluationDeck({
+  result,
+  selectedModels: roster,
+  userChoice,
+  onUserChoice,
+  alignment,
+  formatModelName,
+  isStreaming = false,
+}: EvaluationDeckProps) {
+  const { responses, crossEvaluations, leaderboard, geminiVerdict, topThree } = result;
+  // Blind runs show aliases, and keep the arbiter's verdict sealed, until the user votes.
+  const sealed = Boolean(result.aliases) && !userChoice;
+  const nameOf = (modelId: string) =>
+    (sealed && result.aliases?.[modelId]) || formatModelName(modelId);
+  const reveal = (text: string) =>
+    sealed && result.aliases ? maskIdentities(text, aliasPairs(roster, result.aliases)) : text;
+  // While sealed, lists follow the shuffled aliases; roster order would give them away.
+  const ordered = <T,>(items: T[], idOf: (item: T) => string) =>
+    sealed ? [...items].sort((a, b) => nameOf(idOf(a)).localeCompare(nameOf(idOf(b)))) : items;
+  const skippedModelIds = result.skippedModelIds ?? [];
+  const selectedModels = ordered(
+    roster.filter((model) => !skippedModelIds.includes(model.id)),
+    (model) => model.id,
+  );
+  // Which models lacked an input channel points at their vendor, so it waits for the vote too.
+  const fallbackModelIds = sealed
+    ? []
+    : responses
+        .filter((response) => response.missingModalities?.length)
+        .map((response) => response.modelId);
+  const crossMatrix = buildMatrix(crossEvaluations, selectedModels);
+  const rubric = resolveRubric(result);
+  const aggregation = resolveAggregation(result);
+  const arbiter = resolveArbiter(result);
+  const arbiterName =
+    arbiter.judgeIds.length === 1
+      ? nameOf(arbiter.judgeIds[0])
+      : arbiter.judgeIds.length
+        ? "Panel"
+        : BUILT_IN_ARBITER.name;
+  const showReviewerWeight = leaderboard.some((entry) => entry.reviewerWeight !== undefined);
+  const significance = result.significance;
+  const tiedIds = tiedModelIds(leaderboard);
+  const showToolScore = leaderboard.some((entry) => entry.toolScore !== undefined);
+  const columnCount =
+    5 + (showReviewerWeight ? 1 : 0) + (showToolScore ? 1 : 0) + (significance ? 1 : 0);
+  const analysis = analyseRaters(crossEvaluations, selectedModels, rubric);
+  const raterAnalysis = {
+    ...analysis,
+    evaluators: ordered(analysis.evaluators, (item) => item.evaluatorId),
+  };
+  const providerOf = (id: string) =>
+    sealed
+      ? "Vendor hidden"
+      : selectedModels.find((model) => model.id === id)?.provider ?? "Unknown";
+
+  const topThreeNames = topThree.map((id) => nameOf(id)).join(" → ");
+  const expectedReviews = selectedModels.length * selectedModels.length;
+
+  return (
+    <div className="grid" style={{ gap: "1.5rem" }}>
+      <article className="card" style={{ padding: "1.5rem" }}>
+        <header className="flexRow" style={{ justifyContent: "space-between" }}>
+          <div>
+            <p className="sectionTitle">Leaderboard</p>
+            <p className="cardSubtitle" style={{ marginBottom: 0 }}>
+              Aggregate scoring blends own response quality, peer review, and self
+              reflection to surface the shortlist for the arbiter.
+            </p>
+            <div className="flexRow" style={{ gap: "0.4rem", flexWrap: "wrap", marginTop: "0.6rem" }}>
+              <span className="badge badgePrimary">{aggregationLabel(aggregation)}</span>
+              {describeAggregation(aggregation).map((part) => (
+                <span key={part} className="badge badgeNeutral">
+                  {part}
+                </span>
+              ))}
+            </div>
+          </div>
+          <div className="flexRow" style={{ gap: "0.5rem", flexWrap: "wrap", justifyContent: "flex-end" }}>
+            <span className="chip" title={rubric.description}>
+              Rubric: {rubric.name}
+            </span>
+            {skippedModelIds.length ? (
+              <span className="chip" title="Left out because they lack an input channel this run needs">
+                <EyeOff size={16} /> Skipped:{" "}
+                {/* Skipped models have no alias, so only their number shows until the vote. */}
+                {sealed
+                  ? `${skippedModelIds.length} model${skippedModelIds.length === 1 ? "" : "s"}`
+                  : skippedModelIds.map(nameOf).join(", ")}
+              </span>
+            ) : null}
+            {fallbackModelIds.length ? (
+              <span
+                className="chip"
+                title="Evaluated in degraded mode: these models answered without some of the run's inputs"
+              >
+                <AlertTriangle size={16} color="#fde68a" /> Text-only fallback:{" "}
+                {fallbackModelIds.map(nameOf).join(", ")}
+              </span>
+            ) : null}
+            {isStreaming ? (
+              <span className="chip">
+                <Loader2 size={16} className="spin" />
+                {responses.length}/{selectedModels.length} responses • {crossEvaluations.length}/
+                {expectedReviews} reviews
+              </span>
+            ) : null}
+            {topThreeNames ? (
+              <div className="chip" style={{ textTransform: "uppercase", letterSpacing: "0.05em" }}>
+                <Trophy size={18} color="#38bdf8" /> {topThreeNames}
+                {isStreaming && !geminiVerdict ? " (provisional)" : ""}
+                {topThree.length > arbiter.shortlistSize ? " (widened for ties)" : ""}
+              </div>
+            ) : null}
+          </div>
+        </header>
+        <table className="table" style={{ marginTop: "1rem" }}>
+          <thead>
+            <tr>
+              <th style={{ width: "28%" }}>Model</th>
+              <th>Own score</th>
+              <th>Peer avg</th>
+              <th>Self check</th>
+              {showReviewerWeight ? (
+                <th title="Weight of this model's peer reviews">Reviewer weight</th>
+              ) : null}
+              {showToolScore ? (
+                <th title="Mean of tool selection and argument validity; a third of the aggregate">
+                  Tool use
+                </th>
+              ) : null}
+              <th>Aggregate</th>
+              {significance ? (
+                <th title={`Bootstrap over peer reviewers, ${significance.iterations} resamples`}>
+                  {Math.round(significance.level * 100)}% CI
+                </th>
+              ) : null}
+            </tr>
+          </thead>
+          <tbody>
+            {!leaderboard.length ? (
+              <tr>
+                <td colSpan={columnCount} style={{ color: "rgba(226,232,240,0.6)" }}>
+                  Waiting for the first responses…
+                </td>
+              </tr>
+            ) : null}
+            {leaderboard.map((entry, index) => {
+              const response = responses.find((item) => item.modelId === entry.modelId);
+              const selfReflection = crossEvaluations.find(
+                (item) =>
+                  item.evaluatorId === entry.modelId && item.targetId === entry.modelId,
+              );
+              const isTied = tiedIds.has(entry.modelId);
+              return (
+                <tr
+                  key={entry.modelId}
+                  style={
+                    entry.tieGroup !== undefined
+                      ? { boxShadow: `inset 3px 0 0 ${TIE_GROUP_COLORS[entry.tieGroup % 2]}` }
+                      : undefined
+                  }
+                >
+                  <td>
+                    <div className="flexRow" style={{ gap: "0.6rem" }}>
+                      <span className="badge badgeNeutral">#{index + 1}</span>
+                      <div>
+                        <p style={{ fontWeight: 600 }}>
+                          {nameOf(entry.modelId)}
+                          {isTied ? (
+                            <span
+                              className="badge badgeNeutral"
+                              style={{ marginLeft: "0.5rem" }}
+                              title="Not significantly apart from the neighbouring models in this group"
+                            >
+                              tie group {entry.tieGroup}
+                            </span>
+                          ) : null}
+                          {response?.missingModalities?.length && !sealed ? (
+                            <span
+                              className="badge badgeNeutral"
+                              style={{ marginLeft: "0.5rem" }}
+                              title="Answered without these inputs; the model cannot take them"
+                            >
+                              no {response.missingModalities.join(" / ")}
+                            </span>
+                          ) : null}
+                        </p>
+                        <p style={{ fontSize: "0.8rem", color: "rgba(226,232,240,0.6)" }}>
+                          {response ? reveal(response.modalityNotes) : null}
+                        </p>
+                      </div>
+                    </div>
+                  </td>
+                  <td>{formatScore(entry.ownScore)}</td>
+                  <td>{formatScore(entry.crossScore)}</td>
+                  <td style={aggregation.excludeSelf ? { opacity: 0.5 } : undefined}>
+                    {selfReflection ? formatScore(selfReflection.overall) : "-"}
+                  </td>
+                  {showReviewerWeight ? <td>{entry.reviewerWeight ?? "-"}</td> : null}
+                  {showToolScore ? (
+                    <td>{entry.toolScore !== undefined ? formatScore(entry.toolScore) : "-"}</td>
+                  ) : null}
+                  <td style={{ fontWeight: 600 }}>
+                    {entry.aggregateScore}
+                    {entry.spread ? (
+                      <span
+                        style={{
+                          display: "block",
+                          fontSize: "0.75rem",
+                          fontWeight: 400,
+                          color: "rgba(226,232,240,0.6)",
+                        }}
+                        title={`Variance of the aggregate over ${entry.spread.samples} samples`}
+                      >
+                        ± {entry.spread.aggregateScore.variance.toFixed(3)} var
+                      </span>
+                    ) : null}
+                  </td>
+                  {significance ? (
+                    <td style={{ fontSize: "0.85rem", color: "rgba(226,232,240,0.75)" }}>
+                      {entry.interval ? formatInterval(entry.interval) : "-"}
+                    </td>
+                  ) : null}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {significance?.comparisons.length ? (
+          <div className="flexRow" style={{ gap: "0.4rem", flexWrap: "wrap", marginTop: "0.75rem" }}>
+            {significance.comparisons.map((comparison) => (
+              <span
+                key={comparison.higherId}
+                className="chip"
+                style={{ fontSize: "0.8rem", opacity: comparison.significant ? 1 : 0.7 }}
+                title={`Gap of ${comparison.difference}; significant below p = ${significance.alpha}`}
+              >
+                {nameOf(comparison.higherId)}{" "}
+                {comparison.significant ? ">" : "≈"} {nameOf(comparison.lowerId)} (
+                {formatPValue(comparison.pValue)})
+              </span>
+            ))}
+          </div>
+        ) : null}
+      </article>
+
+      {result.samples && !isStreaming ? (
+        <article className="card" style={{ padding: "1.5rem" }}>
+          <p className="sectionTitle">Sample spread</p>
+          <p className="cardSubtitle">
+            Mean ± variance of each model&apos;s own metric scores and aggregate over{" "}
+            {result.samples.length} samples. The matrix below shows the first sample.
+          </p>
+          <div style={{ overflowX: "auto" }}>
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Model</th>
+                  {rubric.metrics.map((metric) => (
+                    <th key={metric.key}>{metric.label}</th>
+                  ))}
+                  <th>Aggregate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {leaderboard.map((entry) => (
+                  <tr key={entry.modelId}>
+                    <td style={{ fontWeight: 600 }}>{nameOf(entry.modelId)}</td>
+                    {rubric.metrics.map((metric) => (
+                      <td key={metric.key}>
+                        {entry.spread ? formatSpread(entry.spread.metrics[metric.key]) : "-"}
+                      </td>
+                    ))}
+                    <td style={{ fontWeight: 600 }}>
+                      {entry.spread ? formatSpread(entry.spread.aggregateScore) : "-"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </article>
+      ) : null}
+
+      <article className="card" style={{ padding: "1.5rem" }}>
+        <header className="flexRow" style={{ justifyContent: "space-between" }}>
+          <div>
+            <p className="sectionTitle">Cross-evaluation matrix</p>
+            <p className="cardSubtitle" style={{ marginBottom: 0 }}>
+              Each model reviews every other model&apos;s response to triangulate{" "}
+              {joinNames(rubric.metrics.map((metric) => metric.label.toLowerCase()))}.
+            </p>
+          </div>
+          <div className="flexRow" style={{ gap: "0.4rem", flexWrap: "wrap", fontSize: "0.75rem" }}>
+            <span className="chip" style={{ background: heatColor(1) }}>
+              Kinder than peers
+            </span>
+            <span className="chip" style={{ background: heatColor(-1) }}>
+              Harsher than peers
+            </span>
+            <span className="chip" style={{ border: "1px dashed rgba(226,232,240,0.5)" }}>
+              Self-review
+            </span>
+          </div>
+        </header>
+        <div style={{ overflowX: "auto", marginTop: "1rem" }}>
+          <table className="table" style={{ minWidth: "640px" }}>
+            <thead>
+              <tr>
+                <th>Evaluator → Target</th>
+                {selectedModels.map((model) => (
+                  <th key={`header-${model.id}`}>{nameOf(model.id)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {selectedModels.map((rowModel) => (
+                <tr key={`row-${rowModel.id}`}>
+                  <td style={{ fontWeight: 600 }}>{nameOf(rowModel.id)}</td>
+                  {selectedModels.map((colModel) => (
+                    <td
+                      key={`${rowModel.id}-${colModel.id}`}
+                      style={{
+                        verticalAlign: "top",
+                        background: heatColor(raterAnalysis.deviations[rowModel.id]?.[colModel.id]),
+                        outline:
+                          rowModel.id === colModel.id
+                            ? "1px dashed rgba(226,232,240,0.5)"
+                            : undefined,
+                        outlineOffset: "-4px",
+                      }}
+                      title={describeDeviation(raterAnalysis.deviations[rowModel.id]?.[colModel.id])}
+                    >
+                      <MatrixCell
+                        cell={crossMatrix[rowModel.id][colModel.id]}
+                        rubric={rubric}
+                        pending={isStreaming}
+                        reveal={reveal}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </article>
+
+      {raterAnalysis.evaluators.length >= 2 ? (
+        <RaterAnalysisPanel
+          analysis={raterAnalysis}
+          formatModelName={nameOf}
+          providerOf={providerOf}
+        />
+      ) : null}
+
+      <article className="card" style={{ padding: "1.5rem" }}>
+        <header className="flexRow" style={{ justifyContent: "space-between" }}>
+          <div>
+            <p className="sectionTitle">Model narratives</p>
+            <p className="cardSubtitle" style={{ marginBottom: 0 }}>
+              Inspect the synthesised response summaries for each model to grasp how
+              they address the prompt.
+            </p>
+          </div>
+        </header>
+        <div className="grid" style={{ gap: "1.25rem", marginTop: "1rem" }}>
+          {ordered(responses, (response) => response.modelId).map((response) => (
+            <div key={response.modelId} className="card" style={{ padding: "1.25rem" }}>
+              <div className="flexRow" style={{ justifyContent: "space-between" }}>
+                <div>
+                  <h3 style={{ fontSize: "1.1rem", fontWeight: 600 }}>
+                    {nameOf(response.modelId)}
+                  </h3>
+                  <p style={{ color: "rgba(226,232,240,0.6)", fontSize: "0.85rem" }}>
+                    {response.peerScored && !Object.keys(response.metrics).length
+                      ? "Awaiting peer review"
+                      : `${response.peerScored ? "Peer score" : "Aggregate score"} ${formatScore(response.overallScore)} / 10`}
+                  </p>
+                </div>
+                <span className="badge badgePrimary" style={{ alignSelf: "start" }}>
+                  {response.supportingPoints.length} key points
+                </span>
+              </div>
+              {response.transcript ? (
+                <Transcript
+                  turns={response.transcript}
+                  peerScores={turnPeerScores(crossEvaluations, response.modelId)}
+                  reveal={reveal}
+                />
+              ) : response.toolTrace ? (
+                <div
+                  className="grid"
+                  style={{
+                    gridTemplateColumns: "repeat(auto-fit, minmax(260px, 1fr))",
+                    gap: "1rem",
+                  }}
+                >
+                  <p style={{ marginTop: "0.85rem", whiteSpace: "pre-line", lineHeight: 1.5 }}>
+                    {reveal(response.content)}
+                  </p>
+                  <ToolTracePanel trace={response.toolTrace} />
+                </div>
+              ) : (
+                <p style={{ marginTop: "0.85rem", whiteSpace: "pre-line", lineHeight: 1.5 }}>
+                  {reveal(response.content)}
+                </p>
+              )}
+              <div className="divider" />
+              <div className="grid" style={{ gridTemplateColumns: "repeat(auto-fit, minmax(120px, 1fr))", gap: "0.75rem" }}>
+                {rubric.metrics
+                  .filter((metric) => response.metrics[metric.key] !== undefined)
+                  .map((metric) => (
+                    <MetricBadge
+                      key={metric.key}
+                      metric={metric}
+                      score={response.metrics[metric.key]}
+                    />
+                  ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </article>
+
+      {geminiVerdict && sealed ? (
+        <article className="card flexRow" style={{ padding: "1.5rem", gap: "1rem" }}>
+          <Lock size={28} color="#38bdf8" />
+          <div>
+            <p className="sectionTitle">{arbiterName} final ranking sealed</p>
+            <p className="cardSubtitle" style={{ marginBottom: 0 }}>
+              This is a blind run. Cast your vote below to reveal the arbiter&apos;s ranking
+              and which model wrote each answer.
+            </p>
+          </div>
+        </article>
+      ) : null}
+
+      {geminiVerdict && !sealed ? (
+        <article className="card" style={{ padding: "1.5rem" }}>
+          <header className="flexRow" style={{ justifyContent: "space-between" }}>
+            <div>
+              <p className="sectionTitle">{arbiterName} final ranking</p>
+              <p className="cardSubtitle" style={{ marginBottom: 0 }}>
+                {describeArbiter(arbiter, nameOf)}.{" "}
+                {ARBITER_PROTOCOLS.find((item) => item.id === arbiter.protocol)?.description}
+              </p>
+            </div>
+            <div className="flexRow" style={{ gap: "0.75rem" }}>
+              {geminiVerdict.confidence !== undefined ? (
+                <span
+                  className="badge badgeNeutral"
+                  title={
+                    geminiVerdict.ballots
+                      ? "Share of ballots that put the winner first"
+                      : "Winner's margin over the runner-up"
+                  }
+                >
+                  Confidence {Math.round(geminiVerdict.confidence * 100)}%
+                </span>
+              ) : null}
+              <Award size={32} color="#38bdf8" />
+            </div>
+          </header>
+          <div className="grid" style={{ gap: "1rem", marginTop: "1rem" }}>
+            {geminiVerdict.orderedModelIds.map((modelId, index) => (
+              <div
+                key={`gemini-${modelId}`}
+                className="card"
+                style={{
+                  border: index === 0 ? "1px solid rgba(14,165,233,0.7)" : "1px solid rgba(148,163,184,0.25)",
+                  background: index === 0 ? "rgba(14,165,233,0.2)" : "rgba(15,23,42,0.55)",
+                  padding: "1rem 1.25rem",
+                  display: "flex",
+                  justifyContent: "space-between",
+                  alignItems: "center",
+                }}
+              >
+                <div>
+                  <p style={{ fontWeight: 600, fontSize: "1rem" }}>
+                    #{index + 1} {nameOf(modelId)}
+                  </p>
+                  <p style={{ color: "rgba(226,232,240,0.65)", fontSize: "0.85rem" }}>
+                    {geminiVerdict.rationales?.[modelId] ??
+                      `Aggregate composite ${index + 1 === 1 ? "winner" : "candidate"}`}
+                  </p>
+                </div>
+                {index === 0 ? <Sparkles size={22} color="#f8fafc" /> : <ArrowRight size={20} color="rgba(148,163,184,0.8)" />}
+              </div>
+            ))}
+          </div>
+          <p style={{ marginTop: "1rem", color: "rgba(226,232,240,0.75)", fontSize: "0.95rem" }}>
+            {geminiVerdict.commentary}
+          </p>
+          {geminiVerdict.ballots ? (
+            <table className="table" style={{ marginTop: "1rem" }}>
+              <thead>
+                <tr>
+                  <th style={{ width: "28%" }}>Judge</th>
+                  <th>Ballot</th>
+                </tr>
+              </thead>
+              <tbody>
+                {geminiVerdict.ballots.map((ballot) => (
+                  <tr key={`ballot-${ballot.judgeId}`}>
+                    <td>{nameOf(ballot.judgeId)}</td>
+                    <td>
+                      {ballot.orderedModelIds.map((modelId, index) => (
+                        <span
+                          key={modelId}
+                          title={ballot.rationales[modelId]}
+                          style={{ marginRight: "0.5rem" }}
+                        >
+                          {index ? "→ " : ""}
+                          {nameOf(modelId)}
+                        </span>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : null}
+        </article>
+      ) : null}
+
+      <article className="card" style={{ padding: "1.5rem" }}>
+        <header className="flexRow" style={{ justifyContent: "space-between" }}>
+          <div>
+            <p className="sectionTitle">Your call vs the arbiter</p>
+            <p className="cardSubtitle" style={{ marginBottom: 0 }}>
+              Select the response you would deploy. We track agreement with the arbiter
+              across runs.
+              {sealed ? " Identities and the arbiter's pick stay hidden until you vote." : ""}
+            </p>
+          </div>
+          <Link href="/analytics" className="chip">
+            <BarChart3 size={16} /> Agreement analytics
+          </Link>
+        </header>
+        <div className="grid" style={{ gap: "0.75rem", marginTop: "1rem" }}>
+          {selectedModels.map((model) => {
+            const isChosen = userChoice === model.id;
+            const geminiTop = geminiVerdict?.orderedModelIds[0];
+            return (
+              <button
+                key={`user-${model.id}`}
+                type="button"
+                className={`card cardInteractive ${isChosen ? "cardInteractiveSelected" : ""}`}
+                style={{
+                  padding: "1rem",
+                  border: isChosen
+                    ? "1px solid rgba(14,165,233,0.75)"
+                    : "1px solid rgba(148,163,184,0.25)",
+                  background: isChosen
+                    ? "rgba(14,165,233,0.2)"
+                    : "rgba(15,23,42,0.55)",
+                  display: "flex",
+                  justifyContent: "space-between",
+                  alignItems: "center",
+                }}
+                onClick={() => onUserChoice(model.id)}
+              >
+                <div>
+                  <p style={{ fontWeight: 600 }}>{nameOf(model.id)}</p>
+                  <p style={{ color: "rgba(226,232,240,0.65)", fontSize: "0.85rem" }}>
+                    {sealed
+                      ? "Identity hidden until you vote"
+                      : `${model.provider} • ${model.modality.join(" / ")}`}
+                  </p>
+                </div>
+                {geminiTop === model.id && !sealed ? (
+                  <span className="badge badgePrimary">{arbiterName} pick</span>
+                ) : null}
+              </button>
+            );
+          })}
+        </div>
+        {userChoice ? (
+          <div className="card" style={{ marginTop: "1rem", padding: "1rem", background: "rgba(15,23,42,0.75)" }}>
+            <p style={{ fontWeight: 600, marginBottom: "0.5rem" }}>
+              You voted for {nameOf(userChoice)}
+            </p>
+            {alignment ? (
+              <p style={{ color: "rgba(226,232,240,0.7)" }}>
+                Alignment status: <strong style={{ color: "#38bdf8" }}>{alignment.alignment}</strong>
+                {alignment.delta !== 999 ? ` (offset ${alignment.delta})` : ""}
+              </p>
+            ) : null}
+          </div>
+        ) : null}
+      </article>
+    </div>
+  );
+}
+
+function describeDeviation(deviation: number | undefined): string | undefined {
+  if (deviation === undefined) return undefined;
+  return `${deviation > 0 ? "+" : ""}${deviation} vs the other reviewers' mean`;
+}
+
+interface MatrixCellProps {
+  cell: CrossEvaluation | null;
+  rubric: Rubric;
+  pending?: boolean;
+  reveal: (text: string) => string;
+}
+
+function MatrixCell({ cell, rubric, pending = false, reveal }: MatrixCellProps) {
+  if (!cell && pending) return <Loader2 size={16} className="spin" color="rgba(148,163,184,0.6)" />;
+  if (!cell) return <span style={{ color: "rgba(148,163,184,0.5)" }}>—</span>;
+  const metrics = rubric.metrics.filter((metric) => cell.metrics[metric.key] !== undefined);
+  return (
+    <div style={{ display: "grid", gap: "0.4rem" }}>
+      <strong style={{ color: "#38bdf8" }}>{formatScore(cell.overall)}</strong>
+      <div style={{
+        display: "grid",
+        gap: "0.2rem",
+        fontSize: "0.75rem",
+        color: "rgba(226,232,240,0.65)",
+      }}>
+        {metrics.map((metric) => (
+          <span key={metric.key}>
+            {metric.label} {formatMetric(cell.metrics[metric.key], metric)}
+          </span>
+        ))}
+      </div>
+      {cell.turns?.length ? (
+        <span style={{ fontSize: "0.75rem", color: "rgba(226,232,240,0.65)" }}>
+          Turns {cell.turns.map((turn) => formatScore(turn.overall)).join(" · ")}
+        </span>
+      ) : null}
+      <p style={{ fontSize: "0.75rem", color: "rgba(226,232,240,0.6)" }}>
+        {reveal(cell.commentary)}
+      </p>
+    </div>
+  );
+}
+
+interface TranscriptProps {
+  turns: TranscriptTurn[];
+  /** Mean peer score per turn, in the same order. */
+  peerScores: Array<number | null>;
+  reveal: (text: string) => string;
+}
+
+function Transcript({ turns, peerScores, reveal }: TranscriptProps) {
+  return (
+    <div className="grid" style={{ gap: "0.75rem", marginTop: "0.85rem" }}>
+      {turns.map((turn, index) => (
+        <div key={index} className="grid" style={{ gap: "0.4rem" }}>
+          <div className="flexRow" style={{ gap: "0.4rem", flexWrap: "wrap" }}>
+            <span className="fieldLabel" style={{ marginBottom: 0 }}>
+              Turn {index + 1}
+            </span>
+            {turn.simulated ? <span className="badge badgeNeutral">simulated user</span> : null}
+            {turn.overallScore !== undefined ? (
+              <span className="badge badgeNeutral">Own {formatScore(turn.overallScore)}</span>
+            ) : null}
+            {peerScores[index] != null ? (
+              <span className="badge badgePrimary">Peers {formatScore(peerScores[index] as number)}</span>
+            ) : null}
+          </div>
+          <p
+            style={{
+              padding: "0.6rem 0.8rem",
+              borderRadius: "0.75rem",
+              background: "rgba(148,163,184,0.12)",
+              whiteSpace: "pre-line",
+            }}
+          >
+            <strong>User:</strong> {reveal(turn.user)}
+          </p>
+          {turn.expectation ? (
+            <p style={{ fontSize: "0.8rem", color: "rgba(226,232,240,0.6)" }}>
+              Expected: {turn.expectation}
+            </p>
+          ) : null}
+          <p style={{ whiteSpace: "pre-line", lineHeight: 1.5 }}>{reveal(turn.reply)}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ToolTracePanel({ trace }: { trace: ToolTrace }) {
+  return (
+    <div
+      className="card grid"
+      style={{
+        gap: "0.6rem",
+        marginTop: "0.85rem",
+        padding: "0.9rem",
+        background: "rgba(148,163,184,0.08)",
+      }}
+    >
+      <div className="flexRow" style={{ gap: "0.4rem", flexWrap: "wrap" }}>
+        <span className="fieldLabel" style={{ marginBottom: 0 }}>
+          Tool trace
+        </span>
+        <span className="badge badgePrimary" title="Expected tools called, without distractors">
+          Selection {formatScore(trace.selection)}
+        </span>
+        <span className="badge badgeNeutral" title="Calls whose arguments matched the schema">
+          Arguments {formatScore(trace.argumentValidity)}
+        </span>
+        {trace.exhausted ? <span className="badge badgeNeutral">hit the call limit</span> : null}
+      </div>
+      {trace.calls.length ? (
+        trace.calls.map((call, index) => (
+          <div key={index} className="grid" style={{ gap: "0.25rem" }}>
+            <code style={{ fontSize: "0.8rem", wordBreak: "break-word" }}>
+              {index + 1}. {describeToolCall(call)}
+            </code>
+            <p
+              style={{
+                fontSize: "0.75rem",
+                wordBreak: "break-word",
+                color: call.error ? "#fca5a5" : "rgba(226,232,240,0.6)",
+              }}
+            >
+              {call.error ?? call.output}
+            </p>
+          </div>
+        ))
+      ) : (
+        <p style={{ fontSize: "0.8rem", color: "rgba(226,232,240,0.6)" }}>
+          Answered without calling any tools.
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface MetricBadgeProps {
+  metric: RubricMetric;
+  score: number;
+}
+
+function MetricBadge({ metric, score }: MetricBadgeProps) {
+  return (
+    <div
+      className="card"
+      style={{ padding: "0.65rem", background: "rgba(148,163,184,0.08)" }}
+      title={metric.description}
+    >
+      <p style={{ fontSize: "0.8rem", color: "rgba(226,232,240,0.65)", textTransform: "uppercase", letterSpacing: "0.05em" }}>
+        {metric.label}
+      </p>
+      <p style={{ fontWeight: 600, fontSize: "1rem" }}>{formatMetric(score, metric)}</p>
+    </div>
+  );
+}
+
+function buildMatrix(
+  evaluations: CrossEvaluation[],
+  models: ModelOption[],
+): Record<string, Record<string, CrossEvaluation | null>> {
+  const matrix: Record<string, Record<string, CrossEvaluation | null>> = {};
+  models.forEach((row) => {
+    matrix[row.id] = {};
+    models.forEach((col) => {
+      matrix[row.id][col.id] = null;
+    });
+  });
+  evaluations.forEach((entry) => {
+    if (!matrix[entry.evaluatorId]) matrix[entry.evaluatorId] = {} as Record<string, CrossEvaluation | null>;
+    matrix[entry.evaluatorId][entry.targetId] = entry;
+  });
+  return matrix;
+}
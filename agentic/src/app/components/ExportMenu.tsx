@@ -0,0 +1,47 @@
+"use client";
+
+import { Download } from "lucide-react";
+import {
+  EXPORT_FORMATS,
+  exportFileName,
+  exportRun,
+  type ExportableRun,
+  type ExportFormat,
+} from "@/lib/exporters";
+
+interface ExportMenuProps {
+  run: ExportableRun;
+}
+
+export function ExportMenu({ run }: ExportMenuProps) {
+  const download = (format: ExportFormat, mimeType: string) => {
+    const blob = new Blob([exportRun(run, format)], { type: `${mimeType};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement("a");
+    anchor.href = url;
+    anchor.download = exportFileName(run, format);
+    anchor.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <section className="card" style={{ padding: "1.25rem" }} aria-labelledby="run-export">
+      <p id="run-export" className="fieldLabel">
+        Export this run
+      </p>
+      <div className="flexRow" style={{ flexWrap: "wrap", gap: "0.5rem" }}>
+        {EXPORT_FORMATS.map((option) => (
+          <button
+            key={option.format}
+            type="button"
+            className="chip"
+            style={{ cursor: "pointer", color: "inherit" }}
+            onClick={() => download(option.format, option.mimeType)}
+          >
+            <Download size={14} /> {option.label}
+          </button>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ChevronRight, SlidersHorizontal } from "lucide-react";
+import type { ModelOption } from "@/types";
+import { MAX_SAMPLES } from "@/lib/sampling";
+
+/** Form state for one set of generation settings; blank fields inherit. */
+export interface ParamsDraft {
+  temperature: string;
+  maxTokens: string;
+  topP: string;
+  systemPrompt: string;
+}
+
+export const EMPTY_PARAMS: ParamsDraft = {
+  temperature: "",
+  maxTokens: "",
+  topP: "",
+  systemPrompt: "",
+};
+
+/** Drops blank fields; the server owns validation. */
+export function toParamsPayload(draft: ParamsDraft | undefined) {
+  if (!draft) return undefined;
+  const entries = Object.entries(draft).filter(([, value]) => value.trim());
+  return entries.length ? Object.fromEntries(entries) : undefined;
+}
+
+interface GenerationSettingsProps {
+  models: ModelOption[];
+  params: ParamsDraft;
+  onParamsChange: (params: ParamsDraft) => void;
+  modelParams: Record<string, ParamsDraft>;
+  onModelParamsChange: (modelParams: Record<string, ParamsDraft>) => void;
+  samples: number;
+  onSamplesChange: (samples: number) => void;
+}
+
+const NUMERIC_FIELDS: { key: Exclude<keyof ParamsDraft, "systemPrompt">; label: string }[] = [
+  { key: "temperature", label: "Temperature" },
+  { key: "maxTokens", label: "Max tokens" },
+  { key: "topP", label: "Top-p" },
+];
+
+export function GenerationSettings({
+  models,
+  params,
+  onParamsChange,
+  modelParams,
+  onModelParamsChange,
+  samples,
+  onSamplesChange,
+}: GenerationSettingsProps) {
+  const [openModelId, setOpenModelId] = useState<string | null>(null);
+  const overridden = models.filter((model) => toParamsPayload(modelParams[model.id]));
+
+  const updateModel = (modelId: string, key: keyof ParamsDraft, value: string) =>
+    onModelParamsChange({
+      ...modelParams,
+      [modelId]: { ...(modelParams[modelId] ?? EMPTY_PARAMS), [key]: value },
+    });
+
+  return (
+    <section className="card grid" style={{ gap: "1rem" }}>
+      <header className="flexRow" style={{ justifyContent: "space-between", flexWrap: "wrap" }}>
+        <div>
+          <p className="sectionTitle">Generation settings</p>
+          <p className="cardSubtitle" style={{ marginBottom: 0 }}>
+            Blank fields fall back to each model&apos;s registry defaults. Extra samples rank
+            models on their mean score and report the variance.
+          </p>
+        </div>
+        <div className="flexRow" style={{ gap: "0.5rem" }}>
+          {overridden.length ? (
+            <span className="badge badgeNeutral">
+              {overridden.length} model override{overridden.length === 1 ? "" : "s"}
+            </span>
+          ) : null}
+          <SlidersHorizontal size={18} color="rgba(148, 163, 184, 0.9)" />
+        </div>
+      </header>
+      <div
+        className="grid"
+        style={{ gridTemplateColumns: "repeat(auto-fit, minmax(150px, 1fr))", gap: "0.75rem" }}
+      >
+        <label style={{ display: "grid", gap: "0.35rem" }}>
+          <span className="fieldLabel" style={{ marginBottom: 0 }}>
+            Samples per model
+          </span>
+          <select
+            className="select"
+            value={samples}
+            onChange={(event) => onSamplesChange(Number(event.target.value))}
+          >
+            {Array.from({ length: MAX_SAMPLES }, (_, index) => index + 1).map((count) => (
+              <option key={count} value={count}>
+                {count === 1 ? "1 (single answer)" : `${count} (mean ± variance)`}
+              </option>
+            ))}
+          </select>
+        </label>
+        {NUMERIC_FIELDS.map((field) => (
+          <label key={field.key} style={{ display: "grid", gap: "0.35rem" }}>
+            <span className="fieldLabel" style={{ marginBottom: 0 }}>
+              {field.label}
+            </span>
+            <input
+              className="input"
+              inputMode="decimal"
+              value={params[field.key]}
+              placeholder="Model default"
+              onChange={(event) => onParamsChange({ ...params, [field.key]: event.target.value })}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="grid" style={{ gap: "0.5rem" }}>
+        <p className="fieldLabel" style={{ marginBottom: 0 }}>
+          Per-model overrides
+        </p>
+        {models.map((model) => {
+          const isOpen = openModelId === model.id;
+          const draft = modelParams[model.id] ?? EMPTY_PARAMS;
+          const inherited = (key: Exclude<keyof ParamsDraft, "systemPrompt">) => {
+            const fallback = model.defaultParams?.[key];
+            return params[key] || (fallback !== undefined ? String(fallback) : "default");
+          };
+          return (
+            <div key={model.id} className="card" style={{ padding: "0.75rem 1rem" }}>
+              <button
+                type="button"
+                className="flexRow"
+                style={{
+                  gap: "0.5rem",
+                  width: "100%",
+                  background: "transparent",
+                  border: "none",
+                  color: "inherit",
+                  cursor: "pointer",
+                  padding: 0,
+                }}
+                onClick={() => setOpenModelId(isOpen ? null : model.id)}
+                aria-expanded={isOpen}
+              >
+                {isOpen ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                <span style={{ fontWeight: 600 }}>{model.name}</span>
+                {toParamsPayload(draft) ? (
+                  <span className="badge badgePrimary">custom</span>
+                ) : null}
+              </button>
+              {isOpen ? (
+                <div className="grid" style={{ gap: "0.6rem", marginTop: "0.75rem" }}>
+                  <div
+                    className="grid"
+                    style={{ gridTemplateColumns: "repeat(3, minmax(0, 1fr))", gap: "0.5rem" }}
+                  >
+                    {NUMERIC_FIELDS.map((field) => (
+                      <input
+                        key={field.key}
+                        className="input"
+                        inputMode="decimal"
+                        value={draft[field.key]}
+                        placeholder={`${field.label}: ${inherited(field.key)}`}
+                        aria-label={`${field.label} for ${model.name}`}
+                        onChange={(event) => updateModel(model.id, field.key, event.target.value)}
+                      />
+                    ))}
+                  </div>
+                  <textarea
+                    className="textarea"
+                    style={{ minHeight: "70px" }}
+                    value={draft.systemPrompt}
+                    placeholder="System prompt for this model only; blank uses the run's"
+                    aria-label={`System prompt for ${model.name}`}
+                    onChange={(event) => updateModel(model.id, "systemPrompt", event.target.value)}
+                  />
+                </div>
+              ) : null}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,147 @@
+export interface ChartPoint {
+  x: string;
+  y: number;
+  /** Optional interval drawn as a shaded band around the line. */
+  lower?: number;
+  upper?: number;
+}
+
+export interface ChartSeries {
+  label: string;
+  color: string;
+  points: ChartPoint[];
+}
+
+interface LineChartProps {
+  series: ChartSeries[];
+  yDomain?: [number, number];
+  formatY?: (value: number) => string;
+  formatX?: (label: string) => string;
+  height?: number;
+  ariaLabel: string;
+}
+
+const WIDTH = 640;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 48 };
+
+export function LineChart({
+  series,
+  yDomain,
+  formatY = (value) => value.toFixed(1),
+  formatX = (label) => label,
+  height = 220,
+  ariaLabel,
+}: LineChartProps) {
+  const xLabels = Array.from(
+    new Set(series.flatMap((item) => item.points.map((point) => point.x))),
+  ).sort();
+  const values = series.flatMap((item) =>
+    item.points.flatMap((point) => [point.y, point.lower ?? point.y, point.upper ?? point.y]),
+  );
+  if (!xLabels.length || !values.length) {
+    return (
+      <p style={{ color: "rgba(226,232,240,0.6)", fontSize: "0.9rem" }}>
+        Not enough data to chart yet.
+      </p>
+    );
+  }
+
+  const [minY, maxY] = yDomain ?? [Math.min(...values), Math.max(...values)];
+  const span = maxY - minY || 1;
+  const innerWidth = WIDTH - PADDING.left - PADDING.right;
+  const innerHeight = height - PADDING.top - PADDING.bottom;
+  const xFor = (label: string) =>
+    PADDING.left +
+    (xLabels.length === 1 ? innerWidth / 2 : (xLabels.indexOf(label) / (xLabels.length - 1)) * innerWidth);
+  const yFor = (value: number) => PADDING.top + (1 - (value - minY) / span) * innerHeight;
+  const ticks = [minY, minY + span / 2, maxY];
+  const labelEvery = Math.max(1, Math.ceil(xLabels.length / 6));
+
+  return (
+    <div style={{ display: "grid", gap: "0.75rem" }}>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        role="img"
+        aria-label={ariaLabel}
+        style={{ width: "100%", height: "auto" }}
+      >
+        {ticks.map((tick) => (
+          <g key={`tick-${tick}`}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={yFor(tick)}
+              y2={yFor(tick)}
+              stroke="rgba(148,163,184,0.2)"
+            />
+            <text
+              x={PADDING.left - 8}
+              y={yFor(tick) + 4}
+              textAnchor="end"
+              fontSize="11"
+              fill="rgba(226,232,240,0.6)"
+            >
+              {formatY(tick)}
+            </text>
+          </g>
+        ))}
+        {xLabels.map((label, index) =>
+          index % labelEvery === 0 || index === xLabels.length - 1 ? (
+            <text
+              key={`x-${label}`}
+              x={xFor(label)}
+              y={height - 8}
+              textAnchor="middle"
+              fontSize="11"
+              fill="rgba(226,232,240,0.6)"
+            >
+              {formatX(label)}
+            </text>
+          ) : null,
+        )}
+        {series.map((item) => {
+          const band = item.points.filter(
+            (point) => point.lower !== undefined && point.upper !== undefined,
+          );
+          const line = item.points
+            .map((point, index) => `${index ? "L" : "M"}${xFor(point.x)},${yFor(point.y)}`)
+            .join(" ");
+          const area = band.length
+            ? [
+                ...band.map((point, index) => `${index ? "L" : "M"}${xFor(point.x)},${yFor(point.upper!)}`),
+                ...[...band].reverse().map((point) => `L${xFor(point.x)},${yFor(point.lower!)}`),
+                "Z",
+              ].join(" ")
+            : null;
+          return (
+            <g key={item.label}>
+              {area ? <path d={area} fill={item.color} opacity={0.15} /> : null}
+              <path d={line} fill="none" stroke={item.color} strokeWidth={2} />
+              {item.points.map((point) => (
+                <circle
+                  key={`${item.label}-${point.x}`}
+                  cx={xFor(point.x)}
+                  cy={yFor(point.y)}
+                  r={3}
+                  fill={item.color}
+                />
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+      {series.length > 1 ? (
+        <div className="flexRow" style={{ flexWrap: "wrap", gap: "0.5rem" }}>
+          {series.map((item) => (
+            <span key={`legend-${item.label}`} className="chip">
+              <span
+                style={{ width: 10, height: 10, borderRadius: 999, background: item.color }}
+              />
+              {item.label}
+            </span>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,499 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Download, FileUp, Pencil, Plus, RotateCcw, Trash2 } from "lucide-react";
+import type { ModelModality, ModelOption } from "@/types";
+import { MIN_MODELS, MODEL_MODALITIES, MODEL_OPTIONS } from "@/lib/models";
+import { exportRegistry, parseRegistryImport } from "@/lib/modelRegistry";
+
+interface ModelRegistryEditorProps {
+  initialModels: ModelOption[];
+}
+
+interface ModelDraft {
+  id: string;
+  name: string;
+  provider: string;
+  modelName: string;
+  endpoint: string;
+  tags: string;
+  modality: ModelModality[];
+  contextWindow: string;
+  inputPerMillion: string;
+  outputPerMillion: string;
+  temperature: string;
+  maxTokens: string;
+  topP: string;
+  systemPrompt: string;
+}
+
+const EMPTY_DRAFT: ModelDraft = {
+  id: "",
+  name: "",
+  provider: "",
+  modelName: "",
+  endpoint: "",
+  tags: "",
+  modality: ["text"],
+  contextWindow: "",
+  inputPerMillion: "",
+  outputPerMillion: "",
+  temperature: "",
+  maxTokens: "",
+  topP: "",
+  systemPrompt: "",
+};
+
+const KNOWN_PROVIDERS = Array.from(new Set(MODEL_OPTIONS.map((model) => model.provider)));
+
+const asText = (value: number | undefined) => (value === undefined ? "" : String(value));
+
+function toDraft(model: ModelOption): ModelDraft {
+  return {
+    id: model.id,
+    name: model.name,
+    provider: model.provider,
+    modelName: model.modelName ?? "",
+    endpoint: model.endpoint ?? "",
+    tags: model.tags.join(", "),
+    modality: model.modality,
+    contextWindow: asText(model.contextWindow),
+    inputPerMillion: asText(model.pricing?.inputPerMillion),
+    outputPerMillion: asText(model.pricing?.outputPerMillion),
+    temperature: asText(model.defaultParams?.temperature),
+    maxTokens: asText(model.defaultParams?.maxTokens),
+    topP: asText(model.defaultParams?.topP),
+    systemPrompt: model.defaultParams?.systemPrompt ?? "",
+  };
+}
+
+/** Shapes the form into the API payload; the server owns validation. */
+function fromDraft(draft: ModelDraft) {
+  return {
+    id: draft.id,
+    name: draft.name,
+    provider: draft.provider,
+    modelName: draft.modelName,
+    endpoint: draft.endpoint,
+    tags: draft.tags,
+    modality: draft.modality,
+    contextWindow: draft.contextWindow,
+    pricing: { inputPerMillion: draft.inputPerMillion, outputPerMillion: draft.outputPerMillion },
+    defaultParams: {
+      temperature: draft.temperature,
+      maxTokens: draft.maxTokens,
+      topP: draft.topP,
+      systemPrompt: draft.systemPrompt,
+    },
+  };
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const payload = await response.json().catch(() => ({}));
+  return payload.error ?? fallback;
+}
+
+export function ModelRegistryEditor({ initialModels }: ModelRegistryEditorProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [models, setModels] = useState<ModelOption[]>(initialModels);
+  const [draft, setDraft] = useState<ModelDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const update = <K extends keyof ModelDraft>(key: K, value: ModelDraft[K]) =>
+    setDraft((current) => ({ ...current, [key]: value }));
+
+  const startEdit = (model: ModelOption) => {
+    setEditingId(model.id);
+    setDraft(toDraft(model));
+    setErrorMessage(null);
+    setNotice(null);
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const submit = async () => {
+    setErrorMessage(null);
+    setNotice(null);
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        editingId ? `/api/models/${encodeURIComponent(editingId)}` : "/api/models",
+        {
+          method: editingId ? "PUT" : "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify(fromDraft(draft)),
+        },
+      );
+      if (!response.ok) throw new Error(await readError(response, "Model could not be saved."));
+      const saved = (await response.json()) as ModelOption;
+      setModels((current) =>
+        editingId
+          ? current.map((model) => (model.id === editingId ? saved : model))
+          : [...current, saved],
+      );
+      setNotice(`${saved.name} saved.`);
+      resetForm();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Model could not be saved.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const remove = async (model: ModelOption) => {
+    if (!window.confirm(`Remove ${model.name} from the registry?`)) return;
+    setErrorMessage(null);
+    setNotice(null);
+    const response = await fetch(`/api/models/${encodeURIComponent(model.id)}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      setErrorMessage(await readError(response, "Model could not be removed."));
+      return;
+    }
+    setModels((current) => current.filter((item) => item.id !== model.id));
+    if (editingId === model.id) resetForm();
+  };
+
+  const replaceAll = async (next: ModelOption[], message: string) => {
+    setErrorMessage(null);
+    setNotice(null);
+    const response = await fetch("/api/models", {
+      method: "PUT",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ models: next }),
+    });
+    if (!response.ok) {
+      setErrorMessage(await readError(response, "Registry could not be replaced."));
+      return;
+    }
+    setModels(await response.json());
+    resetForm();
+    setNotice(message);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = parseRegistryImport(await file.text());
+      await replaceAll(imported, `Imported ${imported.length} models from ${file.name}.`);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Import failed.");
+    }
+  };
+
+  const download = () => {
+    const blob = new Blob([exportRegistry(models)], { type: "application/json;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement("a");
+    anchor.href = url;
+    anchor.download = "arena-models.json";
+    anchor.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="grid" style={{ gap: "1.5rem" }}>
+      <section className="card" style={{ padding: "1.5rem" }}>
+        <header className="flexRow" style={{ justifyContent: "space-between", flexWrap: "wrap" }}>
+          <p className="sectionTitle" style={{ marginBottom: 0 }}>
+            Registered models
+          </p>
+          <div className="flexRow" style={{ flexWrap: "wrap", gap: "0.5rem" }}>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              style={{ display: "none" }}
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) importFile(file);
+                event.target.value = "";
+              }}
+            />
+            <button
+              type="button"
+              className="chip"
+              style={{ cursor: "pointer", color: "inherit" }}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <FileUp size={14} /> Import JSON
+            </button>
+            <button
+              type="button"
+              className="chip"
+              style={{ cursor: "pointer", color: "inherit" }}
+              onClick={download}
+            >
+              <Download size={14} /> Export JSON
+            </button>
+            <button
+              type="button"
+              className="chip"
+              style={{ cursor: "pointer", color: "inherit" }}
+              onClick={() => {
+                if (window.confirm("Replace the registry with the built-in roster?")) {
+                  replaceAll(MODEL_OPTIONS, "Built-in roster restored.");
+                }
+              }}
+            >
+              <RotateCcw size={14} /> Restore defaults
+            </button>
+          </div>
+        </header>
+        {notice ? (
+          <p style={{ marginTop: "0.75rem", fontSize: "0.9rem", color: "#38bdf8" }}>{notice}</p>
+        ) : null}
+        <div style={{ overflowX: "auto", marginTop: "1rem" }}>
+          <table className="table" style={{ minWidth: "760px" }}>
+            <thead>
+              <tr>
+                <th>Model</th>
+                <th>Provider</th>
+                <th>Modality</th>
+                <th>Context</th>
+                <th>Price in / out</th>
+                <th aria-label="Actions" />
+              </tr>
+            </thead>
+            <tbody>
+              {models.map((model) => (
+                <tr key={model.id}>
+                  <td>
+                    <p style={{ fontWeight: 600 }}>{model.name}</p>
+                    <p style={{ fontSize: "0.8rem", color: "rgba(226,232,240,0.55)" }}>
+                      {model.id} • {model.modelName ?? model.id}
+                    </p>
+                  </td>
+                  <td>{model.provider}</td>
+                  <td>{model.modality.join(", ")}</td>
+                  <td>{model.contextWindow ? model.contextWindow.toLocaleString("en") : "-"}</td>
+                  <td>
+                    {model.pricing
+                      ? `$${model.pricing.inputPerMillion} / $${model.pricing.outputPerMillion}`
+                      : "-"}
+                  </td>
+                  <td>
+                    <div className="flexRow" style={{ gap: "0.4rem", justifyContent: "flex-end" }}>
+                      <button
+                        type="button"
+                        className="chip"
+                        style={{ cursor: "pointer", color: "inherit" }}
+                        onClick={() => startEdit(model)}
+                        aria-label={`Edit ${model.name}`}
+                      >
+                        <Pencil size={14} />
+                      </button>
+                      <button
+                        type="button"
+                        className="chip"
+                        style={{ cursor: "pointer", color: "inherit" }}
+                        onClick={() => remove(model)}
+                        disabled={models.length <= MIN_MODELS}
+                        aria-label={`Remove ${model.name}`}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className="card grid" style={{ padding: "1.5rem", gap: "1rem" }}>
+        <p className="sectionTitle" style={{ marginBottom: 0 }}>
+          {editingId ? `Edit ${editingId}` : "Add a model"}
+        </p>
+        <div
+          className="grid"
+          style={{ gridTemplateColumns: "repeat(auto-fit, minmax(220px, 1fr))", gap: "1rem" }}
+        >
+          <Field label="Id">
+            <input
+              className="input"
+              value={draft.id}
+              disabled={Boolean(editingId)}
+              onChange={(event) => update("id", event.target.value)}
+              placeholder="gpt-4.1-mini"
+            />
+          </Field>
+          <Field label="Display name">
+            <input
+              className="input"
+              value={draft.name}
+              onChange={(event) => update("name", event.target.value)}
+            />
+          </Field>
+          <Field label="Provider">
+            <input
+              className="input"
+              list="registry-providers"
+              value={draft.provider}
+              onChange={(event) => update("provider", event.target.value)}
+            />
+            <datalist id="registry-providers">
+              {KNOWN_PROVIDERS.map((provider) => (
+                <option key={provider} value={provider} />
+              ))}
+            </datalist>
+          </Field>
+          <Field label="Model string">
+            <input
+              className="input"
+              value={draft.modelName}
+              onChange={(event) => update("modelName", event.target.value)}
+              placeholder="Defaults to the id"
+            />
+          </Field>
+          <Field label="Endpoint override">
+            <input
+              className="input"
+              value={draft.endpoint}
+              onChange={(event) => update("endpoint", event.target.value)}
+              placeholder="https://…/v1"
+            />
+          </Field>
+          <Field label="Tags (comma separated)">
+            <input
+              className="input"
+              value={draft.tags}
+              onChange={(event) => update("tags", event.target.value)}
+            />
+          </Field>
+          <Field label="Context window (tokens)">
+            <input
+              className="input"
+              inputMode="numeric"
+              value={draft.contextWindow}
+              onChange={(event) => update("contextWindow", event.target.value)}
+            />
+          </Field>
+          <Field label="Price per 1M input / output tokens (USD)">
+            <div className="flexRow" style={{ gap: "0.5rem" }}>
+              <input
+                className="input"
+                inputMode="decimal"
+                value={draft.inputPerMillion}
+                onChange={(event) => update("inputPerMillion", event.target.value)}
+                aria-label="Input price"
+              />
+              <input
+                className="input"
+                inputMode="decimal"
+                value={draft.outputPerMillion}
+                onChange={(event) => update("outputPerMillion", event.target.value)}
+                aria-label="Output price"
+              />
+            </div>
+          </Field>
+          <Field label="Default temperature / max tokens / top-p">
+            <div className="flexRow" style={{ gap: "0.5rem" }}>
+              <input
+                className="input"
+                inputMode="decimal"
+                value={draft.temperature}
+                onChange={(event) => update("temperature", event.target.value)}
+                aria-label="Temperature"
+              />
+              <input
+                className="input"
+                inputMode="numeric"
+                value={draft.maxTokens}
+                onChange={(event) => update("maxTokens", event.target.value)}
+                aria-label="Max tokens"
+              />
+              <input
+                className="input"
+                inputMode="decimal"
+                value={draft.topP}
+                onChange={(event) => update("topP", event.target.value)}
+                aria-label="Top-p"
+              />
+            </div>
+          </Field>
+        </div>
+        <Field label="Default system prompt">
+          <textarea
+            className="textarea"
+            style={{ minHeight: "70px" }}
+            value={draft.systemPrompt}
+            onChange={(event) => update("systemPrompt", event.target.value)}
+            placeholder="Optional. Used when the run sets no system prompt of its own."
+          />
+        </Field>
+        <div>
+          <p className="fieldLabel">Modality</p>
+          <div className="flexRow" style={{ gap: "0.5rem", flexWrap: "wrap" }}>
+            {MODEL_MODALITIES.map((modality) => {
+              const active = draft.modality.includes(modality);
+              return (
+                <button
+                  key={modality}
+                  type="button"
+                  className={`badge ${active ? "badgePrimary" : "badgeNeutral"}`}
+                  style={{ border: "none", cursor: "pointer" }}
+                  onClick={() =>
+                    update(
+                      "modality",
+                      active
+                        ? draft.modality.filter((item) => item !== modality)
+                        : [...draft.modality, modality],
+                    )
+                  }
+                >
+                  {modality}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+        {errorMessage ? (
+          <div
+            className="card"
+            style={{
+              border: "1px solid rgba(248, 113, 113, 0.55)",
+              background: "rgba(248, 113, 113, 0.1)",
+              color: "#fecaca",
+            }}
+          >
+            {errorMessage}
+          </div>
+        ) : null}
+        <div className="flexRow" style={{ gap: "0.75rem" }}>
+          <button type="button" className="buttonPrimary" onClick={submit} disabled={isSaving}>
+            <Plus size={18} /> {editingId ? "Save changes" : "Add model"}
+          </button>
+          {editingId ? (
+            <button
+              type="button"
+              className="buttonPrimary"
+              style={{ background: "rgba(148,163,184,0.2)", color: "rgba(226,232,240,0.8)" }}
+              onClick={resetForm}
+            >
+              Cancel
+            </button>
+          ) : null}
+        </div>
+      </section>
+    </div>
+  );
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label style={{ display: "grid", gap: "0.35rem" }}>
+      <span className="fieldLabel" style={{ marginBottom: 0 }}>
+        {label}
+      </span>
+      {children}
+    </label>
+  );
+}
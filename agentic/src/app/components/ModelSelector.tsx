@@ -1,24 +1,39 @@
 "use client";
 
-import { CheckCircle2, Circle } from "lucide-react";
+import { AlertTriangle, CheckCircle2, Circle } from "lucide-react";
 import { useMemo } from "react";
 import clsx from "clsx";
-import type { ModelOption } from "@/types";
+import type { ModelModality, ModelOption } from "@/types";
+import { missingModalities } from "@/lib/models";
 
 interface ModelSelectorProps {
   models: ModelOption[];
   selectedIds: string[];
   onToggle: (modelId: string) => void;
   maxSelections?: number;
+  /** Input channels the current prompt needs; models lacking one are marked. */
+  required?: ModelModality[];
+  /** Compatibility problems that block the run. */
+  issues?: string[];
+  /** Non-blocking compatibility notices. */
+  notices?: string[];
 }
 
+const WARNING_BADGE = { background: "rgba(250, 204, 21, 0.16)", color: "#fde68a" };
+
 export function ModelSelector({
   models,
   selectedIds,
   onToggle,
   maxSelections = 5,
+  required = [],
+  issues = [],
+  notices = [],
 }: ModelSelectorProps) {
   const quotaReached = selectedIds.length >= maxSelections;
+  const degradedCount = models.filter(
+    (model) => selectedIds.includes(model.id) && missingModalities(model, required).length,
+  ).length;
 
   const availableModels = useMemo(() => {
     return models.sort((a, b) => a.name.localeCompare(b.name));
@@ -39,12 +54,35 @@ export function ModelSelector({
               Maximum reached. Deselect one to switch.
             </span>
           ) : null}
+          {required.length ? (
+            <span className="badge badgeNeutral">Prompt needs {required.join(" + ")}</span>
+          ) : null}
+          {degradedCount ? (
+            <span className="badge" style={WARNING_BADGE}>
+              {degradedCount} selected without full support
+            </span>
+          ) : null}
         </div>
+        {[...issues, ...notices].map((message) => (
+          <p
+            key={message}
+            className="flexRow"
+            style={{
+              gap: "0.4rem",
+              marginTop: "0.6rem",
+              fontSize: "0.9rem",
+              color: issues.includes(message) ? "#fecaca" : "#fde68a",
+            }}
+          >
+            <AlertTriangle size={16} /> {message}
+          </p>
+        ))}
       </header>
       <div className="grid" style={{ gap: "0.9rem" }}>
         {availableModels.map((model) => {
           const isSelected = selectedIds.includes(model.id);
           const disabled = !isSelected && quotaReached;
+          const missing = missingModalities(model, required);
           return (
             <button
               key={model.id}
@@ -57,7 +95,7 @@ export function ModelSelector({
                   ? "rgba(14, 165, 233, 0.2)"
                   : "rgba(15, 23, 42, 0.55)",
                 cursor: disabled ? "not-allowed" : "pointer",
-                opacity: disabled ? 0.6 : 1,
+                opacity: disabled ? 0.6 : missing.length && !isSelected ? 0.75 : 1,
                 border: isSelected
                   ? "1px solid rgba(14, 165, 233, 0.75)"
                   : "1px solid rgba(148, 163, 184, 0.25)",
@@ -76,7 +114,18 @@ export function ModelSelector({
                     <Circle size={22} color="rgba(148, 163, 184, 0.7)" />
                   )}
                   <div>
-                    <p style={{ fontWeight: 600, fontSize: "1.05rem" }}>{model.name}</p>
+                    <p style={{ fontWeight: 600, fontSize: "1.05rem" }}>
+                      {model.name}
+                      {missing.length ? (
+                        <span
+                          className="badge"
+                          style={{ ...WARNING_BADGE, marginLeft: "0.5rem" }}
+                          title="Would answer without these inputs, in text-only fallback"
+                        >
+                          no {missing.join(" / ")}
+                        </span>
+                      ) : null}
+                    </p>
                     <p style={{ color: "rgba(226,232,240,0.65)", fontSize: "0.9rem" }}>
                       {model.provider} • {model.modality.join(" / ")}
                     </p>
@@ -1,18 +1,58 @@
 "use client";
 
 import { useRef } from "react";
-import type { PromptMode } from "@/types";
+import type {
+  Attachment,
+  ModalityPolicy,
+  ModelModality,
+  ModelOption,
+  PromptMode,
+  PromptTemplate,
+} from "@/types";
+import {
+  acceptedMimeTypes,
+  ATTACHMENT_KINDS,
+  ATTACHMENT_RULES,
+  formatDuration,
+  MAX_ATTACHMENTS,
+  modeAccepts,
+  type AttachmentInfo,
+} from "@/lib/attachments";
+import { formatBytes } from "@/lib/images";
+import { TemplatePicker, type TemplateSelection } from "./TemplatePicker";
+
+/** A validated upload waiting to be sent with the next run. */
+export interface AttachmentDraft {
+  attachment: Attachment;
+  info: AttachmentInfo;
+  /** Object URL backing the inline preview. */
+  previewUrl: string;
+}
 
 interface PromptInputProps {
   value: string;
   onChange: (value: string) => void;
+  systemPrompt: string;
+  onSystemPromptChange: (value: string) => void;
+  templates: PromptTemplate[];
+  templateSelection: TemplateSelection | null;
+  onTemplateSelectionChange: (selection: TemplateSelection | null) => void;
   mode: PromptMode;
   onModeChange: (mode: PromptMode) => void;
-  onImageSelected: (file: File | null) => void;
-  imagePreview?: string | null;
-  imageName?: string | null;
+  attachments: AttachmentDraft[];
+  onFilesSelected: (files: File[]) => void;
+  onRemoveAttachment: (index: number) => void;
+  /** Selected models lacking an input channel this run needs. */
+  unsupportedModels?: { model: ModelOption; missing: ModelModality[] }[];
+  modalityPolicy?: ModalityPolicy;
+  onModalityPolicyChange?: (policy: ModalityPolicy) => void;
 }
 
+const MODALITY_POLICIES: { value: ModalityPolicy; label: string }[] = [
+  { value: "flag", label: "Keep and flag them" },
+  { value: "skip", label: "Skip them" },
+];
+
 const MODE_LABELS: { value: PromptMode; label: string; description: string }[] = [
   {
     value: "text",
@@ -22,26 +62,80 @@ const MODE_LABELS: { value: PromptMode; label: string; description: string }[] =
   {
     value: "image",
     label: "Image",
-    description: "Single image prompt. Text field can carry instructions.",
+    description: "One or more images. Text field can carry instructions.",
+  },
+  {
+    value: "audio",
+    label: "Audio",
+    description: "Speech or sound clips for transcription, listening and audio reasoning.",
+  },
+  {
+    value: "video",
+    label: "Video",
+    description: "Short clips that test temporal and visual understanding.",
   },
   {
     value: "multimodal",
     label: "Multimodal",
     description:
-      "Blend text with image context for richer evaluation scenarios.",
+      "Blend text with images, audio and video for richer evaluation scenarios.",
   },
 ];
 
+function describeInfo(info: AttachmentInfo): string {
+  return [
+    info.format,
+    info.width && info.height ? `${info.width}×${info.height}` : null,
+    info.durationSeconds !== null ? formatDuration(info.durationSeconds) : null,
+    formatBytes(info.bytes),
+  ]
+    .filter(Boolean)
+    .join(" • ");
+}
+
+function AttachmentPreview({ draft }: { draft: AttachmentDraft }) {
+  const { kind, name } = draft.attachment;
+  if (kind === "audio") {
+    return <audio controls src={draft.previewUrl} style={{ width: "100%" }} />;
+  }
+  if (kind === "video") {
+    return (
+      <video
+        controls
+        src={draft.previewUrl}
+        style={{ width: "100%", display: "block", borderRadius: "0.75rem" }}
+      />
+    );
+  }
+  return (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img
+      src={draft.previewUrl}
+      alt={`Preview of ${name}`}
+      style={{ width: "100%", display: "block", borderRadius: "0.75rem" }}
+    />
+  );
+}
+
 export function PromptInput({
   value,
   onChange,
+  systemPrompt,
+  onSystemPromptChange,
+  templates,
+  templateSelection,
+  onTemplateSelectionChange,
   mode,
   onModeChange,
-  onImageSelected,
-  imagePreview,
-  imageName,
+  attachments,
+  onFilesSelected,
+  onRemoveAttachment,
+  unsupportedModels = [],
+  modalityPolicy = "flag",
+  onModalityPolicyChange,
 }: PromptInputProps) {
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const acceptedKinds = ATTACHMENT_KINDS.filter((kind) => modeAccepts(mode, kind));
 
   return (
     <section className="card grid" aria-labelledby="prompt-config">
@@ -50,11 +144,18 @@ export function PromptInput({
           Prompt Configuration
         </p>
         <p className="cardSubtitle">
-          Craft a prompt and modality target. Optionally attach a reference image
-          to stress-test multimodal reasoning.
+          Craft a prompt and modality target, or fill one in from the template library.
+          Optionally attach images, audio or video to stress-test multimodal reasoning.
         </p>
       </header>
       <div className="grid" style={{ gap: "1.25rem" }}>
+        <TemplatePicker
+          templates={templates}
+          selection={templateSelection}
+          onChange={onTemplateSelectionChange}
+          prompt={value}
+          systemPrompt={systemPrompt}
+        />
         <div>
           <p className="fieldLabel">Prompt Modality</p>
           <div className="grid" style={{ gap: "0.75rem" }}>
@@ -95,17 +196,28 @@ export function PromptInput({
             onChange={(event) => onChange(event.target.value)}
           />
         </div>
+        <div>
+          <p className="fieldLabel">System Prompt</p>
+          <textarea
+            className="textarea"
+            style={{ minHeight: "80px" }}
+            placeholder="Optional persona or standing instructions sent to every model..."
+            value={systemPrompt}
+            onChange={(event) => onSystemPromptChange(event.target.value)}
+          />
+        </div>
         {mode !== "text" ? (
           <div>
-            <p className="fieldLabel">Attach Reference Image</p>
+            <p className="fieldLabel">Attachments</p>
             <div className="card" style={{ padding: "1rem", display: "grid", gap: "0.75rem" }}>
               <input
                 ref={fileInputRef}
                 type="file"
-                accept="image/*"
+                multiple
+                accept={acceptedMimeTypes(mode).join(",")}
                 onChange={(event) => {
-                  const file = event.target.files?.[0] ?? null;
-                  onImageSelected(file);
+                  onFilesSelected(Array.from(event.target.files ?? []));
+                  event.target.value = "";
                 }}
                 style={{ display: "none" }}
               />
@@ -113,52 +225,93 @@ export function PromptInput({
                 type="button"
                 className="buttonPrimary"
                 style={{ justifySelf: "start" }}
+                disabled={attachments.length >= MAX_ATTACHMENTS}
                 onClick={() => fileInputRef.current?.click()}
               >
-                {imageName ? "Replace image" : "Upload image"}
+                {attachments.length ? "Add more files" : "Upload files"}
               </button>
-              {imageName ? (
-                <div className="chip" style={{ justifyContent: "space-between", width: "100%" }}>
-                  <span>{imageName}</span>
-                  <button
-                    type="button"
-                    style={{
-                      background: "transparent",
-                      border: "none",
-                      color: "rgba(148, 163, 184, 0.9)",
-                      cursor: "pointer",
-                    }}
-                    onClick={() => {
-                      if (fileInputRef.current) {
-                        fileInputRef.current.value = "";
-                      }
-                      onImageSelected(null);
-                    }}
-                  >
-                    Remove
-                  </button>
+              <p style={{ color: "rgba(226,232,240,0.6)", fontSize: "0.9rem" }}>
+                {acceptedKinds
+                  .map(
+                    (kind) =>
+                      `${ATTACHMENT_RULES[kind].formats} up to ${formatBytes(ATTACHMENT_RULES[kind].maxBytes)}`,
+                  )
+                  .join("; ")}
+                . Up to {MAX_ATTACHMENTS} files, each sent only to models that can take it.
+              </p>
+              {attachments.length ? (
+                <div
+                  className="grid"
+                  style={{ gridTemplateColumns: "repeat(auto-fill, minmax(240px, 1fr))", gap: "0.75rem" }}
+                >
+                  {attachments.map((draft, index) => {
+                    const isSent = modeAccepts(mode, draft.attachment.kind);
+                    return (
+                      <div
+                        key={draft.previewUrl}
+                        className="card"
+                        style={{ padding: "0.75rem", display: "grid", gap: "0.5rem", opacity: isSent ? 1 : 0.5 }}
+                      >
+                        <AttachmentPreview draft={draft} />
+                        <div className="flexRow" style={{ justifyContent: "space-between", gap: "0.5rem" }}>
+                          <div style={{ minWidth: 0 }}>
+                            <p style={{ fontWeight: 600, overflowWrap: "anywhere" }}>
+                              {draft.attachment.name}
+                            </p>
+                            <p style={{ fontSize: "0.8rem", color: "rgba(226,232,240,0.6)" }}>
+                              {describeInfo(draft.info)}
+                              {isSent ? "" : ` • not sent in ${mode} mode`}
+                            </p>
+                          </div>
+                          <button
+                            type="button"
+                            style={{
+                              background: "transparent",
+                              border: "none",
+                              color: "rgba(148, 163, 184, 0.9)",
+                              cursor: "pointer",
+                            }}
+                            onClick={() => onRemoveAttachment(index)}
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
                 </div>
-              ) : (
-                <p style={{ color: "rgba(226,232,240,0.6)", fontSize: "0.9rem" }}>
-                  PNG, JPG, or WebP up to 5MB. We store the file locally for this
-                  comparison only.
-                </p>
-              )}
-              {imagePreview ? (
+              ) : null}
+              {unsupportedModels.length ? (
                 <div
+                  className="card"
                   style={{
-                    borderRadius: "1rem",
-                    overflow: "hidden",
-                    border: "1px solid rgba(148, 163, 184, 0.25)",
-                    maxWidth: "360px",
+                    padding: "0.85rem",
+                    border: "1px solid rgba(250, 204, 21, 0.45)",
+                    background: "rgba(250, 204, 21, 0.08)",
+                    display: "grid",
+                    gap: "0.6rem",
                   }}
                 >
-                  {/* eslint-disable-next-line @next/next/no-img-element */}
-                  <img
-                    src={imagePreview}
-                    alt="Prompt reference preview"
-                    style={{ width: "100%", display: "block" }}
-                  />
+                  <p style={{ fontSize: "0.9rem" }}>
+                    Missing input support:{" "}
+                    {unsupportedModels
+                      .map(({ model, missing }) => `${model.name} (no ${missing.join(" or ")})`)
+                      .join(", ")}
+                    . They would answer without those inputs.
+                  </p>
+                  <div className="flexRow" style={{ gap: "0.5rem", flexWrap: "wrap" }}>
+                    {MODALITY_POLICIES.map((option) => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        className={`badge ${modalityPolicy === option.value ? "badgePrimary" : "badgeNeutral"}`}
+                        style={{ border: "none", cursor: "pointer" }}
+                        onClick={() => onModalityPolicyChange?.(option.value)}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
                 </div>
               ) : null}
             </div>
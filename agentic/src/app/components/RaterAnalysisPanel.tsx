@@ -0,0 +1,138 @@
+"use client";
+
+import type { MetricAgreement, RaterAnalysis } from "@/lib/raterAnalysis";
+import { describeAgreement } from "@/lib/raterAnalysis";
+
+interface RaterAnalysisPanelProps {
+  analysis: RaterAnalysis;
+  formatModelName: (id: string) => string;
+  providerOf: (id: string) => string;
+}
+
+const LEVEL_STYLES = {
+  reliable: { background: "rgba(52, 211, 153, 0.18)", color: "#a7f3d0" },
+  tentative: { background: "rgba(250, 204, 21, 0.16)", color: "#fde68a" },
+  low: { background: "rgba(251, 113, 133, 0.18)", color: "#fecdd3" },
+};
+
+/** Deviation of ±1.5 points or more saturates the heatmap. */
+const HEAT_RANGE = 1.5;
+
+/** Warm for reviewers more generous than their peers, cool for harsher ones. */
+export function heatColor(deviation: number | undefined): string | undefined {
+  if (deviation === undefined || deviation === 0) return undefined;
+  const strength = Math.min(1, Math.abs(deviation) / HEAT_RANGE) * 0.45;
+  return deviation > 0 ? `rgba(249, 115, 22, ${strength})` : `rgba(56, 189, 248, ${strength})`;
+}
+
+const formatStat = (value: number | null) => (value === null ? "—" : value.toFixed(2));
+
+const formatOffset = (value: number | null) =>
+  value === null ? "—" : `${value > 0 ? "+" : ""}${value.toFixed(2)}`;
+
+const offsetColor = (value: number | null) =>
+  value === null || Math.abs(value) < 0.25
+    ? "rgba(226,232,240,0.75)"
+    : value > 0
+      ? "#fdba74"
+      : "#7dd3fc";
+
+function AgreementRow({ item }: { item: MetricAgreement }) {
+  const level = describeAgreement(item.alpha);
+  return (
+    <tr>
+      <td style={{ fontWeight: item.key === "overall" ? 600 : 400 }}>{item.label}</td>
+      <td>{formatStat(item.alpha)}</td>
+      <td>{formatStat(item.icc)}</td>
+      <td>
+        {level ? (
+          <span className="badge" style={LEVEL_STYLES[level]}>
+            {level}
+          </span>
+        ) : (
+          "—"
+        )}
+      </td>
+    </tr>
+  );
+}
+
+export function RaterAnalysisPanel({ analysis, formatModelName, providerOf }: RaterAnalysisPanelProps) {
+  return (
+    <article className="card" style={{ padding: "1.5rem" }}>
+      <div>
+        <p className="sectionTitle">Reviewer reliability &amp; bias</p>
+        <p className="cardSubtitle" style={{ marginBottom: 0 }}>
+          Do the evaluators agree, and does anyone grade themselves or their own vendor
+          more kindly? Self-reviews are left out of agreement and consensus.
+        </p>
+      </div>
+      <div
+        className="grid"
+        style={{ gridTemplateColumns: "repeat(auto-fit, minmax(320px, 1fr))", gap: "1.5rem", marginTop: "1rem" }}
+      >
+        <div style={{ overflowX: "auto" }}>
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Metric</th>
+                <th title="Krippendorff's alpha, interval metric">α</th>
+                <th title="Intraclass correlation, ICC(1,1)">ICC</th>
+                <th>Agreement</th>
+              </tr>
+            </thead>
+            <tbody>
+              <AgreementRow item={analysis.overall} />
+              {analysis.metrics.map((item) => (
+                <AgreementRow key={item.key} item={item} />
+              ))}
+            </tbody>
+          </table>
+          <p style={{ fontSize: "0.75rem", color: "rgba(226,232,240,0.55)", marginTop: "0.5rem" }}>
+            α ≥ 0.80 reliable • 0.67–0.80 tentative • below 0.67 low
+          </p>
+        </div>
+        <div style={{ overflowX: "auto" }}>
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Evaluator</th>
+                <th title="Mean offset from the other reviewers on the same answers">Leniency</th>
+                <th title="Own answer score minus the mean peer score for it">Self-preference</th>
+                <th title="Offset on same-provider answers minus offset on the rest">
+                  Same provider
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {analysis.evaluators.map((item) => (
+                <tr key={item.evaluatorId}>
+                  <td>
+                    <p style={{ fontWeight: 600 }}>{formatModelName(item.evaluatorId)}</p>
+                    <p style={{ fontSize: "0.75rem", color: "rgba(226,232,240,0.55)" }}>
+                      {providerOf(item.evaluatorId)}
+                    </p>
+                  </td>
+                  <td style={{ color: offsetColor(item.leniency) }}>{formatOffset(item.leniency)}</td>
+                  <td style={{ color: offsetColor(item.selfPreference) }}>
+                    {formatOffset(item.selfPreference)}
+                  </td>
+                  <td
+                    style={{ color: offsetColor(item.sameProviderBias) }}
+                    title={
+                      item.sameProviderTargets
+                        ? `${item.sameProviderTargets} same-provider answer(s) reviewed`
+                        : "No other model from this provider in the run"
+                    }
+                  >
+                    {formatOffset(item.sameProviderBias)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </article>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { LayoutGrid, Swords } from "lucide-react";
+
+export type ResultView = "results" | "battle";
+
+interface ResultViewSwitchProps {
+  value: ResultView;
+  onChange: (view: ResultView) => void;
+}
+
+const VIEWS = [
+  { id: "results", label: "Full results", Icon: LayoutGrid },
+  { id: "battle", label: "Blind battle", Icon: Swords },
+] as const;
+
+/** Swaps the named results for the blind battle, which must not show model names. */
+export function ResultViewSwitch({ value, onChange }: ResultViewSwitchProps) {
+  return (
+    <div className="flexRow" style={{ gap: "0.5rem" }} role="tablist">
+      {VIEWS.map(({ id, label, Icon }) => (
+        <button
+          key={id}
+          type="button"
+          role="tab"
+          aria-selected={value === id}
+          className={`badge ${value === id ? "badgePrimary" : "badgeNeutral"}`}
+          style={{ cursor: "pointer", border: "none" }}
+          onClick={() => onChange(id)}
+        >
+          <Icon size={14} /> {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,403 @@
+"use client";
+
+import { useState } from "react";
+import { Copy, Pencil, Plus, Trash2, X } from "lucide-react";
+import type { Rubric } from "@/types";
+import { DEFAULT_RUBRIC_ID, describeScale } from "@/lib/rubrics";
+
+interface RubricEditorProps {
+  initialRubrics: Rubric[];
+}
+
+interface MetricDraft {
+  key: string;
+  label: string;
+  description: string;
+  weight: string;
+  min: string;
+  max: string;
+}
+
+interface RubricDraft {
+  id: string;
+  name: string;
+  description: string;
+  metrics: MetricDraft[];
+}
+
+const EMPTY_METRIC: MetricDraft = {
+  key: "",
+  label: "",
+  description: "",
+  weight: "1",
+  min: "0",
+  max: "10",
+};
+
+const EMPTY_DRAFT: RubricDraft = {
+  id: "",
+  name: "",
+  description: "",
+  metrics: [EMPTY_METRIC],
+};
+
+function toDraft(rubric: Rubric): RubricDraft {
+  return {
+    id: rubric.id,
+    name: rubric.name,
+    description: rubric.description,
+    metrics: rubric.metrics.map((metric) => ({
+      key: metric.key,
+      label: metric.label,
+      description: metric.description,
+      weight: String(metric.weight),
+      min: String(metric.scale.min),
+      max: String(metric.scale.max),
+    })),
+  };
+}
+
+/** Shapes the form into the API payload; the server owns validation. */
+function fromDraft(draft: RubricDraft) {
+  return {
+    id: draft.id,
+    name: draft.name,
+    description: draft.description,
+    metrics: draft.metrics.map((metric) => ({
+      key: metric.key,
+      label: metric.label,
+      description: metric.description,
+      weight: metric.weight,
+      scale: { min: metric.min, max: metric.max },
+    })),
+  };
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const payload = await response.json().catch(() => ({}));
+  return payload.error ?? fallback;
+}
+
+export function RubricEditor({ initialRubrics }: RubricEditorProps) {
+  const [rubrics, setRubrics] = useState<Rubric[]>(initialRubrics);
+  const [draft, setDraft] = useState<RubricDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const update = <K extends keyof RubricDraft>(key: K, value: RubricDraft[K]) =>
+    setDraft((current) => ({ ...current, [key]: value }));
+
+  const updateMetric = (index: number, key: keyof MetricDraft, value: string) =>
+    setDraft((current) => ({
+      ...current,
+      metrics: current.metrics.map((metric, position) =>
+        position === index ? { ...metric, [key]: value } : metric,
+      ),
+    }));
+
+  const clearMessages = () => {
+    setErrorMessage(null);
+    setNotice(null);
+  };
+
+  const startEdit = (rubric: Rubric) => {
+    setEditingId(rubric.id);
+    setDraft(toDraft(rubric));
+    clearMessages();
+  };
+
+  const duplicate = (rubric: Rubric) => {
+    setEditingId(null);
+    setDraft({ ...toDraft(rubric), id: `${rubric.id}-copy`, name: `${rubric.name} (copy)` });
+    clearMessages();
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const submit = async () => {
+    clearMessages();
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        editingId ? `/api/rubrics/${encodeURIComponent(editingId)}` : "/api/rubrics",
+        {
+          method: editingId ? "PUT" : "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify(fromDraft(draft)),
+        },
+      );
+      if (!response.ok) throw new Error(await readError(response, "Rubric could not be saved."));
+      const saved = (await response.json()) as Rubric;
+      setRubrics((current) =>
+        editingId
+          ? current.map((rubric) => (rubric.id === editingId ? saved : rubric))
+          : [...current, saved],
+      );
+      setNotice(`${saved.name} saved.`);
+      resetForm();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Rubric could not be saved.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const remove = async (rubric: Rubric) => {
+    if (!window.confirm(`Delete the ${rubric.name} rubric?`)) return;
+    clearMessages();
+    const response = await fetch(`/api/rubrics/${encodeURIComponent(rubric.id)}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      setErrorMessage(await readError(response, "Rubric could not be deleted."));
+      return;
+    }
+    setRubrics((current) => current.filter((item) => item.id !== rubric.id));
+    if (editingId === rubric.id) resetForm();
+  };
+
+  return (
+    <div className="grid" style={{ gap: "1.5rem" }}>
+      <section className="card" style={{ padding: "1.5rem" }}>
+        <p className="sectionTitle">Rubrics</p>
+        {notice ? (
+          <p style={{ marginBottom: "0.75rem", fontSize: "0.9rem", color: "#38bdf8" }}>{notice}</p>
+        ) : null}
+        <div className="grid" style={{ gap: "0.85rem" }}>
+          {rubrics.map((rubric) => {
+            const isBuiltIn = rubric.id === DEFAULT_RUBRIC_ID;
+            return (
+              <article
+                key={rubric.id}
+                className="card"
+                style={{ padding: "1rem", background: "rgba(15,23,42,0.45)" }}
+              >
+                <header
+                  className="flexRow"
+                  style={{ justifyContent: "space-between", flexWrap: "wrap" }}
+                >
+                  <div>
+                    <p style={{ fontWeight: 600 }}>
+                      {rubric.name}
+                      {isBuiltIn ? (
+                        <span className="badge badgeNeutral" style={{ marginLeft: "0.5rem" }}>
+                          built in
+                        </span>
+                      ) : null}
+                    </p>
+                    <p style={{ fontSize: "0.85rem", color: "rgba(226,232,240,0.6)" }}>
+                      {rubric.id}
+                      {rubric.description ? ` • ${rubric.description}` : ""}
+                    </p>
+                  </div>
+                  <div className="flexRow" style={{ gap: "0.4rem" }}>
+                    <button
+                      type="button"
+                      className="chip"
+                      style={{ cursor: "pointer", color: "inherit" }}
+                      onClick={() => duplicate(rubric)}
+                      aria-label={`Duplicate ${rubric.name}`}
+                    >
+                      <Copy size={14} />
+                    </button>
+                    {isBuiltIn ? null : (
+                      <>
+                        <button
+                          type="button"
+                          className="chip"
+                          style={{ cursor: "pointer", color: "inherit" }}
+                          onClick={() => startEdit(rubric)}
+                          aria-label={`Edit ${rubric.name}`}
+                        >
+                          <Pencil size={14} />
+                        </button>
+                        <button
+                          type="button"
+                          className="chip"
+                          style={{ cursor: "pointer", color: "inherit" }}
+                          onClick={() => remove(rubric)}
+                          aria-label={`Delete ${rubric.name}`}
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </header>
+                <div className="flexRow" style={{ flexWrap: "wrap", gap: "0.5rem", marginTop: "0.75rem" }}>
+                  {rubric.metrics.map((metric) => (
+                    <span key={metric.key} className="chip" title={metric.description}>
+                      {metric.label} • w{metric.weight} • {describeScale(metric)}
+                    </span>
+                  ))}
+                </div>
+              </article>
+            );
+          })}
+        </div>
+      </section>
+
+      <section className="card grid" style={{ padding: "1.5rem", gap: "1rem" }}>
+        <p className="sectionTitle" style={{ marginBottom: 0 }}>
+          {editingId ? `Edit ${editingId}` : "Create a rubric"}
+        </p>
+        <div
+          className="grid"
+          style={{ gridTemplateColumns: "repeat(auto-fit, minmax(220px, 1fr))", gap: "1rem" }}
+        >
+          <Field label="Id">
+            <input
+              className="input"
+              value={draft.id}
+              disabled={Boolean(editingId)}
+              onChange={(event) => update("id", event.target.value)}
+              placeholder="Derived from the name"
+            />
+          </Field>
+          <Field label="Name">
+            <input
+              className="input"
+              value={draft.name}
+              onChange={(event) => update("name", event.target.value)}
+            />
+          </Field>
+          <Field label="Description">
+            <input
+              className="input"
+              value={draft.description}
+              onChange={(event) => update("description", event.target.value)}
+            />
+          </Field>
+        </div>
+        <div className="grid" style={{ gap: "0.75rem" }}>
+          <p className="fieldLabel" style={{ marginBottom: 0 }}>
+            Metrics
+          </p>
+          {draft.metrics.map((metric, index) => (
+            <div
+              key={index}
+              className="grid"
+              style={{
+                gridTemplateColumns: "1.2fr 1fr 2fr 0.6fr 0.6fr 0.6fr auto",
+                gap: "0.5rem",
+                alignItems: "center",
+              }}
+            >
+              <input
+                className="input"
+                value={metric.label}
+                onChange={(event) => updateMetric(index, "label", event.target.value)}
+                placeholder="Label"
+                aria-label="Metric label"
+              />
+              <input
+                className="input"
+                value={metric.key}
+                onChange={(event) => updateMetric(index, "key", event.target.value)}
+                placeholder="Key"
+                aria-label="Metric key"
+              />
+              <input
+                className="input"
+                value={metric.description}
+                onChange={(event) => updateMetric(index, "description", event.target.value)}
+                placeholder="What a high score means"
+                aria-label="Metric description"
+              />
+              <input
+                className="input"
+                inputMode="decimal"
+                value={metric.weight}
+                onChange={(event) => updateMetric(index, "weight", event.target.value)}
+                aria-label="Weight"
+                title="Weight"
+              />
+              <input
+                className="input"
+                inputMode="decimal"
+                value={metric.min}
+                onChange={(event) => updateMetric(index, "min", event.target.value)}
+                aria-label="Scale minimum"
+                title="Scale minimum"
+              />
+              <input
+                className="input"
+                inputMode="decimal"
+                value={metric.max}
+                onChange={(event) => updateMetric(index, "max", event.target.value)}
+                aria-label="Scale maximum"
+                title="Scale maximum"
+              />
+              <button
+                type="button"
+                className="chip"
+                style={{ cursor: "pointer", color: "inherit" }}
+                disabled={draft.metrics.length <= 1}
+                onClick={() =>
+                  update(
+                    "metrics",
+                    draft.metrics.filter((_, position) => position !== index),
+                  )
+                }
+                aria-label="Remove metric"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            className="chip"
+            style={{ cursor: "pointer", color: "inherit", justifySelf: "start" }}
+            onClick={() => update("metrics", [...draft.metrics, EMPTY_METRIC])}
+          >
+            <Plus size={14} /> Add metric
+          </button>
+        </div>
+        {errorMessage ? (
+          <div
+            className="card"
+            style={{
+              border: "1px solid rgba(248, 113, 113, 0.55)",
+              background: "rgba(248, 113, 113, 0.1)",
+              color: "#fecaca",
+            }}
+          >
+            {errorMessage}
+          </div>
+        ) : null}
+        <div className="flexRow" style={{ gap: "0.75rem" }}>
+          <button type="button" className="buttonPrimary" onClick={submit} disabled={isSaving}>
+            <Plus size={18} /> {editingId ? "Save changes" : "Create rubric"}
+          </button>
+          {editingId || draft.name ? (
+            <button
+              type="button"
+              className="buttonPrimary"
+              style={{ background: "rgba(148,163,184,0.2)", color: "rgba(226,232,240,0.8)" }}
+              onClick={resetForm}
+            >
+              Cancel
+            </button>
+          ) : null}
+        </div>
+      </section>
+    </div>
+  );
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label style={{ display: "grid", gap: "0.35rem" }}>
+      <span className="fieldLabel" style={{ marginBottom: 0 }}>
+        {label}
+      </span>
+      {children}
+    </label>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import Link from "next/link";
+import { Scale } from "lucide-react";
+import type { Rubric } from "@/types";
+import { describeScale } from "@/lib/rubrics";
+
+interface RubricPickerProps {
+  rubrics: Rubric[];
+  selectedId: string;
+  onChange: (rubricId: string) => void;
+}
+
+export function RubricPicker({ rubrics, selectedId, onChange }: RubricPickerProps) {
+  const selected = rubrics.find((rubric) => rubric.id === selectedId);
+  const totalWeight = selected?.metrics.reduce((sum, metric) => sum + metric.weight, 0) ?? 0;
+
+  return (
+    <section className="card grid" style={{ gap: "1rem" }}>
+      <header className="flexRow" style={{ justifyContent: "space-between", flexWrap: "wrap" }}>
+        <div>
+          <p className="sectionTitle">Scoring rubric</p>
+          <p className="cardSubtitle" style={{ marginBottom: 0 }}>
+            Metrics and weights used for self-scoring, peer review and the leaderboard.
+          </p>
+        </div>
+        <Link href="/rubrics" className="chip">
+          <Scale size={16} /> Manage rubrics
+        </Link>
+      </header>
+      <select
+        className="select"
+        value={selectedId}
+        onChange={(event) => onChange(event.target.value)}
+      >
+        {rubrics.length ? null : <option value={selectedId}>Loading rubrics…</option>}
+        {rubrics.map((rubric) => (
+          <option key={rubric.id} value={rubric.id}>
+            {rubric.name}
+          </option>
+        ))}
+      </select>
+      {selected ? (
+        <div className="flexRow" style={{ flexWrap: "wrap", gap: "0.5rem" }}>
+          {selected.metrics.map((metric) => (
+            <span key={metric.key} className="chip" title={metric.description}>
+              {metric.label} • {Math.round((metric.weight / totalWeight) * 100)}% •{" "}
+              {describeScale(metric)}
+            </span>
+          ))}
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,295 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { ArrowDown, ArrowUp, FileUp, Minus } from "lucide-react";
+import type { RubricMetric, RunSummary } from "@/types";
+import type { ExportableRun } from "@/lib/exporters";
+import {
+  diffRuns,
+  parseExportedRun,
+  type ModelDiff,
+  type RankChange,
+  type ScoreChange,
+} from "@/lib/runDiff";
+import { resolveRubric } from "@/lib/rubrics";
+import { formatScore } from "@/lib/scoring";
+
+interface RunCompareProps {
+  runs: RunSummary[];
+  initialBase: ExportableRun | null;
+  initialCompare: ExportableRun | null;
+}
+
+const dateFormatter = new Intl.DateTimeFormat("en", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+const describeSummary = (run: RunSummary) =>
+  `${dateFormatter.format(new Date(run.createdAt))} — ${
+    run.prompt.length > 60 ? `${run.prompt.slice(0, 60)}…` : run.prompt
+  }`;
+
+export function RunCompare({ runs, initialBase, initialCompare }: RunCompareProps) {
+  const [base, setBase] = useState<ExportableRun | null>(initialBase);
+  const [compare, setCompare] = useState<ExportableRun | null>(initialCompare);
+
+  const diff = useMemo(() => (base && compare ? diffRuns(base, compare) : null), [base, compare]);
+
+  return (
+    <div className="grid" style={{ gap: "1.5rem" }}>
+      <div className="grid" style={{ gridTemplateColumns: "repeat(auto-fit, minmax(280px, 1fr))" }}>
+        <RunSlot label="Base run" runs={runs} run={base} onChange={setBase} />
+        <RunSlot label="Compare with" runs={runs} run={compare} onChange={setCompare} />
+      </div>
+
+      {diff && base && compare ? (
+        <>
+          <section className="card" style={{ padding: "1.5rem" }}>
+            <p className="sectionTitle">Summary</p>
+            <div className="flexRow" style={{ flexWrap: "wrap", gap: "0.5rem" }}>
+              <span className="badge badgeNeutral">
+                {diff.promptChanged ? "Prompt changed" : "Same prompt"}
+              </span>
+              {diff.rubricChanged ? (
+                <span className="badge badgeNeutral">
+                  Rubric {resolveRubric(base.result).name} → {resolveRubric(compare.result).name}
+                </span>
+              ) : null}
+              {diff.modeChanged ? (
+                <span className="badge badgeNeutral">
+                  Mode {base.mode} → {compare.mode}
+                </span>
+              ) : null}
+              <span className={`badge ${diff.leaderChanged ? "badgePrimary" : "badgeNeutral"}`}>
+                {diff.leaderChanged ? "New leaderboard leader" : "Same leader"}
+              </span>
+              <span className={`badge ${diff.arbiterPickChanged ? "badgePrimary" : "badgeNeutral"}`}>
+                {diff.arbiterPickChanged ? "Arbiter pick changed" : "Same arbiter pick"}
+              </span>
+            </div>
+            <div style={{ overflowX: "auto", marginTop: "1rem" }}>
+              <table className="table" style={{ minWidth: "720px" }}>
+                <thead>
+                  <tr>
+                    <th style={{ width: "26%" }}>Model</th>
+                    <th>Rank</th>
+                    <th>Arbiter rank</th>
+                    <th>Own score</th>
+                    <th>Peer avg</th>
+                    <th>Aggregate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.models.map((model) => (
+                    <tr key={model.modelId}>
+                      <td>
+                        <span style={{ fontWeight: 600 }}>{model.name}</span>
+                        {model.status !== "both" ? (
+                          <span className="badge badgeNeutral" style={{ marginLeft: "0.5rem" }}>
+                            {model.status === "added" ? "new" : "dropped"}
+                          </span>
+                        ) : null}
+                      </td>
+                      <td>
+                        <RankCell change={model.leaderboardRank} />
+                      </td>
+                      <td>
+                        <RankCell change={model.arbiterRank} />
+                      </td>
+                      <td>
+                        <ScoreCell change={model.ownScore} />
+                      </td>
+                      <td>
+                        <ScoreCell change={model.crossScore} />
+                      </td>
+                      <td>
+                        <ScoreCell change={model.aggregateScore} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          {diff.models.map((model) => (
+            <ModelDiffCard key={model.modelId} model={model} metrics={diff.metrics} />
+          ))}
+        </>
+      ) : (
+        <section
+          className="card"
+          style={{ textAlign: "center", color: "rgba(226,232,240,0.7)", padding: "2rem" }}
+        >
+          Choose two runs to see how scores, rankings and narratives moved.
+        </section>
+      )}
+    </div>
+  );
+}
+
+interface RunSlotProps {
+  label: string;
+  runs: RunSummary[];
+  run: ExportableRun | null;
+  onChange: (run: ExportableRun | null) => void;
+}
+
+function RunSlot({ label, runs, run, onChange }: RunSlotProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadStored = async (id: string) => {
+    setErrorMessage(null);
+    if (!id) {
+      onChange(null);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/runs/${id}`);
+      if (!response.ok) throw new Error("Run not found.");
+      onChange(await response.json());
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Run could not be loaded.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const importFile = async (file: File) => {
+    setErrorMessage(null);
+    try {
+      onChange(parseExportedRun(await file.text()));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Import failed.");
+    }
+  };
+
+  const storedId = run?.id && runs.some((item) => item.id === run.id) ? run.id : "";
+
+  return (
+    <section className="card grid" style={{ padding: "1.5rem", gap: "0.85rem" }}>
+      <p className="fieldLabel" style={{ marginBottom: 0 }}>
+        {label}
+      </p>
+      <select
+        className="select"
+        value={storedId}
+        disabled={isLoading}
+        onChange={(event) => loadStored(event.target.value)}
+      >
+        <option value="">{run && !storedId ? "Imported run" : "Select a stored run"}</option>
+        {runs.map((item) => (
+          <option key={item.id} value={item.id}>
+            {describeSummary(item)}
+          </option>
+        ))}
+      </select>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        style={{ display: "none" }}
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          if (file) importFile(file);
+          event.target.value = "";
+        }}
+      />
+      <button
+        type="button"
+        className="chip"
+        style={{ cursor: "pointer", color: "inherit", justifySelf: "start" }}
+        onClick={() => fileInputRef.current?.click()}
+      >
+        <FileUp size={14} /> Import JSON export
+      </button>
+      {run ? (
+        <p style={{ fontSize: "0.85rem", color: "rgba(226,232,240,0.7)" }}>
+          {run.createdAt ? `${dateFormatter.format(new Date(run.createdAt))} • ` : ""}
+          {run.models.map((model) => model.name).join(" • ")}
+        </p>
+      ) : null}
+      {errorMessage ? (
+        <p style={{ fontSize: "0.85rem", color: "#fecaca" }}>{errorMessage}</p>
+      ) : null}
+    </section>
+  );
+}
+
+const deltaColor = (delta: number | null) =>
+  delta === null || delta === 0 ? "rgba(226,232,240,0.6)" : delta > 0 ? "#34d399" : "#fb7185";
+
+function ScoreCell({ change }: { change: ScoreChange }) {
+  if (change.before === null || change.after === null) {
+    return <span>{formatScore(change.after ?? change.before ?? 0)}</span>;
+  }
+  return (
+    <span>
+      {formatScore(change.before)} → {formatScore(change.after)}{" "}
+      <span style={{ color: deltaColor(change.delta), fontWeight: 600 }}>
+        ({change.delta !== null && change.delta > 0 ? "+" : ""}
+        {change.delta})
+      </span>
+    </span>
+  );
+}
+
+function RankCell({ change }: { change: RankChange }) {
+  const before = change.before === null ? "—" : `#${change.before}`;
+  const after = change.after === null ? "—" : `#${change.after}`;
+  const Icon = !change.move ? Minus : change.move > 0 ? ArrowUp : ArrowDown;
+  return (
+    <span className="flexRow" style={{ gap: "0.35rem" }}>
+      {before} → {after}
+      {change.move !== null ? <Icon size={14} color={deltaColor(change.move)} /> : null}
+    </span>
+  );
+}
+
+const SEGMENT_STYLES = {
+  same: {},
+  added: { background: "rgba(52, 211, 153, 0.2)", color: "#a7f3d0" },
+  removed: {
+    background: "rgba(251, 113, 133, 0.18)",
+    color: "#fecdd3",
+    textDecoration: "line-through",
+  },
+};
+
+interface ModelDiffCardProps {
+  model: ModelDiff;
+  metrics: RubricMetric[];
+}
+
+function ModelDiffCard({ model, metrics }: ModelDiffCardProps) {
+  return (
+    <article className="card" style={{ padding: "1.5rem" }}>
+      <header className="flexRow" style={{ justifyContent: "space-between", flexWrap: "wrap" }}>
+        <h3 className="cardTitle" style={{ marginBottom: 0 }}>
+          {model.name}
+        </h3>
+        <span className="badge badgeNeutral">
+          {model.contentChanged ? "Narrative changed" : "Narrative unchanged"}
+        </span>
+      </header>
+      <div className="flexRow" style={{ flexWrap: "wrap", gap: "0.5rem", margin: "1rem 0" }}>
+        {metrics.map((metric) => (
+          <span key={metric.key} className="chip">
+            {metric.label} <ScoreCell change={model.metrics[metric.key]} />
+          </span>
+        ))}
+      </div>
+      <p style={{ whiteSpace: "pre-line", lineHeight: 1.6, color: "rgba(226,232,240,0.85)" }}>
+        {model.content.map((segment, index) => (
+          <span key={index} style={SEGMENT_STYLES[segment.kind]}>
+            {segment.text}
+          </span>
+        ))}
+      </p>
+    </article>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import type { BattleVote, StoredRun } from "@/types";
+import { isSealed } from "@/lib/blind";
+import { summariseAlignment } from "@/lib/scoring";
+import { BattleMode } from "./BattleMode";
+import { EvaluationDeck } from "./EvaluationDeck";
+import { ExportMenu } from "./ExportMenu";
+import { ResultViewSwitch, type ResultView } from "./ResultViewSwitch";
+
+interface RunDetailProps {
+  run: StoredRun;
+}
+
+export function RunDetail({ run }: RunDetailProps) {
+  const router = useRouter();
+  const [userChoice, setUserChoice] = useState<string | null>(run.userChoice);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [view, setView] = useState<ResultView>("results");
+  const [battles, setBattles] = useState<BattleVote[]>(run.battles ?? []);
+
+  const alignment = useMemo(
+    () =>
+      userChoice && run.result.geminiVerdict
+        ? summariseAlignment(run.result.geminiVerdict, userChoice)
+        : null,
+    [userChoice, run.result.geminiVerdict],
+  );
+
+  const formatModelName = (modelId: string) =>
+    [...run.models, ...(run.judges ?? [])].find((model) => model.id === modelId)?.name ??
+    modelId;
+
+  const handleUserChoice = async (modelId: string) => {
+    const previous = userChoice;
+    setUserChoice(modelId);
+    setErrorMessage(null);
+    const response = await fetch(`/api/runs/${run.id}`, {
+      method: "PATCH",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ userChoice: modelId }),
+    }).catch(() => null);
+    if (!response?.ok) {
+      setUserChoice(previous);
+      setErrorMessage("Your vote could not be saved.");
+    } else if (isSealed(run)) {
+      router.refresh();
+    }
+  };
+
+  return (
+    <div className="grid" style={{ gap: "1.5rem" }}>
+      {errorMessage ? (
+        <div
+          className="card"
+          style={{
+            border: "1px solid rgba(248, 113, 113, 0.55)",
+            background: "rgba(248, 113, 113, 0.1)",
+            color: "#fecaca",
+          }}
+        >
+          {errorMessage}
+        </div>
+      ) : null}
+      {!run.result.aliases || userChoice ? (
+        <ExportMenu run={{ ...run, userChoice, battles }} />
+      ) : null}
+      <ResultViewSwitch value={view} onChange={setView} />
+      {view === "battle" ? (
+        <BattleMode
+          runId={run.id}
+          responses={run.result.responses}
+          models={run.models}
+          aliases={userChoice ? undefined : run.result.aliases}
+          battles={battles}
+          onBattlesChange={setBattles}
+        />
+      ) : (
+        <EvaluationDeck
+          result={run.result}
+          selectedModels={run.models}
+          userChoice={userChoice}
+          onUserChoice={handleUserChoice}
+          alignment={alignment}
+          formatModelName={formatModelName}
+        />
+      )}
+    </div>
+  );
+}
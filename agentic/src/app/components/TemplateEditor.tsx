@@ -0,0 +1,473 @@
+"use client";
+
+import { useState } from "react";
+import { Copy, History, Pencil, Plus, Trash2 } from "lucide-react";
+import type { PromptMode, PromptTemplate, TemplateVariable } from "@/types";
+import { PROMPT_MODES } from "@/lib/attachments";
+import { BUILT_IN_TEMPLATES, currentVersion, extractVariables } from "@/lib/templates";
+
+interface TemplateEditorProps {
+  initialTemplates: PromptTemplate[];
+}
+
+interface TemplateDraft {
+  id: string;
+  name: string;
+  description: string;
+  tags: string;
+  mode: PromptMode;
+  systemPrompt: string;
+  body: string;
+  variables: TemplateVariable[];
+}
+
+const EMPTY_DRAFT: TemplateDraft = {
+  id: "",
+  name: "",
+  description: "",
+  tags: "",
+  mode: "text",
+  systemPrompt: "",
+  body: "",
+  variables: [],
+};
+
+function toDraft(template: PromptTemplate): TemplateDraft {
+  const latest = currentVersion(template);
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    tags: template.tags.join(", "),
+    mode: latest.mode,
+    systemPrompt: latest.systemPrompt,
+    body: latest.body,
+    variables: latest.variables,
+  };
+}
+
+/** Shapes the form into the API payload; the server owns validation. */
+function fromDraft(draft: TemplateDraft) {
+  return {
+    id: draft.id,
+    name: draft.name,
+    description: draft.description,
+    tags: draft.tags.split(","),
+    mode: draft.mode,
+    systemPrompt: draft.systemPrompt,
+    body: draft.body,
+    variables: draft.variables,
+  };
+}
+
+/** One form row per placeholder, keeping settings already entered for it. */
+function detectedVariables(draft: TemplateDraft): TemplateVariable[] {
+  return extractVariables(draft.body, draft.systemPrompt).map(
+    (name) =>
+      draft.variables.find((variable) => variable.name === name) ?? {
+        name,
+        label: name,
+        description: "",
+        defaultValue: "",
+        multiline: false,
+      },
+  );
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const payload = await response.json().catch(() => ({}));
+  return payload.error ?? fallback;
+}
+
+export function TemplateEditor({ initialTemplates }: TemplateEditorProps) {
+  const [templates, setTemplates] = useState<PromptTemplate[]>(initialTemplates);
+  const [draft, setDraft] = useState<TemplateDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const variables = detectedVariables(draft);
+
+  const update = <K extends keyof TemplateDraft>(key: K, value: TemplateDraft[K]) =>
+    setDraft((current) => ({ ...current, [key]: value }));
+
+  const updateVariable = <K extends keyof TemplateVariable>(
+    name: string,
+    key: K,
+    value: TemplateVariable[K],
+  ) =>
+    setDraft((current) => ({
+      ...current,
+      variables: detectedVariables(current).map((variable) =>
+        variable.name === name ? { ...variable, [key]: value } : variable,
+      ),
+    }));
+
+  const clearMessages = () => {
+    setErrorMessage(null);
+    setNotice(null);
+  };
+
+  const startEdit = (template: PromptTemplate) => {
+    setEditingId(template.id);
+    setDraft(toDraft(template));
+    clearMessages();
+  };
+
+  const duplicate = (template: PromptTemplate) => {
+    setEditingId(null);
+    setDraft({
+      ...toDraft(template),
+      id: `${template.id}-copy`,
+      name: `${template.name} (copy)`,
+    });
+    clearMessages();
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const submit = async () => {
+    clearMessages();
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        editingId ? `/api/templates/${encodeURIComponent(editingId)}` : "/api/templates",
+        {
+          method: editingId ? "PUT" : "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify(fromDraft({ ...draft, variables })),
+        },
+      );
+      if (!response.ok) throw new Error(await readError(response, "Template could not be saved."));
+      const saved = (await response.json()) as PromptTemplate;
+      setTemplates((current) =>
+        editingId
+          ? current.map((template) => (template.id === editingId ? saved : template))
+          : [...current, saved],
+      );
+      setNotice(`${saved.name} saved as v${currentVersion(saved).version}.`);
+      resetForm();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Template could not be saved.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const remove = async (template: PromptTemplate) => {
+    if (!window.confirm(`Delete the ${template.name} template and its history?`)) return;
+    clearMessages();
+    const response = await fetch(`/api/templates/${encodeURIComponent(template.id)}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      setErrorMessage(await readError(response, "Template could not be deleted."));
+      return;
+    }
+    setTemplates((current) => current.filter((item) => item.id !== template.id));
+    if (editingId === template.id) resetForm();
+  };
+
+  return (
+    <div className="grid" style={{ gap: "1.5rem" }}>
+      <section className="card" style={{ padding: "1.5rem" }}>
+        <p className="sectionTitle">Templates</p>
+        {notice ? (
+          <p style={{ marginBottom: "0.75rem", fontSize: "0.9rem", color: "#38bdf8" }}>{notice}</p>
+        ) : null}
+        <div className="grid" style={{ gap: "0.85rem" }}>
+          {templates.map((template) => {
+            const isBuiltIn = BUILT_IN_TEMPLATES.some((item) => item.id === template.id);
+            const latest = currentVersion(template);
+            return (
+              <article
+                key={template.id}
+                className="card"
+                style={{ padding: "1rem", background: "rgba(15,23,42,0.45)" }}
+              >
+                <header
+                  className="flexRow"
+                  style={{ justifyContent: "space-between", flexWrap: "wrap" }}
+                >
+                  <div>
+                    <p style={{ fontWeight: 600 }}>
+                      {template.name}
+                      <span className="badge badgeNeutral" style={{ marginLeft: "0.5rem" }}>
+                        v{latest.version}
+                      </span>
+                      {isBuiltIn ? (
+                        <span className="badge badgeNeutral" style={{ marginLeft: "0.5rem" }}>
+                          built in
+                        </span>
+                      ) : null}
+                    </p>
+                    <p style={{ fontSize: "0.85rem", color: "rgba(226,232,240,0.6)" }}>
+                      {template.id} • {latest.mode}
+                      {template.description ? ` • ${template.description}` : ""}
+                    </p>
+                  </div>
+                  <div className="flexRow" style={{ gap: "0.4rem" }}>
+                    {template.versions.length > 1 ? (
+                      <button
+                        type="button"
+                        className="chip"
+                        style={{ cursor: "pointer", color: "inherit" }}
+                        onClick={() =>
+                          setHistoryId((current) => (current === template.id ? null : template.id))
+                        }
+                        aria-label={`Version history of ${template.name}`}
+                      >
+                        <History size={14} />
+                      </button>
+                    ) : null}
+                    <button
+                      type="button"
+                      className="chip"
+                      style={{ cursor: "pointer", color: "inherit" }}
+                      onClick={() => duplicate(template)}
+                      aria-label={`Duplicate ${template.name}`}
+                    >
+                      <Copy size={14} />
+                    </button>
+                    {isBuiltIn ? null : (
+                      <>
+                        <button
+                          type="button"
+                          className="chip"
+                          style={{ cursor: "pointer", color: "inherit" }}
+                          onClick={() => startEdit(template)}
+                          aria-label={`Edit ${template.name}`}
+                        >
+                          <Pencil size={14} />
+                        </button>
+                        <button
+                          type="button"
+                          className="chip"
+                          style={{ cursor: "pointer", color: "inherit" }}
+                          onClick={() => remove(template)}
+                          aria-label={`Delete ${template.name}`}
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </header>
+                <div className="flexRow" style={{ flexWrap: "wrap", gap: "0.5rem", marginTop: "0.75rem" }}>
+                  {template.tags.map((tag) => (
+                    <span key={tag} className="chip">
+                      #{tag}
+                    </span>
+                  ))}
+                  {latest.variables.map((variable) => (
+                    <span key={variable.name} className="chip" title={variable.description}>
+                      {`{{${variable.name}}}`}
+                    </span>
+                  ))}
+                </div>
+                {historyId === template.id ? (
+                  <ol className="grid" style={{ gap: "0.6rem", marginTop: "0.75rem" }}>
+                    {[...template.versions].reverse().map((version) => (
+                      <li
+                        key={version.version}
+                        className="card"
+                        style={{ padding: "0.75rem", fontSize: "0.85rem" }}
+                      >
+                        <p style={{ fontWeight: 600 }}>
+                          v{version.version} • {new Date(version.createdAt).toLocaleString("en")}
+                        </p>
+                        {version.systemPrompt ? (
+                          <p style={{ color: "rgba(226,232,240,0.6)", whiteSpace: "pre-line" }}>
+                            System: {version.systemPrompt}
+                          </p>
+                        ) : null}
+                        <p style={{ color: "rgba(226,232,240,0.8)", whiteSpace: "pre-line" }}>
+                          {version.body}
+                        </p>
+                      </li>
+                    ))}
+                  </ol>
+                ) : null}
+              </article>
+            );
+          })}
+        </div>
+      </section>
+
+      <section className="card grid" style={{ padding: "1.5rem", gap: "1rem" }}>
+        <p className="sectionTitle" style={{ marginBottom: 0 }}>
+          {editingId ? `Edit ${editingId}` : "Create a template"}
+        </p>
+        {editingId ? (
+          <p className="cardSubtitle" style={{ marginBottom: 0 }}>
+            Changes to the prompt, system prompt, mode or variables are saved as a new version;
+            past runs keep pointing at the version they used.
+          </p>
+        ) : null}
+        <div
+          className="grid"
+          style={{ gridTemplateColumns: "repeat(auto-fit, minmax(220px, 1fr))", gap: "1rem" }}
+        >
+          <Field label="Id">
+            <input
+              className="input"
+              value={draft.id}
+              disabled={Boolean(editingId)}
+              onChange={(event) => update("id", event.target.value)}
+              placeholder="Derived from the name"
+            />
+          </Field>
+          <Field label="Name">
+            <input
+              className="input"
+              value={draft.name}
+              onChange={(event) => update("name", event.target.value)}
+            />
+          </Field>
+          <Field label="Tags">
+            <input
+              className="input"
+              value={draft.tags}
+              onChange={(event) => update("tags", event.target.value)}
+              placeholder="Comma separated"
+            />
+          </Field>
+          <Field label="Mode">
+            <select
+              className="select"
+              value={draft.mode}
+              onChange={(event) => update("mode", event.target.value as PromptMode)}
+            >
+              {PROMPT_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {mode}
+                </option>
+              ))}
+            </select>
+          </Field>
+        </div>
+        <Field label="Description">
+          <input
+            className="input"
+            value={draft.description}
+            onChange={(event) => update("description", event.target.value)}
+          />
+        </Field>
+        <Field label="System prompt / persona">
+          <textarea
+            className="textarea"
+            style={{ minHeight: "80px" }}
+            value={draft.systemPrompt}
+            onChange={(event) => update("systemPrompt", event.target.value)}
+            placeholder="Optional. May use {{variables}} too."
+          />
+        </Field>
+        <Field label="Prompt body">
+          <textarea
+            className="textarea"
+            value={draft.body}
+            onChange={(event) => update("body", event.target.value)}
+            placeholder="Write the prompt; mark fill-in values as {{variable_name}}."
+          />
+        </Field>
+        {variables.length ? (
+          <div className="grid" style={{ gap: "0.75rem" }}>
+            <p className="fieldLabel" style={{ marginBottom: 0 }}>
+              Variables
+            </p>
+            {variables.map((variable) => (
+              <div
+                key={variable.name}
+                className="grid"
+                style={{
+                  gridTemplateColumns: "0.8fr 1fr 1.4fr 1.4fr auto",
+                  gap: "0.5rem",
+                  alignItems: "center",
+                }}
+              >
+                <span className="chip">{`{{${variable.name}}}`}</span>
+                <input
+                  className="input"
+                  value={variable.label}
+                  onChange={(event) => updateVariable(variable.name, "label", event.target.value)}
+                  placeholder="Label"
+                  aria-label="Variable label"
+                />
+                <input
+                  className="input"
+                  value={variable.defaultValue}
+                  onChange={(event) =>
+                    updateVariable(variable.name, "defaultValue", event.target.value)
+                  }
+                  placeholder="Default value"
+                  aria-label="Default value"
+                />
+                <input
+                  className="input"
+                  value={variable.description}
+                  onChange={(event) =>
+                    updateVariable(variable.name, "description", event.target.value)
+                  }
+                  placeholder="Hint shown in the form"
+                  aria-label="Variable hint"
+                />
+                <label className="flexRow" style={{ gap: "0.35rem", fontSize: "0.85rem" }}>
+                  <input
+                    type="checkbox"
+                    checked={variable.multiline}
+                    onChange={(event) =>
+                      updateVariable(variable.name, "multiline", event.target.checked)
+                    }
+                  />
+                  Long text
+                </label>
+              </div>
+            ))}
+          </div>
+        ) : null}
+        {errorMessage ? (
+          <div
+            className="card"
+            style={{
+              border: "1px solid rgba(248, 113, 113, 0.55)",
+              background: "rgba(248, 113, 113, 0.1)",
+              color: "#fecaca",
+            }}
+          >
+            {errorMessage}
+          </div>
+        ) : null}
+        <div className="flexRow" style={{ gap: "0.75rem" }}>
+          <button type="button" className="buttonPrimary" onClick={submit} disabled={isSaving}>
+            <Plus size={18} /> {editingId ? "Save changes" : "Create template"}
+          </button>
+          {editingId || draft.name ? (
+            <button
+              type="button"
+              className="buttonPrimary"
+              style={{ background: "rgba(148,163,184,0.2)", color: "rgba(226,232,240,0.8)" }}
+              onClick={resetForm}
+            >
+              Cancel
+            </button>
+          ) : null}
+        </div>
+      </section>
+    </div>
+  );
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label style={{ display: "grid", gap: "0.35rem" }}>
+      <span className="fieldLabel" style={{ marginBottom: 0 }}>
+        {label}
+      </span>
+      {children}
+    </label>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import Link from "next/link";
+import { Library } from "lucide-react";
+import type { PromptTemplate } from "@/types";
+import { currentVersion, defaultValues, findVersion, renderTemplate } from "@/lib/templates";
+
+/** The template revision and values currently filling the prompt. */
+export interface TemplateSelection {
+  templateId: string;
+  version: number;
+  variables: Record<string, string>;
+}
+
+interface TemplatePickerProps {
+  templates: PromptTemplate[];
+  selection: TemplateSelection | null;
+  onChange: (selection: TemplateSelection | null) => void;
+  /** Current prompt and system prompt, to flag hand edits after filling. */
+  prompt: string;
+  systemPrompt: string;
+}
+
+export function TemplatePicker({
+  templates,
+  selection,
+  onChange,
+  prompt,
+  systemPrompt,
+}: TemplatePickerProps) {
+  const template = templates.find((item) => item.id === selection?.templateId);
+  const version = template && selection ? findVersion(template, selection.version) : undefined;
+  const rendered = version && selection ? renderTemplate(version, selection.variables) : null;
+  const isEdited = rendered
+    ? rendered.prompt !== prompt || rendered.systemPrompt !== systemPrompt
+    : false;
+
+  const selectTemplate = (templateId: string) => {
+    const next = templates.find((item) => item.id === templateId);
+    if (!next) {
+      onChange(null);
+      return;
+    }
+    const latest = currentVersion(next);
+    onChange({ templateId, version: latest.version, variables: defaultValues(latest) });
+  };
+
+  const selectVersion = (versionNumber: number) => {
+    const next = template ? findVersion(template, versionNumber) : undefined;
+    if (!next || !selection) return;
+    // Carry over values for variables the other revision shares.
+    const variables = defaultValues(next);
+    Object.keys(variables).forEach((name) => {
+      if (name in selection.variables) variables[name] = selection.variables[name];
+    });
+    onChange({ ...selection, version: versionNumber, variables });
+  };
+
+  return (
+    <div className="grid" style={{ gap: "0.75rem" }}>
+      <div className="flexRow" style={{ justifyContent: "space-between", flexWrap: "wrap" }}>
+        <p className="fieldLabel" style={{ marginBottom: 0 }}>
+          Prompt Library
+        </p>
+        <Link href="/templates" className="chip">
+          <Library size={16} /> Manage templates
+        </Link>
+      </div>
+      <div className="flexRow" style={{ gap: "0.5rem", flexWrap: "nowrap" }}>
+        <select
+          className="select"
+          value={selection?.templateId ?? ""}
+          onChange={(event) => selectTemplate(event.target.value)}
+        >
+          <option value="">Freeform prompt</option>
+          {templates.map((item) => (
+            <option key={item.id} value={item.id}>
+              {item.name}
+              {item.tags.length ? ` — ${item.tags.join(", ")}` : ""}
+            </option>
+          ))}
+        </select>
+        {template && template.versions.length > 1 ? (
+          <select
+            className="select"
+            style={{ width: "auto" }}
+            value={selection?.version}
+            onChange={(event) => selectVersion(Number(event.target.value))}
+            aria-label="Template version"
+          >
+            {template.versions.map((item) => (
+              <option key={item.version} value={item.version}>
+                v{item.version}
+                {item === currentVersion(template) ? " (latest)" : ""}
+              </option>
+            ))}
+          </select>
+        ) : null}
+      </div>
+      {template && version && selection ? (
+        <div className="card" style={{ padding: "1rem", display: "grid", gap: "0.75rem" }}>
+          <div className="flexRow" style={{ gap: "0.5rem", flexWrap: "wrap" }}>
+            <span className="badge badgePrimary">v{version.version}</span>
+            <span className="badge badgeNeutral">{version.mode}</span>
+            {version.systemPrompt ? <span className="badge badgeNeutral">persona</span> : null}
+            {isEdited ? (
+              <span
+                className="badge"
+                style={{ background: "rgba(250, 204, 21, 0.16)", color: "#fde68a" }}
+                title="The prompt no longer matches the filled template; the run records this."
+              >
+                edited by hand
+              </span>
+            ) : null}
+          </div>
+          {template.description ? (
+            <p style={{ fontSize: "0.9rem", color: "rgba(226,232,240,0.7)" }}>
+              {template.description}
+            </p>
+          ) : null}
+          {version.variables.map((variable) => (
+            <label key={variable.name} style={{ display: "grid", gap: "0.35rem" }}>
+              <span className="fieldLabel" style={{ marginBottom: 0 }}>
+                {variable.label}
+              </span>
+              {variable.multiline ? (
+                <textarea
+                  className="textarea"
+                  style={{ minHeight: "90px" }}
+                  value={selection.variables[variable.name] ?? ""}
+                  placeholder={variable.description}
+                  onChange={(event) =>
+                    onChange({
+                      ...selection,
+                      variables: { ...selection.variables, [variable.name]: event.target.value },
+                    })
+                  }
+                />
+              ) : (
+                <input
+                  className="input"
+                  value={selection.variables[variable.name] ?? ""}
+                  placeholder={variable.description}
+                  onChange={(event) =>
+                    onChange({
+                      ...selection,
+                      variables: { ...selection.variables, [variable.name]: event.target.value },
+                    })
+                  }
+                />
+              )}
+            </label>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { Wrench } from "lucide-react";
+import type { ToolKit } from "@/types";
+import { MAX_TOOL_CALLS } from "@/lib/tools";
+
+interface ToolkitPickerProps {
+  toolkits: ToolKit[];
+  /** Empty when the run has no tools. */
+  selectedId: string;
+  onChange: (toolkitId: string) => void;
+}
+
+export function ToolkitPicker({ toolkits, selectedId, onChange }: ToolkitPickerProps) {
+  const selected = toolkits.find((toolkit) => toolkit.id === selectedId);
+
+  return (
+    <section className="card grid" style={{ gap: "1rem" }}>
+      <header>
+        <p className="sectionTitle">Tool use</p>
+        <p className="cardSubtitle" style={{ marginBottom: 0 }}>
+          Give every model mock tools to call, up to {MAX_TOOL_CALLS} times. Tool selection and
+          argument validity count towards the leaderboard alongside the final answer. Calls use a
+          plain-text JSON protocol, with results sent back as user messages, rather than each
+          vendor&apos;s native function calling.
+        </p>
+      </header>
+      <select
+        className="select"
+        value={selectedId}
+        onChange={(event) => onChange(event.target.value)}
+      >
+        <option value="">No tools</option>
+        {toolkits.map((toolkit) => (
+          <option key={toolkit.id} value={toolkit.id}>
+            {toolkit.name}
+          </option>
+        ))}
+      </select>
+      {selected ? (
+        <>
+          <p style={{ fontSize: "0.85rem", color: "rgba(226,232,240,0.65)" }}>
+            {selected.description} Picking it fills in the task as the prompt.
+          </p>
+          <div className="flexRow" style={{ flexWrap: "wrap", gap: "0.5rem" }}>
+            {selected.tools.map((tool) => (
+              <span
+                key={tool.name}
+                className="chip"
+                title={tool.description}
+                style={
+                  selected.expectedTools.includes(tool.name)
+                    ? { borderColor: "rgba(56,189,248,0.6)", color: "#38bdf8" }
+                    : undefined
+                }
+              >
+                <Wrench size={14} /> {tool.name}
+              </span>
+            ))}
+          </div>
+        </>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ModelOption, PromptTemplate, Rubric } from "@/types";
+
+function useApiList<T>(url: string, label: string) {
+  const [items, setItems] = useState<T[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(url)
+      .then((response) => {
+        if (!response.ok) throw new Error(`${label} failed with status ${response.status}.`);
+        return response.json();
+      })
+      .then((payload: T[]) => {
+        if (!cancelled) setItems(payload);
+      })
+      .catch((reason) => {
+        if (!cancelled) {
+          setError(reason instanceof Error ? reason.message : `${label} unavailable.`);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [url, label]);
+
+  return { items, isLoaded, error };
+}
+
+/** Loads the editable model registry served by `/api/models`. */
+export function useModelRegistry() {
+  const { items, isLoaded, error } = useApiList<ModelOption>("/api/models", "Model registry");
+  return { models: items, isLoaded, error };
+}
+
+/** Loads the built-in and custom rubrics served by `/api/rubrics`. */
+export function useRubrics() {
+  const { items, isLoaded, error } = useApiList<Rubric>("/api/rubrics", "Rubric list");
+  return { rubrics: items, isLoaded, error };
+}
+
+/** Loads the built-in and saved prompt templates served by `/api/templates`. */
+export function useTemplates() {
+  const { items, isLoaded, error } = useApiList<PromptTemplate>("/api/templates", "Template list");
+  return { templates: items, isLoaded, error };
+}
@@ -1,4 +1,5 @@
 import type { Metadata } from "next";
+import Link from "next/link";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -14,7 +15,35 @@ export default function RootLayout({
     <html lang="en">
       <body>
         <main>
-          <div className="container">{children}</div>
+          <div className="container">
+            <nav className="nav" aria-label="Primary">
+              <Link href="/" className="navLink">
+                Arena
+              </Link>
+              <Link href="/suites" className="navLink">
+                Suites
+              </Link>
+              <Link href="/runs" className="navLink">
+                Run history
+              </Link>
+              <Link href="/analytics" className="navLink">
+                Agreement
+              </Link>
+              <Link href="/ratings" className="navLink">
+                Ratings
+              </Link>
+              <Link href="/settings" className="navLink">
+                Models
+              </Link>
+              <Link href="/rubrics" className="navLink">
+                Rubrics
+              </Link>
+              <Link href="/templates" className="navLink">
+                Templates
+              </Link>
+            </nav>
+            {children}
+          </div>
         </main>
       </body>
     </html>
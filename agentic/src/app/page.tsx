@@ -1,128 +1,189 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { EyeOff, History, Loader2, RefreshCcw, Sparkles } from "lucide-react";
 import {
-  ArrowRight,
-  Award,
-  Loader2,
-  RefreshCcw,
-  Sparkles,
-  Trophy,
-} from "lucide-react";
-import {
-  CrossEvaluation,
-  GeminiVerdict,
-  LeaderboardEntry,
-  ModelOption,
-  ModelResponse,
+  AggregationConfig,
+  ArbiterConfig,
+  BattleVote,
+  EvaluationEvent,
+  ModalityPolicy,
   PromptMode,
+  ResultState,
+  ScenarioTurn,
+  TemplateUsage,
 } from "@/types";
+import { AggregationPicker } from "./components/AggregationPicker";
+import { ArbiterPicker } from "./components/ArbiterPicker";
+import { BattleMode } from "./components/BattleMode";
+import { ConversationEditor, toScenarioPayload } from "./components/ConversationEditor";
+import { EvaluationDeck } from "./components/EvaluationDeck";
+import { ExportMenu } from "./components/ExportMenu";
+import {
+  EMPTY_PARAMS,
+  GenerationSettings,
+  toParamsPayload,
+  type ParamsDraft,
+} from "./components/GenerationSettings";
 import { ModelSelector } from "./components/ModelSelector";
-import { PromptInput } from "./components/PromptInput";
+import { PromptInput, type AttachmentDraft } from "./components/PromptInput";
+import { ResultViewSwitch, type ResultView } from "./components/ResultViewSwitch";
+import { RubricPicker } from "./components/RubricPicker";
+import type { TemplateSelection } from "./components/TemplatePicker";
+import { ToolkitPicker } from "./components/ToolkitPicker";
+import { useModelRegistry, useRubrics, useTemplates } from "./components/useRegistries";
+import { computeLeaderboard, summariseAlignment } from "@/lib/scoring";
+import { readEventStream } from "@/lib/eventStream";
 import {
-  computeLeaderboard,
-  formatScore,
-  generateCrossEvaluation,
-  generateModelResponse,
-  summariseAlignment,
-  synthesiseGeminiVerdict,
-} from "@/lib/scoring";
-
-const MODEL_OPTIONS: ModelOption[] = [
-  {
-    id: "gpt4o",
-    name: "GPT-4.1 Omni",
-    provider: "OpenAI",
-    tags: ["reasoning", "tools", "multimodal"],
-    modality: ["text", "vision", "audio"],
-  },
-  {
-    id: "claude3-opus",
-    name: "Claude 3 Opus",
-    provider: "Anthropic",
-    tags: ["analysis", "alignment", "orchestration"],
-    modality: ["text", "vision"],
-  },
-  {
-    id: "gemini-1.5",
-    name: "Gemini 1.5 Pro",
-    provider: "Google DeepMind",
-    tags: ["reasoning", "multimodal", "long-context"],
-    modality: ["text", "vision", "audio", "video"],
-  },
-  {
-    id: "llama3-70b",
-    name: "Llama 3 70B",
-    provider: "Meta AI",
-    tags: ["open", "fine-tuning", "deployable"],
-    modality: ["text", "vision"],
-  },
-  {
-    id: "mistral-large",
-    name: "Mistral Large",
-    provider: "Mistral AI",
-    tags: ["europe", "balanced", "multilingual"],
-    modality: ["text", "vision"],
-  },
-  {
-    id: "qwen2-vl",
-    name: "Qwen2 VL 72B",
-    provider: "Alibaba Cloud",
-    tags: ["vision-language", "instruction", "enterprise"],
-    modality: ["text", "vision"],
-  },
-  {
-    id: "idefics3",
-    name: "Idefics 3",
-    provider: "Hugging Face",
-    tags: ["open", "vision", "creative"],
-    modality: ["text", "vision"],
-  },
-];
-
-const DEFAULT_PROMPT = `You are assisting a multidisciplinary innovation team exploring climate-resilient urban farming. Combine systems-level reasoning with tangible design suggestions. The response should include: (1) a comparative assessment of three candidate multimodal greenhouse layouts, (2) evaluation of potential failure modes under extreme weather events, (3) opportunities to incorporate community participation and sensing infrastructure.`;
-
-interface ResultState {
-  responses: ModelResponse[];
-  crossEvaluations: CrossEvaluation[];
-  leaderboard: LeaderboardEntry[];
-  geminiVerdict: GeminiVerdict | null;
-  topThree: string[];
-}
-
-const MAX_SELECTIONS = 5;
-const MIN_MODELS = 4;
+  ATTACHMENT_MODALITY,
+  checkAttachmentFile,
+  describeAttachments,
+  MAX_ATTACHMENTS,
+  modeAccepts,
+  requiredModalities,
+  validateAttachment,
+} from "@/lib/attachments";
+import {
+  checkCompatibility,
+  DEFAULT_MODEL_IDS,
+  defaultSelection,
+  MAX_SELECTIONS,
+  MIN_MODELS,
+} from "@/lib/models";
+import { DEFAULT_AGGREGATION } from "@/lib/aggregation";
+import { DEFAULT_ARBITER, resolveArbiter } from "@/lib/arbiter";
+import { DEFAULT_RUBRIC_ID } from "@/lib/rubrics";
+import {
+  BUILT_IN_TEMPLATES,
+  currentVersion,
+  defaultValues,
+  findVersion,
+  renderTemplate,
+} from "@/lib/templates";
+import { BUILT_IN_TOOLKITS } from "@/lib/tools";
+
+const EMPTY_RESULT: ResultState = {
+  responses: [],
+  crossEvaluations: [],
+  leaderboard: [],
+  geminiVerdict: null,
+  topThree: [],
+};
+
+const DEFAULT_TEMPLATE = BUILT_IN_TEMPLATES[0];
+const DEFAULT_SELECTION: TemplateSelection = {
+  templateId: DEFAULT_TEMPLATE.id,
+  version: currentVersion(DEFAULT_TEMPLATE).version,
+  variables: defaultValues(currentVersion(DEFAULT_TEMPLATE)),
+};
+const DEFAULT_PROMPT = renderTemplate(currentVersion(DEFAULT_TEMPLATE)).prompt;
 
 export default function HomePage() {
-  const [selectedModelIds, setSelectedModelIds] = useState<string[]>([
-    "gpt4o",
-    "claude3-opus",
-    "gemini-1.5",
-    "llama3-70b",
-  ]);
+  const { models, error: registryError } = useModelRegistry();
+  const { rubrics } = useRubrics();
+  const { templates: savedTemplates } = useTemplates();
+  const [selectedRubricId, setSelectedRubricId] = useState(DEFAULT_RUBRIC_ID);
+  const [aggregation, setAggregation] = useState<AggregationConfig>(DEFAULT_AGGREGATION);
+  const [arbiter, setArbiter] = useState<ArbiterConfig>(DEFAULT_ARBITER);
+  const [selectedModelIds, setSelectedModelIds] = useState<string[]>(DEFAULT_MODEL_IDS);
   const [prompt, setPrompt] = useState(DEFAULT_PROMPT);
+  const [systemPrompt, setSystemPrompt] = useState("");
+  const [scenario, setScenario] = useState<ScenarioTurn[]>([]);
+  const [toolkitId, setToolkitId] = useState("");
+  const [templateSelection, setTemplateSelection] = useState<TemplateSelection | null>(
+    DEFAULT_SELECTION,
+  );
   const [mode, setMode] = useState<PromptMode>("multimodal");
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [imageDescriptor, setImageDescriptor] = useState<string | null>(null);
+  const [attachments, setAttachments] = useState<AttachmentDraft[]>([]);
+  const [modalityPolicy, setModalityPolicy] = useState<ModalityPolicy>("flag");
+  const [params, setParams] = useState<ParamsDraft>(EMPTY_PARAMS);
+  const [modelParams, setModelParams] = useState<Record<string, ParamsDraft>>({});
+  const [samples, setSamples] = useState(1);
+  const [blind, setBlind] = useState(false);
+  const [sampleProgress, setSampleProgress] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [result, setResult] = useState<ResultState | null>(null);
   const [userChoice, setUserChoice] = useState<string | null>(null);
   const [alignment, setAlignment] = useState<ReturnType<typeof summariseAlignment> | null>(null);
   const [runCounter, setRunCounter] = useState(0);
+  const [runId, setRunId] = useState<string | null>(null);
+  const [view, setView] = useState<ResultView>("results");
+  const [battles, setBattles] = useState<BattleVote[]>([]);
 
   const selectedModels = useMemo(
     () =>
-      MODEL_OPTIONS.filter((model) => selectedModelIds.includes(model.id)),
-    [selectedModelIds],
+      models.filter((model) => selectedModelIds.includes(model.id)),
+    [models, selectedModelIds],
   );
 
+  // Built-ins are known client side, so the picker works before the list loads.
+  const templates = savedTemplates.length ? savedTemplates : BUILT_IN_TEMPLATES;
+  const templateUsage = useMemo((): TemplateUsage | undefined => {
+    const template = templates.find((item) => item.id === templateSelection?.templateId);
+    const version =
+      template && templateSelection ? findVersion(template, templateSelection.version) : undefined;
+    if (!template || !version || !templateSelection) return undefined;
+    const rendered = renderTemplate(version, templateSelection.variables);
+    return {
+      templateId: template.id,
+      templateName: template.name,
+      version: version.version,
+      variables: templateSelection.variables,
+      edited: rendered.prompt !== prompt || rendered.systemPrompt !== systemPrompt.trim(),
+    };
+  }, [templates, templateSelection, prompt, systemPrompt]);
+
+  const sentAttachments = useMemo(
+    () => attachments.filter((draft) => modeAccepts(mode, draft.attachment.kind)),
+    [attachments, mode],
+  );
+  const requiredInputs = useMemo(
+    () => requiredModalities(mode, sentAttachments.map((draft) => draft.attachment.kind)),
+    [mode, sentAttachments],
+  );
+  const compatibility = useMemo(
+    () =>
+      checkCompatibility(
+        selectedModels,
+        requiredInputs,
+        modalityPolicy,
+        sentAttachments.map((draft) => ATTACHMENT_MODALITY[draft.attachment.kind]),
+      ),
+    [selectedModels, requiredInputs, modalityPolicy, sentAttachments],
+  );
+  const unsupportedModels = selectedModels.flatMap((model) => {
+    const missing = compatibility.degraded.find((item) => item.modelId === model.id)?.missing;
+    return missing ? [{ model, missing }] : [];
+  });
+
+  useEffect(() => {
+    if (!models.length) return;
+    setSelectedModelIds((prev) => {
+      const kept = prev.filter((id) => models.some((model) => model.id === id));
+      return kept.length >= MIN_MODELS ? kept : defaultSelection(models);
+    });
+  }, [models]);
+
+  useEffect(() => {
+    if (registryError) setErrorMessage(registryError);
+  }, [registryError]);
+
+  useEffect(() => {
+    fetch("/api/runs")
+      .then((response) => (response.ok ? response.json() : []))
+      .then((runs: unknown[]) => setRunCounter((count) => Math.max(count, runs.length)))
+      .catch(() => undefined);
+  }, []);
+
+  const attachmentsRef = useRef(attachments);
+  attachmentsRef.current = attachments;
   useEffect(() => {
     return () => {
-      if (imagePreview) URL.revokeObjectURL(imagePreview);
+      attachmentsRef.current.forEach((draft) => URL.revokeObjectURL(draft.previewUrl));
     };
-  }, [imagePreview]);
+  }, []);
 
   const handleToggleModel = (modelId: string) => {
     setSelectedModelIds((prev) => {
@@ -136,21 +197,99 @@ export default function HomePage() {
     });
   };
 
-  const handleImageSelected = (file: File | null) => {
-    if (imagePreview) {
-      URL.revokeObjectURL(imagePreview);
-      setImagePreview(null);
+  const handleTemplateSelection = (selection: TemplateSelection | null) => {
+    const template = templates.find((item) => item.id === selection?.templateId);
+    const version = template && selection ? findVersion(template, selection.version) : undefined;
+    if (selection && version) {
+      const rendered = renderTemplate(version, selection.variables);
+      setPrompt(rendered.prompt);
+      setSystemPrompt(rendered.systemPrompt);
+      // Only a switch of template or revision picks the template's modality.
+      if (
+        selection.templateId !== templateSelection?.templateId ||
+        selection.version !== templateSelection?.version
+      ) {
+        setMode(version.mode);
+      }
     }
-    if (!file) {
-      setImageFile(null);
-      setImageDescriptor(null);
-      return;
+    setTemplateSelection(selection);
+  };
+
+  // Toolkit runs are single-turn, and the toolkit's task replaces the prompt.
+  const handleToolkitChange = (id: string) => {
+    const toolkit = BUILT_IN_TOOLKITS.find((item) => item.id === id);
+    if (toolkit) {
+      setPrompt(toolkit.task);
+      setTemplateSelection(null);
+      setScenario([]);
+    }
+    setToolkitId(id);
+  };
+
+  const handleScenarioChange = (turns: ScenarioTurn[]) => {
+    if (turns.length) setToolkitId("");
+    setScenario(turns);
+  };
+
+  const handleFilesSelected = async (files: File[]) => {
+    const room = MAX_ATTACHMENTS - attachments.length;
+    const drafts: AttachmentDraft[] = [];
+    const problems: string[] = [];
+    if (files.length > room) {
+      problems.push(`Only ${MAX_ATTACHMENTS} files can be attached to one prompt.`);
+    }
+    for (const file of files.slice(0, Math.max(0, room))) {
+      try {
+        checkAttachmentFile(file.type, file.size);
+        const base64 = await readFileAsBase64(file);
+        const info = validateAttachment({ name: file.name, mimeType: file.type, base64 });
+        drafts.push({
+          attachment: { kind: info.kind, name: file.name, mimeType: info.mimeType, base64 },
+          info,
+          previewUrl: URL.createObjectURL(file),
+        });
+      } catch (error) {
+        problems.push(
+          error instanceof Error ? `${file.name}: ${error.message}` : `${file.name} could not be read.`,
+        );
+      }
+    }
+    setAttachments((current) => [...current, ...drafts]);
+    setErrorMessage(problems.length ? problems.join(" ") : null);
+  };
+
+  const handleRemoveAttachment = (index: number) => {
+    setAttachments((current) => {
+      URL.revokeObjectURL(current[index].previewUrl);
+      return current.filter((_, position) => position !== index);
+    });
+  };
+
+  const clearAttachments = () => {
+    attachments.forEach((draft) => URL.revokeObjectURL(draft.previewUrl));
+    setAttachments([]);
+  };
+
+  const handleUserChoice = async (modelId: string) => {
+    setUserChoice(modelId);
+    if (!runId) return;
+    try {
+      const response = await fetch(`/api/runs/${runId}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ userChoice: modelId }),
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => ({}));
+        throw new Error(payload.error ?? `Saving your vote failed with status ${response.status}.`);
+      }
+    } catch (error) {
+      setErrorMessage(
+        `Your vote could not be saved to the run history. ${
+          error instanceof Error ? error.message : ""
+        }`.trim(),
+      );
     }
-    const previewUrl = URL.createObjectURL(file);
-    setImageFile(file);
-    setImagePreview(previewUrl);
-    const descriptor = file.name.replace(/\.[^.]+$/, "").replace(/[-_]/g, " ");
-    setImageDescriptor(descriptor);
   };
 
   useEffect(() => {
@@ -159,7 +298,7 @@ export default function HomePage() {
     }
   }, [userChoice, result?.geminiVerdict]);
 
-  const runEvaluation = () => {
+  const runEvaluation = async () => {
     if (selectedModels.length < MIN_MODELS) {
       setErrorMessage(`Select at least ${MIN_MODELS} models to run a comparison.`);
       return;
@@ -168,45 +307,87 @@ export default function HomePage() {
       setErrorMessage("Provide a prompt to evaluate.");
       return;
     }
+    if (compatibility.errors.length) {
+      setErrorMessage(compatibility.errors.join(" "));
+      return;
+    }
     setErrorMessage(null);
     setIsProcessing(true);
+    setSampleProgress(null);
     setUserChoice(null);
     setAlignment(null);
-
-    const payloadSeed = `${prompt}|${mode}|${imageDescriptor ?? ""}|${runCounter}`;
-
-    window.setTimeout(() => {
-      const responses = selectedModels.map((model) =>
-        generateModelResponse(model, prompt, mode, imageDescriptor ?? undefined),
-      );
-      const crossEvaluations: CrossEvaluation[] = [];
-      selectedModels.forEach((evaluator) => {
-        selectedModels.forEach((target) => {
-          crossEvaluations.push(
-            generateCrossEvaluation(evaluator, target, prompt, mode, payloadSeed),
-          );
-        });
+    setRunId(null);
+    setView("results");
+    setBattles([]);
+
+    try {
+      const response = await fetch("/api/evaluations/stream", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          prompt,
+          scenario: toScenarioPayload(scenario, prompt),
+          toolkitId: toolkitId || undefined,
+          systemPrompt,
+          template: templateSelection ?? undefined,
+          mode,
+          modelIds: selectedModelIds,
+          attachments: sentAttachments.map((draft) => draft.attachment),
+          modalityPolicy,
+          params: toParamsPayload(params),
+          modelParams: Object.fromEntries(
+            selectedModelIds.flatMap((id) => {
+              const payload = toParamsPayload(modelParams[id]);
+              return payload ? [[id, payload]] : [];
+            }),
+          ),
+          samples,
+          rubricId: selectedRubricId,
+          aggregation,
+          arbiter,
+          blind,
+          runCounter,
+        }),
       });
-      const leaderboard = computeLeaderboard({
-        responses,
-        crossEvaluations,
+      if (!response.ok || !response.body) {
+        const payload = await response.json().catch(() => ({}));
+        throw new Error(payload.error ?? `Evaluation failed with status ${response.status}.`);
+      }
+      const seed: ResultState = {
+        ...EMPTY_RESULT,
+        rubric: rubrics.find((rubric) => rubric.id === selectedRubricId),
+        aggregation,
+        arbiter,
+        skippedModelIds: compatibility.skipped,
+      };
+      setResult(seed);
+      let streamError: string | null = null;
+      await readEventStream(response.body, (event) => {
+        if (event.type === "error") {
+          streamError = event.message;
+          return;
+        }
+        if (event.type === "sample") {
+          setSampleProgress(`${event.completed}/${event.total} samples`);
+        }
+        if (event.type === "complete" && event.runId) {
+          setRunId(event.runId);
+        }
+        setResult((current) => applyEvaluationEvent(current ?? seed, event));
       });
-      const topThree = leaderboard.slice(0, 3).map((entry) => entry.modelId);
-      const geminiVerdict = synthesiseGeminiVerdict(
-        selectedModels,
-        leaderboard,
-        topThree,
-        crossEvaluations,
-      );
-
-      setResult({ responses, crossEvaluations, leaderboard, geminiVerdict, topThree });
-      setIsProcessing(false);
+      if (streamError) {
+        throw new Error(streamError);
+      }
       setRunCounter((count) => count + 1);
-    }, 280);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Evaluation failed.");
+    } finally {
+      setIsProcessing(false);
+    }
   };
 
   const formatModelName = (modelId: string) =>
-    MODEL_OPTIONS.find((model) => model.id === modelId)?.name ?? modelId;
+    models.find((model) => model.id === modelId)?.name ?? modelId;
 
   return (
     <div className="grid" style={{ gap: "1.75rem" }}>
@@ -221,9 +402,9 @@ export default function HomePage() {
             </h1>
             <p className="cardSubtitle" style={{ marginTop: "0.75rem" }}>
               Spin up a head-to-head evaluation between leading multimodal models. We
-              auto-generate synthetic peer review, shortlist the top three, and let
-              Gemini-3-Pro publish the decisive ranking while you compare your own
-              choice.
+              auto-generate synthetic peer review, shortlist the leaders, and let
+              Gemini-3-Pro or a judging panel of your choice publish the decisive
+              ranking while you compare your own choice.
             </p>
           </div>
           <div className="card" style={{
@@ -248,18 +429,57 @@ export default function HomePage() {
       <PromptInput
         value={prompt}
         onChange={setPrompt}
+        systemPrompt={systemPrompt}
+        onSystemPromptChange={setSystemPrompt}
+        templates={templates}
+        templateSelection={templateSelection}
+        onTemplateSelectionChange={handleTemplateSelection}
         mode={mode}
         onModeChange={setMode}
-        onImageSelected={handleImageSelected}
-        imagePreview={imagePreview}
-        imageName={imageFile?.name ?? null}
+        attachments={attachments}
+        onFilesSelected={handleFilesSelected}
+        onRemoveAttachment={handleRemoveAttachment}
+        unsupportedModels={unsupportedModels}
+        modalityPolicy={modalityPolicy}
+        onModalityPolicyChange={setModalityPolicy}
+      />
+
+      <ConversationEditor prompt={prompt} value={scenario} onChange={handleScenarioChange} />
+
+      <ToolkitPicker
+        toolkits={BUILT_IN_TOOLKITS}
+        selectedId={toolkitId}
+        onChange={handleToolkitChange}
       />
 
       <ModelSelector
-        models={MODEL_OPTIONS}
+        models={models}
         selectedIds={selectedModelIds}
         onToggle={handleToggleModel}
         maxSelections={MAX_SELECTIONS}
+        required={requiredInputs}
+        issues={compatibility.errors}
+        notices={compatibility.warnings}
+      />
+
+      <RubricPicker
+        rubrics={rubrics}
+        selectedId={selectedRubricId}
+        onChange={setSelectedRubricId}
+      />
+
+      <AggregationPicker value={aggregation} onChange={setAggregation} />
+
+      <ArbiterPicker models={models} value={arbiter} onChange={setArbiter} />
+
+      <GenerationSettings
+        models={selectedModels}
+        params={params}
+        onParamsChange={setParams}
+        modelParams={modelParams}
+        onModelParamsChange={setModelParams}
+        samples={samples}
+        onSamplesChange={setSamples}
       />
 
       <section className="card grid" style={{ gap: "1.5rem" }}>
@@ -268,10 +488,28 @@ export default function HomePage() {
             <p className="sectionTitle">Execution</p>
             <p className="cardSubtitle" style={{ marginBottom: 0 }}>
               Fan out prompts to each model, trigger synthetic cross-evaluation, and
-              forward the finalists to Gemini-3-Pro.
+              forward the finalists to the arbiter.
             </p>
           </div>
           <div className="flexRow">
+            <label
+              className="chip"
+              style={{ cursor: "pointer" }}
+              title="Reviewers, the arbiter and this page see Model A, B, C… until you vote"
+            >
+              <input
+                type="checkbox"
+                checked={blind}
+                disabled={isProcessing}
+                onChange={(event) => setBlind(event.target.checked)}
+              />
+              <EyeOff size={16} /> Blind review
+            </label>
+            {runId ? (
+              <Link href={`/runs/${runId}`} className="chip">
+                <History size={16} /> Saved to history
+              </Link>
+            ) : null}
             <button
               type="button"
               className="buttonPrimary"
@@ -283,7 +521,9 @@ export default function HomePage() {
               ) : (
                 <Sparkles size={18} />
               )}
-              {isProcessing ? "Running" : "Run full evaluation"}
+              {isProcessing
+                ? `Running${sampleProgress ? ` (${sampleProgress})` : ""}`
+                : "Run full evaluation"}
             </button>
             {result ? (
               <button
@@ -292,17 +532,27 @@ export default function HomePage() {
                 style={{ background: "rgba(148,163,184,0.2)", color: "rgba(226,232,240,0.8)" }}
                 onClick={() => {
                   setPrompt(DEFAULT_PROMPT);
+                  setSystemPrompt("");
+                  setScenario([]);
+                  setToolkitId("");
+                  setTemplateSelection(DEFAULT_SELECTION);
                   setMode("multimodal");
-                  setSelectedModelIds([
-                    "gpt4o",
-                    "claude3-opus",
-                    "gemini-1.5",
-                    "llama3-70b",
-                  ]);
-                  handleImageSelected(null);
+                  setModalityPolicy("flag");
+                  setParams(EMPTY_PARAMS);
+                  setModelParams({});
+                  setSamples(1);
+                  setBlind(false);
+                  setSelectedModelIds(defaultSelection(models));
+                  setSelectedRubricId(DEFAULT_RUBRIC_ID);
+                  setAggregation(DEFAULT_AGGREGATION);
+                  setArbiter(DEFAULT_ARBITER);
+                  clearAttachments();
                   setResult(null);
+                  setRunId(null);
                   setUserChoice(null);
                   setAlignment(null);
+                  setView("results");
+                  setBattles([]);
                 }}
               >
                 <RefreshCcw size={18} />
@@ -323,14 +573,49 @@ export default function HomePage() {
             {errorMessage}
           </div>
         ) : null}
-        {result ? (
+        {/* Exports name every model, so blind runs only offer them once you have voted. */}
+        {result && !isProcessing && (!result.aliases || userChoice) ? (
+          <ExportMenu
+            run={{
+              prompt,
+              systemPrompt: systemPrompt.trim() || undefined,
+              template: templateUsage,
+              scenario: toScenarioPayload(scenario, prompt.trim()),
+              toolkit: BUILT_IN_TOOLKITS.find((toolkit) => toolkit.id === toolkitId),
+              mode,
+              imageDescriptor:
+                describeAttachments(
+                  sentAttachments.map((draft) => draft.attachment),
+                  sentAttachments.map((draft) => draft.info),
+                ) ?? null,
+              models: selectedModels,
+              result,
+              userChoice,
+              battles,
+            }}
+          />
+        ) : null}
+        {result && runId && !isProcessing ? (
+          <ResultViewSwitch value={view} onChange={setView} />
+        ) : null}
+        {result && runId && view === "battle" ? (
+          <BattleMode
+            runId={runId}
+            responses={result.responses}
+            models={selectedModels}
+            aliases={userChoice ? undefined : result.aliases}
+            battles={battles}
+            onBattlesChange={setBattles}
+          />
+        ) : result ? (
           <EvaluationDeck
             result={result}
             selectedModels={selectedModels}
-            onUserChoice={setUserChoice}
+            onUserChoice={handleUserChoice}
             userChoice={userChoice}
             alignment={alignment}
             formatModelName={formatModelName}
+            isStreaming={isProcessing}
           />
         ) : (
           <div
@@ -345,8 +630,8 @@ export default function HomePage() {
               Configure your arena and launch the run to inspect comparative scoring.
             </p>
             <p style={{ fontSize: "0.9rem" }}>
-              We synthesise structured responses and peer critique locally — no API keys
-              required.
+              Without provider keys on the server we synthesise structured responses and
+              peer critique locally.
             </p>
           </div>
         )}
@@ -355,325 +640,58 @@ export default function HomePage() {
   );
 }
 
-interface EvaluationDeckProps {
-  result: ResultState;
-  selectedModels: ModelOption[];
-  userChoice: string | null;
-  onUserChoice: (modelId: string) => void;
-  alignment: ReturnType<typeof summariseAlignment> | null;
-  formatModelName: (id: string) => string;
-}
-
-function EvaluationDeck({
-  result,
-  selectedModels,
-  userChoice,
-  onUserChoice,
-  alignment,
-  formatModelName,
-}: EvaluationDeckProps) {
-  const { responses, crossEvaluations, leaderboard, geminiVerdict, topThree } = result;
-  const crossMatrix = buildMatrix(crossEvaluations, selectedModels);
-
-  const topThreeNames = topThree.map((id) => formatModelName(id)).join(" → ");
-
-  return (
-    <div className="grid" style={{ gap: "1.5rem" }}>
-      <article className="card" style={{ padding: "1.5rem" }}>
-        <header className="flexRow" style={{ justifyContent: "space-between" }}>
-          <div>
-            <p className="sectionTitle">Leaderboard</p>
-            <p className="cardSubtitle" style={{ marginBottom: 0 }}>
-              Aggregate scoring blends own response quality, peer review, and self
-              reflection to surface the top trio.
-            </p>
-          </div>
-          <div className="chip" style={{ textTransform: "uppercase", letterSpacing: "0.05em" }}>
-            <Trophy size={18} color="#38bdf8" /> {topThreeNames}
-          </div>
-        </header>
-        <table className="table" style={{ marginTop: "1rem" }}>
-          <thead>
-            <tr>
-              <th style={{ width: "28%" }}>Model</th>
-              <th>Own score</th>
-              <th>Peer avg</th>
-              <th>Self check</th>
-              <th>Aggregate</th>
-            </tr>
-          </thead>
-          <tbody>
-            {leaderboard.map((entry, index) => {
-              const response = responses.find((item) => item.modelId === entry.modelId);
-              const selfReflection = crossEvaluations.find(
-                (item) =>
-                  item.evaluatorId === entry.modelId && item.targetId === entry.modelId,
-              );
-              return (
-                <tr key={entry.modelId}>
-                  <td>
-                    <div className="flexRow" style={{ gap: "0.6rem" }}>
-                      <span className="badge badgeNeutral">#{index + 1}</span>
-                      <div>
-                        <p style={{ fontWeight: 600 }}>{formatModelName(entry.modelId)}</p>
-                        <p style={{ fontSize: "0.8rem", color: "rgba(226,232,240,0.6)" }}>
-                          {response?.modalityNotes}
-                        </p>
-                      </div>
-                    </div>
-                  </td>
-                  <td>{formatScore(entry.ownScore)}</td>
-                  <td>{formatScore(entry.crossScore)}</td>
-                  <td>{selfReflection ? formatScore(selfReflection.overall) : "-"}</td>
-                  <td style={{ fontWeight: 600 }}>{entry.aggregateScore}</td>
-                </tr>
-              );
-            })}
-          </tbody>
-        </table>
-      </article>
-
-      <article className="card" style={{ padding: "1.5rem" }}>
-        <header className="flexRow" style={{ justifyContent: "space-between" }}>
-          <div>
-            <p className="sectionTitle">Cross-evaluation matrix</p>
-            <p className="cardSubtitle" style={{ marginBottom: 0 }}>
-              Each model reviews every other model&apos;s response to triangulate clarity,
-              relevance, accuracy, depth, and safety.
-            </p>
-          </div>
-        </header>
-        <div style={{ overflowX: "auto", marginTop: "1rem" }}>
-          <table className="table" style={{ minWidth: "640px" }}>
-            <thead>
-              <tr>
-                <th>Evaluator → Target</th>
-                {selectedModels.map((model) => (
-                  <th key={`header-${model.id}`}>{model.name}</th>
-                ))}
-              </tr>
-            </thead>
-            <tbody>
-              {selectedModels.map((rowModel) => (
-                <tr key={`row-${rowModel.id}`}>
-                  <td style={{ fontWeight: 600 }}>{rowModel.name}</td>
-                  {selectedModels.map((colModel) => (
-                    <td key={`${rowModel.id}-${colModel.id}`} style={{ verticalAlign: "top" }}>
-                      <MatrixCell cell={crossMatrix[rowModel.id][colModel.id]} />
-                    </td>
-                  ))}
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
-      </article>
-
-      <article className="card" style={{ padding: "1.5rem" }}>
-        <header className="flexRow" style={{ justifyContent: "space-between" }}>
-          <div>
-            <p className="sectionTitle">Model narratives</p>
-            <p className="cardSubtitle" style={{ marginBottom: 0 }}>
-              Inspect the synthesised response summaries for each model to grasp how
-              they address the prompt.
-            </p>
-          </div>
-        </header>
-        <div className="grid" style={{ gap: "1.25rem", marginTop: "1rem" }}>
-          {responses.map((response) => (
-            <div key={response.modelId} className="card" style={{ padding: "1.25rem" }}>
-              <div className="flexRow" style={{ justifyContent: "space-between" }}>
-                <div>
-                  <h3 style={{ fontSize: "1.1rem", fontWeight: 600 }}>
-                    {formatModelName(response.modelId)}
-                  </h3>
-                  <p style={{ color: "rgba(226,232,240,0.6)", fontSize: "0.85rem" }}>
-                    Aggregate score {formatScore(response.overallScore)} / 10
-                  </p>
-                </div>
-                <span className="badge badgePrimary" style={{ alignSelf: "start" }}>
-                  {response.supportingPoints.length} key points
-                </span>
-              </div>
-              <p style={{ marginTop: "0.85rem", whiteSpace: "pre-line", lineHeight: 1.5 }}>
-                {response.content}
-              </p>
-              <div className="divider" />
-              <div className="grid" style={{ gridTemplateColumns: "repeat(auto-fit, minmax(120px, 1fr))", gap: "0.75rem" }}>
-                {Object.entries(response.metrics).map(([metric, score]) => (
-                  <MetricBadge key={metric} metric={metric} score={score} />
-                ))}
-              </div>
-            </div>
-          ))}
-        </div>
-      </article>
-
-      {geminiVerdict ? (
-        <article className="card" style={{ padding: "1.5rem" }}>
-          <header className="flexRow" style={{ justifyContent: "space-between" }}>
-            <div>
-              <p className="sectionTitle">Gemini-3-Pro final ranking</p>
-              <p className="cardSubtitle" style={{ marginBottom: 0 }}>
-                We re-score the top trio via a dedicated Gemini-3-Pro arbiter and capture
-                its reasoning summary.
-              </p>
-            </div>
-            <Award size={32} color="#38bdf8" />
-          </header>
-          <div className="grid" style={{ gap: "1rem", marginTop: "1rem" }}>
-            {geminiVerdict.orderedModelIds.map((modelId, index) => (
-              <div
-                key={`gemini-${modelId}`}
-                className="card"
-                style={{
-                  border: index === 0 ? "1px solid rgba(14,165,233,0.7)" : "1px solid rgba(148,163,184,0.25)",
-                  background: index === 0 ? "rgba(14,165,233,0.2)" : "rgba(15,23,42,0.55)",
-                  padding: "1rem 1.25rem",
-                  display: "flex",
-                  justifyContent: "space-between",
-                  alignItems: "center",
-                }}
-              >
-                <div>
-                  <p style={{ fontWeight: 600, fontSize: "1rem" }}>
-                    #{index + 1} {formatModelName(modelId)}
-                  </p>
-                  <p style={{ color: "rgba(226,232,240,0.65)", fontSize: "0.85rem" }}>
-                    Aggregate composite {index + 1 === 1 ? "winner" : "candidate"}
-                  </p>
-                </div>
-                {index === 0 ? <Sparkles size={22} color="#f8fafc" /> : <ArrowRight size={20} color="rgba(148,163,184,0.8)" />}
-              </div>
-            ))}
-          </div>
-          <p style={{ marginTop: "1rem", color: "rgba(226,232,240,0.75)", fontSize: "0.95rem" }}>
-            {geminiVerdict.commentary}
-          </p>
-        </article>
-      ) : null}
-
-      <article className="card" style={{ padding: "1.5rem" }}>
-        <header className="flexRow" style={{ justifyContent: "space-between" }}>
-          <div>
-            <p className="sectionTitle">Your call vs Gemini</p>
-            <p className="cardSubtitle" style={{ marginBottom: 0 }}>
-              Select the response you would deploy. We track agreement with the Gemini-3-Pro
-              arbiter across runs.
-            </p>
-          </div>
-        </header>
-        <div className="grid" style={{ gap: "0.75rem", marginTop: "1rem" }}>
-          {selectedModels.map((model) => {
-            const isChosen = userChoice === model.id;
-            const geminiTop = geminiVerdict?.orderedModelIds[0];
-            return (
-              <button
-                key={`user-${model.id}`}
-                type="button"
-                className={`card cardInteractive ${isChosen ? "cardInteractiveSelected" : ""}`}
-                style={{
-                  padding: "1rem",
-                  border: isChosen
-                    ? "1px solid rgba(14,165,233,0.75)"
-                    : "1px solid rgba(148,163,184,0.25)",
-                  background: isChosen
-                    ? "rgba(14,165,233,0.2)"
-                    : "rgba(15,23,42,0.55)",
-                  display: "flex",
-                  justifyContent: "space-between",
-                  alignItems: "center",
-                }}
-                onClick={() => onUserChoice(model.id)}
-              >
-                <div>
-                  <p style={{ fontWeight: 600 }}>{model.name}</p>
-                  <p style={{ color: "rgba(226,232,240,0.65)", fontSize: "0.85rem" }}>
-                    {model.provider} • {model.modality.join(" / ")}
-                  </p>
-                </div>
-                {geminiTop === model.id ? (
-                  <span className="badge badgePrimary">Gemini pick</span>
-                ) : null}
-              </button>
-            );
-          })}
-        </div>
-        {userChoice ? (
-          <div className="card" style={{ marginTop: "1rem", padding: "1rem", background: "rgba(15,23,42,0.75)" }}>
-            <p style={{ fontWeight: 600, marginBottom: "0.5rem" }}>
-              You voted for {formatModelName(userChoice)}
-            </p>
-            {alignment ? (
-              <p style={{ color: "rgba(226,232,240,0.7)" }}>
-                Alignment status: <strong style={{ color: "#38bdf8" }}>{alignment.alignment}</strong>
-                {alignment.delta !== 999 ? ` (offset ${alignment.delta})` : ""}
-              </p>
-            ) : null}
-          </div>
-        ) : null}
-      </article>
-    </div>
-  );
-}
-
-interface MatrixCellProps {
-  cell: CrossEvaluation | null;
-}
-
-function MatrixCell({ cell }: MatrixCellProps) {
-  if (!cell) return <span style={{ color: "rgba(148,163,184,0.5)" }}>—</span>;
-  const metricsEntries = Object.entries(cell.metrics);
-  return (
-    <div style={{ display: "grid", gap: "0.4rem" }}>
-      <strong style={{ color: "#38bdf8" }}>{formatScore(cell.overall)}</strong>
-      <div style={{
-        display: "grid",
-        gap: "0.2rem",
-        fontSize: "0.75rem",
-        color: "rgba(226,232,240,0.65)",
-      }}>
-        {metricsEntries.map(([metric, value]) => (
-          <span key={metric}>
-            {metric.charAt(0).toUpperCase() + metric.slice(1)} {formatScore(value)}
-          </span>
-        ))}
-      </div>
-      <p style={{ fontSize: "0.75rem", color: "rgba(226,232,240,0.6)" }}>{cell.commentary}</p>
-    </div>
-  );
-}
-
-interface MetricBadgeProps {
-  metric: string;
-  score: number;
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = String(reader.result ?? "");
+      resolve(dataUrl.slice(dataUrl.indexOf(",") + 1));
+    };
+    reader.onerror = () => reject(reader.error ?? new Error("Could not read the file."));
+    reader.readAsDataURL(file);
+  });
 }
 
-function MetricBadge({ metric, score }: MetricBadgeProps) {
-  return (
-    <div className="card" style={{ padding: "0.65rem", background: "rgba(148,163,184,0.08)" }}>
-      <p style={{ fontSize: "0.8rem", color: "rgba(226,232,240,0.65)", textTransform: "uppercase", letterSpacing: "0.05em" }}>
-        {metric}
-      </p>
-      <p style={{ fontWeight: 600, fontSize: "1rem" }}>{formatScore(score)}</p>
-    </div>
-  );
+function applyEvaluationEvent(state: ResultState, event: EvaluationEvent): ResultState {
+  switch (event.type) {
+    case "aliases":
+      return { ...state, aliases: event.aliases };
+    case "response": {
+      const responses = [...state.responses, event.response];
+      return {
+        ...state,
+        responses,
+        ...provisionalRanking(responses, state.crossEvaluations, state),
+      };
+    }
+    case "crossEvaluation": {
+      const crossEvaluations = [...state.crossEvaluations, event.evaluation];
+      return {
+        ...state,
+        crossEvaluations,
+        ...provisionalRanking(state.responses, crossEvaluations, state),
+      };
+    }
+    case "leaderboard":
+      return { ...state, leaderboard: event.leaderboard, topThree: event.topThree };
+    case "verdict":
+      return { ...state, geminiVerdict: event.verdict };
+    case "complete":
+      return event.result;
+    default:
+      return state;
+  }
 }
 
-function buildMatrix(
-  evaluations: CrossEvaluation[],
-  models: ModelOption[],
-): Record<string, Record<string, CrossEvaluation | null>> {
-  const matrix: Record<string, Record<string, CrossEvaluation | null>> = {};
-  models.forEach((row) => {
-    matrix[row.id] = {};
-    models.forEach((col) => {
-      matrix[row.id][col.id] = null;
-    });
-  });
-  evaluations.forEach((entry) => {
-    if (!matrix[entry.evaluatorId]) matrix[entry.evaluatorId] = {} as Record<string, CrossEvaluation | null>;
-    matrix[entry.evaluatorId][entry.targetId] = entry;
-  });
-  return matrix;
+function provisionalRanking(
+  responses: ResultState["responses"],
+  crossEvaluations: ResultState["crossEvaluations"],
+  { rubric, aggregation, arbiter }: Pick<ResultState, "rubric" | "aggregation" | "arbiter">,
+) {
+  const leaderboard = computeLeaderboard({ responses, crossEvaluations, rubric, aggregation });
+  const { shortlistSize } = resolveArbiter({ arbiter });
+  return {
+    leaderboard,
+    topThree: leaderboard.slice(0, shortlistSize).map((entry) => entry.modelId),
+  };
 }
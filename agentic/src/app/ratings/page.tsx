@@ -0,0 +1,122 @@
+import Link from "next/link";
+import { LineChart } from "../components/LineChart";
+import {
+  computeRatings,
+  parseRatingMethod,
+  RATING_METHOD_LABELS,
+  type RatingMethod,
+} from "@/lib/ratings";
+import { listRuns } from "@/lib/runStore";
+
+export const dynamic = "force-dynamic";
+
+const SERIES_COLORS = ["#38bdf8", "#f472b6", "#a3e635", "#fbbf24", "#c084fc", "#34d399", "#fb7185"];
+
+interface RatingsPageProps {
+  searchParams: { method?: string };
+}
+
+export default async function RatingsPage({ searchParams }: RatingsPageProps) {
+  const method = parseRatingMethod(searchParams.method);
+  const runs = await listRuns();
+  const report = computeRatings(runs, method);
+
+  const names = new Map<string, string>();
+  runs.forEach((run) => run.models.forEach((model) => names.set(model.id, model.name)));
+  const nameOf = (modelId: string) => names.get(modelId) ?? modelId;
+
+  const series = report.ratings.map((entry, index) => ({
+    label: nameOf(entry.modelId),
+    color: SERIES_COLORS[index % SERIES_COLORS.length],
+    points: report.history
+      .filter((snapshot) => snapshot.ratings[entry.modelId] !== undefined)
+      .map((snapshot) => ({ x: snapshot.createdAt, y: snapshot.ratings[entry.modelId] })),
+  }));
+
+  return (
+    <div className="grid" style={{ gap: "1.75rem" }}>
+      <header className="card" style={{ padding: "2.2rem" }}>
+        <span className="badge badgePrimary" style={{ marginBottom: "0.75rem" }}>
+          Global leaderboard
+        </span>
+        <h1 style={{ fontSize: "2.1rem", fontWeight: 700, lineHeight: 1.1 }}>Model ratings</h1>
+        <p className="cardSubtitle" style={{ marginTop: "0.75rem" }}>
+          Every stored run contributes pairwise outcomes from its leaderboard order, the
+          arbiter&apos;s ranking, your vote and any blind battles, where ties count half.
+          Intervals are 95% bootstrap bounds over runs.
+        </p>
+        <div className="flexRow" style={{ gap: "0.5rem" }}>
+          {(Object.keys(RATING_METHOD_LABELS) as RatingMethod[]).map((option) => (
+            <Link
+              key={option}
+              href={`/ratings?method=${option}`}
+              className={`badge ${option === method ? "badgePrimary" : "badgeNeutral"}`}
+            >
+              {RATING_METHOD_LABELS[option]}
+            </Link>
+          ))}
+          <span className="badge badgeNeutral">
+            {runs.length} runs • {report.comparisonCount} comparisons
+          </span>
+        </div>
+      </header>
+
+      {!report.ratings.length ? (
+        <section className="card" style={{ textAlign: "center", color: "rgba(226,232,240,0.7)" }}>
+          <p style={{ marginBottom: "0.75rem" }}>No runs stored yet.</p>
+          <Link href="/" className="buttonPrimary">
+            Launch the arena
+          </Link>
+        </section>
+      ) : (
+        <>
+          <article className="card" style={{ padding: "1.5rem" }}>
+            <p className="sectionTitle">{RATING_METHOD_LABELS[method]} leaderboard</p>
+            <table className="table">
+              <thead>
+                <tr>
+                  <th style={{ width: "32%" }}>Model</th>
+                  <th>Rating</th>
+                  <th>95% CI</th>
+                  <th>Wins</th>
+                  <th>Losses</th>
+                  <th>Ties</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.ratings.map((entry, index) => (
+                  <tr key={entry.modelId}>
+                    <td>
+                      <div className="flexRow" style={{ gap: "0.6rem" }}>
+                        <span className="badge badgeNeutral">#{index + 1}</span>
+                        <span style={{ fontWeight: 600 }}>{nameOf(entry.modelId)}</span>
+                      </div>
+                    </td>
+                    <td style={{ fontWeight: 600 }}>{Math.round(entry.rating)}</td>
+                    <td style={{ color: "rgba(226,232,240,0.7)" }}>
+                      {Math.round(entry.lower)} – {Math.round(entry.upper)}
+                    </td>
+                    <td>{entry.wins}</td>
+                    <td>{entry.losses}</td>
+                    <td>{entry.ties}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </article>
+
+          <article className="card" style={{ padding: "1.5rem" }}>
+            <p className="sectionTitle">Rating history</p>
+            <LineChart
+              ariaLabel={`${RATING_METHOD_LABELS[method]} rating after each run`}
+              series={series}
+              formatY={(value) => String(Math.round(value))}
+              formatX={(label) => label.slice(5, 10)}
+              height={260}
+            />
+          </article>
+        </>
+      )}
+    </div>
+  );
+}
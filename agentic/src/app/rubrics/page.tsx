@@ -0,0 +1,25 @@
+import { RubricEditor } from "../components/RubricEditor";
+import { listRubrics } from "@/lib/rubricStore";
+
+export const dynamic = "force-dynamic";
+
+export default async function RubricsPage() {
+  const rubrics = await listRubrics();
+
+  return (
+    <div className="grid" style={{ gap: "1.75rem" }}>
+      <header className="card" style={{ padding: "2.2rem" }}>
+        <span className="badge badgePrimary" style={{ marginBottom: "0.75rem" }}>
+          Settings
+        </span>
+        <h1 style={{ fontSize: "2.1rem", fontWeight: 700, lineHeight: 1.1 }}>Scoring rubrics</h1>
+        <p className="cardSubtitle" style={{ marginTop: "0.75rem", marginBottom: 0 }}>
+          Define the metrics, weights and scales that drive self-scoring, peer review and the
+          leaderboard. Pick a rubric per run on the arena or suites page; each run keeps a
+          snapshot of the rubric it was scored with.
+        </p>
+      </header>
+      <RubricEditor initialRubrics={rubrics} />
+    </div>
+  );
+}
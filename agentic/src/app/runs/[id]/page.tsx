@@ -0,0 +1,61 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ArrowLeft, GitCompare } from "lucide-react";
+import { RunDetail } from "../../components/RunDetail";
+import { isSealed, sealRun } from "@/lib/blind";
+import { describeTemplate } from "@/lib/exporters";
+import { getRun } from "@/lib/runStore";
+
+export const dynamic = "force-dynamic";
+
+interface RunPageProps {
+  params: { id: string };
+}
+
+export default async function RunPage({ params }: RunPageProps) {
+  const run = await getRun(params.id);
+  if (!run) notFound();
+  const template = describeTemplate(run);
+
+  return (
+    <div className="grid" style={{ gap: "1.75rem" }}>
+      <header className="card" style={{ padding: "2rem" }}>
+        <div className="flexRow" style={{ gap: "0.5rem", marginBottom: "1rem" }}>
+          <Link href="/runs" className="chip">
+            <ArrowLeft size={16} /> All runs
+          </Link>
+          <Link href={`/runs/compare?base=${run.id}`} className="chip">
+            <GitCompare size={16} /> Compare with…
+          </Link>
+        </div>
+        <div className="flexRow" style={{ gap: "0.5rem", marginBottom: "0.75rem" }}>
+          <span className="badge badgePrimary">{run.mode}</span>
+          <span className="badge badgeNeutral">
+            {new Date(run.createdAt).toLocaleString("en")}
+          </span>
+          {run.imageDescriptor ? (
+            <span className="badge badgeNeutral">Attachments: {run.imageDescriptor}</span>
+          ) : null}
+          {template ? <span className="badge badgeNeutral">Template: {template}</span> : null}
+        </div>
+        {run.systemPrompt ? (
+          <p
+            style={{
+              whiteSpace: "pre-line",
+              fontSize: "0.9rem",
+              color: "rgba(226,232,240,0.6)",
+              marginBottom: "0.75rem",
+            }}
+          >
+            System prompt: {run.systemPrompt}
+          </p>
+        ) : null}
+        <p style={{ whiteSpace: "pre-line", lineHeight: 1.5, color: "rgba(226,232,240,0.85)" }}>
+          {run.prompt}
+        </p>
+      </header>
+      {/* Remount once the vote unseals a blind run, so the real names replace the aliases. */}
+      <RunDetail key={isSealed(run) ? "sealed" : "open"} run={sealRun(run)} />
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { RunCompare } from "../../components/RunCompare";
+import { sealRun } from "@/lib/blind";
+import { getRun, listRuns, summariseRun } from "@/lib/runStore";
+
+export const dynamic = "force-dynamic";
+
+interface ComparePageProps {
+  searchParams: { base?: string; compare?: string };
+}
+
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const runs = (await listRuns()).map(sealRun);
+  const [base, compare] = (
+    await Promise.all([
+      searchParams.base ? getRun(searchParams.base) : null,
+      searchParams.compare ? getRun(searchParams.compare) : null,
+    ])
+  ).map((run) => run && sealRun(run));
+
+  return (
+    <div className="grid" style={{ gap: "1.75rem" }}>
+      <header className="card" style={{ padding: "2.2rem" }}>
+        <Link href="/runs" className="chip" style={{ marginBottom: "1rem" }}>
+          <ArrowLeft size={16} /> All runs
+        </Link>
+        <h1 style={{ fontSize: "2.1rem", fontWeight: 700, lineHeight: 1.1 }}>Compare runs</h1>
+        <p className="cardSubtitle" style={{ marginTop: "0.75rem", marginBottom: 0 }}>
+          Line two runs up model by model — for example the same prompt before and after a
+          model version bump. Pick stored runs or import a raw JSON export.
+        </p>
+      </header>
+      <RunCompare runs={runs.map(summariseRun)} initialBase={base} initialCompare={compare} />
+    </div>
+  );
+}
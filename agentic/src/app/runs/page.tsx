@@ -0,0 +1,107 @@
+import Link from "next/link";
+import { GitCompare } from "lucide-react";
+import { sealRun } from "@/lib/blind";
+import { listRuns } from "@/lib/runStore";
+
+export const dynamic = "force-dynamic";
+
+const dateFormatter = new Intl.DateTimeFormat("en", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+export default async function RunsPage() {
+  const runs = (await listRuns()).map(sealRun);
+
+  return (
+    <div className="grid" style={{ gap: "1.75rem" }}>
+      <header className="card" style={{ padding: "2.2rem" }}>
+        <span className="badge badgePrimary" style={{ marginBottom: "0.75rem" }}>
+          Archive
+        </span>
+        <h1 style={{ fontSize: "2.1rem", fontWeight: 700, lineHeight: 1.1 }}>Run history</h1>
+        <p className="cardSubtitle" style={{ marginTop: "0.75rem", marginBottom: 0 }}>
+          Every arena run is stored with its prompt, roster, full scoring, your vote and any
+          blind battle votes.
+          Open a run to re-inspect the leaderboard, matrix and verdict.
+        </p>
+        {runs.length ? (
+          <Link href="/runs/compare" className="chip" style={{ marginTop: "1rem" }}>
+            <GitCompare size={16} /> Compare runs
+          </Link>
+        ) : null}
+      </header>
+
+      <section className="card" style={{ padding: "1.5rem" }}>
+        {runs.length ? (
+          <div style={{ overflowX: "auto" }}>
+            <table className="table" style={{ minWidth: "720px" }}>
+              <thead>
+                <tr>
+                  <th>When</th>
+                  <th style={{ width: "40%" }}>Prompt</th>
+                  <th>Mode</th>
+                  <th>Arbiter pick</th>
+                  <th>Your call</th>
+                  <th>Battles</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map((run) => {
+                  const nameOf = (modelId: string | null | undefined) =>
+                    modelId
+                      ? run.models.find((model) => model.id === modelId)?.name ?? modelId
+                      : "-";
+                  return (
+                    <tr key={run.id}>
+                      <td>
+                        <Link href={`/runs/${run.id}`} style={{ color: "#38bdf8", fontWeight: 600 }}>
+                          {dateFormatter.format(new Date(run.createdAt))}
+                        </Link>
+                      </td>
+                      <td>
+                        <p style={{ color: "rgba(226,232,240,0.8)" }}>
+                          {run.prompt.length > 140 ? `${run.prompt.slice(0, 140)}…` : run.prompt}
+                        </p>
+                        <p style={{ fontSize: "0.8rem", color: "rgba(226,232,240,0.55)" }}>
+                          {run.models.map((model) => model.name).join(" • ")}
+                        </p>
+                      </td>
+                      <td>
+                        <span className="badge badgeNeutral">{run.mode}</span>
+                        {run.scenario ? (
+                          <span className="badge badgeNeutral" style={{ marginLeft: "0.35rem" }}>
+                            {run.scenario.length} turns
+                          </span>
+                        ) : null}
+                        {run.toolkit ? (
+                          <span className="badge badgeNeutral" style={{ marginLeft: "0.35rem" }}>
+                            {run.toolkit.name}
+                          </span>
+                        ) : null}
+                      </td>
+                      <td>
+                        {run.result.aliases && !run.userChoice
+                          ? "Hidden until you vote"
+                          : nameOf(run.result.geminiVerdict?.orderedModelIds[0])}
+                      </td>
+                      <td>{nameOf(run.userChoice)}</td>
+                      <td>{run.battles?.length ?? 0}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div style={{ textAlign: "center", color: "rgba(226,232,240,0.7)", padding: "2rem" }}>
+            <p style={{ marginBottom: "0.75rem" }}>No runs stored yet.</p>
+            <Link href="/" className="buttonPrimary">
+              Launch the arena
+            </Link>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
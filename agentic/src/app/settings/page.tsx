@@ -0,0 +1,25 @@
+import { ModelRegistryEditor } from "../components/ModelRegistryEditor";
+import { listModels } from "@/lib/modelStore";
+
+export const dynamic = "force-dynamic";
+
+export default async function SettingsPage() {
+  const models = await listModels();
+
+  return (
+    <div className="grid" style={{ gap: "1.75rem" }}>
+      <header className="card" style={{ padding: "2.2rem" }}>
+        <span className="badge badgePrimary" style={{ marginBottom: "0.75rem" }}>
+          Settings
+        </span>
+        <h1 style={{ fontSize: "2.1rem", fontWeight: 700, lineHeight: 1.1 }}>Model registry</h1>
+        <p className="cardSubtitle" style={{ marginTop: "0.75rem", marginBottom: 0 }}>
+          The roster every arena run and suite picks from. Add new models or versions, point
+          them at a custom endpoint and set default generation parameters. Export the
+          registry as JSON to share a roster with your team.
+        </p>
+      </header>
+      <ModelRegistryEditor initialModels={models} />
+    </div>
+  );
+}
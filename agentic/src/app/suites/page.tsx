@@ -0,0 +1,385 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { FileUp, Loader2, Sparkles } from "lucide-react";
+import type {
+  AggregationConfig,
+  SuiteEvent,
+  SuiteItem,
+  SuiteReport,
+  TagLeaderboardEntry,
+} from "@/types";
+import { AggregationPicker } from "../components/AggregationPicker";
+import { EvaluationDeck } from "../components/EvaluationDeck";
+import { ModelSelector } from "../components/ModelSelector";
+import { RubricPicker } from "../components/RubricPicker";
+import { useModelRegistry, useRubrics } from "../components/useRegistries";
+import { requiredModalities } from "@/lib/attachments";
+import { readEventStream } from "@/lib/eventStream";
+import { DEFAULT_MODEL_IDS, defaultSelection, MAX_SELECTIONS, MIN_MODELS } from "@/lib/models";
+import { DEFAULT_AGGREGATION } from "@/lib/aggregation";
+import { DEFAULT_RUBRIC_ID } from "@/lib/rubrics";
+import { formatScore } from "@/lib/scoring";
+import { parsePromptSuite, UNTAGGED } from "@/lib/suites";
+
+const SAMPLE_SUITE = `{"id": "greenhouse", "prompt": "Compare three climate-resilient greenhouse layouts.", "mode": "text", "tags": ["design", "climate"]}
+{"id": "flood-map", "prompt": "Identify flood risks in the attached site plan.", "mode": "image", "image": "site-plan.png", "tags": ["vision", "climate"]}`;
+
+export default function SuitesPage() {
+  const { models, error: registryError } = useModelRegistry();
+  const { rubrics } = useRubrics();
+  const [selectedRubricId, setSelectedRubricId] = useState(DEFAULT_RUBRIC_ID);
+  const [aggregation, setAggregation] = useState<AggregationConfig>(DEFAULT_AGGREGATION);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [content, setContent] = useState(SAMPLE_SUITE);
+  const [selectedModelIds, setSelectedModelIds] = useState<string[]>(DEFAULT_MODEL_IDS);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [items, setItems] = useState<SuiteItem[]>([]);
+  const [report, setReport] = useState<SuiteReport | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [inspectedId, setInspectedId] = useState<string | null>(null);
+
+  const parsed = useMemo(() => {
+    try {
+      const rows = parsePromptSuite(content);
+      const tags = Array.from(new Set(rows.flatMap((row) => row.tags))).sort();
+      return { rows, tags, error: null };
+    } catch (error) {
+      return { rows: [], tags: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [content]);
+
+  // Union across rows, so the roster shows which prompts a model would fall back on.
+  const suiteModalities = useMemo(
+    () =>
+      Array.from(new Set(parsed.rows.flatMap((row) => requiredModalities(row.mode, [])))),
+    [parsed.rows],
+  );
+
+  useEffect(() => {
+    if (!models.length) return;
+    setSelectedModelIds((prev) => {
+      const kept = prev.filter((id) => models.some((model) => model.id === id));
+      return kept.length >= MIN_MODELS ? kept : defaultSelection(models);
+    });
+  }, [models]);
+
+  useEffect(() => {
+    if (registryError) setErrorMessage(registryError);
+  }, [registryError]);
+
+  const formatModelName = (modelId: string) =>
+    models.find((model) => model.id === modelId)?.name ?? modelId;
+
+  const handleToggleModel = (modelId: string) => {
+    setSelectedModelIds((prev) => {
+      if (prev.includes(modelId)) return prev.filter((id) => id !== modelId);
+      if (prev.length >= MAX_SELECTIONS) return prev;
+      return [...prev, modelId];
+    });
+  };
+
+  const runSuite = async () => {
+    if (parsed.error) {
+      setErrorMessage(parsed.error);
+      return;
+    }
+    if (selectedModelIds.length < MIN_MODELS) {
+      setErrorMessage(`Select at least ${MIN_MODELS} models to run a comparison.`);
+      return;
+    }
+    setErrorMessage(null);
+    setIsRunning(true);
+    setItems([]);
+    setReport(null);
+    setInspectedId(null);
+    setProgress({ done: 0, total: parsed.rows.length });
+
+    try {
+      const response = await fetch("/api/suites", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          content,
+          modelIds: selectedModelIds,
+          rubricId: selectedRubricId,
+          aggregation,
+        }),
+      });
+      if (!response.ok || !response.body) {
+        const payload = await response.json().catch(() => ({}));
+        throw new Error(payload.error ?? `Suite run failed with status ${response.status}.`);
+      }
+      let streamError: string | null = null;
+      await readEventStream<SuiteEvent>(response.body, (event) => {
+        if (event.type === "suiteItem" || event.type === "suiteItemError") {
+          setItems((current) => [...current, event.item]);
+          setProgress({ done: event.index, total: event.total });
+        } else if (event.type === "suiteComplete") {
+          setReport(event.report);
+        } else if (event.type === "error") {
+          streamError = event.message;
+        }
+      });
+      if (streamError) throw new Error(streamError);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Suite run failed.");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const visibleItems = report?.items ?? items;
+  const inspected = visibleItems.find((item) => item.id === inspectedId)?.result ?? null;
+  const tagNames = report ? Object.keys(report.byTag) : [];
+  const tagEntries = report && activeTag ? report.byTag[activeTag] : report?.overall;
+
+  return (
+    <div className="grid" style={{ gap: "1.75rem" }}>
+      <header className="card" style={{ padding: "2.2rem" }}>
+        <span className="badge badgePrimary" style={{ marginBottom: "0.75rem" }}>
+          Batch evaluation
+        </span>
+        <h1 style={{ fontSize: "2.1rem", fontWeight: 700, lineHeight: 1.1 }}>Prompt suites</h1>
+        <p className="cardSubtitle" style={{ marginTop: "0.75rem", marginBottom: 0 }}>
+          Upload a JSONL or CSV suite — one prompt per row with <code>prompt</code>,{" "}
+          <code>mode</code>, optional <code>image</code> reference and <code>tags</code> — and
+          run the same roster across all of it. Results roll up overall and per tag.
+        </p>
+      </header>
+
+      <section className="card grid" aria-labelledby="suite-input">
+        <header className="flexRow" style={{ justifyContent: "space-between" }}>
+          <p id="suite-input" className="sectionTitle" style={{ marginBottom: 0 }}>
+            Suite definition
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".jsonl,.csv,.txt,application/json,text/csv"
+            style={{ display: "none" }}
+            onChange={async (event) => {
+              const file = event.target.files?.[0];
+              if (file) setContent(await file.text());
+              event.target.value = "";
+            }}
+          />
+          <button
+            type="button"
+            className="buttonPrimary"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <FileUp size={18} /> Load file
+          </button>
+        </header>
+        <textarea
+          className="textarea"
+          value={content}
+          onChange={(event) => setContent(event.target.value)}
+          spellCheck={false}
+          style={{ fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace", fontSize: "0.85rem" }}
+        />
+        <div className="flexRow" style={{ flexWrap: "wrap", gap: "0.5rem" }}>
+          {parsed.error ? (
+            <span className="badge" style={{ background: "rgba(248,113,113,0.15)", color: "#fecaca" }}>
+              {parsed.error}
+            </span>
+          ) : (
+            <>
+              <span className="badge badgePrimary">{parsed.rows.length} prompts</span>
+              {parsed.tags.map((tag) => (
+                <span key={tag} className="chip">
+                  {tag}
+                </span>
+              ))}
+            </>
+          )}
+        </div>
+      </section>
+
+      <ModelSelector
+        models={models}
+        selectedIds={selectedModelIds}
+        onToggle={handleToggleModel}
+        maxSelections={MAX_SELECTIONS}
+        required={suiteModalities}
+      />
+
+      <RubricPicker
+        rubrics={rubrics}
+        selectedId={selectedRubricId}
+        onChange={setSelectedRubricId}
+      />
+
+      <AggregationPicker value={aggregation} onChange={setAggregation} />
+
+      <section className="card grid" style={{ gap: "1.5rem" }}>
+        <header className="flexRow" style={{ justifyContent: "space-between" }}>
+          <div>
+            <p className="sectionTitle">Execution</p>
+            <p className="cardSubtitle" style={{ marginBottom: 0 }}>
+              Each prompt gets the full fan-out, cross-evaluation and arbiter verdict.
+            </p>
+          </div>
+          <div className="flexRow">
+            {progress ? (
+              <span className="chip">
+                {isRunning ? <Loader2 size={16} className="spin" /> : null}
+                {progress.done}/{progress.total} prompts
+              </span>
+            ) : null}
+            <button
+              type="button"
+              className="buttonPrimary"
+              onClick={runSuite}
+              disabled={isRunning || Boolean(parsed.error)}
+            >
+              {isRunning ? <Loader2 size={18} className="spin" /> : <Sparkles size={18} />}
+              {isRunning ? "Running" : "Run suite"}
+            </button>
+          </div>
+        </header>
+        {errorMessage ? (
+          <div
+            className="card"
+            style={{
+              border: "1px solid rgba(248, 113, 113, 0.55)",
+              background: "rgba(248, 113, 113, 0.1)",
+              color: "#fecaca",
+            }}
+          >
+            {errorMessage}
+          </div>
+        ) : null}
+
+        {report && tagEntries ? (
+          <article className="card" style={{ padding: "1.5rem" }}>
+            <header className="flexRow" style={{ justifyContent: "space-between", flexWrap: "wrap" }}>
+              <p className="sectionTitle" style={{ marginBottom: 0 }}>
+                {activeTag ? `Leaderboard • ${activeTag}` : "Suite leaderboard"}
+              </p>
+              <div className="flexRow" style={{ gap: "0.4rem", flexWrap: "wrap" }}>
+                {[null, ...tagNames].map((tag) => (
+                  <button
+                    key={tag ?? "__overall"}
+                    type="button"
+                    className={`badge ${tag === activeTag ? "badgePrimary" : "badgeNeutral"}`}
+                    style={{ border: "none", cursor: "pointer" }}
+                    onClick={() => setActiveTag(tag)}
+                  >
+                    {tag ?? "overall"}
+                  </button>
+                ))}
+              </div>
+            </header>
+            <SuiteLeaderboard entries={tagEntries} formatModelName={formatModelName} />
+          </article>
+        ) : null}
+
+        {visibleItems.length ? (
+          <article className="card" style={{ padding: "1.5rem" }}>
+            <p className="sectionTitle">Per-prompt results</p>
+            <div style={{ overflowX: "auto" }}>
+              <table className="table" style={{ minWidth: "720px" }}>
+                <thead>
+                  <tr>
+                    <th>Id</th>
+                    <th style={{ width: "38%" }}>Prompt</th>
+                    <th>Tags</th>
+                    <th>Leader</th>
+                    <th>Arbiter pick</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleItems.map((item) => (
+                    <tr
+                      key={item.id}
+                      onClick={() => setInspectedId(item.id === inspectedId ? null : item.id)}
+                      style={{ cursor: "pointer" }}
+                    >
+                      <td style={{ fontWeight: 600, color: item.id === inspectedId ? "#38bdf8" : undefined }}>
+                        {item.id}
+                      </td>
+                      <td>
+                        {item.prompt.length > 110 ? `${item.prompt.slice(0, 110)}…` : item.prompt}
+                      </td>
+                      <td>{item.tags.length ? item.tags.join(", ") : UNTAGGED}</td>
+                      {item.result ? (
+                        <>
+                          <td>{formatModelName(item.result.leaderboard[0]?.modelId ?? "-")}</td>
+                          <td>
+                            {formatModelName(item.result.geminiVerdict?.orderedModelIds[0] ?? "-")}
+                          </td>
+                        </>
+                      ) : (
+                        <td colSpan={2} style={{ color: "#fca5a5" }}>
+                          Failed: {item.error}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </article>
+        ) : null}
+
+        {inspected ? (
+          <EvaluationDeck
+            result={inspected}
+            selectedModels={models.filter((model) =>
+              inspected.leaderboard.some((entry) => entry.modelId === model.id),
+            )}
+            userChoice={null}
+            onUserChoice={() => undefined}
+            alignment={null}
+            formatModelName={formatModelName}
+          />
+        ) : null}
+      </section>
+    </div>
+  );
+}
+
+interface SuiteLeaderboardProps {
+  entries: TagLeaderboardEntry[];
+  formatModelName: (id: string) => string;
+}
+
+function SuiteLeaderboard({ entries, formatModelName }: SuiteLeaderboardProps) {
+  return (
+    <table className="table" style={{ marginTop: "1rem" }}>
+      <thead>
+        <tr>
+          <th style={{ width: "28%" }}>Model</th>
+          <th>Prompts</th>
+          <th>Own avg</th>
+          <th>Peer avg</th>
+          <th>Aggregate</th>
+          <th>Wins</th>
+          <th>Arbiter wins</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((entry, index) => (
+          <tr key={entry.modelId}>
+            <td>
+              <div className="flexRow" style={{ gap: "0.6rem" }}>
+                <span className="badge badgeNeutral">#{index + 1}</span>
+                <span style={{ fontWeight: 600 }}>{formatModelName(entry.modelId)}</span>
+              </div>
+            </td>
+            <td>{entry.prompts}</td>
+            <td>{formatScore(entry.ownScore)}</td>
+            <td>{formatScore(entry.crossScore)}</td>
+            <td style={{ fontWeight: 600 }}>{entry.aggregateScore}</td>
+            <td>{entry.wins}</td>
+            <td>{entry.arbiterWins}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
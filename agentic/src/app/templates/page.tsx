@@ -0,0 +1,25 @@
+import { TemplateEditor } from "../components/TemplateEditor";
+import { listTemplates } from "@/lib/templateStore";
+
+export const dynamic = "force-dynamic";
+
+export default async function TemplatesPage() {
+  const templates = await listTemplates();
+
+  return (
+    <div className="grid" style={{ gap: "1.75rem" }}>
+      <header className="card" style={{ padding: "2.2rem" }}>
+        <span className="badge badgePrimary" style={{ marginBottom: "0.75rem" }}>
+          Settings
+        </span>
+        <h1 style={{ fontSize: "2.1rem", fontWeight: 700, lineHeight: 1.1 }}>Prompt library</h1>
+        <p className="cardSubtitle" style={{ marginTop: "0.75rem", marginBottom: 0 }}>
+          Save reusable scenarios with {"{{variables}}"}, an optional persona and a target
+          modality. The arena turns each template into a fill-in form, and every run records the
+          template version and values that produced its prompt.
+        </p>
+      </header>
+      <TemplateEditor initialTemplates={templates} />
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+import type { AggregationConfig, PeerAverage, PeerWeighting, ScoreNormalisation } from "@/types";
+import { isRecord } from "@/lib/guards";
+
+export interface AggregationPreset {
+  id: string;
+  label: string;
+  description: string;
+  config: AggregationConfig;
+}
+
+/** One cross-evaluation reduced to its 0–10 overall score. */
+export interface PeerReview {
+  evaluatorId: string;
+  targetId: string;
+  score: number;
+}
+
+const PEER_AVERAGES: PeerAverage[] = ["mean", "median"];
+const PEER_WEIGHTINGS: PeerWeighting[] = ["uniform", "reliability"];
+const NORMALISATIONS: ScoreNormalisation[] = ["none", "zscore"];
+
+/** The original blend: 50% own score, 40% mean peer score, 10% self-check. */
+export const DEFAULT_AGGREGATION: AggregationConfig = {
+  excludeSelf: false,
+  normalisation: "none",
+  peerWeighting: "uniform",
+  peerAverage: "mean",
+  weights: { own: 0.5, peer: 0.4, self: 0.1 },
+};
+
+export const AGGREGATION_PRESETS: AggregationPreset[] = [
+  {
+    id: "classic",
+    label: "Classic blend",
+    description: "Own score, mean peer score and the self-check, as originally shipped.",
+    config: DEFAULT_AGGREGATION,
+  },
+  {
+    id: "no-self",
+    label: "Exclude self-review",
+    description: "Drops the biased evaluator == target cell and renormalises the weights.",
+    config: { ...DEFAULT_AGGREGATION, excludeSelf: true },
+  },
+  {
+    id: "calibrated",
+    label: "Calibrated peers",
+    description: "Z-scores each reviewer, then weights reviewers by agreement with the panel.",
+    config: {
+      ...DEFAULT_AGGREGATION,
+      excludeSelf: true,
+      normalisation: "zscore",
+      peerWeighting: "reliability",
+    },
+  },
+  {
+    id: "robust",
+    label: "Robust median",
+    description: "Z-scores each reviewer and takes the median peer score to blunt outliers.",
+    config: {
+      ...DEFAULT_AGGREGATION,
+      excludeSelf: true,
+      normalisation: "zscore",
+      peerAverage: "median",
+    },
+  },
+];
+
+export class AggregationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AggregationError";
+  }
+}
+
+export function resolveAggregation(result: { aggregation?: AggregationConfig }): AggregationConfig {
+  return result.aggregation ?? DEFAULT_AGGREGATION;
+}
+
+export function matchPreset(config: AggregationConfig): AggregationPreset | null {
+  return (
+    AGGREGATION_PRESETS.find(
+      (preset) => JSON.stringify(preset.config) === JSON.stringify(config),
+    ) ?? null
+  );
+}
+
+export function aggregationLabel(config: AggregationConfig): string {
+  return matchPreset(config)?.label ?? "Custom aggregation";
+}
+
+const percent = (value: number, total: number) => `${Math.round((value / total) * 100)}%`;
+
+/** Human-readable parameter list for the leaderboard card and exports. */
+export function describeAggregation(config: AggregationConfig): string[] {
+  const { own, peer, self } = config.weights;
+  const total = own + peer + (config.excludeSelf ? 0 : self);
+  const parts = [
+    config.excludeSelf
+      ? `Own ${percent(own, total)} • Peer ${percent(peer, total)} • Self excluded`
+      : `Own ${percent(own, total)} • Peer ${percent(peer, total)} • Self ${percent(self, total)}`,
+    config.peerAverage === "median" ? "Median peer score" : "Mean peer score",
+  ];
+  if (config.normalisation === "zscore") parts.push("Z-scored per reviewer");
+  if (config.peerWeighting === "reliability") parts.push("Reliability-weighted reviewers");
+  return parts;
+}
+
+function readWeight(input: Record<string, unknown>, key: string, fallback: number): number {
+  const raw = input[key];
+  const value = typeof raw === "string" && raw.trim() ? Number(raw) : raw ?? fallback;
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    throw new AggregationError(`The ${key} weight must be a non-negative number.`);
+  }
+  return value;
+}
+
+function readChoice<T extends string>(value: unknown, options: T[], fallback: T, label: string): T {
+  if (value == null) return fallback;
+  if (!options.includes(value as T)) {
+    throw new AggregationError(`${label} must be one of ${options.join(", ")}.`);
+  }
+  return value as T;
+}
+
+/** Checks an untrusted aggregation config, filling gaps from the default. */
+export function validateAggregation(input: unknown): AggregationConfig {
+  if (!isRecord(input)) throw new AggregationError("Aggregation must be a JSON object.");
+  const weights = isRecord(input.weights) ? input.weights : {};
+  const config: AggregationConfig = {
+    excludeSelf: input.excludeSelf === true,
+    normalisation: readChoice(
+      input.normalisation,
+      NORMALISATIONS,
+      DEFAULT_AGGREGATION.normalisation,
+      "Normalisation",
+    ),
+    peerWeighting: readChoice(
+      input.peerWeighting,
+      PEER_WEIGHTINGS,
+      DEFAULT_AGGREGATION.peerWeighting,
+      "Peer weighting",
+    ),
+    peerAverage: readChoice(
+      input.peerAverage,
+      PEER_AVERAGES,
+      DEFAULT_AGGREGATION.peerAverage,
+      "Peer average",
+    ),
+    weights: {
+      own: readWeight(weights, "own", DEFAULT_AGGREGATION.weights.own),
+      peer: readWeight(weights, "peer", DEFAULT_AGGREGATION.weights.peer),
+      self: readWeight(weights, "self", DEFAULT_AGGREGATION.weights.self),
+    },
+  };
+  const { own, peer, self } = config.weights;
+  if (own + peer + (config.excludeSelf ? 0 : self) <= 0) {
+    throw new AggregationError("At least one of the blended weights must be above zero.");
+  }
+  return config;
+}
+
+function meanOf(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function spreadOf(values: number[], mean: number): number {
+  return Math.sqrt(meanOf(values.map((value) => (value - mean) ** 2)));
+}
+
+/**
+ * Z-scores every reviewer against their own peer reviews (self-reviews are
+ * rescaled but do not move the statistics), then maps the result back onto
+ * the pooled mean and spread so scores stay on 0–10.
+ */
+export function normaliseReviews(reviews: PeerReview[]): PeerReview[] {
+  const peerReviews = reviews.filter((review) => review.evaluatorId !== review.targetId);
+  if (peerReviews.length < 2) return reviews;
+  const pooled = peerReviews.map((review) => review.score);
+  const pooledMean = meanOf(pooled);
+  const pooledSpread = spreadOf(pooled, pooledMean);
+  const stats = new Map<string, { mean: number; spread: number }>();
+  peerReviews.forEach(({ evaluatorId }) => {
+    if (stats.has(evaluatorId)) return;
+    const scores = peerReviews
+      .filter((review) => review.evaluatorId === evaluatorId)
+      .map((review) => review.score);
+    const mean = meanOf(scores);
+    stats.set(evaluatorId, { mean, spread: spreadOf(scores, mean) });
+  });
+  return reviews.map((review) => {
+    const stat = stats.get(review.evaluatorId);
+    if (!stat) return review;
+    const z = stat.spread > 0 ? (review.score - stat.mean) / stat.spread : 0;
+    return { ...review, score: Math.min(10, Math.max(0, pooledMean + z * pooledSpread)) };
+  });
+}
+
+/**
+ * Scores each reviewer by how closely they track the rest of the panel:
+ * 1 / (1 + mean absolute gap to the other reviewers' consensus per target).
+ * Reviewers with nothing to compare against get 1.
+ */
+export function reviewerReliability(reviews: PeerReview[]): Record<string, number> {
+  const peerReviews = reviews.filter((review) => review.evaluatorId !== review.targetId);
+  const reliability: Record<string, number> = {};
+  peerReviews.forEach(({ evaluatorId }) => {
+    if (evaluatorId in reliability) return;
+    const gaps = peerReviews
+      .filter((review) => review.evaluatorId === evaluatorId)
+      .flatMap((review) => {
+        const others = peerReviews.filter(
+          (item) => item.targetId === review.targetId && item.evaluatorId !== evaluatorId,
+        );
+        if (!others.length) return [];
+        return [Math.abs(review.score - meanOf(others.map((item) => item.score)))];
+      });
+    reliability[evaluatorId] = gaps.length ? 1 / (1 + meanOf(gaps)) : 1;
+  });
+  return reliability;
+}
+
+/** Weighted mean or weighted median of peer scores. */
+export function centralScore(
+  values: Array<{ score: number; weight: number }>,
+  average: PeerAverage,
+): number {
+  const total = values.reduce((sum, item) => sum + item.weight, 0);
+  if (!total) return 0;
+  if (average === "mean") {
+    return values.reduce((sum, item) => sum + item.score * item.weight, 0) / total;
+  }
+  const sorted = [...values].sort((a, b) => a.score - b.score);
+  let cumulative = 0;
+  for (let index = 0; index < sorted.length; index += 1) {
+    cumulative += sorted[index].weight;
+    if (Math.abs(cumulative - total / 2) < 1e-9 && index + 1 < sorted.length) {
+      return (sorted[index].score + sorted[index + 1].score) / 2;
+    }
+    if (cumulative > total / 2) return sorted[index].score;
+  }
+  return sorted[sorted.length - 1].score;
+}
+
+/**
+ * Blends the three components. Weights that already sum to 1 are applied
+ * as-is so the default config reproduces the original formula exactly.
+ */
+export function blendScores(
+  own: number,
+  peer: number,
+  self: number,
+  config: AggregationConfig,
+): number {
+  const { weights } = config;
+  const selfWeight = config.excludeSelf ? 0 : weights.self;
+  const total = weights.own + weights.peer + selfWeight;
+  const blended = own * weights.own + peer * weights.peer + self * selfWeight;
+  return Math.abs(total - 1) < 1e-9 ? blended : blended / total;
+}
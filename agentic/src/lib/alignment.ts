@@ -0,0 +1,157 @@
+import type { StoredRun } from "@/types";
+import { average, roundScore, summariseAlignment, type AlignmentStatus } from "@/lib/scoring";
+
+export interface AlignmentRecord {
+  runId: string;
+  createdAt: string;
+  userChoice: string;
+  arbiterPick: string;
+  alignment: AlignmentStatus;
+  /** Rank of the user's pick in the arbiter ordering, null when off the shortlist. */
+  delta: number | null;
+}
+
+export interface AgreementPoint {
+  date: string;
+  votes: number;
+  agreed: number;
+  rate: number;
+  cumulativeRate: number;
+}
+
+export interface ModelAgreement {
+  modelId: string;
+  humanPicks: number;
+  arbiterPicks: number;
+  jointPicks: number;
+}
+
+export interface AgreementSummary {
+  total: number;
+  agreementRate: number;
+  /** Mean rank offset across votes that landed on the arbiter shortlist. */
+  meanDelta: number | null;
+  outsideShortlist: number;
+  kappa: number | null;
+  timeline: AgreementPoint[];
+  models: ModelAgreement[];
+  /** confusion[humanPick][arbiterPick] = count */
+  confusion: Record<string, Record<string, number>>;
+}
+
+export function buildAlignmentRecords(runs: StoredRun[]): AlignmentRecord[] {
+  return runs
+    .flatMap((run) => {
+      const verdict = run.result.geminiVerdict;
+      const arbiterPick = verdict?.orderedModelIds[0];
+      if (!verdict || !arbiterPick || !run.userChoice) return [];
+      const { alignment, delta } = summariseAlignment(verdict, run.userChoice);
+      return [
+        {
+          runId: run.id,
+          createdAt: run.createdAt,
+          userChoice: run.userChoice,
+          arbiterPick,
+          alignment,
+          delta: delta === 999 ? null : delta,
+        },
+      ];
+    })
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Cohen's kappa between two raters over paired categorical labels. Returns
+ * null when chance agreement is total and kappa is undefined.
+ */
+export function cohensKappa(pairs: [string, string][]): number | null {
+  if (!pairs.length) return null;
+  const total = pairs.length;
+  const first = new Map<string, number>();
+  const second = new Map<string, number>();
+  let observed = 0;
+  pairs.forEach(([a, b]) => {
+    first.set(a, (first.get(a) ?? 0) + 1);
+    second.set(b, (second.get(b) ?? 0) + 1);
+    if (a === b) observed += 1;
+  });
+  const po = observed / total;
+  let pe = 0;
+  first.forEach((count, label) => {
+    pe += (count / total) * ((second.get(label) ?? 0) / total);
+  });
+  if (pe >= 1) return null;
+  return roundScore((po - pe) / (1 - pe), 3);
+}
+
+export function summariseAgreement(records: AlignmentRecord[]): AgreementSummary {
+  const total = records.length;
+  const agreed = records.filter((record) => record.alignment === "aligned").length;
+  const offsets = records
+    .map((record) => record.delta)
+    .filter((delta): delta is number => delta !== null);
+
+  const byDay = new Map<string, { votes: number; agreed: number }>();
+  records.forEach((record) => {
+    const day = record.createdAt.slice(0, 10);
+    const bucket = byDay.get(day) ?? { votes: 0, agreed: 0 };
+    bucket.votes += 1;
+    if (record.alignment === "aligned") bucket.agreed += 1;
+    byDay.set(day, bucket);
+  });
+  let runningVotes = 0;
+  let runningAgreed = 0;
+  const timeline = Array.from(byDay.entries()).map(([date, bucket]) => {
+    runningVotes += bucket.votes;
+    runningAgreed += bucket.agreed;
+    return {
+      date,
+      votes: bucket.votes,
+      agreed: bucket.agreed,
+      rate: roundScore(bucket.agreed / bucket.votes, 3),
+      cumulativeRate: roundScore(runningAgreed / runningVotes, 3),
+    };
+  });
+
+  const confusion: Record<string, Record<string, number>> = {};
+  const models = new Map<string, ModelAgreement>();
+  const tally = (modelId: string) => {
+    const entry = models.get(modelId) ?? { modelId, humanPicks: 0, arbiterPicks: 0, jointPicks: 0 };
+    models.set(modelId, entry);
+    return entry;
+  };
+  records.forEach((record) => {
+    confusion[record.userChoice] ??= {};
+    confusion[record.userChoice][record.arbiterPick] =
+      (confusion[record.userChoice][record.arbiterPick] ?? 0) + 1;
+    tally(record.userChoice).humanPicks += 1;
+    tally(record.arbiterPick).arbiterPicks += 1;
+    if (record.userChoice === record.arbiterPick) tally(record.userChoice).jointPicks += 1;
+  });
+
+  return {
+    total,
+    agreementRate: total ? roundScore(agreed / total, 3) : 0,
+    meanDelta: offsets.length ? roundScore(average(offsets)) : null,
+    outsideShortlist: total - offsets.length,
+    kappa: cohensKappa(records.map((record) => [record.userChoice, record.arbiterPick])),
+    timeline,
+    models: Array.from(models.values()).sort(
+      (a, b) =>
+        b.humanPicks + b.arbiterPicks - (a.humanPicks + a.arbiterPicks) ||
+        a.modelId.localeCompare(b.modelId),
+    ),
+    confusion,
+  };
+}
+
+/** Landis & Koch bands, the usual shorthand for reading kappa. */
+export function describeKappa(kappa: number | null): string {
+  if (kappa === null) return "undefined";
+  if (kappa < 0) return "worse than chance";
+  if (kappa < 0.2) return "slight";
+  if (kappa < 0.4) return "fair";
+  if (kappa < 0.6) return "moderate";
+  if (kappa < 0.8) return "substantial";
+  return "almost perfect";
+}
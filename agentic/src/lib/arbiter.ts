@@ -0,0 +1,132 @@
+import type { ArbiterConfig, ArbiterProtocol, ModelOption, PanelVoting } from "@/types";
+import { isRecord } from "@/lib/guards";
+import { MAX_SELECTIONS } from "@/lib/models";
+import { SHORTLIST_SIZE } from "@/lib/significance";
+
+export const BUILT_IN_ARBITER = { id: "gemini-3-pro", name: "Gemini-3-Pro" };
+export const MAX_JUDGES = 5;
+export const MIN_SHORTLIST = 2;
+
+/** The original arbiter: Gemini-3-Pro re-scoring the top three. */
+export const DEFAULT_ARBITER: ArbiterConfig = {
+  judgeIds: [],
+  protocol: "rubric",
+  voting: "majority",
+  shortlistSize: SHORTLIST_SIZE,
+};
+
+export const ARBITER_PROTOCOLS: { id: ArbiterProtocol; label: string; description: string }[] = [
+  {
+    id: "rubric",
+    label: "Rubric re-scoring",
+    description: "Each finalist is scored again against the run's rubric.",
+  },
+  {
+    id: "listwise",
+    label: "Listwise ranking",
+    description: "The judge sees every finalist at once and orders them.",
+  },
+  {
+    id: "pairwise",
+    label: "Pairwise tournament",
+    description: "Round-robin head-to-heads; most wins ranks first.",
+  },
+];
+
+export const PANEL_VOTINGS: { id: PanelVoting; label: string; description: string }[] = [
+  {
+    id: "majority",
+    label: "Majority",
+    description: "Most first-place votes wins; Borda points break ties.",
+  },
+  {
+    id: "borda",
+    label: "Borda count",
+    description: "Points for every place on every ballot.",
+  },
+];
+
+export const PROTOCOL_PHRASES: Record<ArbiterProtocol, string> = {
+  rubric: "rubric re-scoring",
+  listwise: "listwise ranking",
+  pairwise: "pairwise tournament",
+};
+
+export class ArbiterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArbiterError";
+  }
+}
+
+export function resolveArbiter(result: { arbiter?: ArbiterConfig }): ArbiterConfig {
+  return result.arbiter ?? DEFAULT_ARBITER;
+}
+
+/** "Gemini-3-Pro • rubric re-scoring", "Panel of 3 (Borda count) • pairwise tournament". */
+export function describeArbiter(
+  config: ArbiterConfig,
+  nameOf: (modelId: string) => string,
+): string {
+  const voting = PANEL_VOTINGS.find((item) => item.id === config.voting)?.label ?? config.voting;
+  const judges =
+    config.judgeIds.length > 1
+      ? `Panel of ${config.judgeIds.length} (${voting})`
+      : config.judgeIds.length
+        ? nameOf(config.judgeIds[0])
+        : BUILT_IN_ARBITER.name;
+  return `${judges} • ${PROTOCOL_PHRASES[config.protocol]}`;
+}
+
+function readChoice<T extends string>(value: unknown, options: T[], fallback: T, label: string): T {
+  if (value == null) return fallback;
+  if (!options.includes(value as T)) {
+    throw new ArbiterError(`${label} must be one of ${options.join(", ")}.`);
+  }
+  return value as T;
+}
+
+/** Checks an untrusted arbiter config against the registry, filling gaps from the default. */
+export function validateArbiter(input: unknown, models: ModelOption[]): ArbiterConfig {
+  if (!isRecord(input)) throw new ArbiterError("Arbiter must be a JSON object.");
+  if (input.judgeIds != null && !Array.isArray(input.judgeIds)) {
+    throw new ArbiterError("judgeIds must be a list of model ids.");
+  }
+  const rawIds = (input.judgeIds ?? []) as unknown[];
+  const judgeIds = Array.from(
+    new Set(rawIds.filter((id): id is string => typeof id === "string")),
+  );
+  const unknownIds = judgeIds.filter((id) => !models.some((model) => model.id === id));
+  if (unknownIds.length) {
+    throw new ArbiterError(`Unknown judge ids: ${unknownIds.join(", ")}.`);
+  }
+  if (judgeIds.length > MAX_JUDGES) {
+    throw new ArbiterError(`A panel can have at most ${MAX_JUDGES} judges.`);
+  }
+  const shortlistSize = input.shortlistSize ?? DEFAULT_ARBITER.shortlistSize;
+  if (
+    !Number.isInteger(shortlistSize) ||
+    (shortlistSize as number) < MIN_SHORTLIST ||
+    (shortlistSize as number) > MAX_SELECTIONS
+  ) {
+    throw new ArbiterError(
+      `shortlistSize must be a whole number from ${MIN_SHORTLIST} to ${MAX_SELECTIONS}.`,
+    );
+  }
+  return {
+    judgeIds,
+    protocol: readChoice(
+      input.protocol,
+      ARBITER_PROTOCOLS.map((item) => item.id),
+      DEFAULT_ARBITER.protocol,
+      "Protocol",
+    ),
+    voting: readChoice(
+      input.voting,
+      PANEL_VOTINGS.map((item) => item.id),
+      DEFAULT_ARBITER.voting,
+      "Voting",
+    ),
+    shortlistSize: shortlistSize as number,
+  };
+}
@@ -0,0 +1,382 @@
+import type {
+  ArbiterConfig,
+  ArbiterProtocol,
+  CrossEvaluation,
+  GeminiVerdict,
+  JudgeBallot,
+  LeaderboardEntry,
+  ModelOption,
+  ModelResponse,
+} from "@/types";
+import { BUILT_IN_ARBITER, PROTOCOL_PHRASES } from "@/lib/arbiter";
+import { isRecord } from "@/lib/guards";
+import {
+  fetchCrossEvaluation,
+  ProviderError,
+  resolveModelName,
+  resolveProvider,
+  type ModelProvider,
+  type ProviderRegistry,
+  type ResponseRequest,
+} from "@/lib/providers";
+import { createRandom, randomBetween } from "@/lib/random";
+import { DEFAULT_RUBRIC, normaliseMetric } from "@/lib/rubrics";
+import {
+  clampScore,
+  formatScore,
+  joinNames,
+  marginConfidence,
+  roundScore,
+  synthesiseGeminiVerdict,
+} from "@/lib/scoring";
+
+const ARBITER_PERSONA = "You are the final arbiter in a model evaluation arena.";
+
+export interface ArbiterInput {
+  config: ArbiterConfig;
+  /** Full registry, so judges need not be among the compared models. */
+  models: ModelOption[];
+  registry: ProviderRegistry;
+  leaderboard: LeaderboardEntry[];
+  shortlist: string[];
+  responses: ModelResponse[];
+  crossEvaluations: CrossEvaluation[];
+  /** The run's response request; supplies the task, rubric and seed. */
+  request: ResponseRequest;
+}
+
+interface Finalist {
+  model: ModelOption;
+  response: ModelResponse;
+  aggregateScore: number;
+}
+
+/** Orders the shortlist by score, keeping peer-review order between equal scores. */
+function rankBy(shortlist: string[], scores: Record<string, number>): string[] {
+  return [...shortlist].sort(
+    (a, b) => scores[b] - scores[a] || shortlist.indexOf(a) - shortlist.indexOf(b),
+  );
+}
+
+const ORDINALS = ["1st", "2nd", "3rd"];
+
+function ordinal(place: number): string {
+  return ORDINALS[place - 1] ?? `${place}th`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/** "strongest on accuracy, weakest on depth", from the finalist's own metrics. */
+function describeProfile(response: ModelResponse, request: ResponseRequest): string {
+  const rubric = request.rubric ?? DEFAULT_RUBRIC;
+  const scored = rubric.metrics
+    .filter((metric) => response.metrics[metric.key] !== undefined)
+    .map((metric) => ({ metric, value: normaliseMetric(response.metrics[metric.key], metric) }))
+    .sort((a, b) => b.value - a.value);
+  if (scored.length < 2) return "judged on the answer as a whole";
+  const label = (index: number) => scored[index].metric.label.toLowerCase();
+  return `strongest on ${label(0)}, weakest on ${label(scored.length - 1)}`;
+}
+
+function describeTask(request: ResponseRequest): string {
+  const persona = request.systemPrompt
+    ? `System prompt given to the candidates:\n${request.systemPrompt}\n\n`
+    : "";
+  return `${persona}Task given to the candidates:\n${request.prompt}`;
+}
+
+function parseReply(provider: ModelProvider, reply: string): Record<string, unknown> {
+  const match = reply.match(/\{[\s\S]*\}/);
+  try {
+    return match ? (JSON.parse(match[0]) as Record<string, unknown>) : {};
+  } catch {
+    throw new ProviderError(provider.name, "Arbiter reply was not valid JSON.");
+  }
+}
+
+function judgeRequest(judge: ModelOption, request: ResponseRequest, system: string, prompt: string) {
+  return {
+    model: judge,
+    modelName: resolveModelName(judge),
+    system,
+    prompt,
+    mode: "text" as const,
+    seed: `${request.seed}|arbiter`,
+    temperature: 0,
+  };
+}
+
+async function rubricBallot(
+  judge: ModelOption,
+  finalists: Finalist[],
+  { registry, request, shortlist }: ArbiterInput,
+): Promise<JudgeBallot> {
+  const reviews = await Promise.all(
+    finalists.map((finalist) =>
+      fetchCrossEvaluation(registry, judge, finalist.model, finalist.response, {
+        ...request,
+        seed: `${request.seed}|arbiter`,
+      }),
+    ),
+  );
+  const scores: Record<string, number> = {};
+  const rationales: Record<string, string> = {};
+  reviews.forEach((review) => {
+    scores[review.targetId] = review.overall;
+    rationales[review.targetId] = `Re-scored ${formatScore(review.overall)}. ${review.commentary}`.trim();
+  });
+  return { judgeId: judge.id, orderedModelIds: rankBy(shortlist, scores), scores, rationales };
+}
+
+async function listwiseBallot(
+  judgeId: string,
+  judge: ModelOption | null,
+  finalists: Finalist[],
+  { registry, request, shortlist }: ArbiterInput,
+): Promise<JudgeBallot> {
+  const scores: Record<string, number> = {};
+  const rationales: Record<string, string> = {};
+  const provider = judge ? resolveProvider(registry, judge) : null;
+  if (!judge || !provider || provider.kind === "synthetic") {
+    const random = createRandom(`${request.seed}|listwise|${judgeId}`);
+    finalists.forEach((finalist) => {
+      scores[finalist.model.id] = roundScore(
+        clampScore(finalist.aggregateScore + randomBetween(random, -0.6, 0.6)),
+      );
+    });
+    const ordered = rankBy(shortlist, scores);
+    finalists.forEach((finalist) => {
+      const place = ordered.indexOf(finalist.model.id) + 1;
+      rationales[finalist.model.id] =
+        `${ordinal(place)} of ${ordered.length}: ${describeProfile(finalist.response, request)}.`;
+    });
+    return { judgeId, orderedModelIds: ordered, scores, rationales };
+  }
+
+  const candidates = finalists
+    .map((finalist, index) => `Candidate ${index + 1}:\n${finalist.response.content}`)
+    .join("\n\n");
+  const completion = await provider.chat(
+    judgeRequest(
+      judge,
+      request,
+      `${ARBITER_PERSONA} Rank every candidate answer from best to worst for the task. Reply with JSON only, best first, listing each candidate once: {"ranking": [{"candidate": n, "score": 0-10, "rationale": "one sentence"}]}.`,
+      `${describeTask(request)}\n\n${candidates}`,
+    ),
+  );
+  const parsed = parseReply(provider, completion.content);
+  const ranking = Array.isArray(parsed.ranking) ? parsed.ranking : [];
+  const ordered = ranking.flatMap((item) => {
+    const finalist = isRecord(item) ? finalists[Number(item.candidate) - 1] : undefined;
+    if (!finalist || !isRecord(item)) return [];
+    const score = Number(item.score);
+    scores[finalist.model.id] = Number.isFinite(score) ? roundScore(clampScore(score)) : 0;
+    rationales[finalist.model.id] = typeof item.rationale === "string" ? item.rationale : "";
+    return [finalist.model.id];
+  });
+  if (new Set(ordered).size !== finalists.length || ordered.length !== finalists.length) {
+    throw new ProviderError(provider.name, "Arbiter ranking must list every candidate once.");
+  }
+  return { judgeId, orderedModelIds: ordered, scores, rationales };
+}
+
+async function pairwiseWinner(
+  judgeId: string,
+  judge: ModelOption | null,
+  first: Finalist,
+  second: Finalist,
+  { registry, request }: ArbiterInput,
+): Promise<{ winnerId: string; reason: string }> {
+  const provider = judge ? resolveProvider(registry, judge) : null;
+  if (!judge || !provider || provider.kind === "synthetic") {
+    const random = createRandom(
+      `${request.seed}|pairwise|${judgeId}|${first.model.id}|${second.model.id}`,
+    );
+    const margin = first.aggregateScore - second.aggregateScore + randomBetween(random, -0.75, 0.75);
+    return { winnerId: margin >= 0 ? first.model.id : second.model.id, reason: "" };
+  }
+  // Finalists arrive best-first, so a seeded coin decides which side is "A"
+  // rather than letting position bias favour the leader.
+  const order = createRandom(
+    `${request.seed}|pairwise-order|${judgeId}|${first.model.id}|${second.model.id}`,
+  );
+  const [answerA, answerB] = order() < 0.5 ? [second, first] : [first, second];
+  const completion = await provider.chat(
+    judgeRequest(
+      judge,
+      request,
+      `${ARBITER_PERSONA} Decide which of two answers better completes the task. Reply with JSON only: {"winner": "A" or "B", "reason": "one sentence"}.`,
+      `${describeTask(request)}\n\nAnswer A:\n${answerA.response.content}\n\nAnswer B:\n${answerB.response.content}`,
+    ),
+  );
+  const parsed = parseReply(provider, completion.content);
+  const winner = typeof parsed.winner === "string" ? parsed.winner.trim().toUpperCase() : "";
+  if (winner !== "A" && winner !== "B") {
+    throw new ProviderError(provider.name, 'Arbiter reply must name "A" or "B" as the winner.');
+  }
+  return {
+    winnerId: winner === "A" ? answerA.model.id : answerB.model.id,
+    reason: typeof parsed.reason === "string" ? parsed.reason : "",
+  };
+}
+
+async function pairwiseBallot(
+  judgeId: string,
+  judge: ModelOption | null,
+  finalists: Finalist[],
+  input: ArbiterInput,
+): Promise<JudgeBallot> {
+  const pairs = finalists.flatMap((first, index) =>
+    finalists.slice(index + 1).map((second) => [first, second] as const),
+  );
+  const matches = await Promise.all(
+    pairs.map(async ([first, second]) => ({
+      ids: [first.model.id, second.model.id],
+      ...(await pairwiseWinner(judgeId, judge, first, second, input)),
+    })),
+  );
+  const scores: Record<string, number> = {};
+  const rationales: Record<string, string> = {};
+  const nameOf = (modelId: string) =>
+    finalists.find((finalist) => finalist.model.id === modelId)?.model.name ?? modelId;
+  finalists.forEach(({ model }) => {
+    const won = matches.filter((match) => match.winnerId === model.id);
+    const beaten = won.flatMap((match) => match.ids.filter((id) => id !== model.id));
+    scores[model.id] = won.length;
+    rationales[model.id] = [
+      `Won ${won.length} of ${plural(finalists.length - 1, "head-to-head")}${beaten.length ? `, beating ${joinNames(beaten.map(nameOf))}` : ""}.`,
+      ...won.map((match) => match.reason).filter(Boolean),
+    ].join(" ");
+  });
+  return { judgeId, orderedModelIds: rankBy(input.shortlist, scores), scores, rationales };
+}
+
+function collectBallot(
+  judgeId: string,
+  judge: ModelOption | null,
+  finalists: Finalist[],
+  input: ArbiterInput,
+): Promise<JudgeBallot> {
+  if (input.config.protocol === "pairwise") {
+    return pairwiseBallot(judgeId, judge, finalists, input);
+  }
+  // Re-scoring needs a registered judge; the built-in arbiter's is the classic verdict.
+  if (input.config.protocol === "rubric" && judge) return rubricBallot(judge, finalists, input);
+  return listwiseBallot(judgeId, judge, finalists, input);
+}
+
+function ballotConfidence(ballot: JudgeBallot, protocol: ArbiterProtocol): number {
+  const [winner] = ballot.orderedModelIds;
+  if (protocol === "pairwise") {
+    const matches = ballot.orderedModelIds.length - 1;
+    return matches ? roundScore((ballot.scores[winner] ?? 0) / matches) : winner ? 1 : 0;
+  }
+  return marginConfidence(ballot.orderedModelIds.map((modelId) => ballot.scores[modelId] ?? 0));
+}
+
+/** First-place votes and Borda points per finalist across a panel's ballots. */
+function tallyBallots(ballots: JudgeBallot[], shortlist: string[]) {
+  const firsts: Record<string, number> = {};
+  const points: Record<string, number> = {};
+  shortlist.forEach((modelId) => {
+    firsts[modelId] = 0;
+    points[modelId] = 0;
+  });
+  ballots.forEach((ballot) => {
+    const [top] = ballot.orderedModelIds;
+    if (top !== undefined) firsts[top] += 1;
+    ballot.orderedModelIds.forEach((modelId, index) => {
+      points[modelId] += ballot.orderedModelIds.length - 1 - index;
+    });
+  });
+  return { firsts, points };
+}
+
+/**
+ * Judges the shortlist under the configured protocol. The default config is
+ * the classic Gemini-3-Pro re-scoring; any other runs one ballot per judge
+ * (the built-in arbiter when none are named) and, for a panel, combines them
+ * by majority or Borda count.
+ */
+export async function runArbiter(input: ArbiterInput): Promise<GeminiVerdict> {
+  const { config, models, leaderboard, shortlist, responses } = input;
+  const nameOf = (modelId: string) =>
+    models.find((model) => model.id === modelId)?.name ?? modelId;
+  if (!config.judgeIds.length && config.protocol === "rubric") {
+    return synthesiseGeminiVerdict(
+      models,
+      leaderboard,
+      shortlist,
+      input.crossEvaluations,
+      input.request.rubric,
+    );
+  }
+  const finalists = shortlist.flatMap((modelId) => {
+    const model = models.find((item) => item.id === modelId);
+    const response = responses.find((item) => item.modelId === modelId);
+    const entry = leaderboard.find((item) => item.modelId === modelId);
+    return model && response ? [{ model, response, aggregateScore: entry?.aggregateScore ?? 0 }] : [];
+  });
+  if (!finalists.length) {
+    return {
+      orderedModelIds: [],
+      commentary: "No finalists were available for arbitration.",
+      rationales: {},
+      confidence: 0,
+    };
+  }
+  const judges = config.judgeIds.length
+    ? config.judgeIds.flatMap((judgeId) => {
+        const judge = models.find((model) => model.id === judgeId);
+        return judge ? [{ judgeId, judge }] : [];
+      })
+    : [{ judgeId: BUILT_IN_ARBITER.id, judge: null }];
+  const ballots = await Promise.all(
+    judges.map(({ judgeId, judge }) => collectBallot(judgeId, judge, finalists, input)),
+  );
+  const finalistIds = finalists.map((finalist) => finalist.model.id);
+  const phrase = PROTOCOL_PHRASES[config.protocol];
+
+  let orderedModelIds: string[];
+  let rationales: Record<string, string>;
+  let confidence: number;
+  let lead: string;
+  if (ballots.length === 1) {
+    [{ orderedModelIds, rationales }] = ballots;
+    confidence = ballotConfidence(ballots[0], config.protocol);
+    const judgeName = judges[0].judge?.name ?? BUILT_IN_ARBITER.name;
+    lead = `${judgeName} ranks ${nameOf(orderedModelIds[0])} first by ${phrase}`;
+  } else {
+    const { firsts, points } = tallyBallots(ballots, finalistIds);
+    orderedModelIds = [...finalistIds].sort(
+      (a, b) =>
+        (config.voting === "majority" ? firsts[b] - firsts[a] : 0) ||
+        points[b] - points[a] ||
+        finalistIds.indexOf(a) - finalistIds.indexOf(b),
+    );
+    rationales = {};
+    finalistIds.forEach((modelId) => {
+      rationales[modelId] =
+        `First on ${firsts[modelId]} of ${ballots.length} ballots, ${plural(points[modelId], "Borda point")}.`;
+    });
+    const winnerFirsts = firsts[orderedModelIds[0]];
+    confidence = roundScore(winnerFirsts / ballots.length);
+    const voting = config.voting === "borda" ? "Borda count" : "majority vote";
+    lead = `A ${ballots.length}-judge panel ranks ${nameOf(orderedModelIds[0])} first by ${phrase} and ${voting}, topping ${winnerFirsts} of ${ballots.length} ballots`;
+  }
+  const [winner, ...rest] = orderedModelIds;
+  const upset = winner !== shortlist[0];
+  const commentary = `${lead}${upset ? `, overturning the peer-review leader ${nameOf(shortlist[0])}` : ""}.${
+    rest.length ? ` ${joinNames(rest.map(nameOf))} follow${rest.length === 1 ? "s" : ""}.` : ""
+  }`;
+
+  return {
+    orderedModelIds,
+    commentary,
+    rationales,
+    confidence,
+    ...(ballots.length > 1 ? { ballots } : {}),
+  };
+}
@@ -0,0 +1,565 @@
+import type {
+  AggregationConfig,
+  ArbiterConfig,
+  Attachment,
+  EvaluationEvent,
+  GenerationParams,
+  ImageAttachment,
+  ModalityPolicy,
+  ModelOption,
+  ModelResponse,
+  PromptMode,
+  PromptTemplate,
+  ResultState,
+  Rubric,
+  SampleRound,
+  ScenarioTurn,
+  TemplateUsage,
+  ToolKit,
+} from "@/types";
+import { buildResponseSeed, computeLeaderboard, scoreFromPeers } from "@/lib/scoring";
+import {
+  createProviderRegistry,
+  fetchCrossEvaluation,
+  fetchModelResponse,
+  type ProviderRegistry,
+} from "@/lib/providers";
+import { AggregationError, DEFAULT_AGGREGATION, validateAggregation } from "@/lib/aggregation";
+import { ArbiterError, DEFAULT_ARBITER, validateArbiter } from "@/lib/arbiter";
+import { runArbiter } from "@/lib/arbitration";
+import {
+  ATTACHMENT_MODALITY,
+  AttachmentError,
+  describeAttachments,
+  modeAccepts,
+  PROMPT_MODES,
+  requiredModalities,
+  validateAttachments,
+  type AttachmentInfo,
+} from "@/lib/attachments";
+import { aliasPairs, assignAliases, maskIdentities } from "@/lib/blind";
+import { describeImageName } from "@/lib/images";
+import {
+  checkCompatibility,
+  MAX_SELECTIONS,
+  MIN_MODELS,
+  MODEL_OPTIONS,
+  modalitySkips,
+} from "@/lib/models";
+import {
+  MAX_SYSTEM_PROMPT_LENGTH,
+  ModelRegistryError,
+  parseGenerationParams,
+} from "@/lib/modelRegistry";
+import { DEFAULT_RUBRIC } from "@/lib/rubrics";
+import { combineSampleRounds, MAX_SAMPLES, sampleSeed } from "@/lib/sampling";
+import { fetchConversation, fetchConversationReview } from "@/lib/scenarioRunner";
+import { ScenarioError, validateScenario } from "@/lib/scenarios";
+import { assessSignificance, tieAwareShortlist } from "@/lib/significance";
+import { fetchToolResponse, fetchToolReview } from "@/lib/toolRunner";
+import { BUILT_IN_TOOLKITS, findToolkit, ToolKitError } from "@/lib/tools";
+import {
+  BUILT_IN_TEMPLATES,
+  findVersion,
+  renderTemplate,
+  TemplateError,
+  validateValues,
+} from "@/lib/templates";
+
+const MODALITY_POLICIES: ModalityPolicy[] = ["flag", "skip"];
+
+export interface EvaluationRequest {
+  /** The single-shot prompt, or the opening turn of `scenario`. */
+  prompt: string;
+  /** Scripted conversation every model is run through, scored per turn and as a whole. */
+  scenario?: ScenarioTurn[];
+  /** Mock tools every model may call; tool use is scored alongside the final answer. */
+  toolkit?: ToolKit;
+  /** Persona or instructions sent to every model ahead of the prompt. */
+  systemPrompt?: string;
+  /** Template the prompt was filled from, resolved by `parseEvaluationRequest`. */
+  template?: TemplateUsage;
+  mode: PromptMode;
+  modelIds: string[];
+  attachments?: Attachment[];
+  /** Signature-checked details per attachment, filled in by `parseEvaluationRequest`. */
+  attachmentInfo?: AttachmentInfo[];
+  /** Image named by reference only (e.g. a suite row); used when no bytes are sent. */
+  imageReference?: string | null;
+  /** Mixed into the seed so repeated runs of the same prompt differ. */
+  runCounter?: number;
+  /** Rubric snapshot the run is scored against; defaults to the built-in rubric. */
+  rubric?: Rubric;
+  /** Leaderboard formula; defaults to the classic blend. */
+  aggregation?: AggregationConfig;
+  /** Judges, protocol and shortlist size; defaults to Gemini-3-Pro re-scoring the top three. */
+  arbiter?: ArbiterConfig;
+  /** Defaults to "flag": models lacking a needed channel answer without it and are marked. */
+  modalityPolicy?: ModalityPolicy;
+  /** Run-wide generation settings, over each model's registry defaults. */
+  params?: GenerationParams;
+  /** Per-model settings for this run, over the run-wide ones. */
+  modelParams?: Record<string, GenerationParams>;
+  /** Responses per model; above 1 the leaderboard reports sample means and variances. */
+  samples?: number;
+  /** Hide model identities behind aliases from reviewers, the arbiter and the UI. */
+  blind?: boolean;
+}
+
+export interface EvaluationContext {
+  models?: ModelOption[];
+  registry?: ProviderRegistry;
+  /** Called as each stage of the pipeline settles, for streaming progress. */
+  onEvent?: (event: EvaluationEvent) => void;
+}
+
+export class EvaluationRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EvaluationRequestError";
+  }
+}
+
+export function describeRequestAttachments(request: EvaluationRequest): string | undefined {
+  if (request.attachments?.length) {
+    return describeAttachments(request.attachments, request.attachmentInfo);
+  }
+  if (request.imageReference) return describeImageName(request.imageReference);
+  return undefined;
+}
+
+/** Input channels the request's mode and attachments call for. */
+export function requestModalities(request: EvaluationRequest) {
+  return requiredModalities(
+    request.mode,
+    (request.attachments ?? []).map((attachment) => attachment.kind),
+  );
+}
+
+/**
+ * Resolves `{templateId, version, variables}` against the library and checks
+ * whether the submitted prompt still matches what the template renders.
+ */
+function parseTemplateUsage(
+  input: unknown,
+  prompt: string,
+  systemPrompt: string,
+  templates: PromptTemplate[],
+): TemplateUsage {
+  if (!input || typeof input !== "object") {
+    throw new EvaluationRequestError("template must be an object with templateId and version.");
+  }
+  const { templateId, version, variables } = input as Record<string, unknown>;
+  const template = templates.find((item) => item.id === templateId);
+  if (!template) {
+    throw new EvaluationRequestError(`Unknown template "${templateId}".`);
+  }
+  const revision = Number.isInteger(version) ? findVersion(template, version as number) : undefined;
+  if (!revision) {
+    throw new EvaluationRequestError(`Template "${template.name}" has no version ${version}.`);
+  }
+  let values: Record<string, string>;
+  try {
+    values = validateValues(variables, revision);
+  } catch (error) {
+    if (error instanceof TemplateError) throw new EvaluationRequestError(error.message);
+    throw error;
+  }
+  const rendered = renderTemplate(revision, values);
+  return {
+    templateId: template.id,
+    templateName: template.name,
+    version: revision.version,
+    variables: values,
+    edited: rendered.prompt !== prompt || rendered.systemPrompt !== systemPrompt,
+  };
+}
+
+function parseRunParams(input: Record<string, unknown>, modelIds: string[]) {
+  const raw = input.modelParams;
+  if (raw != null && (typeof raw !== "object" || Array.isArray(raw))) {
+    throw new EvaluationRequestError("modelParams must map model ids to settings.");
+  }
+  const entries = Object.entries((raw ?? {}) as Record<string, unknown>);
+  const stray = entries.filter(([id]) => !modelIds.includes(id)).map(([id]) => id);
+  if (stray.length) {
+    throw new EvaluationRequestError(`modelParams names unselected models: ${stray.join(", ")}.`);
+  }
+  try {
+    const params = parseGenerationParams(input.params, "this run");
+    const modelParams: Record<string, GenerationParams> = {};
+    entries.forEach(([id, value]) => {
+      const parsed = parseGenerationParams(value, id);
+      if (parsed) modelParams[id] = parsed;
+    });
+    return { params, modelParams };
+  } catch (error) {
+    if (error instanceof ModelRegistryError) throw new EvaluationRequestError(error.message);
+    throw error;
+  }
+}
+
+function isFilePayload(value: unknown): value is ImageAttachment {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.name === "string" &&
+    typeof candidate.mimeType === "string" &&
+    typeof candidate.base64 === "string"
+  );
+}
+
+/** Validates an untrusted request body, throwing `EvaluationRequestError`. */
+export function parseEvaluationRequest(
+  body: unknown,
+  models: ModelOption[] = MODEL_OPTIONS,
+  rubrics: Rubric[] = [DEFAULT_RUBRIC],
+  templates: PromptTemplate[] = BUILT_IN_TEMPLATES,
+  toolkits: ToolKit[] = BUILT_IN_TOOLKITS,
+): EvaluationRequest {
+  if (!body || typeof body !== "object") {
+    throw new EvaluationRequestError("Request body must be a JSON object.");
+  }
+  const input = body as Record<string, unknown>;
+  const prompt = typeof input.prompt === "string" ? input.prompt : "";
+  if (!prompt.trim()) {
+    throw new EvaluationRequestError("Provide a prompt to evaluate.");
+  }
+  if (input.systemPrompt != null && typeof input.systemPrompt !== "string") {
+    throw new EvaluationRequestError("systemPrompt must be a string.");
+  }
+  const systemPrompt = ((input.systemPrompt as string | undefined) ?? "").trim();
+  if (systemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+    throw new EvaluationRequestError(
+      `System prompts are limited to ${MAX_SYSTEM_PROMPT_LENGTH} characters.`,
+    );
+  }
+  const template =
+    input.template != null
+      ? parseTemplateUsage(input.template, prompt, systemPrompt, templates)
+      : undefined;
+  let scenario: ScenarioTurn[] | undefined;
+  if (input.scenario != null) {
+    try {
+      scenario = validateScenario(input.scenario, prompt);
+    } catch (error) {
+      if (error instanceof ScenarioError) throw new EvaluationRequestError(error.message);
+      throw error;
+    }
+  }
+  let toolkit: ToolKit | undefined;
+  if (input.toolkitId != null) {
+    if (typeof input.toolkitId !== "string") {
+      throw new EvaluationRequestError("toolkitId must be a string.");
+    }
+    if (scenario) {
+      throw new EvaluationRequestError(
+        "Toolkit runs are single-turn; clear the conversation script to use one.",
+      );
+    }
+    try {
+      toolkit = findToolkit(input.toolkitId, toolkits);
+    } catch (error) {
+      if (error instanceof ToolKitError) throw new EvaluationRequestError(error.message);
+      throw error;
+    }
+  }
+  const mode = input.mode as PromptMode;
+  if (!PROMPT_MODES.includes(mode)) {
+    throw new EvaluationRequestError(`Mode must be one of ${PROMPT_MODES.join(", ")}.`);
+  }
+  const modelIds = Array.isArray(input.modelIds)
+    ? Array.from(new Set(input.modelIds.filter((id): id is string => typeof id === "string")))
+    : [];
+  const unknownIds = modelIds.filter((id) => !models.some((model) => model.id === id));
+  if (unknownIds.length) {
+    throw new EvaluationRequestError(`Unknown model ids: ${unknownIds.join(", ")}.`);
+  }
+  if (modelIds.length < MIN_MODELS || modelIds.length > MAX_SELECTIONS) {
+    throw new EvaluationRequestError(
+      `Select between ${MIN_MODELS} and ${MAX_SELECTIONS} models to run a comparison.`,
+    );
+  }
+  // Older clients send one `image` instead of the `attachments` list.
+  const rawAttachments = input.attachments ?? (input.image != null ? [input.image] : []);
+  if (!Array.isArray(rawAttachments) || !rawAttachments.every(isFilePayload)) {
+    throw new EvaluationRequestError("Attachments must each include name, mimeType and base64 fields.");
+  }
+  if (rawAttachments.length && mode === "text") {
+    throw new EvaluationRequestError("Switch to a media or multimodal mode to attach files.");
+  }
+  let attachmentInfo: AttachmentInfo[];
+  try {
+    attachmentInfo = validateAttachments(rawAttachments);
+  } catch (error) {
+    if (error instanceof AttachmentError) throw new EvaluationRequestError(error.message);
+    throw error;
+  }
+  const attachments: Attachment[] = rawAttachments.map((item, index) => ({
+    kind: attachmentInfo[index].kind,
+    name: item.name,
+    mimeType: attachmentInfo[index].mimeType,
+    base64: item.base64,
+  }));
+  const misplaced = attachments.find((item) => !modeAccepts(mode, item.kind));
+  if (misplaced) {
+    throw new EvaluationRequestError(
+      `${mode[0].toUpperCase()}${mode.slice(1)} mode cannot take ${misplaced.kind} attachments; switch to multimodal to mix them.`,
+    );
+  }
+  if (input.imageReference != null && typeof input.imageReference !== "string") {
+    throw new EvaluationRequestError("imageReference must be a string.");
+  }
+  const runCounter = Number.isInteger(input.runCounter) ? (input.runCounter as number) : 0;
+  if (input.rubricId != null && typeof input.rubricId !== "string") {
+    throw new EvaluationRequestError("rubricId must be a string.");
+  }
+  const rubric = input.rubricId
+    ? rubrics.find((item) => item.id === input.rubricId)
+    : rubrics.find((item) => item.id === DEFAULT_RUBRIC.id) ?? DEFAULT_RUBRIC;
+  if (!rubric) {
+    throw new EvaluationRequestError(`Unknown rubric "${input.rubricId}".`);
+  }
+  const modalityPolicy = (input.modalityPolicy ?? "flag") as ModalityPolicy;
+  if (!MODALITY_POLICIES.includes(modalityPolicy)) {
+    throw new EvaluationRequestError(
+      `modalityPolicy must be one of ${MODALITY_POLICIES.join(", ")}.`,
+    );
+  }
+  const kinds = attachments.map((item) => item.kind);
+  const compatibility = checkCompatibility(
+    models.filter((model) => modelIds.includes(model.id)),
+    requiredModalities(mode, kinds),
+    modalityPolicy,
+    kinds.map((kind) => ATTACHMENT_MODALITY[kind]),
+  );
+  if (compatibility.errors.length) {
+    throw new EvaluationRequestError(compatibility.errors.join(" "));
+  }
+  const { params, modelParams } = parseRunParams(input, modelIds);
+  const samples = input.samples ?? 1;
+  if (!Number.isInteger(samples) || (samples as number) < 1 || (samples as number) > MAX_SAMPLES) {
+    throw new EvaluationRequestError(`samples must be a whole number from 1 to ${MAX_SAMPLES}.`);
+  }
+  if (input.blind != null && typeof input.blind !== "boolean") {
+    throw new EvaluationRequestError("blind must be true or false.");
+  }
+  let aggregation = DEFAULT_AGGREGATION;
+  if (input.aggregation != null) {
+    try {
+      aggregation = validateAggregation(input.aggregation);
+    } catch (error) {
+      if (error instanceof AggregationError) throw new EvaluationRequestError(error.message);
+      throw error;
+    }
+  }
+  let arbiter = DEFAULT_ARBITER;
+  if (input.arbiter != null) {
+    try {
+      arbiter = validateArbiter(input.arbiter, models);
+    } catch (error) {
+      if (error instanceof ArbiterError) throw new EvaluationRequestError(error.message);
+      throw error;
+    }
+  }
+  return {
+    prompt,
+    ...(scenario ? { scenario } : {}),
+    ...(toolkit ? { toolkit } : {}),
+    ...(systemPrompt ? { systemPrompt } : {}),
+    ...(template ? { template } : {}),
+    mode,
+    modelIds,
+    attachments,
+    attachmentInfo,
+    imageReference: (input.imageReference as string | undefined) || null,
+    runCounter,
+    rubric,
+    aggregation,
+    arbiter,
+    modalityPolicy,
+    ...(params ? { params } : {}),
+    ...(Object.keys(modelParams).length ? { modelParams } : {}),
+    samples: samples as number,
+    ...(input.blind ? { blind: true } : {}),
+  };
+}
+
+/**
+ * Runs the full arena: response fan-out (single prompts, whole conversation
+ * scenarios or tool-calling loops), the N×N cross-evaluation matrix,
+ * leaderboard aggregation with bootstrap significance, and the configured
+ * arbiter's verdict on the shortlist.
+ */
+export async function runEvaluation(
+  request: EvaluationRequest,
+  {
+    models = MODEL_OPTIONS,
+    registry = createProviderRegistry(),
+    onEvent = () => undefined,
+  }: EvaluationContext = {},
+): Promise<ResultState> {
+  const roster = models.filter((model) => request.modelIds.includes(model.id));
+  const skippedModelIds = modalitySkips(
+    roster,
+    requestModalities(request),
+    request.modalityPolicy ?? "flag",
+  );
+  const selectedModels = roster.filter((model) => !skippedModelIds.includes(model.id));
+  const rubric = request.rubric ?? DEFAULT_RUBRIC;
+  const aggregation = request.aggregation ?? DEFAULT_AGGREGATION;
+  const arbiter = request.arbiter ?? DEFAULT_ARBITER;
+  const imageDescriptor = describeRequestAttachments(request);
+  const baseSeed = buildResponseSeed(
+    request.prompt,
+    request.mode,
+    imageDescriptor,
+    request.runCounter ?? 0,
+    request.attachmentInfo?.map((info) => info.fingerprint).join("+") || undefined,
+  );
+  // A persona changes the answers; runs without one keep their original seed.
+  const seed = request.systemPrompt ? `${baseSeed}|${request.systemPrompt}` : baseSeed;
+  const responseRequest = {
+    prompt: request.prompt,
+    systemPrompt: request.systemPrompt,
+    params: request.params,
+    modelParams: request.modelParams,
+    mode: request.mode,
+    seed,
+    imageDescriptor,
+    attachments: request.attachments?.map(({ kind, mimeType, base64 }) => ({
+      kind,
+      mimeType,
+      base64,
+    })),
+    rubric,
+    ...(request.blind ? { blind: true } : {}),
+  };
+  const sampleCount = request.samples ?? 1;
+  const aliases = request.blind
+    ? assignAliases(selectedModels.map((model) => model.id), seed)
+    : undefined;
+  if (aliases) onEvent({ type: "aliases", aliases });
+  // On blind runs reviewers and the arbiter only ever read masked answers.
+  const mask = (text: string) =>
+    aliases ? maskIdentities(text, aliasPairs(selectedModels, aliases)) : text;
+  const judged = (response: ModelResponse): ModelResponse =>
+    aliases
+      ? {
+          ...response,
+          content: mask(response.content),
+          ...(response.transcript
+            ? {
+                transcript: response.transcript.map((turn) => ({
+                  ...turn,
+                  user: mask(turn.user),
+                  reply: mask(turn.reply),
+                })),
+              }
+            : {}),
+        }
+      : response;
+  const { scenario, toolkit } = request;
+
+  // Only the first round streams response and review events; later rounds
+  // report progress, and the final leaderboard averages over every round.
+  const rounds: SampleRound[] = [];
+  for (let index = 0; index < sampleCount; index += 1) {
+    const roundRequest = { ...responseRequest, seed: sampleSeed(seed, index) };
+    const emit = index === 0 ? onEvent : () => undefined;
+    const answers = await Promise.all(
+      selectedModels.map(async (model) => {
+        const response = scenario
+          ? await fetchConversation(registry, model, roundRequest, scenario)
+          : toolkit
+            ? await fetchToolResponse(registry, model, roundRequest, toolkit)
+            : await fetchModelResponse(registry, model, roundRequest);
+        emit({ type: "response", response });
+        return response;
+      }),
+    );
+    const crossEvaluations = await Promise.all(
+      selectedModels.flatMap((evaluator) =>
+        selectedModels.map(async (target, targetIndex) => {
+          const evaluation = scenario
+            ? await fetchConversationReview(
+                registry,
+                evaluator,
+                target,
+                judged(answers[targetIndex]),
+                roundRequest,
+                scenario,
+              )
+            : toolkit
+              ? await fetchToolReview(
+                  registry,
+                  evaluator,
+                  target,
+                  judged(answers[targetIndex]),
+                  roundRequest,
+                  toolkit,
+                )
+              : await fetchCrossEvaluation(
+                  registry,
+                  evaluator,
+                  target,
+                  judged(answers[targetIndex]),
+                  roundRequest,
+                );
+          emit({ type: "crossEvaluation", evaluation });
+          return evaluation;
+        }),
+      ),
+    );
+    // Remote answers take their metrics from the reviews just collected.
+    const responses = answers.map((response) =>
+      scoreFromPeers(response, crossEvaluations, rubric),
+    );
+    const roundLeaderboard = computeLeaderboard({
+      responses,
+      crossEvaluations,
+      rubric,
+      aggregation,
+    });
+    rounds.push({ responses, crossEvaluations, leaderboard: roundLeaderboard });
+    if (sampleCount > 1) onEvent({ type: "sample", completed: index + 1, total: sampleCount });
+  }
+  const { responses, crossEvaluations } = rounds[0];
+  const { leaderboard, significance } = assessSignificance({
+    rounds,
+    leaderboard: sampleCount > 1 ? combineSampleRounds(rounds, rubric) : rounds[0].leaderboard,
+    rubric,
+    aggregation,
+    seed,
+  });
+  const topThree = tieAwareShortlist(leaderboard, arbiter.shortlistSize);
+  onEvent({ type: "leaderboard", leaderboard, topThree });
+  const geminiVerdict = await runArbiter({
+    config: arbiter,
+    models,
+    registry,
+    leaderboard,
+    shortlist: topThree,
+    responses: responses.map(judged),
+    crossEvaluations,
+    request: responseRequest,
+  });
+  onEvent({ type: "verdict", verdict: geminiVerdict });
+
+  const result: ResultState = {
+    rubric,
+    aggregation,
+    ...(skippedModelIds.length ? { skippedModelIds } : {}),
+    ...(sampleCount > 1 ? { samples: rounds } : {}),
+    responses,
+    crossEvaluations,
+    leaderboard,
+    significance,
+    arbiter,
+    geminiVerdict,
+    topThree,
+    ...(aliases ? { aliases } : {}),
+  };
+  onEvent({ type: "complete", result });
+  return result;
+}
@@ -0,0 +1,330 @@
+import type { Attachment, AttachmentKind, ModelModality, ModelOption, PromptMode } from "@/types";
+import { ascii, fingerprint, matches, uint32be, uint32le } from "@/lib/binary";
+import {
+  decodeBase64,
+  describeImageName,
+  formatBytes,
+  IMAGE_MIME_TYPES,
+  ImageError,
+  MAX_IMAGE_BYTES,
+  validateImage,
+} from "@/lib/images";
+
+export const PROMPT_MODES: PromptMode[] = ["text", "image", "audio", "video", "multimodal"];
+
+export const ATTACHMENT_KINDS: AttachmentKind[] = ["image", "audio", "video"];
+
+export const MAX_ATTACHMENTS = 6;
+
+/** Combined cap, so one request stays inside vendors' inline-data limits. */
+export const MAX_TOTAL_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+interface AttachmentRule {
+  /** Format list for hints and error messages. */
+  formats: string;
+  maxBytes: number;
+  mimeTypes: string[];
+}
+
+export const ATTACHMENT_RULES: Record<AttachmentKind, AttachmentRule> = {
+  image: { formats: "PNG, JPG or WebP", maxBytes: MAX_IMAGE_BYTES, mimeTypes: IMAGE_MIME_TYPES },
+  audio: {
+    formats: "MP3, WAV, OGG, M4A or WebM",
+    maxBytes: 10 * 1024 * 1024,
+    mimeTypes: ["audio/mpeg", "audio/wav", "audio/ogg", "audio/mp4", "audio/webm"],
+  },
+  video: {
+    formats: "MP4, WebM or MOV",
+    maxBytes: 20 * 1024 * 1024,
+    mimeTypes: ["video/mp4", "video/webm", "video/quicktime"],
+  },
+};
+
+/** Model capability needed to take each kind of attachment. */
+export const ATTACHMENT_MODALITY: Record<AttachmentKind, ModelModality> = {
+  image: "vision",
+  audio: "audio",
+  video: "video",
+};
+
+/** Single-medium modes and the one attachment kind each takes. */
+const MODE_KINDS: Partial<Record<PromptMode, AttachmentKind>> = {
+  image: "image",
+  audio: "audio",
+  video: "video",
+};
+
+/** Alternative spellings browsers report for the supported formats. */
+const MIME_ALIASES: Record<string, string> = {
+  "audio/mp3": "audio/mpeg",
+  "audio/x-wav": "audio/wav",
+  "audio/wave": "audio/wav",
+  "audio/m4a": "audio/mp4",
+  "audio/x-m4a": "audio/mp4",
+};
+
+export interface AttachmentInfo {
+  kind: AttachmentKind;
+  /** Type sniffed from the file signature, not the declared one. */
+  mimeType: string;
+  format: string;
+  bytes: number;
+  width: number | null;
+  height: number | null;
+  /** Read from WAV and MP4/MOV headers; null for formats without a cheap length field. */
+  durationSeconds: number | null;
+  /** Short content hash, mixed into run seeds so different files differ. */
+  fingerprint: string;
+}
+
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
+
+export function canonicalMimeType(mimeType: string): string {
+  const lower = mimeType.toLowerCase();
+  return MIME_ALIASES[lower] ?? lower;
+}
+
+export function attachmentKindOf(mimeType: string): AttachmentKind | null {
+  const canonical = canonicalMimeType(mimeType);
+  return (
+    ATTACHMENT_KINDS.find((kind) => ATTACHMENT_RULES[kind].mimeTypes.includes(canonical)) ?? null
+  );
+}
+
+/** Text mode takes nothing, single-medium modes their own kind, multimodal anything. */
+export function modeAccepts(mode: PromptMode, kind: AttachmentKind): boolean {
+  if (mode === "text") return false;
+  const only = MODE_KINDS[mode];
+  return !only || only === kind;
+}
+
+/** Value for a file input's `accept` attribute in the given mode. */
+export function acceptedMimeTypes(mode: PromptMode): string[] {
+  return ATTACHMENT_KINDS.filter((kind) => modeAccepts(mode, kind)).flatMap(
+    (kind) => ATTACHMENT_RULES[kind].mimeTypes,
+  );
+}
+
+/**
+ * Capabilities a run needs: the channel of a single-medium mode, or in
+ * multimodal mode one per attached kind. Multimodal runs with nothing
+ * attached still expect vision, as they always have.
+ */
+export function requiredModalities(mode: PromptMode, kinds: AttachmentKind[]): ModelModality[] {
+  if (mode === "text") return [];
+  const only = MODE_KINDS[mode];
+  if (only) return [ATTACHMENT_MODALITY[only]];
+  const needed = ATTACHMENT_KINDS.filter((kind) => kinds.includes(kind)).map(
+    (kind) => ATTACHMENT_MODALITY[kind],
+  );
+  return needed.length ? needed : ["vision"];
+}
+
+/** The attachments a model declares it can take; the rest are withheld from it. */
+export function attachmentsFor<T extends { kind: AttachmentKind }>(
+  model: ModelOption,
+  attachments: T[] = [],
+): T[] {
+  return attachments.filter((item) => model.modality.includes(ATTACHMENT_MODALITY[item.kind]));
+}
+
+export function formatDuration(seconds: number): string {
+  const whole = Math.round(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+/** Name-based label, extended with format, size and length once the bytes are known. */
+export function describeAttachment(name: string, info?: AttachmentInfo | null): string {
+  const label = describeImageName(name);
+  if (!info) return label;
+  const size = info.width && info.height ? ` ${info.width}×${info.height}` : "";
+  const length = info.durationSeconds !== null ? `, ${formatDuration(info.durationSeconds)}` : "";
+  return `${label} (${info.format}${size}${length})`;
+}
+
+export function describeAttachments(
+  attachments: Attachment[],
+  infos: Array<AttachmentInfo | null | undefined> = [],
+): string | undefined {
+  if (!attachments.length) return undefined;
+  return attachments.map((item, index) => describeAttachment(item.name, infos[index])).join("; ");
+}
+
+interface MediaBox {
+  offset: number;
+  size: number;
+}
+
+/** Finds an ISO BMFF box of `type` between `start` and `end`. */
+function findBox(bytes: Uint8Array, start: number, end: number, type: string): MediaBox | null {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = uint32be(bytes, offset);
+    if (size === 1 && offset + 16 <= end) {
+      size = uint32be(bytes, offset + 8) * 2 ** 32 + uint32be(bytes, offset + 12);
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < 8) return null;
+    if (ascii(bytes, offset + 4, type)) return { offset, size };
+    offset += size;
+  }
+  return null;
+}
+
+function mp4Duration(bytes: Uint8Array): number | null {
+  const moov = findBox(bytes, 0, bytes.length, "moov");
+  if (!moov) return null;
+  const moovEnd = Math.min(bytes.length, moov.offset + moov.size);
+  const mvhd = findBox(bytes, moov.offset + 8, moovEnd, "mvhd");
+  if (!mvhd || mvhd.offset + 40 > bytes.length) return null;
+  const version = bytes[mvhd.offset + 8];
+  const timescale = uint32be(bytes, mvhd.offset + (version === 1 ? 28 : 20));
+  const duration =
+    version === 1
+      ? uint32be(bytes, mvhd.offset + 32) * 2 ** 32 + uint32be(bytes, mvhd.offset + 36)
+      : uint32be(bytes, mvhd.offset + 24);
+  return timescale ? duration / timescale : null;
+}
+
+function wavDuration(bytes: Uint8Array): number | null {
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = uint32le(bytes, offset + 4);
+    if (ascii(bytes, offset, "fmt ") && offset + 20 <= bytes.length) {
+      byteRate = uint32le(bytes, offset + 16);
+    }
+    if (ascii(bytes, offset, "data")) return byteRate ? size / byteRate : null;
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+interface SniffedMedia {
+  format: string;
+  /** Declared types the signature is consistent with. */
+  mimeTypes: string[];
+  durationSeconds: number | null;
+}
+
+/** Identifies audio and video containers by signature. */
+function sniffMedia(bytes: Uint8Array): SniffedMedia | null {
+  if (ascii(bytes, 0, "RIFF") && ascii(bytes, 8, "WAVE")) {
+    return { format: "WAV", mimeTypes: ["audio/wav"], durationSeconds: wavDuration(bytes) };
+  }
+  if (ascii(bytes, 0, "ID3") || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) {
+    return { format: "MP3", mimeTypes: ["audio/mpeg"], durationSeconds: null };
+  }
+  if (ascii(bytes, 0, "OggS")) {
+    return { format: "Ogg", mimeTypes: ["audio/ogg"], durationSeconds: null };
+  }
+  if (matches(bytes, 0, [0x1a, 0x45, 0xdf, 0xa3])) {
+    return { format: "WebM", mimeTypes: ["audio/webm", "video/webm"], durationSeconds: null };
+  }
+  if (ascii(bytes, 4, "ftyp")) {
+    const durationSeconds = mp4Duration(bytes);
+    if (ascii(bytes, 8, "qt  ")) {
+      return { format: "MOV", mimeTypes: ["video/quicktime"], durationSeconds };
+    }
+    if (ascii(bytes, 8, "M4A ") || ascii(bytes, 8, "M4B ")) {
+      return { format: "M4A", mimeTypes: ["audio/mp4"], durationSeconds };
+    }
+    return { format: "MP4", mimeTypes: ["video/mp4", "audio/mp4"], durationSeconds };
+  }
+  return null;
+}
+
+function unsupportedMessage(): string {
+  return `Attach images (${ATTACHMENT_RULES.image.formats}), audio (${ATTACHMENT_RULES.audio.formats}) or video (${ATTACHMENT_RULES.video.formats}).`;
+}
+
+function sizeMessage(kind: AttachmentKind): string {
+  return `${kind[0].toUpperCase()}${kind.slice(1)} files are limited to ${formatBytes(ATTACHMENT_RULES[kind].maxBytes)}.`;
+}
+
+/** Cheap checks on what the browser reports, before any bytes are read. */
+export function checkAttachmentFile(mimeType: string, bytes: number): AttachmentKind {
+  const kind = attachmentKindOf(mimeType);
+  if (!kind) throw new AttachmentError(unsupportedMessage());
+  if (bytes > ATTACHMENT_RULES[kind].maxBytes) throw new AttachmentError(sizeMessage(kind));
+  return kind;
+}
+
+/**
+ * Full validation of one upload: declared type, per-kind size limit and a
+ * signature check so the bytes really are the format they claim to be.
+ */
+export function validateAttachment(attachment: Omit<Attachment, "kind">): AttachmentInfo {
+  const mimeType = canonicalMimeType(attachment.mimeType);
+  const kind = attachmentKindOf(mimeType);
+  if (!kind) throw new AttachmentError(unsupportedMessage());
+  if (attachment.base64.length > Math.ceil(ATTACHMENT_RULES[kind].maxBytes / 3) * 4 + 4) {
+    throw new AttachmentError(sizeMessage(kind));
+  }
+  if (kind === "image") {
+    try {
+      return { kind, ...validateImage(mimeType, attachment.base64), durationSeconds: null };
+    } catch (error) {
+      if (error instanceof ImageError) throw new AttachmentError(error.message);
+      throw error;
+    }
+  }
+  let bytes: Uint8Array;
+  try {
+    bytes = decodeBase64(attachment.base64);
+  } catch (error) {
+    if (error instanceof ImageError) throw new AttachmentError(error.message);
+    throw error;
+  }
+  checkAttachmentFile(mimeType, bytes.length);
+  const sniffed = sniffMedia(bytes);
+  if (!sniffed) {
+    throw new AttachmentError(
+      `The file is not a supported ${kind} format (${ATTACHMENT_RULES[kind].formats}).`,
+    );
+  }
+  if (!sniffed.mimeTypes.includes(mimeType)) {
+    throw new AttachmentError(`The file contains ${sniffed.format} data but was sent as ${mimeType}.`);
+  }
+  return {
+    kind,
+    mimeType,
+    format: sniffed.format,
+    bytes: bytes.length,
+    width: null,
+    height: null,
+    durationSeconds:
+      sniffed.durationSeconds === null ? null : Math.round(sniffed.durationSeconds * 10) / 10,
+    fingerprint: fingerprint(bytes),
+  };
+}
+
+/** Validates a whole attachment list, including the count and combined size limits. */
+export function validateAttachments(attachments: Array<Omit<Attachment, "kind">>): AttachmentInfo[] {
+  if (attachments.length > MAX_ATTACHMENTS) {
+    throw new AttachmentError(`Attach at most ${MAX_ATTACHMENTS} files per prompt.`);
+  }
+  const infos = attachments.map((attachment) => {
+    try {
+      return validateAttachment(attachment);
+    } catch (error) {
+      if (error instanceof AttachmentError) {
+        throw new AttachmentError(`${attachment.name}: ${error.message}`);
+      }
+      throw error;
+    }
+  });
+  const total = infos.reduce((sum, info) => sum + info.bytes, 0);
+  if (total > MAX_TOTAL_ATTACHMENT_BYTES) {
+    throw new AttachmentError(
+      `Attachments are limited to ${formatBytes(MAX_TOTAL_ATTACHMENT_BYTES)} in total.`,
+    );
+  }
+  return infos;
+}
@@ -0,0 +1,92 @@
+import type { BattleOutcome, BattleVote } from "@/types";
+import { createRandom } from "@/lib/random";
+
+export const BATTLE_OUTCOMES: { id: BattleOutcome; label: string }[] = [
+  { id: "a", label: "A is better" },
+  { id: "b", label: "B is better" },
+  { id: "tie", label: "Tie" },
+  { id: "both-bad", label: "Both are bad" },
+];
+
+export interface BattlePairing {
+  leftId: string;
+  rightId: string;
+}
+
+export class BattleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BattleError";
+  }
+}
+
+function samePair(vote: BattlePairing, a: string, b: string): boolean {
+  return (
+    (vote.leftId === a && vote.rightId === b) || (vote.leftId === b && vote.rightId === a)
+  );
+}
+
+/**
+ * Picks the least-battled pair, so repeated voting covers every matchup
+ * before any repeats. Seeded by the run and the vote count, and the sides are
+ * shuffled so neither model always appears as A.
+ */
+export function nextBattle(
+  modelIds: string[],
+  battles: BattleVote[],
+  seed: string,
+): BattlePairing | null {
+  const pairs = modelIds.flatMap((first, index) =>
+    modelIds.slice(index + 1).map((second) => [first, second] as const),
+  );
+  if (!pairs.length) return null;
+  const counts = pairs.map(([a, b]) => battles.filter((vote) => samePair(vote, a, b)).length);
+  const fewest = Math.min(...counts);
+  const candidates = pairs.filter((_, index) => counts[index] === fewest);
+  const random = createRandom(`${seed}|battle|${battles.length}`);
+  const [first, second] = candidates[Math.floor(random() * candidates.length)];
+  return random() < 0.5
+    ? { leftId: first, rightId: second }
+    : { leftId: second, rightId: first };
+}
+
+/** Checks an untrusted vote against the models that answered in the run. */
+export function validateBattleVote(
+  input: unknown,
+  modelIds: string[],
+): Omit<BattleVote, "votedAt"> {
+  if (!input || typeof input !== "object") {
+    throw new BattleError("A battle vote must be a JSON object.");
+  }
+  const { leftId, rightId, outcome } = input as Record<string, unknown>;
+  if (typeof leftId !== "string" || typeof rightId !== "string") {
+    throw new BattleError("leftId and rightId must be model ids.");
+  }
+  if (leftId === rightId) {
+    throw new BattleError("A battle needs two different models.");
+  }
+  const missing = [leftId, rightId].filter((id) => !modelIds.includes(id));
+  if (missing.length) {
+    throw new BattleError(`No response from ${missing.join(" or ")} in this run.`);
+  }
+  if (!BATTLE_OUTCOMES.some((item) => item.id === outcome)) {
+    throw new BattleError(
+      `outcome must be one of ${BATTLE_OUTCOMES.map((item) => item.id).join(", ")}.`,
+    );
+  }
+  return { leftId, rightId, outcome: outcome as BattleOutcome };
+}
+
+/** Winner and loser of a decisive vote; ties and both-bad have neither. */
+export function battleResult(vote: BattleVote): { winner: string; loser: string } | null {
+  if (vote.outcome === "a") return { winner: vote.leftId, loser: vote.rightId };
+  if (vote.outcome === "b") return { winner: vote.rightId, loser: vote.leftId };
+  return null;
+}
+
+export function describeBattle(vote: BattleVote, nameOf: (modelId: string) => string): string {
+  const result = battleResult(vote);
+  if (result) return `${nameOf(result.winner)} beat ${nameOf(result.loser)}`;
+  const pair = `${nameOf(vote.leftId)} and ${nameOf(vote.rightId)}`;
+  return vote.outcome === "both-bad" ? `${pair} were both bad` : `${pair} tied`;
+}
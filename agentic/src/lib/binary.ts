@@ -0,0 +1,28 @@
+/** Byte-level readers shared by the image and media signature sniffers. */
+
+export const matches = (bytes: Uint8Array, offset: number, signature: number[]) =>
+  signature.every((value, index) => bytes[offset + index] === value);
+
+export const ascii = (bytes: Uint8Array, offset: number, text: string) =>
+  matches(bytes, offset, Array.from(text, (char) => char.charCodeAt(0)));
+
+export const uint16be = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 8) | bytes[offset + 1];
+export const uint16le = (bytes: Uint8Array, offset: number) =>
+  bytes[offset] | (bytes[offset + 1] << 8);
+export const uint24le = (bytes: Uint8Array, offset: number) =>
+  bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+export const uint32be = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+export const uint32le = (bytes: Uint8Array, offset: number) =>
+  bytes[offset] + (bytes[offset + 1] << 8) + (bytes[offset + 2] << 16) + ((bytes[offset + 3] << 24) >>> 0);
+
+/** FNV-1a over the raw bytes. */
+export function fingerprint(bytes: Uint8Array): string {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < bytes.length; index += 1) {
+    hash ^= bytes[index];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
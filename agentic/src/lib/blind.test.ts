@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import type { ModelOption, ModelResponse, StoredRun } from "@/types";
+import { isSealed, sealRun, unsealId } from "@/lib/blind";
+
+const models: ModelOption[] = [
+  { id: "gpt-4.1", name: "GPT-4.1", provider: "OpenAI", tags: [], modality: ["text"] },
+  { id: "claude-3", name: "Claude 3", provider: "Anthropic", tags: [], modality: ["text"] },
+  { id: "vision-x", name: "Vision X", provider: "Acme", tags: [], modality: ["text", "vision"] },
+];
+
+function response(modelId: string, content: string): ModelResponse {
+  return {
+    modelId,
+    content,
+    supportingPoints: [],
+    modalityNotes: "",
+    overallScore: 7,
+    metrics: { clarity: 7 },
+  };
+}
+
+function blindRun(userChoice: string | null): StoredRun {
+  return {
+    id: "run-1",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    prompt: "Compare greenhouse layouts.",
+    mode: "text",
+    imageDescriptor: null,
+    models,
+    modelParams: { "gpt-4.1": { temperature: 0.2 }, "vision-x": { temperature: 1 } },
+    runCounter: 1,
+    userChoice,
+    result: {
+      skippedModelIds: ["vision-x"],
+      responses: [
+        response("gpt-4.1", "As GPT-4.1 from OpenAI, I suggest raised beds."),
+        response("claude-3", "Claude 3 here: go vertical."),
+      ],
+      crossEvaluations: [],
+      leaderboard: [],
+      geminiVerdict: {
+        orderedModelIds: ["claude-3", "gpt-4.1"],
+        commentary: "Claude 3 edges out GPT-4.1.",
+        rationales: { "claude-3": "Concrete.", "gpt-4.1": "Vague." },
+      },
+      topThree: ["claude-3", "gpt-4.1"],
+      aliases: { "gpt-4.1": "Model B", "claude-3": "Model A" },
+    },
+    battles: [
+      { leftId: "gpt-4.1", rightId: "claude-3", outcome: "b", votedAt: "2024-01-01T00:01:00Z" },
+    ],
+  };
+}
+
+describe("sealRun", () => {
+  it("leaves runs that are not blind, or already voted on, untouched", () => {
+    const voted = blindRun("claude-3");
+    expect(isSealed(voted)).toBe(false);
+    expect(sealRun(voted)).toBe(voted);
+    const open = blindRun(null);
+    delete open.result.aliases;
+    expect(sealRun(open)).toBe(open);
+  });
+
+  it("replaces every identity on a sealed run with its alias", () => {
+    const run = blindRun(null);
+    const sealed = sealRun(run);
+    const text = JSON.stringify(sealed);
+
+    ["gpt-4.1", "GPT-4.1", "OpenAI", "claude-3", "Claude 3", "Anthropic", "vision-x"].forEach(
+      (term) => expect(text).not.toContain(term),
+    );
+    expect(sealed.models.map((model) => model.id)).toEqual(["Model B", "Model A"]);
+    expect(sealed.result.responses[0]).toMatchObject({
+      modelId: "Model B",
+      content: "As Model B from [vendor], I suggest raised beds.",
+    });
+    expect(sealed.result.geminiVerdict?.rationales).toEqual({
+      "Model A": "Concrete.",
+      "Model B": "Vague.",
+    });
+    expect(sealed.result.skippedModelIds).toBeUndefined();
+    expect(sealed.modelParams).toEqual({ "Model B": { temperature: 0.2 } });
+    expect(sealed.battles?.[0]).toMatchObject({ leftId: "Model B", rightId: "Model A" });
+    expect(sealed.prompt).toBe(run.prompt);
+    expect(run.result.responses[0].modelId).toBe("gpt-4.1");
+  });
+
+  it("maps aliases sent back by a sealed client to the real ids", () => {
+    const run = blindRun(null);
+    expect(unsealId(run, "Model A")).toBe("claude-3");
+    expect(unsealId(run, "gpt-4.1")).toBe("gpt-4.1");
+  });
+});
@@ -0,0 +1,117 @@
+import type { BattleVote, ModelOption, ResultState, StoredRun } from "@/types";
+import { createRandom, pickMany } from "@/lib/random";
+
+const VENDOR_PLACEHOLDER = "[vendor]";
+
+/** "A", "B", … "Z", then "AA", "AB", … */
+export function aliasLetter(index: number): string {
+  const letter = String.fromCharCode(65 + (index % 26));
+  return index < 26 ? letter : `${aliasLetter(Math.floor(index / 26) - 1)}${letter}`;
+}
+
+/**
+ * Seeded "Model A", "Model B"… labels for a blind run. The order is shuffled
+ * so "Model A" is not simply the first model ticked in the selector.
+ */
+export function assignAliases(modelIds: string[], seed: string): Record<string, string> {
+  const random = createRandom(`${seed}|aliases`);
+  return Object.fromEntries(
+    pickMany(random, modelIds, modelIds.length).map((id, index) => [
+      id,
+      `Model ${aliasLetter(index)}`,
+    ]),
+  );
+}
+
+/** Pairs each aliased model with its label, in the shape `maskIdentities` takes. */
+export function aliasPairs(
+  models: ModelOption[],
+  aliases: Record<string, string>,
+): Array<{ model: ModelOption; alias: string }> {
+  return models.flatMap((model) => (aliases[model.id] ? [{ model, alias: aliases[model.id] }] : []));
+}
+
+/** A blind run nobody has voted on yet: who wrote what stays hidden. */
+export function isSealed(run: StoredRun): boolean {
+  return Boolean(run.result.aliases) && !run.userChoice;
+}
+
+/** Maps an alias a client saw on a sealed run back to the model id behind it. */
+export function unsealId(run: StoredRun, id: string): string {
+  const entry = Object.entries(run.result.aliases ?? {}).find(([, alias]) => alias === id);
+  return entry ? entry[0] : id;
+}
+
+/**
+ * The copy of a run that may leave the server. On a sealed run every model id
+ * becomes its alias, names and vendors in text are masked, and models the run
+ * skipped are dropped; other runs pass through unchanged.
+ */
+export function sealRun(run: StoredRun): StoredRun {
+  if (!isSealed(run)) return run;
+  const aliases = new Map(Object.entries(run.result.aliases ?? {}));
+  const pairs = aliasPairs(run.models, run.result.aliases ?? {});
+  const seal = (value: unknown): unknown => {
+    if (typeof value === "string") return aliases.get(value) ?? maskIdentities(value, pairs);
+    if (Array.isArray(value)) return value.map(seal);
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [aliases.get(key) ?? key, seal(item)]),
+      );
+    }
+    return value;
+  };
+  const result = seal(run.result) as ResultState;
+  delete result.skippedModelIds;
+  return {
+    ...run,
+    models: pairs.map(({ model, alias }) => ({
+      id: alias,
+      name: alias,
+      provider: VENDOR_PLACEHOLDER,
+      tags: [],
+      modality: model.modality,
+    })),
+    modelParams: run.modelParams
+      ? (seal(
+          Object.fromEntries(
+            Object.entries(run.modelParams).filter(([modelId]) => aliases.has(modelId)),
+          ),
+        ) as StoredRun["modelParams"])
+      : undefined,
+    result,
+    battles: run.battles ? (seal(run.battles) as BattleVote[]) : undefined,
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Replaces every model's display name, vendor model string and id with its
+ * alias, and vendor names with a placeholder, so response text cannot give
+ * away who wrote it. Longer terms win, so "GPT-4.1 Omni" is masked whole
+ * rather than as "gpt-4.1" plus a stray "Omni".
+ */
+export function maskIdentities(
+  text: string,
+  aliases: Array<{ model: ModelOption; alias: string }>,
+): string {
+  const replacements = new Map<string, string>();
+  aliases.forEach(({ model, alias }) => {
+    replacements.set(model.provider.toLowerCase(), VENDOR_PLACEHOLDER);
+    [model.name, model.modelName, model.id].forEach((term) => {
+      if (term?.trim()) replacements.set(term.toLowerCase(), alias);
+    });
+  });
+  if (!replacements.size) return text;
+  const pattern = Array.from(replacements.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|");
+  return text.replace(
+    new RegExp(pattern, "gi"),
+    (match) => replacements.get(match.toLowerCase()) ?? match,
+  );
+}
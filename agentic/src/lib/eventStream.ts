@@ -0,0 +1,46 @@
+import type { EvaluationEvent } from "@/types";
+
+const encoder = new TextEncoder();
+
+type StreamEvent = { type: string };
+
+/** Serialises an event as a server-sent event frame. */
+export function encodeEvent<T extends StreamEvent = EvaluationEvent>(event: T): Uint8Array {
+  return encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+/**
+ * Reads a `text/event-stream` body produced by `encodeEvent`, invoking
+ * `onEvent` for every complete frame. Resolves once the stream closes.
+ */
+export async function readEventStream<T extends StreamEvent = EvaluationEvent>(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: T) => void,
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flush = (frame: string) => {
+    const data = frame
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trimStart())
+      .join("\n");
+    if (data) onEvent(JSON.parse(data) as T);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      flush(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+  buffer += decoder.decode();
+  if (buffer.trim()) flush(buffer);
+}
@@ -0,0 +1,568 @@
+import type {
+  CrossEvaluation,
+  LeaderboardEntry,
+  MetricScores,
+  ModelResponse,
+  StoredRun,
+} from "@/types";
+import { aggregationLabel, describeAggregation, resolveAggregation } from "@/lib/aggregation";
+import { describeArbiter, resolveArbiter } from "@/lib/arbiter";
+import { describeBattle } from "@/lib/battles";
+import { resolveRubric } from "@/lib/rubrics";
+import { formatSpread } from "@/lib/sampling";
+import { turnPeerScores } from "@/lib/scenarios";
+import { formatInterval, formatPValue } from "@/lib/significance";
+import { formatMetric, formatScore } from "@/lib/scoring";
+import { describeToolCall } from "@/lib/tools";
+
+export type ExportableRun = Pick<
+  StoredRun,
+  "prompt" | "mode" | "imageDescriptor" | "models" | "result" | "userChoice"
+> &
+  Partial<
+    Pick<
+      StoredRun,
+      | "id"
+      | "createdAt"
+      | "systemPrompt"
+      | "template"
+      | "params"
+      | "modelParams"
+      | "judges"
+      | "battles"
+      | "scenario"
+      | "toolkit"
+    >
+  >;
+
+export type ExportFormat = "json" | "leaderboard-csv" | "matrix-csv" | "markdown" | "html";
+
+export interface ExportOption {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: ExportOption[] = [
+  { format: "json", label: "Raw JSON", extension: "json", mimeType: "application/json" },
+  {
+    format: "leaderboard-csv",
+    label: "Leaderboard CSV",
+    extension: "leaderboard.csv",
+    mimeType: "text/csv",
+  },
+  { format: "matrix-csv", label: "Matrix CSV", extension: "matrix.csv", mimeType: "text/csv" },
+  { format: "markdown", label: "Markdown report", extension: "md", mimeType: "text/markdown" },
+  { format: "html", label: "HTML report", extension: "html", mimeType: "text/html" },
+];
+
+function nameResolver(run: ExportableRun) {
+  const models = [...run.models, ...(run.judges ?? [])];
+  return (modelId: string) => models.find((model) => model.id === modelId)?.name ?? modelId;
+}
+
+/** Models that answered without some of the run's inputs, with what they lacked. */
+function describeFallbacks(run: ExportableRun): string | null {
+  const nameOf = nameResolver(run);
+  const degraded = run.result.responses.filter((response) => response.missingModalities?.length);
+  if (!degraded.length) return null;
+  return degraded
+    .map((response) => `${nameOf(response.modelId)} (no ${response.missingModalities?.join(" or ")})`)
+    .join(", ");
+}
+
+/** One line per scripted turn, marking simulated users and expectations. */
+function describeScenario(run: ExportableRun): string[] {
+  return (run.scenario ?? []).map(
+    (turn) =>
+      `${turn.simulated ? "(simulated user) " : ""}${turn.content}${
+        turn.expectation ? ` — expects: ${turn.expectation}` : ""
+      }`,
+  );
+}
+
+/** "Turn scores from peers: 7.1, 6.8, 8.0", or null on single-shot runs. */
+function describeTurnScores(run: ExportableRun, modelId: string): string | null {
+  const scores = turnPeerScores(run.result.crossEvaluations, modelId);
+  if (!scores.length) return null;
+  return `Turn scores from peers: ${scores
+    .map((score) => (score === null ? "-" : formatScore(score)))
+    .join(", ")}`;
+}
+
+/** "Trip planner (expects search_flights, get_weather)", or null without a toolkit. */
+function describeToolkit(run: ExportableRun): string | null {
+  if (!run.toolkit) return null;
+  return `${run.toolkit.name} (expects ${run.toolkit.expectedTools.join(", ")})`;
+}
+
+/** One line per recorded call, then the tool-use scores; null on runs without tools. */
+function describeToolTrace(response: ModelResponse): string[] | null {
+  const trace = response.toolTrace;
+  if (!trace) return null;
+  return [
+    ...trace.calls.map(
+      (call) =>
+        `${describeToolCall(call)} → ${call.error ? `rejected: ${call.error}` : call.output}`,
+    ),
+    `Tool selection ${formatScore(trace.selection)} / 10 • argument validity ${formatScore(trace.argumentValidity)} / 10${
+      trace.exhausted ? " • hit the call limit" : ""
+    }`,
+  ];
+}
+
+/** "Model A = GPT-4.1 Omni, …" for blind runs, so reports can be read back against the UI. */
+function describeAliases(run: ExportableRun): string | null {
+  const aliases = run.result.aliases;
+  if (!aliases) return null;
+  const nameOf = nameResolver(run);
+  return Object.entries(aliases)
+    .sort(([, a], [, b]) => a.localeCompare(b))
+    .map(([modelId, alias]) => `${alias} = ${nameOf(modelId)}`)
+    .join(", ");
+}
+
+/** "Name v2 (topic: …)", or null when the prompt was written freehand. */
+export function describeTemplate(run: Pick<ExportableRun, "template">): string | null {
+  if (!run.template) return null;
+  const values = Object.entries(run.template.variables)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("; ");
+  return `${run.template.templateName} v${run.template.version}${values ? ` (${values})` : ""}${run.template.edited ? ", edited by hand" : ""}`;
+}
+
+/** Aggregate score, as "mean ± variance" on multi-sample runs. */
+function formatAggregate(entry: LeaderboardEntry): string {
+  return entry.spread ? formatSpread(entry.spread.aggregateScore) : String(entry.aggregateScore);
+}
+
+/** One line per adjacent pair of ranks, e.g. "A > B (p = 0.012)"; "≈" marks a tie. */
+function describeComparisons(run: ExportableRun): string[] {
+  const nameOf = nameResolver(run);
+  return (run.result.significance?.comparisons ?? []).map(
+    (item) =>
+      `${nameOf(item.higherId)} ${item.significant ? ">" : "≈"} ${nameOf(item.lowerId)} (${formatPValue(item.pValue)})`,
+  );
+}
+
+export function csvCell(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return `${rows.map((row) => row.map(csvCell).join(",")).join("\n")}\n`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\n+/g, " ");
+}
+
+function describeMetrics(run: ExportableRun, metrics: MetricScores, separator = " • "): string {
+  return resolveRubric(run.result)
+    .metrics.filter((metric) => metrics[metric.key] !== undefined)
+    .map((metric) => `${metric.label} ${formatMetric(metrics[metric.key], metric)}`)
+    .join(separator);
+}
+
+function selfReview(evaluations: CrossEvaluation[], modelId: string) {
+  return evaluations.find((item) => item.evaluatorId === modelId && item.targetId === modelId);
+}
+
+export function exportRunJson(run: ExportableRun): string {
+  return `${JSON.stringify(
+    {
+      id: run.id,
+      createdAt: run.createdAt,
+      prompt: run.prompt,
+      systemPrompt: run.systemPrompt,
+      template: run.template,
+      scenario: run.scenario,
+      toolkit: run.toolkit,
+      params: run.params,
+      modelParams: run.modelParams,
+      judges: run.judges,
+      mode: run.mode,
+      imageDescriptor: run.imageDescriptor,
+      models: run.models,
+      userChoice: run.userChoice,
+      battles: run.battles,
+      rubric: run.result.rubric,
+      aggregation: run.result.aggregation,
+      samples: run.result.samples,
+      responses: run.result.responses,
+      crossEvaluations: run.result.crossEvaluations,
+      leaderboard: run.result.leaderboard,
+      significance: run.result.significance,
+      arbiter: run.result.arbiter,
+      topThree: run.result.topThree,
+      geminiVerdict: run.result.geminiVerdict,
+      aliases: run.result.aliases,
+    },
+    null,
+    2,
+  )}\n`;
+}
+
+export function exportLeaderboardCsv(run: ExportableRun): string {
+  const nameOf = nameResolver(run);
+  // Spread columns only appear on multi-sample runs, keeping older exports stable.
+  const sampled = run.result.leaderboard.some((entry) => entry.spread);
+  const tested = Boolean(run.result.significance);
+  const tooled = run.result.leaderboard.some((entry) => entry.toolScore !== undefined);
+  return toCsv([
+    [
+      "rank",
+      "model_id",
+      "model",
+      "own_score",
+      "peer_avg",
+      "self_check",
+      "aggregate_score",
+      ...(sampled ? ["samples", "aggregate_variance"] : []),
+      ...(tested ? ["ci_lower", "ci_upper", "tie_group"] : []),
+      ...(tooled ? ["tool_score"] : []),
+    ],
+    ...run.result.leaderboard.map((entry, index) => [
+      index + 1,
+      entry.modelId,
+      nameOf(entry.modelId),
+      entry.ownScore,
+      entry.crossScore,
+      selfReview(run.result.crossEvaluations, entry.modelId)?.overall ?? "",
+      entry.aggregateScore,
+      ...(sampled ? [entry.spread?.samples ?? 1, entry.spread?.aggregateScore.variance ?? 0] : []),
+      ...(tested ? [entry.interval?.lower, entry.interval?.upper, entry.tieGroup] : []),
+      ...(tooled ? [entry.toolScore] : []),
+    ]),
+  ]);
+}
+
+export function exportMatrixCsv(run: ExportableRun): string {
+  const keys = resolveRubric(run.result).metrics.map((metric) => metric.key);
+  return toCsv([
+    ["evaluator_id", "target_id", ...keys, "overall", "commentary"],
+    ...run.result.crossEvaluations.map((item) => [
+      item.evaluatorId,
+      item.targetId,
+      ...keys.map((key) => item.metrics[key]),
+      item.overall,
+      item.commentary,
+    ]),
+  ]);
+}
+
+export function exportMarkdownReport(run: ExportableRun): string {
+  const nameOf = nameResolver(run);
+  const rubric = resolveRubric(run.result);
+  const aggregation = resolveAggregation(run.result);
+  const { responses, crossEvaluations, leaderboard, geminiVerdict } = run.result;
+  const fallbacks = describeFallbacks(run);
+  const aliases = describeAliases(run);
+  const template = describeTemplate(run);
+  const toolkit = describeToolkit(run);
+  const samples = run.result.samples?.length;
+  const significance = run.result.significance;
+  const lines: string[] = [
+    "# Model arena report",
+    "",
+    `- **Mode:** ${run.mode}`,
+    `- **Rubric:** ${rubric.name}`,
+    `- **Aggregation:** ${aggregationLabel(aggregation)} (${describeAggregation(aggregation).join("; ")})`,
+    `- **Arbiter:** ${describeArbiter(resolveArbiter(run.result), nameOf)}`,
+    ...(run.createdAt ? [`- **Run at:** ${run.createdAt}`] : []),
+    ...(template ? [`- **Template:** ${template}`] : []),
+    ...(toolkit ? [`- **Toolkit:** ${toolkit}`] : []),
+    ...(samples ? [`- **Samples:** ${samples} per model`] : []),
+    ...(run.imageDescriptor ? [`- **Attachments:** ${run.imageDescriptor}`] : []),
+    `- **Roster:** ${run.models.map((model) => model.name).join(", ")}`,
+    ...(run.result.skippedModelIds?.length
+      ? [`- **Skipped:** ${run.result.skippedModelIds.map(nameOf).join(", ")}`]
+      : []),
+    ...(fallbacks ? [`- **Text-only fallback:** ${fallbacks}`] : []),
+    ...(aliases ? [`- **Blind aliases:** ${aliases}`] : []),
+    ...(run.userChoice ? [`- **Human pick:** ${nameOf(run.userChoice)}`] : []),
+    ...(run.battles?.length
+      ? [`- **Blind battles:** ${run.battles.map((vote) => describeBattle(vote, nameOf)).join("; ")}`]
+      : []),
+    "",
+    ...(run.systemPrompt
+      ? ["## System prompt", "", ...run.systemPrompt.split("\n").map((line) => `> ${line}`), ""]
+      : []),
+    ...(run.scenario
+      ? [
+          "## Conversation script",
+          "",
+          ...describeScenario(run).map((line, index) => `${index + 1}. ${line}`),
+          "",
+        ]
+      : ["## Prompt", "", ...run.prompt.split("\n").map((line) => `> ${line}`), ""]),
+    "## Leaderboard",
+    "",
+    "| # | Model | Own score | Peer avg | Self check | Aggregate |",
+    "| - | ----- | --------- | -------- | ---------- | --------- |",
+    ...leaderboard.map((entry, index) => {
+      const self = selfReview(crossEvaluations, entry.modelId);
+      return `| ${index + 1} | ${escapeMarkdownCell(nameOf(entry.modelId))} | ${formatScore(entry.ownScore)} | ${formatScore(entry.crossScore)} | ${self ? formatScore(self.overall) : "-"} | ${formatAggregate(entry)}${entry.interval ? ` (${formatInterval(entry.interval)})` : ""} |`;
+    }),
+    "",
+    ...(significance
+      ? [
+          `Intervals are ${Math.round(significance.level * 100)}% bootstrap intervals over peer reviewers (${significance.iterations} resamples). Adjacent ranks, "≈" where not significant at ${significance.alpha}:`,
+          "",
+          ...describeComparisons(run).map((line) => `- ${line}`),
+          "",
+        ]
+      : []),
+    ...(samples
+      ? [
+          "## Sample spread",
+          "",
+          `Mean ± variance over ${samples} samples per model.`,
+          "",
+          `| Model | ${rubric.metrics.map((metric) => escapeMarkdownCell(metric.label)).join(" | ")} | Aggregate |`,
+          `| ----- | ${rubric.metrics.map(() => "---").join(" | ")} | --------- |`,
+          ...leaderboard.map(
+            (entry) =>
+              `| ${escapeMarkdownCell(nameOf(entry.modelId))} | ${rubric.metrics
+                .map((metric) => (entry.spread ? formatSpread(entry.spread.metrics[metric.key]) : "-"))
+                .join(" | ")} | ${formatAggregate(entry)} |`,
+          ),
+          "",
+        ]
+      : []),
+    "## Cross-evaluation matrix",
+    "",
+    `| Evaluator → Target | ${run.models.map((model) => escapeMarkdownCell(model.name)).join(" | ")} |`,
+    `| --- | ${run.models.map(() => "---").join(" | ")} |`,
+    ...run.models.map((row) => {
+      const cells = run.models.map((col) => {
+        const cell = crossEvaluations.find(
+          (item) => item.evaluatorId === row.id && item.targetId === col.id,
+        );
+        return cell ? formatScore(cell.overall) : "-";
+      });
+      return `| ${escapeMarkdownCell(row.name)} | ${cells.join(" | ")} |`;
+    }),
+    "",
+    "## Model narratives",
+    "",
+  ];
+  responses.forEach((response) => {
+    const turnScores = describeTurnScores(run, response.modelId);
+    const toolTrace = describeToolTrace(response);
+    lines.push(
+      `### ${nameOf(response.modelId)} — ${formatScore(response.overallScore)} / 10${
+        response.peerScored ? " (from peer reviews)" : ""
+      }`,
+      "",
+      response.content,
+      "",
+      describeMetrics(run, response.metrics),
+      "",
+      ...(turnScores ? [turnScores, ""] : []),
+      ...(toolTrace
+        ? [
+            "Tool calls:",
+            "",
+            ...toolTrace.slice(0, -1).map((line, index) => `${index + 1}. ${line}`),
+            "",
+            toolTrace[toolTrace.length - 1],
+            "",
+          ]
+        : []),
+    );
+  });
+  if (geminiVerdict) {
+    lines.push(
+      "## Arbiter verdict",
+      "",
+      ...geminiVerdict.orderedModelIds.map((modelId, index) => {
+        const rationale = geminiVerdict.rationales?.[modelId];
+        return `${index + 1}. ${nameOf(modelId)}${rationale ? ` — ${rationale}` : ""}`;
+      }),
+      "",
+      geminiVerdict.commentary,
+      "",
+      ...(geminiVerdict.confidence !== undefined
+        ? [`Confidence: ${Math.round(geminiVerdict.confidence * 100)}%`, ""]
+        : []),
+      ...(geminiVerdict.ballots
+        ? [
+            "Ballots:",
+            ...geminiVerdict.ballots.map(
+              (ballot) =>
+                `- ${nameOf(ballot.judgeId)}: ${ballot.orderedModelIds.map(nameOf).join(" → ")}`,
+            ),
+            "",
+          ]
+        : []),
+    );
+  }
+  return lines.join("\n");
+}
+
+const REPORT_STYLES = `
+body { font-family: Inter, "Helvetica Neue", Arial, sans-serif; background: #0b1120; color: #f8fafc; margin: 0; padding: 2.5rem 1.5rem; }
+main { max-width: 1100px; margin: 0 auto; display: grid; gap: 1.5rem; }
+section { background: rgba(15, 23, 42, 0.6); border: 1px solid rgba(148, 163, 184, 0.25); border-radius: 1.5rem; padding: 1.5rem; }
+h1 { font-size: 2rem; margin: 0 0 0.5rem; }
+h2 { font-size: 1rem; text-transform: uppercase; letter-spacing: 0.02em; color: rgba(226, 232, 240, 0.85); margin: 0 0 1rem; }
+h3 { font-size: 1.1rem; margin: 0 0 0.5rem; }
+p, li { line-height: 1.5; color: rgba(226, 232, 240, 0.85); }
+.muted { color: rgba(226, 232, 240, 0.6); font-size: 0.85rem; }
+.badge { display: inline-block; border-radius: 999px; padding: 0.2rem 0.6rem; font-size: 0.8rem; font-weight: 600; background: rgba(14, 165, 233, 0.25); color: #38bdf8; margin-right: 0.4rem; }
+table { width: 100%; border-collapse: collapse; }
+th, td { padding: 0.7rem 0.9rem; text-align: left; font-size: 0.9rem; vertical-align: top; }
+thead tr { background: rgba(14, 116, 144, 0.28); }
+tbody tr:nth-child(even) { background: rgba(15, 23, 42, 0.6); }
+.score { color: #38bdf8; font-weight: 700; }
+.narrative { white-space: pre-line; }
+`;
+
+export function exportHtmlReport(run: ExportableRun): string {
+  const nameOf = (modelId: string) => escapeHtml(nameResolver(run)(modelId));
+  const { responses, crossEvaluations, leaderboard, geminiVerdict } = run.result;
+  const fallbacks = describeFallbacks(run);
+  const aliases = describeAliases(run);
+  const template = describeTemplate(run);
+  const toolkit = describeToolkit(run);
+
+  const leaderboardRows = leaderboard
+    .map((entry, index) => {
+      const self = selfReview(crossEvaluations, entry.modelId);
+      return `<tr><td>#${index + 1} ${nameOf(entry.modelId)}</td><td>${formatScore(entry.ownScore)}</td><td>${formatScore(entry.crossScore)}</td><td>${self ? formatScore(self.overall) : "-"}</td><td class="score">${formatAggregate(entry)}${entry.interval ? `<br /><span class="muted">${formatInterval(entry.interval)}</span>` : ""}</td></tr>`;
+    })
+    .join("\n");
+  const matrixRows = run.models
+    .map((row) => {
+      const cells = run.models
+        .map((col) => {
+          const cell = crossEvaluations.find(
+            (item) => item.evaluatorId === row.id && item.targetId === col.id,
+          );
+          if (!cell) return "<td>—</td>";
+          const metrics = escapeHtml(describeMetrics(run, cell.metrics, "\n")).replace(
+            /\n/g,
+            "<br />",
+          );
+          return `<td><span class="score">${formatScore(cell.overall)}</span><br /><span class="muted">${metrics}</span><p class="muted">${escapeHtml(cell.commentary)}</p></td>`;
+        })
+        .join("");
+      return `<tr><td><strong>${escapeHtml(row.name)}</strong></td>${cells}</tr>`;
+    })
+    .join("\n");
+  const narratives = responses
+    .map(
+      (response) => {
+        const turnScores = describeTurnScores(run, response.modelId);
+        const toolTrace = describeToolTrace(response);
+        return `<article><h3>${nameOf(response.modelId)}</h3><p class="muted">${response.peerScored ? "Peer score" : "Aggregate score"} ${formatScore(response.overallScore)} / 10 • ${escapeHtml(response.modalityNotes)}</p><p class="narrative">${escapeHtml(response.content)}</p><p class="muted">${escapeHtml(describeMetrics(run, response.metrics))}</p>${turnScores ? `<p class="muted">${escapeHtml(turnScores)}</p>` : ""}${
+          toolTrace
+            ? `<ol>${toolTrace
+                .slice(0, -1)
+                .map((line) => `<li class="muted">${escapeHtml(line)}</li>`)
+                .join("")}</ol><p class="muted">${escapeHtml(toolTrace[toolTrace.length - 1])}</p>`
+            : ""
+        }</article>`;
+      },
+    )
+    .join("\n");
+  const verdict = geminiVerdict
+    ? `<section><h2>Arbiter verdict</h2><p class="muted">${escapeHtml(describeArbiter(resolveArbiter(run.result), nameResolver(run)))}${geminiVerdict.confidence !== undefined ? ` • confidence ${Math.round(geminiVerdict.confidence * 100)}%` : ""}</p><ol>${geminiVerdict.orderedModelIds
+        .map((modelId) => {
+          const rationale = geminiVerdict.rationales?.[modelId];
+          return `<li>${nameOf(modelId)}${rationale ? ` <span class="muted">— ${escapeHtml(rationale)}</span>` : ""}</li>`;
+        })
+        .join("")}</ol><p>${escapeHtml(geminiVerdict.commentary)}</p>${
+        geminiVerdict.ballots
+          ? `<p class="muted">Ballots: ${geminiVerdict.ballots
+              .map(
+                (ballot) =>
+                  `${nameOf(ballot.judgeId)}: ${ballot.orderedModelIds.map(nameOf).join(" → ")}`,
+              )
+              .join(" • ")}</p>`
+          : ""
+      }</section>`
+    : "";
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>Model arena report</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<main>
+<section>
+<h1>Model arena report</h1>
+<p><span class="badge">${escapeHtml(run.mode)}</span><span class="badge">${escapeHtml(resolveRubric(run.result).name)}</span><span class="badge">${escapeHtml(aggregationLabel(resolveAggregation(run.result)))}</span>${run.createdAt ? `<span class="muted">${escapeHtml(run.createdAt)}</span>` : ""}</p>
+${run.systemPrompt ? `<p class="muted">System prompt: ${escapeHtml(run.systemPrompt)}</p>` : ""}
+${run.scenario ? `<ol>${describeScenario(run).map((line) => `<li>${escapeHtml(line)}</li>`).join("")}</ol>` : `<p class="narrative">${escapeHtml(run.prompt)}</p>`}
+${template ? `<p class="muted">Template: ${escapeHtml(template)}</p>` : ""}
+${toolkit ? `<p class="muted">Toolkit: ${escapeHtml(toolkit)}</p>` : ""}
+${run.imageDescriptor ? `<p class="muted">Attachments: ${escapeHtml(run.imageDescriptor)}</p>` : ""}
+${fallbacks ? `<p class="muted">Text-only fallback: ${escapeHtml(fallbacks)}</p>` : ""}
+${aliases ? `<p class="muted">Blind aliases: ${escapeHtml(aliases)}</p>` : ""}
+${run.result.significance ? `<p class="muted">Adjacent ranks: ${describeComparisons(run).map(escapeHtml).join(" • ")}</p>` : ""}
+${run.result.samples ? `<p class="muted">Mean ± variance over ${run.result.samples.length} samples per model.</p>` : ""}
+${run.userChoice ? `<p class="muted">Human pick: ${nameOf(run.userChoice)}</p>` : ""}
+${run.battles?.length ? `<p class="muted">Blind battles: ${run.battles.map((vote) => escapeHtml(describeBattle(vote, nameResolver(run)))).join(" • ")}</p>` : ""}
+</section>
+<section>
+<h2>Leaderboard</h2>
+<table><thead><tr><th>Model</th><th>Own score</th><th>Peer avg</th><th>Self check</th><th>Aggregate</th></tr></thead>
+<tbody>
+${leaderboardRows}
+</tbody></table>
+</section>
+<section>
+<h2>Cross-evaluation matrix</h2>
+<table><thead><tr><th>Evaluator → Target</th>${run.models.map((model) => `<th>${escapeHtml(model.name)}</th>`).join("")}</tr></thead>
+<tbody>
+${matrixRows}
+</tbody></table>
+</section>
+<section>
+<h2>Model narratives</h2>
+${narratives}
+</section>
+${verdict}
+</main>
+</body>
+</html>
+`;
+}
+
+export function exportRun(run: ExportableRun, format: ExportFormat): string {
+  switch (format) {
+    case "json":
+      return exportRunJson(run);
+    case "leaderboard-csv":
+      return exportLeaderboardCsv(run);
+    case "matrix-csv":
+      return exportMatrixCsv(run);
+    case "markdown":
+      return exportMarkdownReport(run);
+    case "html":
+      return exportHtmlReport(run);
+  }
+}
+
+export function exportFileName(run: ExportableRun, format: ExportFormat): string {
+  const extension = EXPORT_FORMATS.find((item) => item.format === format)?.extension ?? "txt";
+  const stamp = (run.createdAt ?? new Date().toISOString()).slice(0, 16).replace(/[:T]/g, "-");
+  return `arena-run-${stamp}.${extension}`;
+}
@@ -0,0 +1,4 @@
+/** A plain JSON object: not null and not an array. */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
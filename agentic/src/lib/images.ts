@@ -0,0 +1,141 @@
+import { ascii, fingerprint, matches, uint16be, uint16le, uint24le, uint32be } from "@/lib/binary";
+
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+export const IMAGE_MIME_TYPES = ["image/png", "image/jpeg", "image/webp"];
+
+export type ImageFormat = "PNG" | "JPEG" | "WebP";
+
+export interface ImageInfo {
+  /** Type sniffed from the file signature, not the declared one. */
+  mimeType: string;
+  format: ImageFormat;
+  width: number | null;
+  height: number | null;
+  bytes: number;
+  /** Short content hash, mixed into run seeds so different images differ. */
+  fingerprint: string;
+}
+
+export class ImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageError";
+  }
+}
+
+/** Human-readable label for an image file name, path or URL. */
+export function describeImageName(name: string): string {
+  const baseName = name.split(/[\\/]/).pop()?.split(/[?#]/)[0] ?? name;
+  return baseName.replace(/\.[^.]+$/, "").replace(/[-_]/g, " ");
+}
+
+/** Name-based label, extended with format and size once the bytes are known. */
+export function describeImage(name: string, info?: ImageInfo | null): string {
+  const label = describeImageName(name);
+  if (!info) return label;
+  const size = info.width && info.height ? ` ${info.width}×${info.height}` : "";
+  return `${label} (${info.format}${size})`;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+export function decodeBase64(base64: string): Uint8Array {
+  let binary: string;
+  try {
+    binary = atob(base64.replace(/\s+/g, ""));
+  } catch {
+    throw new ImageError("File data is not valid base64.");
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+}
+
+function jpegSize(bytes: Uint8Array): [number, number] | null {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    // SOF0–SOF15 carry the frame size, except DHT (C4), JPG (C8) and DAC (CC).
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return [uint16be(bytes, offset + 7), uint16be(bytes, offset + 5)];
+    }
+    offset += 2 + uint16be(bytes, offset + 2);
+  }
+  return null;
+}
+
+function webpSize(bytes: Uint8Array): [number, number] | null {
+  if (ascii(bytes, 12, "VP8 ") && bytes.length >= 30) {
+    return [uint16le(bytes, 26) & 0x3fff, uint16le(bytes, 28) & 0x3fff];
+  }
+  if (ascii(bytes, 12, "VP8L") && bytes.length >= 25) {
+    const bits = bytes[21] | (bytes[22] << 8) | (bytes[23] << 16) | (bytes[24] << 24);
+    return [(bits & 0x3fff) + 1, ((bits >> 14) & 0x3fff) + 1];
+  }
+  if (ascii(bytes, 12, "VP8X") && bytes.length >= 30) {
+    return [uint24le(bytes, 24) + 1, uint24le(bytes, 27) + 1];
+  }
+  return null;
+}
+
+/** Identifies PNG, JPEG and WebP files by signature and reads their dimensions. */
+export function inspectImage(bytes: Uint8Array): ImageInfo {
+  let format: ImageFormat;
+  let size: [number, number] | null = null;
+  if (matches(bytes, 0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    format = "PNG";
+    if (bytes.length >= 24 && ascii(bytes, 12, "IHDR")) {
+      size = [uint32be(bytes, 16), uint32be(bytes, 20)];
+    }
+  } else if (matches(bytes, 0, [0xff, 0xd8, 0xff])) {
+    format = "JPEG";
+    size = jpegSize(bytes);
+  } else if (ascii(bytes, 0, "RIFF") && ascii(bytes, 8, "WEBP")) {
+    format = "WebP";
+    size = webpSize(bytes);
+  } else {
+    throw new ImageError("Only PNG, JPG and WebP images are supported.");
+  }
+  return {
+    mimeType: format === "JPEG" ? "image/jpeg" : `image/${format.toLowerCase()}`,
+    format,
+    width: size?.[0] ?? null,
+    height: size?.[1] ?? null,
+    bytes: bytes.length,
+    fingerprint: fingerprint(bytes),
+  };
+}
+
+/** Cheap checks on what the browser reports, before any bytes are read. */
+export function checkImageFile(mimeType: string, bytes: number): void {
+  if (!IMAGE_MIME_TYPES.includes(mimeType)) {
+    throw new ImageError("Only PNG, JPG and WebP images are supported.");
+  }
+  if (bytes > MAX_IMAGE_BYTES) {
+    throw new ImageError(`Images are limited to ${formatBytes(MAX_IMAGE_BYTES)}.`);
+  }
+}
+
+/**
+ * Full validation of an uploaded image: declared type, size limit and a
+ * signature check so the bytes really are the format they claim to be.
+ */
+export function validateImage(mimeType: string, base64: string): ImageInfo {
+  if (base64.length > Math.ceil(MAX_IMAGE_BYTES / 3) * 4 + 4) {
+    throw new ImageError(`Images are limited to ${formatBytes(MAX_IMAGE_BYTES)}.`);
+  }
+  const bytes = decodeBase64(base64);
+  checkImageFile(mimeType, bytes.length);
+  const info = inspectImage(bytes);
+  if (info.mimeType !== mimeType) {
+    throw new ImageError(`The file is a ${info.format} image but was sent as ${mimeType}.`);
+  }
+  return info;
+}
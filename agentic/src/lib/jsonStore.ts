@@ -0,0 +1,53 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface JsonStore<T> {
+  read(): Promise<T>;
+  /** Applies `mutator` to the current value and persists the result. */
+  update(mutator: (current: T) => T | Promise<T>): Promise<T>;
+}
+
+export function resolveDataPath(fileName: string): string {
+  const directory = process.env.ARENA_DATA_DIR ?? path.join(process.cwd(), "data");
+  return path.join(directory, fileName);
+}
+
+/**
+ * File-backed JSON document used by the API routes. Writes are serialised per
+ * store and land via a temp file + rename so readers never see partial JSON.
+ */
+export function createJsonStore<T>(fileName: string, fallback: () => T): JsonStore<T> {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<T> => {
+    try {
+      const raw = await fs.readFile(resolveDataPath(fileName), "utf8");
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback();
+      throw error;
+    }
+  };
+
+  const write = async (value: T) => {
+    const target = resolveDataPath(fileName);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    // The queue only orders this store's writes; other writers get their own temp file.
+    const temp = `${target}.${randomUUID()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(value, null, 2), "utf8");
+    await fs.rename(temp, target);
+  };
+
+  const update = (mutator: (current: T) => T | Promise<T>): Promise<T> => {
+    const next = queue.then(async () => {
+      const value = await mutator(await read());
+      await write(value);
+      return value;
+    });
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  return { read, update };
+}
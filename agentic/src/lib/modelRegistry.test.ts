@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { MODEL_OPTIONS } from "@/lib/models";
+import {
+  exportRegistry,
+  ModelRegistryError,
+  parseGenerationParams,
+  parseRegistryImport,
+  validateModelOption,
+  validateRegistry,
+} from "./modelRegistry";
+
+const entry = { id: "local-llama", name: "Local Llama", provider: "Ollama", modality: ["text"] };
+
+describe("validateModelOption", () => {
+  it("normalises tags, modality order and numeric strings, dropping empty fields", () => {
+    expect(
+      validateModelOption({
+        ...entry,
+        tags: "fast, local ,fast",
+        modality: ["vision", "text"],
+        endpoint: "http://localhost:11434/v1",
+        contextWindow: "8192",
+        pricing: { inputPerMillion: 0.5 },
+        defaultParams: { temperature: "0.3", systemPrompt: " " },
+      }),
+    ).toEqual({
+      ...entry,
+      tags: ["fast", "local"],
+      modality: ["text", "vision"],
+      endpoint: "http://localhost:11434/v1",
+      contextWindow: 8192,
+      pricing: { inputPerMillion: 0.5, outputPerMillion: 0 },
+      defaultParams: { temperature: 0.3 },
+    });
+  });
+
+  it("rejects invalid entries with a ModelRegistryError", () => {
+    expect(() => validateModelOption("gpt")).toThrow(ModelRegistryError);
+    expect(() => validateModelOption({ ...entry, id: "has space" })).toThrow(/may only contain/);
+    expect(() => validateModelOption({ ...entry, name: "" })).toThrow(
+      "Display name for local-llama is required.",
+    );
+    expect(() => validateModelOption({ ...entry, modality: ["smell", "text"] })).toThrow(
+      /Unknown modality for local-llama: smell/,
+    );
+    expect(() => validateModelOption({ ...entry, modality: ["vision"] })).toThrow(
+      /must support the text modality/,
+    );
+    expect(() => validateModelOption({ ...entry, endpoint: "ftp://host" })).toThrow(
+      /must be an http\(s\) URL/,
+    );
+    expect(() => validateModelOption({ ...entry, contextWindow: 1.5 })).toThrow(/whole number/);
+  });
+});
+
+describe("parseGenerationParams", () => {
+  it("checks ranges and names the owner in errors", () => {
+    expect(parseGenerationParams(undefined, "this run")).toBeUndefined();
+    expect(parseGenerationParams({}, "this run")).toBeUndefined();
+    expect(() => parseGenerationParams({ temperature: 3 }, "this run")).toThrow(
+      "Temperature for this run must be between 0 and 2.",
+    );
+    expect(() => parseGenerationParams({ maxTokens: 0 }, "gpt")).toThrow(/Max tokens for gpt/);
+  });
+});
+
+describe("validateRegistry", () => {
+  it("requires unique ids and enough models for a run", () => {
+    expect(validateRegistry(MODEL_OPTIONS)).toHaveLength(MODEL_OPTIONS.length);
+    expect(() => validateRegistry([...MODEL_OPTIONS, MODEL_OPTIONS[0]])).toThrow(/Duplicate/);
+    expect(() => validateRegistry(MODEL_OPTIONS.slice(0, 1))).toThrow(/at least/);
+    expect(() => validateRegistry({})).toThrow(ModelRegistryError);
+  });
+
+  it("reads back its own export and a bare array", () => {
+    expect(parseRegistryImport(exportRegistry(MODEL_OPTIONS))).toEqual(MODEL_OPTIONS);
+    expect(parseRegistryImport(JSON.stringify(MODEL_OPTIONS))).toEqual(MODEL_OPTIONS);
+    expect(() => parseRegistryImport("{")).toThrow("The file is not valid JSON.");
+  });
+});
@@ -0,0 +1,179 @@
+import type { GenerationParams, ModelModality, ModelOption, ModelPricing } from "@/types";
+import { isRecord } from "@/lib/guards";
+import { MIN_MODELS, MODEL_MODALITIES } from "@/lib/models";
+
+export const REGISTRY_EXPORT_VERSION = 1;
+
+const MODEL_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+export class ModelRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModelRegistryError";
+  }
+}
+
+function requireString(input: Record<string, unknown>, key: string, label: string): string {
+  const value = typeof input[key] === "string" ? (input[key] as string).trim() : "";
+  if (!value) throw new ModelRegistryError(`${label} is required.`);
+  return value;
+}
+
+function optionalString(value: unknown, label: string): string | undefined {
+  if (value == null || value === "") return undefined;
+  if (typeof value !== "string") throw new ModelRegistryError(`${label} must be a string.`);
+  return value.trim() || undefined;
+}
+
+function optionalNumber(
+  value: unknown,
+  label: string,
+  { min = 0, max = Number.MAX_SAFE_INTEGER, integer = false } = {},
+): number | undefined {
+  if (value == null || value === "") return undefined;
+  const parsed = typeof value === "string" ? Number(value) : value;
+  if (typeof parsed !== "number" || !Number.isFinite(parsed)) {
+    throw new ModelRegistryError(`${label} must be a number.`);
+  }
+  if (integer && !Number.isInteger(parsed)) {
+    throw new ModelRegistryError(`${label} must be a whole number.`);
+  }
+  if (parsed < min || parsed > max) {
+    throw new ModelRegistryError(`${label} must be between ${min} and ${max}.`);
+  }
+  return parsed;
+}
+
+function parseEndpoint(value: unknown, id: string): string | undefined {
+  const endpoint = optionalString(value, `Endpoint for ${id}`);
+  if (!endpoint) return undefined;
+  try {
+    const url = new URL(endpoint);
+    if (url.protocol !== "http:" && url.protocol !== "https:") throw new Error();
+  } catch {
+    throw new ModelRegistryError(`Endpoint for ${id} must be an http(s) URL.`);
+  }
+  return endpoint;
+}
+
+function parsePricing(value: unknown, id: string): ModelPricing | undefined {
+  if (value == null) return undefined;
+  if (!isRecord(value)) throw new ModelRegistryError(`Pricing for ${id} must be an object.`);
+  const inputPerMillion = optionalNumber(value.inputPerMillion, `Input price for ${id}`);
+  const outputPerMillion = optionalNumber(value.outputPerMillion, `Output price for ${id}`);
+  if (inputPerMillion === undefined && outputPerMillion === undefined) return undefined;
+  return { inputPerMillion: inputPerMillion ?? 0, outputPerMillion: outputPerMillion ?? 0 };
+}
+
+/** Longest system prompt a model, a run or a template may carry. */
+export const MAX_SYSTEM_PROMPT_LENGTH = 4000;
+
+/**
+ * Checks generation settings, for a registry entry or a run; `owner` names
+ * them in errors ("gpt-4.1", "this run").
+ */
+export function parseGenerationParams(
+  value: unknown,
+  owner: string,
+): GenerationParams | undefined {
+  if (value == null) return undefined;
+  if (!isRecord(value)) {
+    throw new ModelRegistryError(`Generation parameters for ${owner} must be an object.`);
+  }
+  const params: GenerationParams = {
+    temperature: optionalNumber(value.temperature, `Temperature for ${owner}`, { max: 2 }),
+    maxTokens: optionalNumber(value.maxTokens, `Max tokens for ${owner}`, {
+      min: 1,
+      integer: true,
+    }),
+    topP: optionalNumber(value.topP, `Top-p for ${owner}`, { max: 1 }),
+    systemPrompt: optionalString(value.systemPrompt, `System prompt for ${owner}`),
+  };
+  if ((params.systemPrompt?.length ?? 0) > MAX_SYSTEM_PROMPT_LENGTH) {
+    throw new ModelRegistryError(
+      `System prompt for ${owner} is limited to ${MAX_SYSTEM_PROMPT_LENGTH} characters.`,
+    );
+  }
+  (Object.keys(params) as (keyof GenerationParams)[]).forEach((key) => {
+    if (params[key] === undefined) delete params[key];
+  });
+  return Object.keys(params).length ? params : undefined;
+}
+
+/** Checks one untrusted registry entry against `ModelOption`, throwing `ModelRegistryError`. */
+export function validateModelOption(input: unknown): ModelOption {
+  if (!isRecord(input)) throw new ModelRegistryError("Each model must be a JSON object.");
+  const id = requireString(input, "id", "Model id");
+  if (!MODEL_ID_PATTERN.test(id)) {
+    throw new ModelRegistryError(
+      `Model id "${id}" may only contain letters, digits, ".", "_" and "-".`,
+    );
+  }
+  const tags = Array.isArray(input.tags)
+    ? input.tags
+    : typeof input.tags === "string"
+      ? input.tags.split(",")
+      : [];
+  const modality = Array.isArray(input.modality) ? input.modality : [];
+  const unknownModality = modality.filter(
+    (value) => !MODEL_MODALITIES.includes(value as ModelModality),
+  );
+  if (unknownModality.length) {
+    throw new ModelRegistryError(
+      `Unknown modality for ${id}: ${unknownModality.join(", ")}. Use ${MODEL_MODALITIES.join(", ")}.`,
+    );
+  }
+  if (!modality.includes("text")) {
+    throw new ModelRegistryError(`Model ${id} must support the text modality.`);
+  }
+
+  const model: ModelOption = {
+    id,
+    name: requireString(input, "name", `Display name for ${id}`),
+    provider: requireString(input, "provider", `Provider for ${id}`),
+    tags: Array.from(new Set(tags.map((tag) => String(tag).trim()).filter(Boolean))),
+    modality: MODEL_MODALITIES.filter((value) => modality.includes(value)),
+    endpoint: parseEndpoint(input.endpoint, id),
+    modelName: optionalString(input.modelName, `Model string for ${id}`),
+    contextWindow: optionalNumber(input.contextWindow, `Context window for ${id}`, {
+      min: 1,
+      integer: true,
+    }),
+    pricing: parsePricing(input.pricing, id),
+    defaultParams: parseGenerationParams(input.defaultParams, id),
+  };
+  (Object.keys(model) as (keyof ModelOption)[]).forEach((key) => {
+    if (model[key] === undefined) delete model[key];
+  });
+  return model;
+}
+
+/** Validates a full roster: every entry, unique ids and enough models for a run. */
+export function validateRegistry(input: unknown): ModelOption[] {
+  if (!Array.isArray(input)) throw new ModelRegistryError("The registry must be a list of models.");
+  const models = input.map(validateModelOption);
+  const seen = new Set<string>();
+  models.forEach((model) => {
+    if (seen.has(model.id)) throw new ModelRegistryError(`Duplicate model id "${model.id}".`);
+    seen.add(model.id);
+  });
+  if (models.length < MIN_MODELS) {
+    throw new ModelRegistryError(`The registry needs at least ${MIN_MODELS} models.`);
+  }
+  return models;
+}
+
+/** Accepts either a bare array or the `{ version, models }` export envelope. */
+export function parseRegistryImport(text: string): ModelOption[] {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    throw new ModelRegistryError("The file is not valid JSON.");
+  }
+  return validateRegistry(isRecord(payload) ? payload.models : payload);
+}
+
+export function exportRegistry(models: ModelOption[]): string {
+  return `${JSON.stringify({ version: REGISTRY_EXPORT_VERSION, models }, null, 2)}\n`;
+}
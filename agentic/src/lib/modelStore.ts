@@ -0,0 +1,62 @@
+import type { ModelOption } from "@/types";
+import { createJsonStore } from "@/lib/jsonStore";
+import { MIN_MODELS, MODEL_OPTIONS } from "@/lib/models";
+import { ModelRegistryError, validateModelOption, validateRegistry } from "@/lib/modelRegistry";
+
+const store = createJsonStore<ModelOption[]>("models.json", () => MODEL_OPTIONS);
+
+export function listModels(): Promise<ModelOption[]> {
+  return store.read();
+}
+
+export async function getModel(id: string): Promise<ModelOption | null> {
+  const models = await store.read();
+  return models.find((model) => model.id === id) ?? null;
+}
+
+export async function createModel(input: unknown): Promise<ModelOption> {
+  const model = validateModelOption(input);
+  await store.update((models) => {
+    if (models.some((item) => item.id === model.id)) {
+      throw new ModelRegistryError(`A model with id "${model.id}" already exists.`);
+    }
+    return [...models, model];
+  });
+  return model;
+}
+
+/**
+ * Replaces an entry in place. Ids are immutable because stored runs and
+ * ratings reference them.
+ */
+export async function updateModel(id: string, input: unknown): Promise<ModelOption | null> {
+  const model = validateModelOption({ ...(input as object), id });
+  let found = false;
+  await store.update((models) =>
+    models.map((item) => {
+      if (item.id !== id) return item;
+      found = true;
+      return model;
+    }),
+  );
+  return found ? model : null;
+}
+
+export async function deleteModel(id: string): Promise<boolean> {
+  let found = false;
+  await store.update((models) => {
+    found = models.some((item) => item.id === id);
+    if (found && models.length <= MIN_MODELS) {
+      throw new ModelRegistryError(`The registry needs at least ${MIN_MODELS} models.`);
+    }
+    return models.filter((item) => item.id !== id);
+  });
+  return found;
+}
+
+/** Swaps the whole roster, e.g. after a JSON import. */
+export async function replaceModels(input: unknown): Promise<ModelOption[]> {
+  const models = validateRegistry(input);
+  await store.update(() => models);
+  return models;
+}
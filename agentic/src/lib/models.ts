@@ -0,0 +1,159 @@
+import type { ModalityPolicy, ModelModality, ModelOption } from "@/types";
+
+export const MODEL_MODALITIES: ModelModality[] = ["text", "vision", "audio", "video"];
+
+/** Built-in roster; seeds the editable registry on first use. */
+export const MODEL_OPTIONS: ModelOption[] = [
+  {
+    id: "gpt4o",
+    name: "GPT-4.1 Omni",
+    provider: "OpenAI",
+    tags: ["reasoning", "tools", "multimodal"],
+    modality: ["text", "vision", "audio"],
+    modelName: "gpt-4.1",
+    contextWindow: 1047576,
+  },
+  {
+    id: "claude3-opus",
+    name: "Claude 3 Opus",
+    provider: "Anthropic",
+    tags: ["analysis", "alignment", "orchestration"],
+    modality: ["text", "vision"],
+    modelName: "claude-3-opus-20240229",
+    contextWindow: 200000,
+  },
+  {
+    id: "gemini-1.5",
+    name: "Gemini 1.5 Pro",
+    provider: "Google DeepMind",
+    tags: ["reasoning", "multimodal", "long-context"],
+    modality: ["text", "vision", "audio", "video"],
+    modelName: "gemini-1.5-pro",
+    contextWindow: 2097152,
+  },
+  {
+    id: "llama3-70b",
+    name: "Llama 3 70B",
+    provider: "Meta AI",
+    tags: ["open", "fine-tuning", "deployable"],
+    modality: ["text", "vision"],
+    modelName: "Llama-3.3-70B-Instruct",
+    contextWindow: 128000,
+  },
+  {
+    id: "mistral-large",
+    name: "Mistral Large",
+    provider: "Mistral AI",
+    tags: ["europe", "balanced", "multilingual"],
+    modality: ["text", "vision"],
+    modelName: "mistral-large-latest",
+    contextWindow: 128000,
+  },
+  {
+    id: "qwen2-vl",
+    name: "Qwen2 VL 72B",
+    provider: "Alibaba Cloud",
+    tags: ["vision-language", "instruction", "enterprise"],
+    modality: ["text", "vision"],
+    modelName: "qwen-vl-max",
+    contextWindow: 32768,
+  },
+  {
+    id: "idefics3",
+    name: "Idefics 3",
+    provider: "Hugging Face",
+    tags: ["open", "vision", "creative"],
+    modality: ["text", "vision"],
+    modelName: "HuggingFaceM4/Idefics3-8B-Llama3",
+    contextWindow: 10240,
+  },
+];
+
+export const DEFAULT_MODEL_IDS = ["gpt4o", "claude3-opus", "gemini-1.5", "llama3-70b"];
+
+export const MAX_SELECTIONS = 5;
+export const MIN_MODELS = 4;
+
+/** Default arena selection for a registry, falling back to its first entries. */
+export function defaultSelection(models: ModelOption[]): string[] {
+  const available = DEFAULT_MODEL_IDS.filter((id) => models.some((model) => model.id === id));
+  return available.length >= MIN_MODELS
+    ? available
+    : models.slice(0, MIN_MODELS).map((model) => model.id);
+}
+
+/** Channels in `required` that the model does not declare. */
+export function missingModalities(
+  model: ModelOption,
+  required: ModelModality[],
+): ModelModality[] {
+  return required.filter((modality) => !model.modality.includes(modality));
+}
+
+/** Models left out of a run under the "skip" policy. */
+export function modalitySkips(
+  models: ModelOption[],
+  required: ModelModality[],
+  policy: ModalityPolicy,
+): string[] {
+  if (policy !== "skip") return [];
+  return models
+    .filter((model) => missingModalities(model, required).length)
+    .map((model) => model.id);
+}
+
+const CHANNEL_NOUNS: Record<ModelModality, string> = {
+  text: "text",
+  vision: "images",
+  audio: "audio",
+  video: "video",
+};
+
+export interface CompatibilityReport {
+  required: ModelModality[];
+  /** Selected models that would answer without some inputs, with what they lack. */
+  degraded: { modelId: string; missing: ModelModality[] }[];
+  /** Models the "skip" policy leaves out of the run. */
+  skipped: string[];
+  /** Problems that stop the run, phrased for the user. */
+  errors: string[];
+  /** Roster-wide notices; per-model gaps are in `degraded`. */
+  warnings: string[];
+}
+
+/**
+ * Checks the selected roster against what the prompt needs before anything
+ * is sent. `attached` lists the channels that actually carry files: if no
+ * selected model can take one of those, the files would be ignored outright.
+ */
+export function checkCompatibility(
+  selected: ModelOption[],
+  required: ModelModality[],
+  policy: ModalityPolicy,
+  attached: ModelModality[] = [],
+): CompatibilityReport {
+  const degraded = selected
+    .map((model) => ({ modelId: model.id, missing: missingModalities(model, required) }))
+    .filter((item) => item.missing.length);
+  const skipped = modalitySkips(selected, required, policy);
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  required.forEach((modality) => {
+    if (selected.some((model) => model.modality.includes(modality))) return;
+    if (attached.includes(modality)) {
+      errors.push(
+        `None of the selected models accept ${modality} input, so the attached ${CHANNEL_NOUNS[modality]} would be ignored.`,
+      );
+    } else {
+      warnings.push(`None of the selected models accept ${modality} input; all will answer in fallback.`);
+    }
+  });
+  // Skipping must still leave a full comparison.
+  if (skipped.length && selected.length - skipped.length < MIN_MODELS) {
+    errors.push(
+      `Skipping leaves fewer than ${MIN_MODELS} models; select at least ${MIN_MODELS} with ${required.join(" and ")} input, or keep the others in the run.`,
+    );
+  }
+  return { required, degraded, skipped, errors, warnings };
+}
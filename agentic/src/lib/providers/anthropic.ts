@@ -0,0 +1,79 @@
+import { postJson, ProviderError, trimBaseUrl } from "./http";
+import type {
+  AttachmentPayload,
+  ChatCompletion,
+  ChatRequest,
+  ModelProvider,
+  ProviderConfig,
+} from "./types";
+
+const DEFAULT_BASE_URL = "https://api.anthropic.com/v1";
+const API_VERSION = "2023-06-01";
+const DEFAULT_MAX_TOKENS = 1024;
+
+interface AnthropicMessageResponse {
+  content?: { type: string; text?: string }[];
+}
+
+export function createAnthropicProvider(config: ProviderConfig): ModelProvider {
+  const baseUrl = trimBaseUrl(config.baseUrl ?? DEFAULT_BASE_URL);
+  const fetchImpl = config.fetch ?? fetch;
+
+  const complete = async (
+    request: ChatRequest,
+    attachments: AttachmentPayload[] = [],
+  ): Promise<ChatCompletion> => {
+    const endpoint = request.model.endpoint ? trimBaseUrl(request.model.endpoint) : baseUrl;
+    const images = attachments.map((attachment) => {
+      // The Messages API takes images only; audio and video have no block type.
+      if (attachment.kind !== "image") {
+        throw new ProviderError("Anthropic", `Cannot send ${attachment.kind} attachments.`);
+      }
+      return {
+        type: "image",
+        source: { type: "base64", media_type: attachment.mimeType, data: attachment.base64 },
+      };
+    });
+    const turns = [...(request.history ?? []), { role: "user", content: request.prompt }];
+    const opening = turns.findIndex((turn) => turn.role === "user");
+    const messages = turns.map((turn, index) => ({
+      role: turn.role,
+      content: [
+        ...(index === opening ? images : []),
+        { type: "text", text: turn.content },
+      ],
+    }));
+    const payload = await postJson<AnthropicMessageResponse>(
+      "Anthropic",
+      fetchImpl,
+      `${endpoint}/messages`,
+      {
+        "x-api-key": config.apiKey ?? "",
+        "anthropic-version": API_VERSION,
+      },
+      {
+        model: request.modelName,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        top_p: request.topP,
+        system: request.system,
+        messages,
+      },
+    );
+    const text = (payload.content ?? [])
+      .filter((block) => block.type === "text" && typeof block.text === "string")
+      .map((block) => block.text)
+      .join("\n");
+    if (!text) {
+      throw new ProviderError("Anthropic", "Response did not include a text block.");
+    }
+    return { content: text, raw: payload };
+  };
+
+  return {
+    name: "Anthropic",
+    kind: "remote",
+    chat: (request) => complete(request),
+    multimodal: (request) => complete(request, request.attachments),
+  };
+}
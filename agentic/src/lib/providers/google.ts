@@ -0,0 +1,67 @@
+import { postJson, ProviderError, trimBaseUrl } from "./http";
+import type {
+  AttachmentPayload,
+  ChatCompletion,
+  ChatRequest,
+  ModelProvider,
+  ProviderConfig,
+} from "./types";
+
+const DEFAULT_BASE_URL = "https://generativelanguage.googleapis.com/v1beta";
+
+interface GenerateContentResponse {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+}
+
+export function createGoogleProvider(config: ProviderConfig): ModelProvider {
+  const baseUrl = trimBaseUrl(config.baseUrl ?? DEFAULT_BASE_URL);
+  const fetchImpl = config.fetch ?? fetch;
+
+  const complete = async (
+    request: ChatRequest,
+    attachments: AttachmentPayload[] = [],
+  ): Promise<ChatCompletion> => {
+    const endpoint = request.model.endpoint ? trimBaseUrl(request.model.endpoint) : baseUrl;
+    const turns = [...(request.history ?? []), { role: "user", content: request.prompt }];
+    const opening = turns.findIndex((turn) => turn.role === "user");
+    // Gemini takes images, audio and video alike as inline data parts.
+    const contents = turns.map((turn, index) => ({
+      role: turn.role === "assistant" ? "model" : "user",
+      parts: [
+        { text: turn.content },
+        ...(index === opening ? attachments : []).map((attachment) => ({
+          inline_data: { mime_type: attachment.mimeType, data: attachment.base64 },
+        })),
+      ],
+    }));
+    const payload = await postJson<GenerateContentResponse>(
+      "Google DeepMind",
+      fetchImpl,
+      `${endpoint}/models/${encodeURIComponent(request.modelName)}:generateContent`,
+      config.apiKey ? { "x-goog-api-key": config.apiKey } : {},
+      {
+        contents,
+        systemInstruction: request.system ? { parts: [{ text: request.system }] } : undefined,
+        generationConfig: {
+          maxOutputTokens: request.maxTokens,
+          temperature: request.temperature,
+          topP: request.topP,
+        },
+      },
+    );
+    const text = (payload.candidates?.[0]?.content?.parts ?? [])
+      .map((part) => part.text ?? "")
+      .join("");
+    if (!text) {
+      throw new ProviderError("Google DeepMind", "Response did not include candidate text.");
+    }
+    return { content: text, raw: payload };
+  };
+
+  return {
+    name: "Google DeepMind",
+    kind: "remote",
+    chat: (request) => complete(request),
+    multimodal: (request) => complete(request, request.attachments),
+  };
+}
@@ -0,0 +1,52 @@
+import type { AttachmentPayload, ProviderName } from "./types";
+
+export class ProviderError extends Error {
+  readonly provider: ProviderName;
+  readonly status?: number;
+
+  constructor(provider: ProviderName, message: string, status?: number) {
+    super(`[${provider}] ${message}`);
+    this.name = "ProviderError";
+    this.provider = provider;
+    this.status = status;
+  }
+}
+
+export async function postJson<T>(
+  provider: ProviderName,
+  fetchImpl: typeof fetch,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetchImpl(url, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    throw new ProviderError(
+      provider,
+      `Request failed: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw new ProviderError(
+      provider,
+      `HTTP ${response.status}${detail ? `: ${detail.slice(0, 240)}` : ""}`,
+      response.status,
+    );
+  }
+  return (await response.json()) as T;
+}
+
+export function toDataUrl(attachment: AttachmentPayload): string {
+  return `data:${attachment.mimeType};base64,${attachment.base64}`;
+}
+
+export function trimBaseUrl(url: string): string {
+  return url.replace(/\/+$/, "");
+}
@@ -0,0 +1,121 @@
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { parseEvaluationRequest, runEvaluation } from "@/lib/arena";
+import { MODEL_OPTIONS } from "@/lib/models";
+import { createProviderRegistry, PROVIDER_ENV } from "./index";
+
+type Vendor = keyof typeof PROVIDER_ENV;
+const VENDORS = Object.keys(PROVIDER_ENV) as Vendor[];
+
+interface Hit {
+  path: string;
+  body: string;
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => resolve(body));
+  });
+}
+
+/** Judges get fixed scores; candidates answer with their model name and two points. */
+function reply(body: string): string {
+  if (body.includes("strict reviewer")) {
+    return JSON.stringify({
+      clarity: 8,
+      relevance: 7,
+      accuracy: 7,
+      depth: 6,
+      safety: 9,
+      commentary: "Mock review.",
+    });
+  }
+  const model = (JSON.parse(body) as { model?: string }).model ?? "gemini";
+  return `Mock answer from ${model}.\n- First point\n- Second point`;
+}
+
+/** Speaks the OpenAI, Anthropic and Gemini wire formats on one port. */
+function startMockVendors(hits: Hit[]): Promise<Server> {
+  const server = createServer(async (request, response) => {
+    const body = await readBody(request);
+    const path = request.url ?? "";
+    hits.push({ path, body });
+    const text = reply(body);
+    const payload = path.endsWith("/chat/completions")
+      ? { choices: [{ message: { content: text } }] }
+      : path.endsWith("/messages")
+        ? { content: [{ type: "text", text }] }
+        : { candidates: [{ content: { parts: [{ text }] } }] };
+    response.writeHead(200, { "content-type": "application/json" });
+    response.end(JSON.stringify(payload));
+  });
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+describe("createProviderRegistry", () => {
+  it("falls back to the synthetic adapter without a key or base URL", () => {
+    const registry = createProviderRegistry({}, {});
+    VENDORS.forEach((vendor) => expect(registry[vendor]?.kind).toBe("synthetic"));
+  });
+
+  it("uses the real adapter for an API key or a base URL override alone", () => {
+    const registry = createProviderRegistry(
+      { Anthropic: { baseUrl: "http://127.0.0.1:9" } },
+      { [PROVIDER_ENV.OpenAI.apiKey]: "sk-test" },
+    );
+    expect(registry.OpenAI?.kind).toBe("remote");
+    expect(registry.Anthropic?.kind).toBe("remote");
+    expect(registry["Mistral AI"]?.kind).toBe("synthetic");
+  });
+});
+
+describe("fan-out against a mock vendor server", () => {
+  const hits: Hit[] = [];
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = await startMockVendors(hits);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it("answers, reviews and scores every model over HTTP", async () => {
+    const overrides = Object.fromEntries(VENDORS.map((vendor) => [vendor, { baseUrl }]));
+    const registry = createProviderRegistry(overrides, {});
+    const modelIds = MODEL_OPTIONS.slice(0, 4).map((model) => model.id);
+    const request = parseEvaluationRequest(
+      { prompt: "Explain the tides", mode: "text", modelIds },
+      MODEL_OPTIONS,
+    );
+
+    const result = await runEvaluation(request, { registry });
+
+    expect(result.responses).toHaveLength(4);
+    result.responses.forEach((response) => {
+      expect(response.peerScored).toBe(true);
+      expect(response.content).toMatch(/^Mock answer from /);
+      expect(response.supportingPoints).toEqual(["First point", "Second point"]);
+      // Every review scores 8, 7, 7, 6, 9, so the peer mean is exactly those.
+      expect(response.metrics).toEqual({
+        clarity: 8,
+        relevance: 7,
+        accuracy: 7,
+        depth: 6,
+        safety: 9,
+      });
+    });
+    expect(result.crossEvaluations).toHaveLength(16);
+    const scores = new Set(result.leaderboard.map((entry) => entry.aggregateScore));
+    expect(scores.size).toBe(1);
+
+    const paths = hits.map((hit) => hit.path);
+    expect(paths.some((path) => path.endsWith("/chat/completions"))).toBe(true);
+    expect(paths.some((path) => path.endsWith("/messages"))).toBe(true);
+    expect(paths.some((path) => path.endsWith(":generateContent"))).toBe(true);
+  });
+});
@@ -0,0 +1,295 @@
+import type {
+  CrossEvaluation,
+  GenerationParams,
+  MetricScores,
+  ModelOption,
+  ModelResponse,
+  PromptMode,
+  Rubric,
+  ToolKit,
+} from "@/types";
+import { attachmentsFor } from "@/lib/attachments";
+import { clampToScale, DEFAULT_RUBRIC, describeScale } from "@/lib/rubrics";
+import {
+  generateCrossEvaluation,
+  generateModelResponse,
+  roundScore,
+  weightedOverall,
+} from "@/lib/scoring";
+import { toolInstructions } from "@/lib/tools";
+import { createAnthropicProvider } from "./anthropic";
+import { createGoogleProvider } from "./google";
+import { ProviderError } from "./http";
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+import { syntheticProvider } from "./synthetic";
+import type {
+  AttachmentPayload,
+  ChatMessage,
+  ModelProvider,
+  ProviderConfig,
+  ProviderName,
+} from "./types";
+
+export { ProviderError } from "./http";
+export { syntheticProvider } from "./synthetic";
+export type {
+  AttachmentPayload,
+  ChatCompletion,
+  ChatMessage,
+  ChatRequest,
+  ModelProvider,
+  MultimodalRequest,
+  ProviderConfig,
+  ProviderName,
+} from "./types";
+
+type RemoteProviderName = Exclude<ProviderName, "synthetic">;
+
+/** Environment variables read for each vendor's key and base URL override. */
+export const PROVIDER_ENV: Record<RemoteProviderName, { apiKey: string; baseUrl: string }> = {
+  OpenAI: { apiKey: "OPENAI_API_KEY", baseUrl: "OPENAI_BASE_URL" },
+  Anthropic: { apiKey: "ANTHROPIC_API_KEY", baseUrl: "ANTHROPIC_BASE_URL" },
+  "Google DeepMind": { apiKey: "GOOGLE_API_KEY", baseUrl: "GOOGLE_BASE_URL" },
+  "Meta AI": { apiKey: "LLAMA_API_KEY", baseUrl: "LLAMA_BASE_URL" },
+  "Mistral AI": { apiKey: "MISTRAL_API_KEY", baseUrl: "MISTRAL_BASE_URL" },
+  "Alibaba Cloud": { apiKey: "DASHSCOPE_API_KEY", baseUrl: "DASHSCOPE_BASE_URL" },
+  "Hugging Face": { apiKey: "HF_TOKEN", baseUrl: "HF_BASE_URL" },
+};
+
+const ADAPTERS: Record<RemoteProviderName, (config: ProviderConfig) => ModelProvider> = {
+  OpenAI: (config) =>
+    createOpenAICompatibleProvider("OpenAI", "https://api.openai.com/v1", config),
+  Anthropic: createAnthropicProvider,
+  "Google DeepMind": createGoogleProvider,
+  "Meta AI": (config) =>
+    createOpenAICompatibleProvider("Meta AI", "https://api.llama.com/compat/v1", config),
+  "Mistral AI": (config) =>
+    createOpenAICompatibleProvider("Mistral AI", "https://api.mistral.ai/v1", config),
+  "Alibaba Cloud": (config) =>
+    createOpenAICompatibleProvider(
+      "Alibaba Cloud",
+      "https://dashscope-intl.aliyuncs.com/compatible-mode/v1",
+      config,
+    ),
+  "Hugging Face": (config) =>
+    createOpenAICompatibleProvider("Hugging Face", "https://router.huggingface.co/v1", config),
+};
+
+/** Judge instructions listing each rubric metric with its scale and description. */
+export function buildJudgePrompt(rubric: Rubric): string {
+  const criteria = rubric.metrics
+    .map(
+      (metric) =>
+        `- "${metric.key}" (${metric.label}, ${describeScale(metric)})${metric.description ? `: ${metric.description}` : ""}`,
+    )
+    .join("\n");
+  const shape = rubric.metrics.map((metric) => `"${metric.key}": n`).join(", ");
+  return `You are a strict reviewer in a model evaluation arena. Score the candidate answer on each criterion, within its range:\n${criteria}\nReply with JSON only: {${shape}, "commentary": "one or two sentences"}.`;
+}
+
+export type ProviderRegistry = Partial<Record<string, ModelProvider>>;
+
+export interface ResponseRequest {
+  prompt: string;
+  /** Sent as the candidate's system prompt; judges see it as part of the task. */
+  systemPrompt?: string;
+  /** Run-wide generation settings. */
+  params?: GenerationParams;
+  /** Per-model settings for this run, keyed by model id. */
+  modelParams?: Record<string, GenerationParams>;
+  mode: PromptMode;
+  seed: string;
+  imageDescriptor?: string;
+  attachments?: AttachmentPayload[];
+  /** Defaults to the built-in rubric. */
+  rubric?: Rubric;
+  /** Blind run: candidate text arrives masked and reviewers cannot tell their own answer. */
+  blind?: boolean;
+  /** Earlier turns of a conversation scenario; `prompt` is then the latest user message. */
+  history?: ChatMessage[];
+  /** Tools the model may call; their protocol joins the system prompt. */
+  toolkit?: ToolKit;
+}
+
+function readEnv(): Record<string, string | undefined> {
+  return typeof process === "undefined" ? {} : process.env;
+}
+
+/**
+ * Builds the provider lookup used by the fan-out. A vendor gets its real
+ * adapter once it has an API key or a base URL override (keyless local
+ * servers and test mocks only set the URL); the rest fall back to the
+ * synthetic adapter so runs keep working offline.
+ */
+export function createProviderRegistry(
+  overrides: Partial<Record<RemoteProviderName, ProviderConfig>> = {},
+  env: Record<string, string | undefined> = readEnv(),
+): ProviderRegistry {
+  const registry: ProviderRegistry = {};
+  (Object.keys(ADAPTERS) as RemoteProviderName[]).forEach((name) => {
+    const config: ProviderConfig = {
+      apiKey: env[PROVIDER_ENV[name].apiKey],
+      baseUrl: env[PROVIDER_ENV[name].baseUrl],
+      ...overrides[name],
+    };
+    registry[name] = config.apiKey || config.baseUrl ? ADAPTERS[name](config) : syntheticProvider;
+  });
+  return registry;
+}
+
+export function resolveProvider(registry: ProviderRegistry, model: ModelOption): ModelProvider {
+  return registry[model.provider] ?? syntheticProvider;
+}
+
+export function resolveModelName(model: ModelOption): string {
+  return model.modelName?.trim() || model.id;
+}
+
+/**
+ * Settings a model answers with: registry defaults, then the run's system
+ * prompt and settings, then this run's overrides for the model.
+ */
+export function resolveGenerationParams(
+  model: ModelOption,
+  request: Pick<ResponseRequest, "systemPrompt" | "params" | "modelParams">,
+): GenerationParams {
+  return {
+    ...model.defaultParams,
+    ...(request.systemPrompt ? { systemPrompt: request.systemPrompt } : {}),
+    ...request.params,
+    ...request.modelParams?.[model.id],
+  };
+}
+
+function extractSupportingPoints(content: string): string[] {
+  return content
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => /^([-*•]|\d+[.)])\s+/.test(line))
+    .map((line) => line.replace(/^([-*•]|\d+[.)])\s+/, ""))
+    .slice(0, 6);
+}
+
+function parseJudgeReply(provider: ModelProvider, reply: string, rubric: Rubric) {
+  const match = reply.match(/\{[\s\S]*\}/);
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = match ? (JSON.parse(match[0]) as Record<string, unknown>) : {};
+  } catch {
+    throw new ProviderError(provider.name, "Judge reply was not valid JSON.");
+  }
+  const metrics: MetricScores = {};
+  rubric.metrics.forEach((metric) => {
+    const value = Number(parsed[metric.key]);
+    if (!Number.isFinite(value)) {
+      throw new ProviderError(provider.name, `Judge reply is missing the "${metric.key}" score.`);
+    }
+    metrics[metric.key] = roundScore(clampToScale(value, metric), 1);
+  });
+  const commentary = typeof parsed.commentary === "string" ? parsed.commentary : "";
+  return { metrics, commentary };
+}
+
+/**
+ * Asks the model's provider for a response. Only synthetic answers come with
+ * the engine's metrics; remote ones are marked `peerScored` and left unscored
+ * until the reviews are in (see `scoreFromPeers`).
+ */
+export async function fetchModelResponse(
+  registry: ProviderRegistry,
+  model: ModelOption,
+  request: ResponseRequest,
+): Promise<ModelResponse> {
+  const scaffold = generateModelResponse(
+    model,
+    request.prompt,
+    request.mode,
+    request.imageDescriptor,
+    request.seed,
+    request.rubric,
+    request.attachments?.map((attachment) => attachment.kind),
+  );
+  const provider = resolveProvider(registry, model);
+  if (provider.kind === "synthetic") return scaffold;
+
+  const { systemPrompt, ...params } = resolveGenerationParams(model, request);
+  const system = request.toolkit
+    ? [systemPrompt, toolInstructions(request.toolkit)].filter(Boolean).join("\n\n")
+    : systemPrompt;
+  const chatRequest = {
+    model,
+    modelName: resolveModelName(model),
+    system,
+    ...(request.history?.length ? { history: request.history } : {}),
+    prompt: request.prompt,
+    mode: request.mode,
+    imageDescriptor: request.imageDescriptor,
+    seed: request.seed,
+    ...params,
+  };
+  // Each model only receives the attachment kinds its modality covers.
+  const attachments = attachmentsFor(model, request.attachments);
+  const completion = attachments.length
+    ? await provider.multimodal({ ...chatRequest, attachments })
+    : await provider.chat(chatRequest);
+  const content = completion.content.trim();
+  const supportingPoints = extractSupportingPoints(content);
+  return {
+    ...scaffold,
+    content,
+    supportingPoints: supportingPoints.length ? supportingPoints : scaffold.supportingPoints,
+    overallScore: 0,
+    metrics: {},
+    peerScored: true,
+  };
+}
+
+/** Has `evaluator` review `target`'s response through the evaluator's provider. */
+export async function fetchCrossEvaluation(
+  registry: ProviderRegistry,
+  evaluator: ModelOption,
+  target: ModelOption,
+  targetResponse: ModelResponse,
+  request: ResponseRequest,
+): Promise<CrossEvaluation> {
+  const rubric = request.rubric ?? DEFAULT_RUBRIC;
+  const provider = resolveProvider(registry, evaluator);
+  if (provider.kind === "synthetic") {
+    return generateCrossEvaluation(
+      evaluator,
+      target,
+      request.prompt,
+      request.mode,
+      request.seed,
+      rubric,
+      request.attachments?.map((attachment) => attachment.kind),
+      request.blind,
+    );
+  }
+  const { systemPrompt } = resolveGenerationParams(target, request);
+  const persona = systemPrompt
+    ? `System prompt given to the candidate:\n${systemPrompt}\n\n`
+    : "";
+  const judgeRequest = {
+    model: evaluator,
+    modelName: resolveModelName(evaluator),
+    system: buildJudgePrompt(rubric),
+    prompt: `${persona}Task given to the candidate:\n${request.prompt}\n\nCandidate answer:\n${targetResponse.content}`,
+    mode: "text" as const,
+    seed: request.seed,
+    temperature: 0,
+  };
+  // Judges see whatever attachments they can take, so they can check grounded claims.
+  const attachments = attachmentsFor(evaluator, request.attachments);
+  const completion = attachments.length
+    ? await provider.multimodal({ ...judgeRequest, mode: request.mode, attachments })
+    : await provider.chat(judgeRequest);
+  const { metrics, commentary } = parseJudgeReply(provider, completion.content, rubric);
+  return {
+    evaluatorId: evaluator.id,
+    targetId: target.id,
+    metrics,
+    overall: weightedOverall(metrics, rubric),
+    commentary,
+  };
+}
@@ -0,0 +1,92 @@
+import { postJson, ProviderError, toDataUrl, trimBaseUrl } from "./http";
+import type {
+  AttachmentPayload,
+  ChatCompletion,
+  ChatRequest,
+  ModelProvider,
+  ProviderConfig,
+  ProviderName,
+} from "./types";
+
+interface OpenAIChatResponse {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+type ContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } }
+  | { type: "input_audio"; input_audio: { data: string; format: "wav" | "mp3" } };
+
+/** The chat completions contract only takes WAV and MP3 audio inline. */
+const AUDIO_FORMATS: Record<string, "wav" | "mp3"> = {
+  "audio/wav": "wav",
+  "audio/mpeg": "mp3",
+};
+
+/**
+ * Adapter for vendors exposing the OpenAI `/chat/completions` contract. OpenAI,
+ * Mistral, DashScope, the Llama API and the Hugging Face router all speak it.
+ */
+export function createOpenAICompatibleProvider(
+  name: ProviderName,
+  defaultBaseUrl: string,
+  config: ProviderConfig,
+): ModelProvider {
+  const baseUrl = trimBaseUrl(config.baseUrl ?? defaultBaseUrl);
+  const fetchImpl = config.fetch ?? fetch;
+
+  const toPart = (attachment: AttachmentPayload): ContentPart => {
+    if (attachment.kind === "image") {
+      return { type: "image_url", image_url: { url: toDataUrl(attachment) } };
+    }
+    const format = AUDIO_FORMATS[attachment.mimeType];
+    if (attachment.kind === "audio" && format) {
+      return { type: "input_audio", input_audio: { data: attachment.base64, format } };
+    }
+    throw new ProviderError(name, `Cannot send ${attachment.mimeType} attachments inline.`);
+  };
+
+  const complete = async (
+    request: ChatRequest,
+    attachments: AttachmentPayload[] = [],
+  ): Promise<ChatCompletion> => {
+    const endpoint = request.model.endpoint ? trimBaseUrl(request.model.endpoint) : baseUrl;
+    const turns = [...(request.history ?? []), { role: "user", content: request.prompt }];
+    const opening = turns.findIndex((turn) => turn.role === "user");
+    const messages = [
+      ...(request.system ? [{ role: "system", content: request.system }] : []),
+      ...turns.map((turn, index) => ({
+        role: turn.role,
+        content:
+          index === opening && attachments.length
+            ? ([{ type: "text", text: turn.content }, ...attachments.map(toPart)] as ContentPart[])
+            : turn.content,
+      })),
+    ];
+    const payload = await postJson<OpenAIChatResponse>(
+      name,
+      fetchImpl,
+      `${endpoint}/chat/completions`,
+      config.apiKey ? { authorization: `Bearer ${config.apiKey}` } : {},
+      {
+        model: request.modelName,
+        messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        top_p: request.topP,
+      },
+    );
+    const content = payload.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new ProviderError(name, "Response did not include a message.");
+    }
+    return { content, raw: payload };
+  };
+
+  return {
+    name,
+    kind: "remote",
+    chat: (request) => complete(request),
+    multimodal: (request) => complete(request, request.attachments),
+  };
+}
@@ -0,0 +1,20 @@
+import { generateModelResponse } from "@/lib/scoring";
+import type { ChatRequest, ModelProvider } from "./types";
+
+const respond = async (request: ChatRequest) => ({
+  content: generateModelResponse(
+    request.model,
+    request.prompt,
+    request.mode,
+    request.imageDescriptor,
+    request.seed,
+  ).content,
+});
+
+/** Offline provider backed by the seeded scoring engine. */
+export const syntheticProvider: ModelProvider = {
+  name: "synthetic",
+  kind: "synthetic",
+  chat: respond,
+  multimodal: respond,
+};
@@ -0,0 +1,68 @@
+import type { AttachmentKind, ModelOption, PromptMode } from "@/types";
+
+export type ProviderName =
+  | "OpenAI"
+  | "Anthropic"
+  | "Google DeepMind"
+  | "Meta AI"
+  | "Mistral AI"
+  | "Alibaba Cloud"
+  | "Hugging Face"
+  | "synthetic";
+
+export interface AttachmentPayload {
+  kind: AttachmentKind;
+  mimeType: string;
+  /** Raw file bytes, base64 encoded without the data URL prefix. */
+  base64: string;
+}
+
+/** An earlier message of a multi-turn conversation. */
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ChatRequest {
+  model: ModelOption;
+  /** Vendor model string, e.g. "gpt-4.1" or "claude-3-opus-20240229". */
+  modelName: string;
+  system?: string;
+  /** Earlier turns, oldest first; `prompt` is the latest user message. */
+  history?: ChatMessage[];
+  prompt: string;
+  mode: PromptMode;
+  imageDescriptor?: string;
+  seed: string;
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+}
+
+export interface MultimodalRequest extends ChatRequest {
+  /**
+   * Only the kinds the model declares; the caller filters the rest out. They
+   * ride on the opening user message, so every later turn can refer to them.
+   */
+  attachments: AttachmentPayload[];
+}
+
+export interface ChatCompletion {
+  content: string;
+  /** Raw vendor payload, kept for debugging and trace views. */
+  raw?: unknown;
+}
+
+export interface ProviderConfig {
+  apiKey?: string;
+  baseUrl?: string;
+  fetch?: typeof fetch;
+}
+
+export interface ModelProvider {
+  name: ProviderName;
+  /** Synthetic providers skip HTTP and score through the local engine. */
+  kind: "synthetic" | "remote";
+  chat(request: ChatRequest): Promise<ChatCompletion>;
+  multimodal(request: MultimodalRequest): Promise<ChatCompletion>;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { createRandom, hashSeed, pickMany, pickOne, randomBetween } from "./random";
+
+describe("createRandom", () => {
+  it("replays the same sequence for the same seed", () => {
+    const first = createRandom("tides|text|0");
+    const second = createRandom("tides|text|0");
+    const draws = Array.from({ length: 20 }, () => first());
+    expect(Array.from({ length: 20 }, () => second())).toEqual(draws);
+  });
+
+  it("diverges for different seeds and stays in [0, 1)", () => {
+    const a = createRandom("a");
+    const b = createRandom("b");
+    const draws = Array.from({ length: 200 }, () => [a(), b()]);
+    expect(draws.some(([left, right]) => left !== right)).toBe(true);
+    draws.flat().forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
+
+describe("hashSeed", () => {
+  it("is a stable unsigned 32-bit FNV-1a hash", () => {
+    expect(hashSeed("")).toBe(0x811c9dc5);
+    expect(hashSeed("a")).toBe(0xe40c292c);
+    expect(hashSeed("seed")).toBe(hashSeed("seed"));
+  });
+});
+
+describe("pickers", () => {
+  it("keeps randomBetween inside its bounds", () => {
+    const random = createRandom("between");
+    for (let index = 0; index < 100; index += 1) {
+      const value = randomBetween(random, -1.1, 1.1);
+      expect(value).toBeGreaterThanOrEqual(-1.1);
+      expect(value).toBeLessThan(1.1);
+    }
+  });
+
+  it("picks distinct items without mutating the pool", () => {
+    const pool = ["a", "b", "c", "d", "e"];
+    const picked = pickMany(createRandom("many"), pool, 3);
+    expect(new Set(picked).size).toBe(3);
+    expect(pool).toEqual(["a", "b", "c", "d", "e"]);
+    expect(pickMany(createRandom("many"), pool, 9)).toHaveLength(5);
+    expect(pool).toContain(pickOne(createRandom("one"), pool));
+  });
+});
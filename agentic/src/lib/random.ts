@@ -0,0 +1,47 @@
+export type RandomSource = () => number;
+
+/**
+ * 32-bit FNV-1a hash of a string. Used to turn free-form seeds (prompt, mode,
+ * run counter…) into PRNG state.
+ */
+export function hashSeed(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < input.length; index += 1) {
+    hash ^= input.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mulberry32 generator seeded from a string. The same seed always yields the
+ * same sequence of floats in [0, 1).
+ */
+export function createRandom(seed: string): RandomSource {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomBetween(random: RandomSource, min: number, max: number): number {
+  return min + (max - min) * random();
+}
+
+export function pickOne<T>(random: RandomSource, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length) % items.length];
+}
+
+export function pickMany<T>(random: RandomSource, items: readonly T[], count: number): T[] {
+  const pool = [...items];
+  const picked: T[] = [];
+  while (pool.length && picked.length < count) {
+    const index = Math.floor(random() * pool.length) % pool.length;
+    picked.push(pool.splice(index, 1)[0]);
+  }
+  return picked;
+}
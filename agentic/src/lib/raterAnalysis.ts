@@ -0,0 +1,198 @@
+import type { CrossEvaluation, ModelOption, Rubric } from "@/types";
+import { normaliseMetric } from "@/lib/rubrics";
+import { roundScore } from "@/lib/scoring";
+
+export type AgreementLevel = "reliable" | "tentative" | "low";
+
+export interface MetricAgreement {
+  key: string;
+  label: string;
+  /** Krippendorff's alpha (interval), null when too few paired ratings. */
+  alpha: number | null;
+  /** One-way random-effects ICC(1,1), null when too few paired ratings. */
+  icc: number | null;
+}
+
+export interface EvaluatorBias {
+  evaluatorId: string;
+  /** Mean offset from the other reviewers' consensus on the same targets. */
+  leniency: number | null;
+  /** Own-answer score minus the mean score peers gave that answer. */
+  selfPreference: number | null;
+  /** Offset on same-provider targets minus offset on everyone else. */
+  sameProviderBias: number | null;
+  sameProviderTargets: number;
+}
+
+export interface RaterAnalysis {
+  overall: MetricAgreement;
+  metrics: MetricAgreement[];
+  evaluators: EvaluatorBias[];
+  /** deviations[evaluatorId][targetId] = overall score minus the other reviewers' mean. */
+  deviations: Record<string, Record<string, number>>;
+}
+
+/** One rated target with every reviewer's score for it, self-reviews excluded. */
+type Unit = number[];
+
+function meanOf(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+const roundStat = (value: number | null) => (value === null ? null : roundScore(value, 3));
+
+/**
+ * Krippendorff's alpha with the interval difference function. Units with a
+ * single rating are not pairable and are dropped.
+ */
+export function krippendorffAlpha(units: Unit[]): number | null {
+  const pairable = units.filter((unit) => unit.length >= 2);
+  const values = pairable.flat();
+  const n = values.length;
+  if (n < 2 || pairable.length < 2) return null;
+
+  let observed = 0;
+  pairable.forEach((unit) => {
+    let sum = 0;
+    unit.forEach((a, i) =>
+      unit.forEach((b, j) => {
+        if (i !== j) sum += (a - b) ** 2;
+      }),
+    );
+    observed += sum / (unit.length - 1);
+  });
+  observed /= n;
+
+  let expected = 0;
+  values.forEach((a, i) =>
+    values.forEach((b, j) => {
+      if (i !== j) expected += (a - b) ** 2;
+    }),
+  );
+  expected /= n * (n - 1);
+
+  if (expected === 0) return observed === 0 ? 1 : null;
+  return 1 - observed / expected;
+}
+
+/**
+ * ICC(1,1) from a one-way random-effects ANOVA, with the usual adjusted group
+ * size so units may have different numbers of raters.
+ */
+export function intraclassCorrelation(units: Unit[]): number | null {
+  const groups = units.filter((unit) => unit.length >= 2);
+  const total = groups.reduce((sum, unit) => sum + unit.length, 0);
+  if (groups.length < 2 || total <= groups.length) return null;
+
+  const grandMean = meanOf(groups.flat());
+  let between = 0;
+  let within = 0;
+  groups.forEach((unit) => {
+    const mean = meanOf(unit);
+    between += unit.length * (mean - grandMean) ** 2;
+    within += unit.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+  });
+  const msBetween = between / (groups.length - 1);
+  const msWithin = within / (total - groups.length);
+  const k0 =
+    (total - groups.reduce((sum, unit) => sum + unit.length ** 2, 0) / total) /
+    (groups.length - 1);
+  const denominator = msBetween + (k0 - 1) * msWithin;
+  if (denominator === 0) return msWithin === 0 ? 1 : null;
+  return (msBetween - msWithin) / denominator;
+}
+
+export function describeAgreement(value: number | null): AgreementLevel | null {
+  if (value === null) return null;
+  if (value >= 0.8) return "reliable";
+  if (value >= 0.667) return "tentative";
+  return "low";
+}
+
+function unitsFor(peerReviews: CrossEvaluation[], score: (item: CrossEvaluation) => number) {
+  const byTarget = new Map<string, number[]>();
+  peerReviews.forEach((item) => {
+    const value = score(item);
+    if (!Number.isFinite(value)) return;
+    byTarget.set(item.targetId, [...(byTarget.get(item.targetId) ?? []), value]);
+  });
+  return Array.from(byTarget.values());
+}
+
+/**
+ * Agreement per rubric metric plus per-evaluator bias diagnostics. Agreement
+ * and consensus exclude self-reviews so the diagonal cannot inflate either.
+ */
+export function analyseRaters(
+  crossEvaluations: CrossEvaluation[],
+  models: ModelOption[],
+  rubric: Rubric,
+): RaterAnalysis {
+  const peerReviews = crossEvaluations.filter((item) => item.evaluatorId !== item.targetId);
+  const agreementFor = (key: string, label: string, score: (item: CrossEvaluation) => number) => {
+    const units = unitsFor(peerReviews, score);
+    return {
+      key,
+      label,
+      alpha: roundStat(krippendorffAlpha(units)),
+      icc: roundStat(intraclassCorrelation(units)),
+    };
+  };
+
+  const overall = agreementFor("overall", "Overall", (item) => item.overall);
+  const metrics = rubric.metrics.map((metric) =>
+    agreementFor(metric.key, metric.label, (item) =>
+      item.metrics[metric.key] === undefined
+        ? Number.NaN
+        : normaliseMetric(item.metrics[metric.key], metric),
+    ),
+  );
+
+  const providerOf = (id: string) => models.find((model) => model.id === id)?.provider;
+  const consensus = (targetId: string, excludeId: string) => {
+    const others = peerReviews.filter(
+      (item) => item.targetId === targetId && item.evaluatorId !== excludeId,
+    );
+    return others.length ? meanOf(others.map((item) => item.overall)) : null;
+  };
+
+  const deviations: RaterAnalysis["deviations"] = {};
+  crossEvaluations.forEach((item) => {
+    const reference = consensus(item.targetId, item.evaluatorId);
+    if (reference === null) return;
+    deviations[item.evaluatorId] ??= {};
+    deviations[item.evaluatorId][item.targetId] = roundScore(item.overall - reference);
+  });
+
+  const evaluatorIds = Array.from(new Set(crossEvaluations.map((item) => item.evaluatorId)));
+  const evaluators = evaluatorIds.map((evaluatorId): EvaluatorBias => {
+    const offsets = Object.entries(deviations[evaluatorId] ?? {}).filter(
+      ([targetId]) => targetId !== evaluatorId,
+    );
+    const provider = providerOf(evaluatorId);
+    const sameProvider = offsets.filter(([targetId]) => providerOf(targetId) === provider);
+    const otherProvider = offsets.filter(([targetId]) => providerOf(targetId) !== provider);
+    const meanOffset = (entries: Array<[string, number]>) =>
+      entries.length ? meanOf(entries.map(([, value]) => value)) : null;
+
+    const selfReview = crossEvaluations.find(
+      (item) => item.evaluatorId === evaluatorId && item.targetId === evaluatorId,
+    );
+    const peerMean = consensus(evaluatorId, evaluatorId);
+    const sameOffset = meanOffset(sameProvider);
+    const otherOffset = meanOffset(otherProvider);
+    const leniency = meanOffset(offsets);
+
+    return {
+      evaluatorId,
+      leniency: leniency === null ? null : roundScore(leniency),
+      selfPreference:
+        selfReview && peerMean !== null ? roundScore(selfReview.overall - peerMean) : null,
+      sameProviderBias:
+        sameOffset !== null && otherOffset !== null ? roundScore(sameOffset - otherOffset) : null,
+      sameProviderTargets: sameProvider.length,
+    };
+  });
+
+  return { overall, metrics, evaluators, deviations };
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import type { BattleVote, StoredRun } from "@/types";
+import { MODEL_OPTIONS } from "./models";
+import { comparisonsFromRun, computeRatings, parseRatingMethod } from "./ratings";
+
+const [alpha, beta, gamma] = MODEL_OPTIONS;
+
+function run(
+  id: string,
+  order: string[],
+  extra: { userChoice?: string; battles?: BattleVote[] } = {},
+): StoredRun {
+  return {
+    id,
+    createdAt: `2024-01-0${id.slice(-1)}T00:00:00.000Z`,
+    prompt: "",
+    mode: "text",
+    imageDescriptor: null,
+    models: [alpha, beta, gamma],
+    runCounter: 1,
+    userChoice: extra.userChoice ?? null,
+    battles: extra.battles,
+    result: {
+      responses: [],
+      crossEvaluations: [],
+      leaderboard: order.map((modelId, index) => ({
+        modelId,
+        ownScore: 9 - index,
+        crossScore: 9 - index,
+        aggregateScore: 9 - index,
+      })),
+      geminiVerdict: null,
+      topThree: order,
+    },
+  };
+}
+
+describe("comparisonsFromRun", () => {
+  it("turns the leaderboard, the vote and battles into pairwise outcomes", () => {
+    const comparisons = comparisonsFromRun(
+      run("run-1", [alpha.id, beta.id, gamma.id], {
+        userChoice: gamma.id,
+        battles: [{ leftId: alpha.id, rightId: beta.id, outcome: "tie", votedAt: "" }],
+      }),
+    );
+    const bySource = (source: string) => comparisons.filter((item) => item.source === source);
+    expect(bySource("leaderboard")).toHaveLength(3);
+    expect(bySource("human").map((item) => [item.winner, item.loser])).toEqual([
+      [gamma.id, alpha.id],
+      [gamma.id, beta.id],
+    ]);
+    expect(bySource("battle")).toEqual([
+      { runId: "run-1", winner: alpha.id, loser: beta.id, source: "battle", tie: true },
+    ]);
+  });
+});
+
+describe("computeRatings", () => {
+  const runs = [
+    run("run-3", [alpha.id, gamma.id, beta.id]),
+    run("run-1", [alpha.id, beta.id, gamma.id]),
+    run("run-2", [beta.id, alpha.id, gamma.id]),
+  ];
+
+  it("ranks the model that wins most and replays runs oldest first", () => {
+    (["elo", "bradley-terry"] as const).forEach((method) => {
+      const report = computeRatings(runs, method, { bootstrapSamples: 50 });
+      expect(report.ratings[0].modelId).toBe(alpha.id);
+      expect(report.ratings[0]).toMatchObject({ wins: 5, losses: 1, ties: 0 });
+      expect(report.history.map((snapshot) => snapshot.runId)).toEqual(["run-1", "run-2", "run-3"]);
+      expect(report.comparisonCount).toBe(9);
+      report.ratings.forEach((rating) => {
+        expect(rating.lower).toBeLessThanOrEqual(rating.upper);
+      });
+    });
+  });
+
+  it("gives the same bounds for the same archive", () => {
+    expect(computeRatings(runs, "elo", { bootstrapSamples: 50 })).toEqual(
+      computeRatings([...runs].reverse(), "elo", { bootstrapSamples: 50 }),
+    );
+  });
+});
+
+describe("parseRatingMethod", () => {
+  it("accepts the short Bradley-Terry name and defaults to Elo", () => {
+    expect(parseRatingMethod("bt")).toBe("bradley-terry");
+    expect(parseRatingMethod(null)).toBe("elo");
+  });
+});
@@ -0,0 +1,318 @@
+import type { StoredRun } from "@/types";
+import { battleResult } from "@/lib/battles";
+import { createRandom } from "@/lib/random";
+import { roundScore } from "@/lib/scoring";
+
+export type RatingMethod = "elo" | "bradley-terry";
+export type ComparisonSource = "leaderboard" | "arbiter" | "human" | "battle";
+
+export interface Comparison {
+  runId: string;
+  winner: string;
+  loser: string;
+  source: ComparisonSource;
+  /** A drawn battle: each side scores half a win. */
+  tie?: boolean;
+}
+
+export interface ModelRating {
+  modelId: string;
+  rating: number;
+  lower: number;
+  upper: number;
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+export interface RatingSnapshot {
+  runId: string;
+  createdAt: string;
+  ratings: Record<string, number>;
+}
+
+export interface RatingOptions {
+  /** Elo step size. */
+  kFactor?: number;
+  bootstrapSamples?: number;
+  /** Comparisons from each source are counted this many times. */
+  sourceWeights?: Partial<Record<ComparisonSource, number>>;
+}
+
+const BASE_RATING = 1500;
+const ELO_SCALE = 400;
+const DEFAULT_K = 24;
+const DEFAULT_SAMPLES = 200;
+const BT_ITERATIONS = 100;
+const BT_PRIOR = 0.5;
+
+const DEFAULT_SOURCE_WEIGHTS: Record<ComparisonSource, number> = {
+  leaderboard: 1,
+  arbiter: 1,
+  human: 1,
+  battle: 1,
+};
+
+export const RATING_METHOD_LABELS: Record<RatingMethod, string> = {
+  elo: "Elo",
+  "bradley-terry": "Bradley-Terry",
+};
+
+function orderedPairs(runId: string, ordering: string[], source: ComparisonSource): Comparison[] {
+  return ordering.flatMap((winner, index) =>
+    ordering.slice(index + 1).map((loser) => ({ runId, winner, loser, source })),
+  );
+}
+
+/**
+ * Pairwise outcomes implied by a run: the leaderboard order, the arbiter's
+ * shortlist order, the human vote (the pick beats every other model) and
+ * each blind battle, where a tie or both-bad vote is a draw.
+ */
+export function comparisonsFromRun(run: StoredRun): Comparison[] {
+  const { leaderboard, geminiVerdict } = run.result;
+  const leaderboardPairs = leaderboard.flatMap((entry, index) =>
+    leaderboard
+      .slice(index + 1)
+      .filter((other) => other.aggregateScore < entry.aggregateScore)
+      .map((other) => ({
+        runId: run.id,
+        winner: entry.modelId,
+        loser: other.modelId,
+        source: "leaderboard" as const,
+      })),
+  );
+  const arbiterPairs = geminiVerdict
+    ? orderedPairs(run.id, geminiVerdict.orderedModelIds, "arbiter")
+    : [];
+  const humanPairs = run.userChoice
+    ? run.models
+        .filter((model) => model.id !== run.userChoice)
+        .map((model) => ({
+          runId: run.id,
+          winner: run.userChoice as string,
+          loser: model.id,
+          source: "human" as const,
+        }))
+    : [];
+  const battlePairs = (run.battles ?? []).map((vote) => {
+    const result = battleResult(vote);
+    return {
+      runId: run.id,
+      winner: result?.winner ?? vote.leftId,
+      loser: result?.loser ?? vote.rightId,
+      source: "battle" as const,
+      ...(result ? {} : { tie: true }),
+    };
+  });
+  return [...leaderboardPairs, ...arbiterPairs, ...humanPairs, ...battlePairs];
+}
+
+function weightOf(comparison: Comparison, options: RatingOptions): number {
+  return options.sourceWeights?.[comparison.source] ?? DEFAULT_SOURCE_WEIGHTS[comparison.source];
+}
+
+function eloRatings(
+  comparisons: Comparison[],
+  modelIds: string[],
+  options: RatingOptions,
+  initial?: Record<string, number>,
+): Record<string, number> {
+  const kFactor = options.kFactor ?? DEFAULT_K;
+  const ratings: Record<string, number> = {};
+  modelIds.forEach((modelId) => {
+    ratings[modelId] = initial?.[modelId] ?? BASE_RATING;
+  });
+  comparisons.forEach((comparison) => {
+    const winner = ratings[comparison.winner] ?? BASE_RATING;
+    const loser = ratings[comparison.loser] ?? BASE_RATING;
+    const expected = 1 / (1 + 10 ** ((loser - winner) / ELO_SCALE));
+    const actual = comparison.tie ? 0.5 : 1;
+    const step = kFactor * weightOf(comparison, options) * (actual - expected);
+    ratings[comparison.winner] = winner + step;
+    ratings[comparison.loser] = loser - step;
+  });
+  return ratings;
+}
+
+/** Weighted wins and games per pairing, all a Bradley-Terry fit reads. */
+interface BradleyTerryTally {
+  wins: Record<string, number>;
+  games: Record<string, Record<string, number>>;
+}
+
+function emptyTally(modelIds: string[]): BradleyTerryTally {
+  const tally: BradleyTerryTally = { wins: {}, games: {} };
+  modelIds.forEach((modelId) => {
+    tally.wins[modelId] = BT_PRIOR;
+    tally.games[modelId] = {};
+  });
+  return tally;
+}
+
+function addToTally(
+  { wins, games }: BradleyTerryTally,
+  comparisons: Comparison[],
+  options: RatingOptions,
+): void {
+  comparisons.forEach((comparison) => {
+    const weight = weightOf(comparison, options);
+    if (comparison.tie) {
+      wins[comparison.winner] += weight / 2;
+      wins[comparison.loser] += weight / 2;
+    } else {
+      wins[comparison.winner] += weight;
+    }
+    games[comparison.winner][comparison.loser] =
+      (games[comparison.winner][comparison.loser] ?? 0) + weight;
+    games[comparison.loser][comparison.winner] =
+      (games[comparison.loser][comparison.winner] ?? 0) + weight;
+  });
+}
+
+/**
+ * Bradley-Terry strengths fitted with Hunter's MM algorithm, reported on the
+ * Elo scale. A half win and half loss against a virtual average player keeps
+ * unbeaten or winless models finite; a tie is half a win for each side.
+ */
+function fitBradleyTerry(
+  { wins, games }: BradleyTerryTally,
+  modelIds: string[],
+): Record<string, number> {
+  let strength: Record<string, number> = {};
+  modelIds.forEach((modelId) => {
+    strength[modelId] = 1;
+  });
+  for (let iteration = 0; iteration < BT_ITERATIONS; iteration += 1) {
+    const next: Record<string, number> = {};
+    modelIds.forEach((modelId) => {
+      let denominator = (2 * BT_PRIOR) / (strength[modelId] + 1);
+      Object.entries(games[modelId]).forEach(([opponent, count]) => {
+        denominator += count / (strength[modelId] + strength[opponent]);
+      });
+      next[modelId] = wins[modelId] / denominator;
+    });
+    const logMean =
+      modelIds.reduce((sum, modelId) => sum + Math.log(next[modelId]), 0) / modelIds.length;
+    modelIds.forEach((modelId) => {
+      next[modelId] /= Math.exp(logMean);
+    });
+    strength = next;
+  }
+
+  const ratings: Record<string, number> = {};
+  modelIds.forEach((modelId) => {
+    ratings[modelId] = BASE_RATING + ELO_SCALE * Math.log10(strength[modelId]);
+  });
+  return ratings;
+}
+
+function bradleyTerryRatings(
+  comparisons: Comparison[],
+  modelIds: string[],
+  options: RatingOptions,
+): Record<string, number> {
+  const tally = emptyTally(modelIds);
+  addToTally(tally, comparisons, options);
+  return fitBradleyTerry(tally, modelIds);
+}
+
+function fitRatings(
+  method: RatingMethod,
+  comparisons: Comparison[],
+  modelIds: string[],
+  options: RatingOptions,
+): Record<string, number> {
+  return method === "elo"
+    ? eloRatings(comparisons, modelIds, options)
+    : bradleyTerryRatings(comparisons, modelIds, options);
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  if (!sorted.length) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(fraction * (sorted.length - 1))));
+  return sorted[index];
+}
+
+export interface RatingReport {
+  method: RatingMethod;
+  ratings: ModelRating[];
+  history: RatingSnapshot[];
+  comparisonCount: number;
+}
+
+/**
+ * Replays the stored runs oldest-first into global ratings. The history grows
+ * one run at a time: Elo steps on from the last snapshot and Bradley-Terry
+ * refits a running tally, so neither replays the archive per snapshot.
+ * Confidence intervals come from a seeded bootstrap over runs, so the same
+ * archive always yields the same bounds.
+ */
+export function computeRatings(
+  runs: StoredRun[],
+  method: RatingMethod,
+  options: RatingOptions = {},
+): RatingReport {
+  const ordered = [...runs].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const perRun = ordered.map((run) => comparisonsFromRun(run));
+  const comparisons = perRun.flat();
+  const modelIds = Array.from(
+    new Set(ordered.flatMap((run) => run.models.map((model) => model.id))),
+  ).sort();
+
+  const history: RatingSnapshot[] = [];
+  const tally = emptyTally(modelIds);
+  const present = new Set<string>();
+  let running: Record<string, number> = {};
+  ordered.forEach((run, index) => {
+    if (method === "elo") {
+      running = eloRatings(perRun[index], modelIds, options, running);
+    } else {
+      addToTally(tally, perRun[index], options);
+      running = fitBradleyTerry(tally, modelIds);
+    }
+    run.models.forEach((model) => present.add(model.id));
+    const ratings: Record<string, number> = {};
+    present.forEach((modelId) => {
+      ratings[modelId] = roundScore(running[modelId], 1);
+    });
+    history.push({ runId: run.id, createdAt: run.createdAt, ratings });
+  });
+
+  const point = fitRatings(method, comparisons, modelIds, options);
+  const random = createRandom(`ratings|${method}|${ordered.map((run) => run.id).join(",")}`);
+  const samples: Record<string, number[]> = {};
+  modelIds.forEach((modelId) => {
+    samples[modelId] = [];
+  });
+  const bootstrapSamples = ordered.length > 1 ? options.bootstrapSamples ?? DEFAULT_SAMPLES : 0;
+  for (let sample = 0; sample < bootstrapSamples; sample += 1) {
+    const resampled = ordered.flatMap(() => perRun[Math.floor(random() * perRun.length)]);
+    const fitted = fitRatings(method, resampled, modelIds, options);
+    modelIds.forEach((modelId) => samples[modelId].push(fitted[modelId]));
+  }
+
+  const decisive = comparisons.filter((comparison) => !comparison.tie);
+  const ratings = modelIds.map((modelId) => {
+    const sorted = [...samples[modelId]].sort((a, b) => a - b);
+    return {
+      modelId,
+      rating: roundScore(point[modelId], 1),
+      lower: roundScore(sorted.length ? percentile(sorted, 0.025) : point[modelId], 1),
+      upper: roundScore(sorted.length ? percentile(sorted, 0.975) : point[modelId], 1),
+      wins: decisive.filter((comparison) => comparison.winner === modelId).length,
+      losses: decisive.filter((comparison) => comparison.loser === modelId).length,
+      ties: comparisons.filter(
+        (comparison) =>
+          comparison.tie && (comparison.winner === modelId || comparison.loser === modelId),
+      ).length,
+    };
+  });
+  ratings.sort((a, b) => b.rating - a.rating || a.modelId.localeCompare(b.modelId));
+
+  return { method, ratings, history, comparisonCount: comparisons.length };
+}
+
+export function parseRatingMethod(value: string | null | undefined): RatingMethod {
+  return value === "bradley-terry" || value === "bt" ? "bradley-terry" : "elo";
+}
@@ -0,0 +1,58 @@
+import type { Rubric } from "@/types";
+import { createJsonStore } from "@/lib/jsonStore";
+import { DEFAULT_RUBRIC, RubricError, validateRubric } from "@/lib/rubrics";
+
+/** Custom rubrics only; the built-in default is always listed first. */
+const store = createJsonStore<Rubric[]>("rubrics.json", () => []);
+
+function assertEditable(id: string) {
+  if (id === DEFAULT_RUBRIC.id) {
+    throw new RubricError("The default rubric is built in; duplicate it to customise.");
+  }
+}
+
+export async function listRubrics(): Promise<Rubric[]> {
+  return [DEFAULT_RUBRIC, ...(await store.read())];
+}
+
+export async function getRubric(id: string): Promise<Rubric | null> {
+  const rubrics = await listRubrics();
+  return rubrics.find((rubric) => rubric.id === id) ?? null;
+}
+
+export async function createRubric(input: unknown): Promise<Rubric> {
+  const rubric = validateRubric(input);
+  assertEditable(rubric.id);
+  await store.update((rubrics) => {
+    if (rubrics.some((item) => item.id === rubric.id)) {
+      throw new RubricError(`A rubric with id "${rubric.id}" already exists.`);
+    }
+    return [...rubrics, rubric];
+  });
+  return rubric;
+}
+
+/** Stored runs keep their own rubric snapshot, so edits never rewrite history. */
+export async function updateRubric(id: string, input: unknown): Promise<Rubric | null> {
+  assertEditable(id);
+  const rubric = validateRubric({ ...(input as object), id });
+  let found = false;
+  await store.update((rubrics) =>
+    rubrics.map((item) => {
+      if (item.id !== id) return item;
+      found = true;
+      return rubric;
+    }),
+  );
+  return found ? rubric : null;
+}
+
+export async function deleteRubric(id: string): Promise<boolean> {
+  assertEditable(id);
+  let found = false;
+  await store.update((rubrics) => {
+    found = rubrics.some((item) => item.id === id);
+    return rubrics.filter((item) => item.id !== id);
+  });
+  return found;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import type { RubricMetric } from "@/types";
+import { normaliseMetric, RubricError, toMetricScale, validateRubric } from "./rubrics";
+
+const fivePoint: RubricMetric = {
+  key: "tone",
+  label: "Tone",
+  description: "",
+  weight: 1,
+  scale: { min: 1, max: 5 },
+};
+
+describe("validateRubric", () => {
+  it("fills ids, keys, weights and scales from a loose definition", () => {
+    expect(
+      validateRubric({
+        name: " Support replies ",
+        metrics: [
+          { label: "Citation quality!" },
+          { key: "tone", label: "Tone", weight: "2", scale: { min: "1", max: 5 } },
+        ],
+      }),
+    ).toEqual({
+      id: "support-replies",
+      name: "Support replies",
+      description: "",
+      metrics: [
+        {
+          key: "citation-quality",
+          label: "Citation quality!",
+          description: "",
+          weight: 1,
+          scale: { min: 0, max: 10 },
+        },
+        { ...fivePoint, weight: 2 },
+      ],
+    });
+  });
+
+  it("rejects malformed rubrics with a RubricError", () => {
+    const metric = { label: "Tone" };
+    expect(() => validateRubric(null)).toThrow(RubricError);
+    expect(() => validateRubric({ metrics: [metric] })).toThrow("Rubric needs a name.");
+    expect(() => validateRubric({ name: "R", id: "Has Spaces", metrics: [metric] })).toThrow(
+      /may only contain/,
+    );
+    expect(() => validateRubric({ name: "R", metrics: [] })).toThrow(/at least one metric/);
+    expect(() => validateRubric({ name: "R", metrics: [{ label: "Tone", weight: 0 }] })).toThrow(
+      /positive number/,
+    );
+    expect(() =>
+      validateRubric({ name: "R", metrics: [{ label: "Tone", scale: { min: 5, max: 5 } }] }),
+    ).toThrow(/minimum below its maximum/);
+    expect(() => validateRubric({ name: "R", metrics: [metric, metric] })).toThrow(
+      'Duplicate metric key "tone".',
+    );
+    expect(() =>
+      validateRubric({
+        name: "R",
+        metrics: Array.from({ length: 13 }, (_, i) => ({ label: `M${i}` })),
+      }),
+    ).toThrow(/limited to 12/);
+  });
+});
+
+describe("metric scales", () => {
+  it("maps between a metric's own scale and 0–10", () => {
+    expect(normaliseMetric(3, fivePoint)).toBe(5);
+    expect(toMetricScale(5, fivePoint)).toBe(3);
+    expect(toMetricScale(normaliseMetric(4.2, fivePoint), fivePoint)).toBeCloseTo(4.2);
+  });
+});
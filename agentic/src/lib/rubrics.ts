@@ -0,0 +1,151 @@
+import type { Rubric, RubricMetric } from "@/types";
+import { isRecord } from "@/lib/guards";
+import { SLUG_PATTERN, slugify } from "@/lib/slugs";
+
+export const DEFAULT_RUBRIC_ID = "default";
+
+const TEN_POINT = { min: 0, max: 10 };
+
+/** The original five-metric rubric. Built in and read-only. */
+export const DEFAULT_RUBRIC: Rubric = {
+  id: DEFAULT_RUBRIC_ID,
+  name: "General quality",
+  description: "Balanced rubric for open-ended answers.",
+  metrics: [
+    {
+      key: "clarity",
+      label: "Clarity",
+      description: "Well organised and easy to follow.",
+      weight: 0.2,
+      scale: TEN_POINT,
+    },
+    {
+      key: "relevance",
+      label: "Relevance",
+      description: "Addresses the prompt as asked.",
+      weight: 0.25,
+      scale: TEN_POINT,
+    },
+    {
+      key: "accuracy",
+      label: "Accuracy",
+      description: "Claims are correct and well supported.",
+      weight: 0.25,
+      scale: TEN_POINT,
+    },
+    {
+      key: "depth",
+      label: "Depth",
+      description: "Goes beyond the obvious with concrete detail.",
+      weight: 0.2,
+      scale: TEN_POINT,
+    },
+    {
+      key: "safety",
+      label: "Safety",
+      description: "Avoids harmful or reckless advice.",
+      weight: 0.1,
+      scale: TEN_POINT,
+    },
+  ],
+};
+
+const MAX_METRICS = 12;
+
+export class RubricError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RubricError";
+  }
+}
+
+export function resolveRubric(result: { rubric?: Rubric }): Rubric {
+  return result.rubric ?? DEFAULT_RUBRIC;
+}
+
+/** Maps a raw metric score onto 0–10. */
+export function normaliseMetric(value: number, metric: RubricMetric): number {
+  if (metric.scale.min === 0 && metric.scale.max === 10) return value;
+  const span = metric.scale.max - metric.scale.min;
+  return span > 0 ? ((value - metric.scale.min) / span) * 10 : 0;
+}
+
+/** Maps a 0–10 score onto the metric's own scale. */
+export function toMetricScale(value: number, metric: RubricMetric): number {
+  if (metric.scale.min === 0 && metric.scale.max === 10) return value;
+  return metric.scale.min + (value / 10) * (metric.scale.max - metric.scale.min);
+}
+
+export function clampToScale(value: number, metric: RubricMetric): number {
+  return Math.min(metric.scale.max, Math.max(metric.scale.min, value));
+}
+
+export function describeScale(metric: RubricMetric): string {
+  return `${metric.scale.min}–${metric.scale.max}`;
+}
+
+function toNumber(value: unknown): number {
+  return typeof value === "string" && value.trim() ? Number(value) : (value as number);
+}
+
+function validateMetric(input: unknown, index: number): RubricMetric {
+  if (!isRecord(input)) throw new RubricError(`Metric ${index + 1} must be an object.`);
+  const label = typeof input.label === "string" ? input.label.trim() : "";
+  if (!label) throw new RubricError(`Metric ${index + 1} needs a label.`);
+  const key =
+    typeof input.key === "string" && input.key.trim() ? input.key.trim() : slugify(label);
+  if (!SLUG_PATTERN.test(key)) {
+    throw new RubricError(
+      `Metric key "${key}" may only contain lowercase letters, digits, "-" and "_".`,
+    );
+  }
+  const weight = toNumber(input.weight ?? 1);
+  if (typeof weight !== "number" || !Number.isFinite(weight) || weight <= 0) {
+    throw new RubricError(`Weight for ${label} must be a positive number.`);
+  }
+  const scale = isRecord(input.scale) ? input.scale : {};
+  const min = toNumber(scale.min ?? TEN_POINT.min);
+  const max = toNumber(scale.max ?? TEN_POINT.max);
+  if (!Number.isFinite(min) || !Number.isFinite(max) || max <= min) {
+    throw new RubricError(`Scale for ${label} needs a minimum below its maximum.`);
+  }
+  return {
+    key,
+    label,
+    description: typeof input.description === "string" ? input.description.trim() : "",
+    weight,
+    scale: { min, max },
+  };
+}
+
+/** Checks an untrusted rubric definition, throwing `RubricError`. */
+export function validateRubric(input: unknown): Rubric {
+  if (!isRecord(input)) throw new RubricError("Rubric must be a JSON object.");
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name) throw new RubricError("Rubric needs a name.");
+  const id =
+    typeof input.id === "string" && input.id.trim() ? input.id.trim() : slugify(name);
+  if (!SLUG_PATTERN.test(id)) {
+    throw new RubricError(
+      `Rubric id "${id}" may only contain lowercase letters, digits, "-" and "_".`,
+    );
+  }
+  if (!Array.isArray(input.metrics) || !input.metrics.length) {
+    throw new RubricError("Rubric needs at least one metric.");
+  }
+  if (input.metrics.length > MAX_METRICS) {
+    throw new RubricError(`Rubrics are limited to ${MAX_METRICS} metrics.`);
+  }
+  const metrics = input.metrics.map(validateMetric);
+  const seen = new Set<string>();
+  metrics.forEach((metric) => {
+    if (seen.has(metric.key)) throw new RubricError(`Duplicate metric key "${metric.key}".`);
+    seen.add(metric.key);
+  });
+  return {
+    id,
+    name,
+    description: typeof input.description === "string" ? input.description.trim() : "",
+    metrics,
+  };
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { RunImportError, diffRuns, parseExportedRun } from "@/lib/runDiff";
+
+function exported(overrides: Record<string, unknown> = {}) {
+  return {
+    prompt: "Compare greenhouse layouts.",
+    mode: "text",
+    models: [
+      { id: "alpha", name: "Alpha", provider: "Acme", tags: [], modality: ["text"] },
+      { id: "beta", name: "Beta", provider: "Acme", tags: [], modality: ["text"] },
+    ],
+    userChoice: null,
+    result: {
+      responses: [
+        {
+          modelId: "alpha",
+          content: "Raised beds.",
+          supportingPoints: [],
+          modalityNotes: "",
+          overallScore: 7,
+          metrics: { clarity: 7 },
+        },
+      ],
+      crossEvaluations: [],
+      leaderboard: [{ modelId: "alpha", ownScore: 7, crossScore: 6, aggregateScore: 6.5 }],
+      geminiVerdict: null,
+      topThree: ["alpha"],
+      ...overrides,
+    },
+  };
+}
+
+function parse(payload: unknown) {
+  return () => parseExportedRun(JSON.stringify(payload));
+}
+
+describe("parseExportedRun", () => {
+  it("reads a raw export back", () => {
+    const run = parseExportedRun(JSON.stringify(exported()));
+    expect(run.result.responses[0].metrics.clarity).toBe(7);
+    expect(run.result.leaderboard[0].aggregateScore).toBe(6.5);
+  });
+
+  it("rejects responses that are not objects or lack their scores", () => {
+    expect(parse(exported({ responses: [null] }))).toThrow(RunImportError);
+    const [response] = exported().result.responses;
+    const { metrics: _metrics, ...withoutMetrics } = response;
+    expect(parse(exported({ responses: [withoutMetrics] }))).toThrow(/numeric metric scores/);
+    expect(parse(exported({ responses: [{ ...response, metrics: { clarity: "7" } }] }))).toThrow(
+      RunImportError,
+    );
+    expect(parse(exported({ responses: [{ ...response, modelId: 4 }] }))).toThrow(
+      "Response 1 needs a model id.",
+    );
+  });
+
+  it("rejects leaderboard entries without numeric scores", () => {
+    expect(parse(exported({ leaderboard: ["alpha"] }))).toThrow(RunImportError);
+    expect(
+      parse(exported({ leaderboard: [{ modelId: "alpha", ownScore: 7, crossScore: 6 }] })),
+    ).toThrow(/needs numeric scores/);
+  });
+
+  it("rejects roster entries without an id", () => {
+    expect(parse({ ...exported(), models: [null] })).toThrow(RunImportError);
+  });
+});
+
+describe("diffRuns", () => {
+  it("reports score and content changes by model", () => {
+    const base = parseExportedRun(JSON.stringify(exported()));
+    const compare = parseExportedRun(
+      JSON.stringify(
+        exported({
+          responses: [
+            {
+              ...exported().result.responses[0],
+              content: "Vertical racks.",
+              metrics: { clarity: 9 },
+            },
+          ],
+          leaderboard: [
+            { modelId: "alpha", ownScore: 9, crossScore: 8, aggregateScore: 8.5 },
+            { modelId: "beta", ownScore: 5, crossScore: 5, aggregateScore: 5 },
+          ],
+        }),
+      ),
+    );
+    const diff = diffRuns(base, compare);
+    const [alpha, beta] = diff.models;
+    expect(alpha).toMatchObject({ status: "both", name: "Alpha", contentChanged: true });
+    expect(alpha.aggregateScore.delta).toBe(2);
+    expect(alpha.metrics.clarity).toMatchObject({ before: 7, after: 9, delta: 2 });
+    expect(beta).toMatchObject({ status: "added", name: "Beta" });
+    expect(beta.metrics.clarity.before).toBeNull();
+  });
+});
@@ -0,0 +1,338 @@
+import type { LeaderboardEntry, ModelResponse, ResultState, RubricMetric } from "@/types";
+import type { ExportableRun } from "@/lib/exporters";
+import { validateAggregation } from "@/lib/aggregation";
+import { isRecord } from "@/lib/guards";
+import { resolveRubric, validateRubric } from "@/lib/rubrics";
+import { roundScore } from "@/lib/scoring";
+
+export class RunImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RunImportError";
+  }
+}
+
+export interface ScoreChange {
+  before: number | null;
+  after: number | null;
+  /** after − before, null when either side is missing. */
+  delta: number | null;
+}
+
+export interface RankChange {
+  before: number | null;
+  after: number | null;
+  /** Positive when the model climbed. */
+  move: number | null;
+}
+
+export type TextDiffKind = "same" | "added" | "removed";
+
+export interface TextDiffSegment {
+  kind: TextDiffKind;
+  text: string;
+}
+
+export type ModelDiffStatus = "both" | "added" | "removed";
+
+export interface ModelDiff {
+  modelId: string;
+  name: string;
+  status: ModelDiffStatus;
+  ownScore: ScoreChange;
+  crossScore: ScoreChange;
+  aggregateScore: ScoreChange;
+  /** Keyed by metric key across both runs' rubrics. */
+  metrics: Record<string, ScoreChange>;
+  leaderboardRank: RankChange;
+  arbiterRank: RankChange;
+  content: TextDiffSegment[];
+  contentChanged: boolean;
+}
+
+export interface RunDiff {
+  promptChanged: boolean;
+  modeChanged: boolean;
+  leaderChanged: boolean;
+  arbiterPickChanged: boolean;
+  rubricChanged: boolean;
+  /** Union of both rubrics' metrics, compare-side definitions first. */
+  metrics: RubricMetric[];
+  models: ModelDiff[];
+}
+
+/** Token products above this fall back to a line-level diff to bound memory. */
+const MAX_WORD_CELLS = 4_000_000;
+
+function isScore(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function validateResponse(input: unknown, index: number): ModelResponse {
+  if (!isRecord(input) || typeof input.modelId !== "string" || !input.modelId) {
+    throw new RunImportError(`Response ${index + 1} needs a model id.`);
+  }
+  if (typeof input.content !== "string" || !isScore(input.overallScore)) {
+    throw new RunImportError(`The response from ${input.modelId} needs its text and score.`);
+  }
+  if (!isRecord(input.metrics) || !Object.values(input.metrics).every(isScore)) {
+    throw new RunImportError(`The response from ${input.modelId} needs numeric metric scores.`);
+  }
+  return input as unknown as ModelResponse;
+}
+
+function validateLeaderboardEntry(input: unknown, index: number): LeaderboardEntry {
+  if (!isRecord(input) || typeof input.modelId !== "string" || !input.modelId) {
+    throw new RunImportError(`Leaderboard entry ${index + 1} needs a model id.`);
+  }
+  if (![input.ownScore, input.crossScore, input.aggregateScore].every(isScore)) {
+    throw new RunImportError(`The leaderboard entry for ${input.modelId} needs numeric scores.`);
+  }
+  return input as unknown as LeaderboardEntry;
+}
+
+/**
+ * Reads a run back from the raw JSON export, or from a stored run as served by
+ * `/api/runs/[id]`.
+ */
+export function parseExportedRun(text: string): ExportableRun {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    throw new RunImportError("The file is not valid JSON.");
+  }
+  if (!isRecord(payload)) {
+    throw new RunImportError("Expected a run object.");
+  }
+  const source = isRecord(payload.result) ? payload.result : payload;
+  if (!Array.isArray(source.responses) || !Array.isArray(source.leaderboard)) {
+    throw new RunImportError("The file does not look like an arena run export.");
+  }
+  if (typeof payload.prompt !== "string" || !Array.isArray(payload.models)) {
+    throw new RunImportError("The export is missing its prompt or model roster.");
+  }
+  if (!payload.models.every((model) => isRecord(model) && typeof model.id === "string")) {
+    throw new RunImportError("Every model in the roster needs an id.");
+  }
+  let rubric: ResultState["rubric"];
+  if (source.rubric != null) {
+    try {
+      rubric = validateRubric(source.rubric);
+    } catch (error) {
+      throw new RunImportError(
+        `The export's rubric is invalid: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+  let aggregation: ResultState["aggregation"];
+  if (source.aggregation != null) {
+    try {
+      aggregation = validateAggregation(source.aggregation);
+    } catch (error) {
+      throw new RunImportError(
+        `The export's aggregation is invalid: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+  const result: ResultState = {
+    ...(rubric ? { rubric } : {}),
+    ...(aggregation ? { aggregation } : {}),
+    ...(Array.isArray(source.samples)
+      ? { samples: source.samples as ResultState["samples"] }
+      : {}),
+    responses: source.responses.map(validateResponse),
+    crossEvaluations: Array.isArray(source.crossEvaluations)
+      ? (source.crossEvaluations as ResultState["crossEvaluations"])
+      : [],
+    leaderboard: source.leaderboard.map(validateLeaderboardEntry),
+    ...(isRecord(source.significance)
+      ? { significance: source.significance as unknown as ResultState["significance"] }
+      : {}),
+    ...(isRecord(source.arbiter)
+      ? { arbiter: source.arbiter as unknown as ResultState["arbiter"] }
+      : {}),
+    geminiVerdict:
+      isRecord(source.geminiVerdict) && Array.isArray(source.geminiVerdict.orderedModelIds)
+        ? (source.geminiVerdict as unknown as ResultState["geminiVerdict"])
+        : null,
+    topThree: Array.isArray(source.topThree) ? (source.topThree as string[]) : [],
+    ...(isRecord(source.aliases)
+      ? { aliases: source.aliases as Record<string, string> }
+      : {}),
+  };
+  return {
+    id: typeof payload.id === "string" ? payload.id : undefined,
+    createdAt: typeof payload.createdAt === "string" ? payload.createdAt : undefined,
+    prompt: payload.prompt,
+    systemPrompt: typeof payload.systemPrompt === "string" ? payload.systemPrompt : undefined,
+    template: isRecord(payload.template)
+      ? (payload.template as unknown as ExportableRun["template"])
+      : undefined,
+    scenario: Array.isArray(payload.scenario)
+      ? (payload.scenario as ExportableRun["scenario"])
+      : undefined,
+    toolkit: isRecord(payload.toolkit)
+      ? (payload.toolkit as unknown as ExportableRun["toolkit"])
+      : undefined,
+    mode: (payload.mode as ExportableRun["mode"]) ?? "text",
+    imageDescriptor: typeof payload.imageDescriptor === "string" ? payload.imageDescriptor : null,
+    models: payload.models as ExportableRun["models"],
+    judges: Array.isArray(payload.judges) ? (payload.judges as ExportableRun["judges"]) : undefined,
+    userChoice: typeof payload.userChoice === "string" ? payload.userChoice : null,
+    battles: Array.isArray(payload.battles)
+      ? (payload.battles as ExportableRun["battles"])
+      : undefined,
+    result,
+  };
+}
+
+function tokenize(text: string, byLine: boolean): string[] {
+  return byLine ? text.split(/(?<=\n)/) : text.split(/(\s+)/).filter(Boolean);
+}
+
+/** Word-level LCS diff; identical neighbours are merged into one segment. */
+export function diffText(before: string, after: string): TextDiffSegment[] {
+  let byLine = false;
+  let left = tokenize(before, byLine);
+  let right = tokenize(after, byLine);
+  if ((left.length + 1) * (right.length + 1) > MAX_WORD_CELLS) {
+    byLine = true;
+    left = tokenize(before, byLine);
+    right = tokenize(after, byLine);
+  }
+
+  const width = right.length + 1;
+  const lengths = new Uint32Array((left.length + 1) * width);
+  for (let i = left.length - 1; i >= 0; i -= 1) {
+    for (let j = right.length - 1; j >= 0; j -= 1) {
+      lengths[i * width + j] =
+        left[i] === right[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const segments: TextDiffSegment[] = [];
+  const push = (kind: TextDiffKind, text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else segments.push({ kind, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    if (left[i] === right[j]) {
+      push("same", left[i]);
+      i += 1;
+      j += 1;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push("removed", left[i]);
+      i += 1;
+    } else {
+      push("added", right[j]);
+      j += 1;
+    }
+  }
+  left.slice(i).forEach((token) => push("removed", token));
+  right.slice(j).forEach((token) => push("added", token));
+  return segments;
+}
+
+function scoreChange(before: number | undefined, after: number | undefined): ScoreChange {
+  const from = before ?? null;
+  const to = after ?? null;
+  return {
+    before: from,
+    after: to,
+    delta: from !== null && to !== null ? roundScore(to - from) : null,
+  };
+}
+
+function rankChange(ordering: string[] | undefined, next: string[] | undefined, modelId: string) {
+  const rankIn = (list: string[] | undefined) => {
+    const index = list?.indexOf(modelId) ?? -1;
+    return index >= 0 ? index + 1 : null;
+  };
+  const before = rankIn(ordering);
+  const after = rankIn(next);
+  return { before, after, move: before !== null && after !== null ? before - after : null };
+}
+
+/**
+ * Lines two runs up by model id. `base` is the earlier run; every delta is
+ * reported as compare − base.
+ */
+export function diffRuns(base: ExportableRun, compare: ExportableRun): RunDiff {
+  const baseResult = base.result;
+  const compareResult = compare.result;
+  const baseRubric = resolveRubric(baseResult);
+  const compareRubric = resolveRubric(compareResult);
+  const metricDefinitions = [
+    ...compareRubric.metrics,
+    ...baseRubric.metrics.filter(
+      (metric) => !compareRubric.metrics.some((item) => item.key === metric.key),
+    ),
+  ];
+  const modelIds = Array.from(
+    new Set([
+      ...baseResult.leaderboard.map((entry) => entry.modelId),
+      ...compareResult.leaderboard.map((entry) => entry.modelId),
+    ]),
+  );
+  const baseOrder = baseResult.leaderboard.map((entry) => entry.modelId);
+  const compareOrder = compareResult.leaderboard.map((entry) => entry.modelId);
+  const nameOf = (modelId: string) =>
+    compare.models.find((model) => model.id === modelId)?.name ??
+    base.models.find((model) => model.id === modelId)?.name ??
+    modelId;
+
+  const models = modelIds.map((modelId): ModelDiff => {
+    const before = baseResult.leaderboard.find((entry) => entry.modelId === modelId);
+    const after = compareResult.leaderboard.find((entry) => entry.modelId === modelId);
+    const beforeResponse = baseResult.responses.find((item) => item.modelId === modelId);
+    const afterResponse = compareResult.responses.find((item) => item.modelId === modelId);
+    const metrics: Record<string, ScoreChange> = {};
+    metricDefinitions.forEach(({ key }) => {
+      metrics[key] = scoreChange(beforeResponse?.metrics[key], afterResponse?.metrics[key]);
+    });
+    const beforeContent = beforeResponse?.content ?? "";
+    const afterContent = afterResponse?.content ?? "";
+    return {
+      modelId,
+      name: nameOf(modelId),
+      status: before && after ? "both" : after ? "added" : "removed",
+      ownScore: scoreChange(before?.ownScore, after?.ownScore),
+      crossScore: scoreChange(before?.crossScore, after?.crossScore),
+      aggregateScore: scoreChange(before?.aggregateScore, after?.aggregateScore),
+      metrics,
+      leaderboardRank: rankChange(baseOrder, compareOrder, modelId),
+      arbiterRank: rankChange(
+        baseResult.geminiVerdict?.orderedModelIds,
+        compareResult.geminiVerdict?.orderedModelIds,
+        modelId,
+      ),
+      content: diffText(beforeContent, afterContent),
+      contentChanged: beforeContent !== afterContent,
+    };
+  });
+
+  models.sort(
+    (a, b) =>
+      (a.leaderboardRank.after ?? Number.MAX_SAFE_INTEGER) -
+        (b.leaderboardRank.after ?? Number.MAX_SAFE_INTEGER) ||
+      (a.leaderboardRank.before ?? 0) - (b.leaderboardRank.before ?? 0),
+  );
+
+  return {
+    promptChanged: base.prompt !== compare.prompt,
+    modeChanged: base.mode !== compare.mode,
+    leaderChanged: baseOrder[0] !== compareOrder[0],
+    arbiterPickChanged:
+      baseResult.geminiVerdict?.orderedModelIds[0] !==
+      compareResult.geminiVerdict?.orderedModelIds[0],
+    rubricChanged: JSON.stringify(baseRubric) !== JSON.stringify(compareRubric),
+    metrics: metricDefinitions,
+    models,
+  };
+}
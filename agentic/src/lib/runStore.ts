@@ -0,0 +1,98 @@
+import { randomUUID } from "crypto";
+import type { BattleVote, ModelOption, ResultState, RunSummary, StoredRun } from "@/types";
+import { describeRequestAttachments, type EvaluationRequest } from "@/lib/arena";
+import { createJsonStore } from "@/lib/jsonStore";
+import { MODEL_OPTIONS } from "@/lib/models";
+
+const store = createJsonStore<StoredRun[]>("runs.json", () => []);
+
+export type NewRun = Omit<StoredRun, "id" | "createdAt" | "userChoice">;
+
+export async function listRuns(): Promise<StoredRun[]> {
+  const runs = await store.read();
+  return [...runs].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getRun(id: string): Promise<StoredRun | null> {
+  const runs = await store.read();
+  return runs.find((run) => run.id === id) ?? null;
+}
+
+export async function saveRun(input: NewRun): Promise<StoredRun> {
+  const run: StoredRun = {
+    ...input,
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    userChoice: null,
+  };
+  await store.update((runs) => [...runs, run]);
+  return run;
+}
+
+export function saveEvaluationRun(
+  request: EvaluationRequest,
+  result: ResultState,
+  models: ModelOption[] = MODEL_OPTIONS,
+): Promise<StoredRun> {
+  const judges = models.filter(
+    (model) =>
+      request.arbiter?.judgeIds.includes(model.id) && !request.modelIds.includes(model.id),
+  );
+  return saveRun({
+    prompt: request.prompt,
+    mode: request.mode,
+    imageDescriptor: describeRequestAttachments(request) ?? null,
+    models: models.filter((model) => request.modelIds.includes(model.id)),
+    ...(request.systemPrompt ? { systemPrompt: request.systemPrompt } : {}),
+    ...(request.template ? { template: request.template } : {}),
+    ...(request.scenario ? { scenario: request.scenario } : {}),
+    ...(request.toolkit ? { toolkit: request.toolkit } : {}),
+    ...(request.params ? { params: request.params } : {}),
+    ...(request.modelParams ? { modelParams: request.modelParams } : {}),
+    ...(judges.length ? { judges } : {}),
+    runCounter: request.runCounter ?? 0,
+    result,
+  });
+}
+
+export async function recordUserChoice(
+  id: string,
+  userChoice: string | null,
+): Promise<StoredRun | null> {
+  let updated: StoredRun | null = null;
+  await store.update((runs) =>
+    runs.map((run) => {
+      if (run.id !== id) return run;
+      updated = { ...run, userChoice };
+      return updated;
+    }),
+  );
+  return updated;
+}
+
+export async function recordBattle(
+  id: string,
+  vote: BattleVote,
+): Promise<StoredRun | null> {
+  let updated: StoredRun | null = null;
+  await store.update((runs) =>
+    runs.map((run) => {
+      if (run.id !== id) return run;
+      updated = { ...run, battles: [...(run.battles ?? []), vote] };
+      return updated;
+    }),
+  );
+  return updated;
+}
+
+export function summariseRun(run: StoredRun): RunSummary {
+  return {
+    id: run.id,
+    createdAt: run.createdAt,
+    prompt: run.prompt,
+    mode: run.mode,
+    modelIds: run.models.map((model) => model.id),
+    arbiterPick: run.result.geminiVerdict?.orderedModelIds[0] ?? null,
+    userChoice: run.userChoice,
+  };
+}
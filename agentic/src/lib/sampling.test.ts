@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import type { LeaderboardEntry, ModelResponse, SampleRound } from "@/types";
+import { DEFAULT_RUBRIC } from "./rubrics";
+import { combineSampleRounds, formatSpread, scoreSpread } from "./sampling";
+
+function round(scores: Record<string, number>[], aggregate: number[]): SampleRound {
+  const modelIds = ["alpha", "beta"];
+  return {
+    responses: modelIds.map((modelId, index): ModelResponse => ({
+      modelId,
+      content: "",
+      supportingPoints: [],
+      modalityNotes: "",
+      overallScore: aggregate[index],
+      metrics: scores[index],
+    })),
+    crossEvaluations: [],
+    leaderboard: modelIds.map((modelId, index): LeaderboardEntry => ({
+      modelId,
+      ownScore: aggregate[index],
+      crossScore: aggregate[index],
+      aggregateScore: aggregate[index],
+    })),
+  };
+}
+
+describe("scoreSpread", () => {
+  it("reports the mean and unbiased variance", () => {
+    expect(scoreSpread([6, 8])).toEqual({ mean: 7, variance: 2 });
+    expect(scoreSpread([5])).toEqual({ mean: 5, variance: 0 });
+  });
+});
+
+describe("combineSampleRounds", () => {
+  it("averages every round and ranks by the mean aggregate", () => {
+    const rounds = [
+      round([{ clarity: 6 }, { clarity: 9 }], [6, 9]),
+      round([{ clarity: 8 }, { clarity: 9 }], [8, 7]),
+    ];
+    const [first, second] = combineSampleRounds(rounds, DEFAULT_RUBRIC);
+    expect(first.modelId).toBe("beta");
+    expect(first.spread?.aggregateScore).toEqual({ mean: 8, variance: 2 });
+    expect(second.spread?.metrics.clarity).toEqual({ mean: 7, variance: 2 });
+    expect(second.spread?.samples).toBe(2);
+  });
+
+  it("skips rounds where a peer-scored answer lacks a metric", () => {
+    const rounds = [
+      round([{ clarity: 6 }, { clarity: 9 }], [6, 9]),
+      round([{}, { clarity: 9 }], [8, 7]),
+      round([{ clarity: 8 }, { clarity: 9 }], [7, 8]),
+    ];
+    const alpha = combineSampleRounds(rounds, DEFAULT_RUBRIC).find(
+      (entry) => entry.modelId === "alpha",
+    );
+    expect(alpha?.spread?.metrics.clarity).toEqual({ mean: 7, variance: 2, samples: 2 });
+    expect(alpha?.spread?.metrics.depth).toBeUndefined();
+    expect(formatSpread(alpha?.spread?.metrics.clarity)).toBe("7.00 ± 2.000 (n=2)");
+    expect(formatSpread(alpha?.spread?.metrics.depth)).toBe("-");
+  });
+});
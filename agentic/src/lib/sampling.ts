@@ -0,0 +1,71 @@
+import type { LeaderboardEntry, Rubric, SampleRound, SampleSpread, ScoreSpread } from "@/types";
+import { average, roundScore } from "@/lib/scoring";
+
+export const MAX_SAMPLES = 5;
+
+/** The first sample keeps the run seed, so single-sample runs are unchanged. */
+export function sampleSeed(seed: string, index: number): string {
+  return index === 0 ? seed : `${seed}|sample-${index + 1}`;
+}
+
+/** Mean and unbiased sample variance; a single value has zero variance. */
+export function scoreSpread(values: number[]): ScoreSpread {
+  const mean = average(values);
+  const variance =
+    values.length > 1
+      ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1)
+      : 0;
+  return { mean: roundScore(mean), variance: roundScore(variance, 3) };
+}
+
+export function formatSpread(spread: ScoreSpread | undefined): string {
+  if (!spread) return "-";
+  const text = `${spread.mean.toFixed(2)} ± ${spread.variance.toFixed(3)}`;
+  return spread.samples === undefined ? text : `${text} (n=${spread.samples})`;
+}
+
+/**
+ * Folds per-round leaderboards into one ranked by mean aggregate score. Each
+ * entry reports the mean and variance of its own metric scores and of its
+ * aggregate across rounds; a metric missing from some rounds is taken over the rest.
+ */
+export function combineSampleRounds(rounds: SampleRound[], rubric: Rubric): LeaderboardEntry[] {
+  const modelIds = rounds[0]?.leaderboard.map((entry) => entry.modelId) ?? [];
+  const entries = modelIds.map((modelId) => {
+    const rows = rounds.flatMap((round) =>
+      round.leaderboard.filter((entry) => entry.modelId === modelId),
+    );
+    const responses = rounds.flatMap((round) =>
+      round.responses.filter((response) => response.modelId === modelId),
+    );
+    const metrics: SampleSpread["metrics"] = {};
+    rubric.metrics.forEach((metric) => {
+      const values = responses
+        .map((response) => response.metrics[metric.key])
+        .filter((value): value is number => typeof value === "number" && Number.isFinite(value));
+      if (!values.length) return;
+      metrics[metric.key] = {
+        ...scoreSpread(values),
+        ...(values.length < rows.length ? { samples: values.length } : {}),
+      };
+    });
+    const aggregateScore = scoreSpread(rows.map((entry) => entry.aggregateScore));
+    const entry: LeaderboardEntry = {
+      modelId,
+      ownScore: roundScore(average(rows.map((row) => row.ownScore))),
+      crossScore: roundScore(average(rows.map((row) => row.crossScore))),
+      aggregateScore: aggregateScore.mean,
+      spread: { samples: rows.length, metrics, aggregateScore },
+    };
+    if (rows.some((row) => row.reviewerWeight !== undefined)) {
+      entry.reviewerWeight = roundScore(average(rows.map((row) => row.reviewerWeight ?? 1)));
+    }
+    if (rows.some((row) => row.toolScore !== undefined)) {
+      entry.toolScore = roundScore(average(rows.map((row) => row.toolScore ?? 0)));
+    }
+    return entry;
+  });
+  return entries.sort(
+    (a, b) => b.aggregateScore - a.aggregateScore || a.modelId.localeCompare(b.modelId),
+  );
+}
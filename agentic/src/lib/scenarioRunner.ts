@@ -0,0 +1,148 @@
+import type {
+  CrossEvaluation,
+  MetricScores,
+  ModelOption,
+  ModelResponse,
+  ScenarioTurn,
+  TranscriptTurn,
+} from "@/types";
+import {
+  fetchCrossEvaluation,
+  fetchModelResponse,
+  type ChatMessage,
+  type ProviderRegistry,
+  type ResponseRequest,
+} from "@/lib/providers";
+import { DEFAULT_RUBRIC } from "@/lib/rubrics";
+import { formatTranscript, simulateFollowUp } from "@/lib/scenarios";
+import { roundScore, weightedOverall } from "@/lib/scoring";
+
+/** The opening turn keeps the run's seed, so it matches the single-shot answer. */
+function turnSeed(seed: string, index: number): string {
+  return index ? `${seed}|turn|${index}` : seed;
+}
+
+function meanMetrics(transcript: TranscriptTurn[], request: ResponseRequest): MetricScores {
+  const metrics: MetricScores = {};
+  (request.rubric ?? DEFAULT_RUBRIC).metrics.forEach((metric) => {
+    const values = transcript
+      .map((turn) => turn.metrics?.[metric.key])
+      .filter((value): value is number => value !== undefined);
+    if (values.length) {
+      metrics[metric.key] = roundScore(
+        values.reduce((sum, value) => sum + value, 0) / values.length,
+        1,
+      );
+    }
+  });
+  return metrics;
+}
+
+/** The task as reviewers see it for one turn: the dialogue so far, the message and the bar. */
+function describeTurn(transcript: TranscriptTurn[], index: number): string {
+  const earlier = transcript
+    .slice(0, index)
+    .map((turn) => `User: ${turn.user}\nAssistant: ${turn.reply}`)
+    .join("\n\n");
+  const turn = transcript[index];
+  return [
+    earlier ? `Conversation so far:\n${earlier}\n\n` : "",
+    `Latest user message (turn ${index + 1} of ${transcript.length}):\n${turn.user}`,
+    turn.expectation ? `\n\nA good reply: ${turn.expectation}` : "",
+  ].join("");
+}
+
+/** The task as reviewers see it for the whole conversation. */
+function describeScenario(scenario: ScenarioTurn[]): string {
+  const turns = scenario
+    .map(
+      (turn, index) =>
+        `${index + 1}. ${turn.simulated ? `(simulated user, quoting the last reply) ${turn.content}` : turn.content}${
+          turn.expectation ? `\n   A good reply: ${turn.expectation}` : ""
+        }`,
+    )
+    .join("\n");
+  return `A multi-turn conversation. Judge the whole transcript, including how the candidate handled each follow-up.\nUser turns:\n${turns}`;
+}
+
+/**
+ * Runs `model` through the scripted dialogue, one provider call per turn with
+ * the earlier exchanges as history. Simulated turns are written from the
+ * model's own previous reply.
+ */
+export async function fetchConversation(
+  registry: ProviderRegistry,
+  model: ModelOption,
+  request: ResponseRequest,
+  scenario: ScenarioTurn[],
+): Promise<ModelResponse> {
+  const history: ChatMessage[] = [];
+  const transcript: TranscriptTurn[] = [];
+  let previous: ModelResponse | null = null;
+  for (let index = 0; index < scenario.length; index += 1) {
+    const turn = scenario[index];
+    const user =
+      turn.simulated && previous
+        ? simulateFollowUp(turn.content, previous, `${request.seed}|simulated|${model.id}|${index}`)
+        : turn.content;
+    const reply: ModelResponse = await fetchModelResponse(registry, model, {
+      ...request,
+      prompt: user,
+      seed: turnSeed(request.seed, index),
+      history: [...history],
+    });
+    transcript.push({
+      user,
+      reply: reply.content,
+      ...(turn.simulated ? { simulated: true } : {}),
+      ...(turn.expectation ? { expectation: turn.expectation } : {}),
+      ...(reply.peerScored ? {} : { overallScore: reply.overallScore, metrics: reply.metrics }),
+    });
+    history.push({ role: "user", content: user }, { role: "assistant", content: reply.content });
+    previous = reply;
+  }
+  // Remote turns carry no metrics, leaving the conversation to peer scoring.
+  const metrics = meanMetrics(transcript, request);
+  return {
+    ...(previous as ModelResponse),
+    content: formatTranscript(transcript),
+    overallScore: previous?.peerScored ? 0 : weightedOverall(metrics, request.rubric),
+    metrics,
+    transcript,
+  };
+}
+
+/**
+ * Has `evaluator` score every turn of `target`'s conversation against its
+ * expectation, then the transcript as a whole. The whole-conversation score is
+ * the one the leaderboard aggregates.
+ */
+export async function fetchConversationReview(
+  registry: ProviderRegistry,
+  evaluator: ModelOption,
+  target: ModelOption,
+  targetResponse: ModelResponse,
+  request: ResponseRequest,
+  scenario: ScenarioTurn[],
+): Promise<CrossEvaluation> {
+  const transcript = targetResponse.transcript ?? [];
+  const [whole, ...turns] = await Promise.all([
+    fetchCrossEvaluation(registry, evaluator, target, targetResponse, {
+      ...request,
+      prompt: describeScenario(scenario),
+    }),
+    ...transcript.map((turn, index) =>
+      fetchCrossEvaluation(
+        registry,
+        evaluator,
+        target,
+        { ...targetResponse, content: turn.reply },
+        { ...request, prompt: describeTurn(transcript, index), seed: turnSeed(request.seed, index) },
+      ),
+    ),
+  ]);
+  return {
+    ...whole,
+    turns: turns.map(({ metrics, overall, commentary }) => ({ metrics, overall, commentary })),
+  };
+}
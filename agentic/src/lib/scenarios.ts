@@ -0,0 +1,100 @@
+import type { CrossEvaluation, ModelResponse, ScenarioTurn, TranscriptTurn } from "@/types";
+import { isRecord } from "@/lib/guards";
+import { createRandom, pickOne } from "@/lib/random";
+import { roundScore } from "@/lib/scoring";
+
+export const MAX_TURNS = 6;
+const MAX_TURN_LENGTH = 4000;
+
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScenarioError";
+  }
+}
+
+/**
+ * Checks an untrusted conversation script. The first turn must be the run's
+ * prompt, so history, exports and seeds keep describing the run by it.
+ */
+export function validateScenario(input: unknown, prompt: string): ScenarioTurn[] {
+  if (!Array.isArray(input) || !input.length) {
+    throw new ScenarioError("scenario must be a non-empty list of turns.");
+  }
+  if (input.length > MAX_TURNS) {
+    throw new ScenarioError(`Scenarios are limited to ${MAX_TURNS} turns.`);
+  }
+  const turns = input.map((item, index): ScenarioTurn => {
+    const label = `Turn ${index + 1}`;
+    if (!isRecord(item)) {
+      throw new ScenarioError(`${label} must be an object.`);
+    }
+    const content = typeof item.content === "string" ? item.content.trim() : "";
+    if (!content) {
+      throw new ScenarioError(`${label} needs a message.`);
+    }
+    if (content.length > MAX_TURN_LENGTH) {
+      throw new ScenarioError(`${label} is longer than ${MAX_TURN_LENGTH} characters.`);
+    }
+    if (item.simulated != null && typeof item.simulated !== "boolean") {
+      throw new ScenarioError(`${label}: simulated must be true or false.`);
+    }
+    if (item.expectation != null && typeof item.expectation !== "string") {
+      throw new ScenarioError(`${label}: expectation must be a string.`);
+    }
+    const expectation = ((item.expectation as string | undefined) ?? "").trim();
+    return {
+      content,
+      ...(item.simulated ? { simulated: true } : {}),
+      ...(expectation ? { expectation } : {}),
+    };
+  });
+  if (turns[0].simulated) {
+    throw new ScenarioError("The first turn cannot be simulated; there is no reply to react to yet.");
+  }
+  if (turns[0].content !== prompt.trim()) {
+    throw new ScenarioError("The first turn must be the run's prompt.");
+  }
+  return turns;
+}
+
+/**
+ * The simulated user's message: it quotes one point from the model's previous
+ * reply ahead of the turn's ask, so every model is pushed on its own words.
+ */
+export function simulateFollowUp(
+  ask: string,
+  previous: Pick<ModelResponse, "supportingPoints">,
+  seed: string,
+): string {
+  if (!previous.supportingPoints.length) return `Following up on your last answer: ${ask}`;
+  const point = pickOne(createRandom(seed), previous.supportingPoints);
+  return `You said: "${point}" ${ask}`;
+}
+
+/** Plain-text transcript, used as the response content reviewers and exports read. */
+export function formatTranscript(transcript: TranscriptTurn[]): string {
+  return transcript
+    .map((turn, index) => `[Turn ${index + 1}] User: ${turn.user}\n\nAssistant: ${turn.reply}`)
+    .join("\n\n");
+}
+
+/** Mean peer score of each turn of `targetId`'s conversation; null where no peer scored it. */
+export function turnPeerScores(
+  crossEvaluations: CrossEvaluation[],
+  targetId: string,
+): Array<number | null> {
+  const reviews = crossEvaluations.filter(
+    (item) => item.targetId === targetId && item.evaluatorId !== targetId && item.turns,
+  );
+  const turnCount = Math.max(0, ...reviews.map((item) => item.turns?.length ?? 0));
+  return Array.from({ length: turnCount }, (_, index) => {
+    const scores = reviews.flatMap((item) => {
+      const turn = item.turns?.[index];
+      return turn ? [turn.overall] : [];
+    });
+    return scores.length
+      ? roundScore(scores.reduce((sum, score) => sum + score, 0) / scores.length)
+      : null;
+  });
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import type { CrossEvaluation, ModelResponse, Rubric } from "@/types";
+import { MODEL_OPTIONS } from "./models";
+import { DEFAULT_RUBRIC } from "./rubrics";
+import {
+  buildResponseSeed,
+  computeLeaderboard,
+  generateCrossEvaluation,
+  generateModelResponse,
+  joinNames,
+  marginConfidence,
+  scoreFromPeers,
+  summariseAlignment,
+  weightedOverall,
+} from "./scoring";
+
+const [gpt, claude, gemini] = MODEL_OPTIONS;
+
+function review(evaluatorId: string, targetId: string, score: number): CrossEvaluation {
+  const metrics = Object.fromEntries(DEFAULT_RUBRIC.metrics.map(({ key }) => [key, score]));
+  return { evaluatorId, targetId, metrics, overall: score, commentary: "" };
+}
+
+describe("generateModelResponse", () => {
+  const seed = buildResponseSeed("Explain the tides", "text", undefined, 0);
+
+  it("is deterministic for a seed", () => {
+    expect(generateModelResponse(gpt, "Explain the tides", "text", undefined, seed)).toEqual(
+      generateModelResponse(gpt, "Explain the tides", "text", undefined, seed),
+    );
+  });
+
+  it("changes with the run counter", () => {
+    const other = buildResponseSeed("Explain the tides", "text", undefined, 1);
+    expect(generateModelResponse(gpt, "Explain the tides", "text", undefined, other)).not.toEqual(
+      generateModelResponse(gpt, "Explain the tides", "text", undefined, seed),
+    );
+  });
+
+  it("scores every rubric metric on its scale and blends them into the overall", () => {
+    const response = generateModelResponse(claude, "Explain the tides", "text", undefined, seed);
+    DEFAULT_RUBRIC.metrics.forEach(({ key }) => {
+      expect(response.metrics[key]).toBeGreaterThanOrEqual(0);
+      expect(response.metrics[key]).toBeLessThanOrEqual(10);
+    });
+    expect(response.overallScore).toBe(weightedOverall(response.metrics));
+    expect(response.content.startsWith(claude.name)).toBe(true);
+  });
+
+  it("flags the channels a model cannot take", () => {
+    const textOnly = { ...gpt, id: "text-only", modality: ["text" as const] };
+    const response = generateModelResponse(textOnly, "Describe this", "image", "plan.png", seed);
+    expect(response.missingModalities).toEqual(["vision"]);
+  });
+});
+
+describe("generateCrossEvaluation", () => {
+  it("is deterministic and gives self-reviews a lift only when not blind", () => {
+    const args = ["Explain the tides", "text", "seed"] as const;
+    expect(generateCrossEvaluation(gpt, claude, ...args)).toEqual(
+      generateCrossEvaluation(gpt, claude, ...args),
+    );
+    const sighted = generateCrossEvaluation(gpt, gpt, ...args);
+    const blind = generateCrossEvaluation(gpt, gpt, ...args, DEFAULT_RUBRIC, [], true);
+    expect(sighted.overall).toBeGreaterThanOrEqual(blind.overall);
+  });
+});
+
+describe("weightedOverall", () => {
+  it("renormalises the weights of the metrics that are present", () => {
+    const rubric: Rubric = {
+      ...DEFAULT_RUBRIC,
+      metrics: [
+        { key: "a", label: "A", description: "", weight: 3, scale: { min: 0, max: 10 } },
+        { key: "b", label: "B", description: "", weight: 1, scale: { min: 0, max: 10 } },
+      ],
+    };
+    expect(weightedOverall({ a: 8, b: 4 }, rubric)).toBe(7);
+    expect(weightedOverall({ b: 4 }, rubric)).toBe(4);
+    expect(weightedOverall({}, rubric)).toBe(0);
+  });
+});
+
+describe("computeLeaderboard", () => {
+  const responses = [gpt, claude, gemini].map((model) =>
+    generateModelResponse(model, "Explain the tides", "text", undefined, "board"),
+  );
+  const crossEvaluations = [
+    review(gpt.id, claude.id, 9),
+    review(gemini.id, claude.id, 9),
+    review(claude.id, gpt.id, 5),
+    review(gemini.id, gpt.id, 5),
+    review(gpt.id, gemini.id, 7),
+    review(claude.id, gemini.id, 7),
+  ];
+
+  it("ranks by aggregate score with peer scores from the other reviewers", () => {
+    const board = computeLeaderboard({ responses, crossEvaluations });
+    expect(board.map((entry) => entry.modelId)).toEqual([claude.id, gemini.id, gpt.id]);
+    expect(board[0].crossScore).toBe(9);
+    board.forEach((entry, index) => {
+      if (index) expect(entry.aggregateScore).toBeLessThanOrEqual(board[index - 1].aggregateScore);
+    });
+  });
+
+  it("gives peer-scored answers their peer score as the own score", () => {
+    const remote: ModelResponse = {
+      ...responses[0],
+      overallScore: 0,
+      metrics: {},
+      peerScored: true,
+    };
+    const scored = scoreFromPeers(remote, crossEvaluations);
+    expect(scored.overallScore).toBe(5);
+    const [entry] = computeLeaderboard({ responses: [scored], crossEvaluations }).filter(
+      (item) => item.modelId === gpt.id,
+    );
+    expect(entry.ownScore).toBe(entry.crossScore);
+  });
+});
+
+describe("verdict helpers", () => {
+  it("scales confidence with the leader's margin", () => {
+    expect(marginConfidence([8, 8])).toBe(0.5);
+    expect(marginConfidence([9, 7])).toBe(1);
+    expect(marginConfidence([7])).toBe(1);
+    expect(marginConfidence([])).toBe(0);
+  });
+
+  it("summarises how the user's pick sits against the arbiter", () => {
+    const verdict = { orderedModelIds: ["a", "b"], commentary: "", rationales: {} };
+    expect(summariseAlignment(verdict, "a").alignment).toBe("aligned");
+    expect(summariseAlignment(verdict, "b")).toEqual({ alignment: "partial", delta: 1 });
+    expect(summariseAlignment(verdict, "c").alignment).toBe("divergent");
+  });
+
+  it("joins names in prose", () => {
+    expect(joinNames(["A", "B", "C"])).toBe("A, B and C");
+    expect(joinNames(["A"])).toBe("A");
+  });
+});
@@ -0,0 +1,547 @@
+import type {
+  AggregationConfig,
+  AttachmentKind,
+  CrossEvaluation,
+  GeminiVerdict,
+  LeaderboardEntry,
+  MetricScores,
+  ModelModality,
+  ModelOption,
+  ModelResponse,
+  PromptMode,
+  Rubric,
+  RubricMetric,
+} from "@/types";
+import {
+  blendScores,
+  centralScore,
+  DEFAULT_AGGREGATION,
+  normaliseReviews,
+  reviewerReliability,
+} from "./aggregation";
+import { requiredModalities } from "./attachments";
+import { missingModalities } from "./models";
+import { createRandom, pickMany, pickOne, randomBetween } from "./random";
+import { clampToScale, DEFAULT_RUBRIC, normaliseMetric, toMetricScale } from "./rubrics";
+
+/** Metric keys of the default rubric. */
+export const METRIC_KEYS: string[] = DEFAULT_RUBRIC.metrics.map((metric) => metric.key);
+
+const DEFAULT_BASELINE: MetricScores = {
+  clarity: 7,
+  relevance: 7,
+  accuracy: 7,
+  depth: 6.8,
+  safety: 7.5,
+};
+
+/** Share of the missing-modality penalty each metric takes; custom metrics share it evenly. */
+const MODALITY_PENALTY_SHARE: MetricScores = {
+  clarity: 0,
+  relevance: 1,
+  accuracy: 0.6,
+  depth: 0,
+  safety: 0,
+};
+const CUSTOM_MODALITY_PENALTY_SHARE = 0.8;
+
+/** Default-rubric metrics the arbiter leans on when re-scoring finalists. */
+const RIGOUR_KEYS = ["accuracy", "depth"];
+
+/** Share of the aggregate that tool use carries on toolkit runs; the answer keeps the rest. */
+const TOOL_USE_WEIGHT = 1 / 3;
+
+const TAG_AFFINITIES: Record<string, Partial<MetricScores>> = {
+  reasoning: { accuracy: 0.4, depth: 0.3 },
+  analysis: { depth: 0.4, clarity: 0.2 },
+  alignment: { safety: 0.5 },
+  tools: { relevance: 0.3 },
+  orchestration: { relevance: 0.2, clarity: 0.2 },
+  "long-context": { depth: 0.3 },
+  multimodal: { relevance: 0.2 },
+  "vision-language": { relevance: 0.2 },
+  instruction: { clarity: 0.3 },
+  balanced: { clarity: 0.15, safety: 0.15 },
+  multilingual: { clarity: 0.15 },
+  creative: { depth: 0.2, accuracy: -0.15 },
+  open: { safety: -0.1 },
+};
+
+const FOCUS_STOPWORDS = new Set([
+  "about",
+  "again",
+  "candidate",
+  "combine",
+  "include",
+  "response",
+  "should",
+  "their",
+  "there",
+  "these",
+  "which",
+  "while",
+  "would",
+  "under",
+  "with",
+  "your",
+]);
+
+const OPENERS = [
+  "frames the problem as a set of interacting constraints",
+  "starts from the stakeholders and works back to the design",
+  "leads with a structured comparison before drilling into risks",
+  "anchors the answer in measurable outcomes",
+  "walks through the scenario step by step",
+];
+
+const POINT_TEMPLATES = [
+  "Prioritises {focus} with explicit trade-offs.",
+  "Maps failure modes around {focus} to concrete mitigations.",
+  "Suggests instrumentation to monitor {focus} over time.",
+  "Links {focus} back to community and operator needs.",
+  "Proposes a phased rollout that de-risks {focus}.",
+  "Quantifies the expected impact of {focus} where possible.",
+  "Flags open questions about {focus} for follow-up research.",
+];
+
+const CRITIQUES = {
+  strong: [
+    "Well structured and directly on target.",
+    "Convincing depth with few factual gaps.",
+    "Clear reasoning that would survive review.",
+  ],
+  solid: [
+    "Covers the brief but leaves some trade-offs implicit.",
+    "Good coverage; a few claims need sources.",
+    "Useful structure, uneven depth across sections.",
+  ],
+  weak: [
+    "Drifts from the prompt in places.",
+    "Surface-level treatment of the key risks.",
+    "Hard to act on without further detail.",
+  ],
+};
+
+export type AlignmentStatus = "aligned" | "partial" | "divergent";
+
+export interface AlignmentSummary {
+  alignment: AlignmentStatus;
+  /** Rank offset of the user's pick in the arbiter ordering, 999 when absent. */
+  delta: number;
+}
+
+interface LeaderboardInput {
+  responses: ModelResponse[];
+  crossEvaluations: CrossEvaluation[];
+  /** When given, overall scores are recomputed from metrics under this rubric. */
+  rubric?: Rubric;
+  aggregation?: AggregationConfig;
+}
+
+export function formatScore(score: number): string {
+  return Number.isFinite(score) ? score.toFixed(1) : "-";
+}
+
+/** Formats a raw metric score, suffixing the maximum for non 0–10 scales. */
+export function formatMetric(value: number, metric: RubricMetric): string {
+  const tenPoint = metric.scale.min === 0 && metric.scale.max === 10;
+  return tenPoint ? formatScore(value) : `${formatScore(value)}/${metric.scale.max}`;
+}
+
+export function roundScore(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export function clampScore(value: number): number {
+  return Math.min(10, Math.max(0, value));
+}
+
+/**
+ * Weighted mean of the rubric's metrics on a 0–10 scale. Metrics missing from
+ * `metrics` are skipped and the remaining weights renormalised.
+ */
+export function weightedOverall(metrics: MetricScores, rubric: Rubric = DEFAULT_RUBRIC): number {
+  let total = 0;
+  let weight = 0;
+  rubric.metrics.forEach((metric) => {
+    const value = metrics[metric.key];
+    if (value === undefined) return;
+    total += normaliseMetric(value, metric) * metric.weight;
+    weight += metric.weight;
+  });
+  if (!weight) return 0;
+  // Rubrics whose weights already sum to 1 skip the division so the default
+  // rubric rounds exactly as the fixed five-metric formula did.
+  return roundScore(Math.abs(weight - 1) < 1e-9 ? total : total / weight);
+}
+
+export function average(values: number[]): number {
+  if (!values.length) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function buildResponseSeed(
+  prompt: string,
+  mode: PromptMode,
+  imageDescriptor?: string,
+  runCounter = 0,
+  attachmentFingerprint?: string,
+): string {
+  const seed = `${prompt}|${mode}|${imageDescriptor ?? ""}|${runCounter}`;
+  return attachmentFingerprint ? `${seed}|${attachmentFingerprint}` : seed;
+}
+
+/**
+ * Expected 0–10 score per rubric metric. Metrics outside the default rubric
+ * get a stable per-model aptitude so custom criteria still separate models.
+ */
+function modelBaseline(
+  model: ModelOption,
+  mode: PromptMode,
+  rubric: Rubric,
+  attachmentKinds: AttachmentKind[] = [],
+): MetricScores {
+  const baseline: MetricScores = {};
+  rubric.metrics.forEach(({ key }) => {
+    baseline[key] =
+      DEFAULT_BASELINE[key] ??
+      7 + randomBetween(createRandom(`aptitude|${model.id}|${key}`), -0.6, 0.6);
+  });
+  model.tags.forEach((tag) => {
+    const affinity = TAG_AFFINITIES[tag];
+    if (!affinity) return;
+    rubric.metrics.forEach(({ key }) => {
+      baseline[key] += affinity[key] ?? 0;
+    });
+  });
+  const required = requiredModalities(mode, attachmentKinds);
+  if (required.length) {
+    const missing = missingModalities(model, required);
+    // Single-medium modes hinge on their one channel; multimodal runs charge
+    // each missing channel its share.
+    const penalty =
+      mode === "multimodal" ? (1.2 * missing.length) / required.length : missing.length ? 2.2 : 0;
+    rubric.metrics.forEach(({ key }) => {
+      baseline[key] -= penalty * (MODALITY_PENALTY_SHARE[key] ?? CUSTOM_MODALITY_PENALTY_SHARE);
+    });
+    if (!missing.length && model.modality.length > 2 && baseline.depth !== undefined) {
+      baseline.depth += 0.2;
+    }
+  }
+  return baseline;
+}
+
+/** Rounds a 0–10 draw onto the metric's scale. */
+function scoreOnScale(value: number, metric: RubricMetric): number {
+  return roundScore(clampToScale(toMetricScale(clampScore(value), metric), metric), 1);
+}
+
+function extractFocusTerms(prompt: string): string[] {
+  const counts = new Map<string, number>();
+  prompt
+    .toLowerCase()
+    .split(/[^a-z0-9-]+/)
+    .filter((word) => word.length > 4 && !FOCUS_STOPWORDS.has(word))
+    .forEach((word) => counts.set(word, (counts.get(word) ?? 0) + 1));
+  const ranked = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([word]) => word);
+  return ranked.length ? ranked.slice(0, 6) : ["the brief"];
+}
+
+const MEDIA_READY: Record<Exclude<PromptMode, "text">, string> = {
+  image: "Vision-ready, but no reference image was attached.",
+  audio: "Audio-ready, but no clip was attached.",
+  video: "Video-ready, but no clip was attached.",
+  multimodal: "Vision-ready; reasoning from text while no image is attached.",
+};
+
+function describeModality(
+  mode: PromptMode,
+  imageDescriptor: string | undefined,
+  attachmentKinds: AttachmentKind[],
+  required: ModelModality[],
+  missing: ModelModality[],
+): string {
+  if (mode === "text") {
+    return "Text-only run; visual channels idle.";
+  }
+  if (missing.length) {
+    return missing.length === required.length
+      ? `No ${missing.join(" or ")} support; answered from the text prompt only.`
+      : `No ${missing.join(" or ")} support; answered from the remaining inputs.`;
+  }
+  if (!imageDescriptor) {
+    return MEDIA_READY[mode];
+  }
+  if (attachmentKinds.length > 1) {
+    return `Grounded on ${attachmentKinds.length} attachments: ${imageDescriptor}.`;
+  }
+  if (attachmentKinds[0] && attachmentKinds[0] !== "image") {
+    return `Grounded on the "${imageDescriptor}" ${attachmentKinds[0]} clip.`;
+  }
+  return `Grounded on the "${imageDescriptor}" reference image.`;
+}
+
+export function generateModelResponse(
+  model: ModelOption,
+  prompt: string,
+  mode: PromptMode,
+  imageDescriptor?: string,
+  seed: string = buildResponseSeed(prompt, mode, imageDescriptor),
+  rubric: Rubric = DEFAULT_RUBRIC,
+  attachmentKinds: AttachmentKind[] = [],
+): ModelResponse {
+  const random = createRandom(`${seed}|response|${model.id}`);
+  const baseline = modelBaseline(model, mode, rubric, attachmentKinds);
+  const required = requiredModalities(mode, attachmentKinds);
+  const missing = missingModalities(model, required);
+  const metrics: MetricScores = {};
+  rubric.metrics.forEach((metric) => {
+    metrics[metric.key] = scoreOnScale(
+      baseline[metric.key] + randomBetween(random, -1.1, 1.1),
+      metric,
+    );
+  });
+
+  const focus = extractFocusTerms(prompt);
+  const pointCount = 3 + Math.floor(random() * 3);
+  const supportingPoints = pickMany(random, POINT_TEMPLATES, pointCount).map(
+    (template) => template.replace("{focus}", pickOne(random, focus)),
+  );
+  const modalityNotes = describeModality(mode, imageDescriptor, attachmentKinds, required, missing);
+  const content = [
+    `${model.name} ${pickOne(random, OPENERS)}, centring on ${focus.slice(0, 3).join(", ")}.`,
+    ...supportingPoints.map((point, index) => `${index + 1}. ${point}`),
+    modalityNotes,
+  ].join("\n");
+
+  const response: ModelResponse = {
+    modelId: model.id,
+    content,
+    supportingPoints,
+    modalityNotes,
+    overallScore: weightedOverall(metrics, rubric),
+    metrics,
+  };
+  if (missing.length) response.missingModalities = missing;
+  return response;
+}
+
+export function generateCrossEvaluation(
+  evaluator: ModelOption,
+  target: ModelOption,
+  prompt: string,
+  mode: PromptMode,
+  payloadSeed: string,
+  rubric: Rubric = DEFAULT_RUBRIC,
+  attachmentKinds: AttachmentKind[] = [],
+  blind = false,
+): CrossEvaluation {
+  const leniency = randomBetween(createRandom(`${payloadSeed}|leniency|${evaluator.id}`), -0.6, 0.6);
+  const random = createRandom(`${payloadSeed}|cross|${evaluator.id}|${target.id}|${prompt.length}`);
+  const baseline = modelBaseline(target, mode, rubric, attachmentKinds);
+  // Self-preference needs the reviewer to recognise its own answer, which a blind run prevents.
+  const selfBias = evaluator.id === target.id && !blind ? 0.5 : 0;
+  const metrics: MetricScores = {};
+  rubric.metrics.forEach((metric) => {
+    const noise = randomBetween(random, -0.8, 0.8);
+    metrics[metric.key] = scoreOnScale(
+      baseline[metric.key] + leniency + selfBias + noise,
+      metric,
+    );
+  });
+  const overall = weightedOverall(metrics, rubric);
+  const tier = overall >= 7.8 ? "strong" : overall >= 6.8 ? "solid" : "weak";
+  const normalised = (metric: RubricMetric) => normaliseMetric(metrics[metric.key], metric);
+  const weakest = rubric.metrics.reduce((low, metric) =>
+    normalised(metric) < normalised(low) ? metric : low,
+  );
+  const commentary = `${pickOne(random, CRITIQUES[tier])} Weakest on ${weakest.label.toLowerCase()}.`;
+
+  return {
+    evaluatorId: evaluator.id,
+    targetId: target.id,
+    metrics,
+    overall,
+    commentary,
+  };
+}
+
+function meanReviewMetrics(reviews: { metrics: MetricScores }[], rubric: Rubric): MetricScores {
+  const metrics: MetricScores = {};
+  rubric.metrics.forEach((metric) => {
+    const values = reviews
+      .map((review) => review.metrics[metric.key])
+      .filter((value): value is number => value !== undefined);
+    if (values.length) metrics[metric.key] = roundScore(average(values), 1);
+  });
+  return metrics;
+}
+
+/**
+ * Gives a peer-scored response the mean of its reviews as metrics, turn by
+ * turn on conversation runs. Self-reviews only count when no peer scored it.
+ */
+export function scoreFromPeers(
+  response: ModelResponse,
+  crossEvaluations: CrossEvaluation[],
+  rubric: Rubric = DEFAULT_RUBRIC,
+): ModelResponse {
+  if (!response.peerScored) return response;
+  const all = crossEvaluations.filter((item) => item.targetId === response.modelId);
+  const peers = all.filter((item) => item.evaluatorId !== response.modelId);
+  const reviews = peers.length ? peers : all;
+  const metrics = meanReviewMetrics(reviews, rubric);
+  const transcript = response.transcript?.map((turn, index) => {
+    const turnMetrics = meanReviewMetrics(
+      reviews.flatMap((review) => (review.turns?.[index] ? [review.turns[index]] : [])),
+      rubric,
+    );
+    return Object.keys(turnMetrics).length
+      ? { ...turn, metrics: turnMetrics, overallScore: weightedOverall(turnMetrics, rubric) }
+      : turn;
+  });
+  return {
+    ...response,
+    metrics,
+    overallScore: weightedOverall(metrics, rubric),
+    ...(transcript ? { transcript } : {}),
+  };
+}
+
+export function computeLeaderboard({
+  responses,
+  crossEvaluations,
+  rubric,
+  aggregation = DEFAULT_AGGREGATION,
+}: LeaderboardInput): LeaderboardEntry[] {
+  const scoreOf = (item: { metrics: MetricScores }, stored: number) =>
+    rubric ? weightedOverall(item.metrics, rubric) : stored;
+  const rawReviews = crossEvaluations.map((item) => ({
+    evaluatorId: item.evaluatorId,
+    targetId: item.targetId,
+    score: scoreOf(item, item.overall),
+  }));
+  const reviews =
+    aggregation.normalisation === "zscore" ? normaliseReviews(rawReviews) : rawReviews;
+  const reliability =
+    aggregation.peerWeighting === "reliability" ? reviewerReliability(reviews) : null;
+
+  const entries = responses.map((response) => {
+    const peerScores = reviews
+      .filter((item) => item.targetId === response.modelId && item.evaluatorId !== response.modelId)
+      .map((item) => ({ score: item.score, weight: reliability?.[item.evaluatorId] ?? 1 }));
+    const selfReview = reviews.find(
+      (item) => item.targetId === response.modelId && item.evaluatorId === response.modelId,
+    );
+    // Peer-scored answers have no score of their own, so their own share of
+    // the blend goes to the peer score.
+    const engineScore = response.peerScored ? null : scoreOf(response, response.overallScore);
+    const crossScore = peerScores.length
+      ? centralScore(peerScores, aggregation.peerAverage)
+      : engineScore ?? selfReview?.score ?? 0;
+    const ownScore = engineScore ?? crossScore;
+    const selfScore = selfReview ? selfReview.score : crossScore;
+    const answerScore = blendScores(ownScore, crossScore, selfScore, aggregation);
+    const trace = response.toolTrace;
+    const toolScore = trace ? (trace.selection + trace.argumentValidity) / 2 : null;
+    const aggregateScore =
+      toolScore === null
+        ? answerScore
+        : answerScore * (1 - TOOL_USE_WEIGHT) + toolScore * TOOL_USE_WEIGHT;
+    const entry: LeaderboardEntry = {
+      modelId: response.modelId,
+      ownScore: roundScore(ownScore),
+      crossScore: roundScore(crossScore),
+      aggregateScore: roundScore(aggregateScore),
+    };
+    if (reliability) entry.reviewerWeight = roundScore(reliability[response.modelId] ?? 1);
+    if (toolScore !== null) entry.toolScore = roundScore(toolScore);
+    return entry;
+  });
+  return entries.sort(
+    (a, b) => b.aggregateScore - a.aggregateScore || a.modelId.localeCompare(b.modelId),
+  );
+}
+
+/** "A", "A and B", "A, B and C". */
+export function joinNames(names: string[]): string {
+  return names.length > 1
+    ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`
+    : names.join("");
+}
+
+/**
+ * 0.5 for a dead heat between the top two 0–10 scores, rising to 1 at a full
+ * point's margin. A lone finalist is a certain pick.
+ */
+export function marginConfidence(orderedScores: number[]): number {
+  if (orderedScores.length < 2) return orderedScores.length ? 1 : 0;
+  const gap = orderedScores[0] - orderedScores[1];
+  return roundScore(Math.min(1, Math.max(0.5, 0.5 + gap / 2)));
+}
+
+/** The built-in Gemini-3-Pro arbiter: rubric re-scoring of the shortlist. */
+export function synthesiseGeminiVerdict(
+  models: ModelOption[],
+  leaderboard: LeaderboardEntry[],
+  shortlist: string[],
+  crossEvaluations: CrossEvaluation[],
+  rubric: Rubric = DEFAULT_RUBRIC,
+): GeminiVerdict {
+  const rigourMetrics = rubric.metrics.filter((metric) => RIGOUR_KEYS.includes(metric.key));
+  const rigourOf = (item: CrossEvaluation) =>
+    rigourMetrics.length
+      ? average(rigourMetrics.map((metric) => normaliseMetric(item.metrics[metric.key], metric)))
+      : item.overall;
+  const strengths = rigourMetrics.length
+    ? rigourMetrics.map((metric) => metric.label.toLowerCase()).join(" and ")
+    : `${rubric.name.toLowerCase()} scores`;
+  const random = createRandom(
+    `verdict|${leaderboard.map((entry) => `${entry.modelId}:${entry.aggregateScore}`).join(",")}`,
+  );
+  const scored = shortlist.map((modelId) => {
+    const entry = leaderboard.find((item) => item.modelId === modelId);
+    const peerReviews = crossEvaluations.filter(
+      (item) => item.targetId === modelId && item.evaluatorId !== modelId,
+    );
+    const rigour = average(peerReviews.map(rigourOf));
+    const score =
+      (entry?.aggregateScore ?? 0) * 0.6 + rigour * 0.4 + randomBetween(random, -0.25, 0.25);
+    return { modelId, score, rigour, aggregate: entry?.aggregateScore ?? 0 };
+  });
+  scored.sort((a, b) => b.score - a.score || a.modelId.localeCompare(b.modelId));
+  const orderedModelIds = scored.map((item) => item.modelId);
+
+  const nameOf = (modelId: string) =>
+    models.find((model) => model.id === modelId)?.name ?? modelId;
+  const [winner, ...rest] = orderedModelIds;
+  const upset = winner !== undefined && winner !== shortlist[0];
+  const commentary = winner
+    ? `${nameOf(winner)} takes the verdict${upset ? `, overturning the peer-review leader ${nameOf(shortlist[0])}` : ""} on the strength of its ${strengths} under re-scoring.${
+        rest.length ? ` ${joinNames(rest.map(nameOf))} follow${rest.length === 1 ? "s" : ""} with narrower margins.` : ""
+      }`
+    : "No finalists were available for arbitration.";
+  const rationales: Record<string, string> = {};
+  scored.forEach((item) => {
+    rationales[item.modelId] =
+      `Re-scored ${formatScore(item.score)}: peer ${strengths} ${formatScore(item.rigour)}, aggregate ${formatScore(item.aggregate)}.`;
+  });
+
+  return {
+    orderedModelIds,
+    commentary,
+    rationales,
+    confidence: marginConfidence(scored.map((item) => item.score)),
+  };
+}
+
+export function summariseAlignment(verdict: GeminiVerdict, userChoice: string): AlignmentSummary {
+  const index = verdict.orderedModelIds.indexOf(userChoice);
+  if (index === -1) {
+    return { alignment: "divergent", delta: 999 };
+  }
+  return { alignment: index === 0 ? "aligned" : "partial", delta: index };
+}
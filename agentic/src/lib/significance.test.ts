@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import type { CrossEvaluation, ModelResponse } from "@/types";
+import { DEFAULT_AGGREGATION } from "./aggregation";
+import { DEFAULT_RUBRIC } from "./rubrics";
+import { computeLeaderboard } from "./scoring";
+import {
+  assessSignificance,
+  pairedPValue,
+  tieAwareShortlist,
+  tiedModelIds,
+  type SignificanceInput,
+} from "./significance";
+
+const modelIds = ["alpha", "beta", "gamma", "delta"];
+
+function metrics(score: number) {
+  return Object.fromEntries(DEFAULT_RUBRIC.metrics.map(({ key }) => [key, score]));
+}
+
+/** Reviewers split on alpha versus beta, and agree gamma and delta trail well behind. */
+function reviewScore(evaluatorId: string, targetId: string): number {
+  if (targetId === "gamma") return 2;
+  if (targetId === "delta") return 1.5;
+  if (evaluatorId === "gamma") return targetId === "alpha" ? 9 : 6;
+  if (evaluatorId === "delta") return targetId === "alpha" ? 6 : 9;
+  return 7.5;
+}
+
+function input(): SignificanceInput {
+  const responses = modelIds.map((modelId): ModelResponse => ({
+    modelId,
+    content: "",
+    supportingPoints: [],
+    modalityNotes: "",
+    overallScore: 0,
+    metrics: metrics(0),
+    peerScored: true,
+  }));
+  const crossEvaluations = modelIds.flatMap((evaluatorId) =>
+    modelIds
+      .filter((targetId) => targetId !== evaluatorId)
+      .map((targetId): CrossEvaluation => {
+        const score = reviewScore(evaluatorId, targetId);
+        return { evaluatorId, targetId, metrics: metrics(score), overall: score, commentary: "" };
+      }),
+  );
+  const rubric = DEFAULT_RUBRIC;
+  const aggregation = DEFAULT_AGGREGATION;
+  return {
+    rounds: [{ responses, crossEvaluations }],
+    leaderboard: computeLeaderboard({ responses, crossEvaluations, rubric, aggregation }),
+    rubric,
+    aggregation,
+    seed: "significance-test",
+    iterations: 400,
+  };
+}
+
+describe("pairedPValue", () => {
+  it("is small for a consistent gap and 1 for no draws", () => {
+    expect(pairedPValue([5, 6, 7], [1, 2, 3])).toBe(0);
+    expect(pairedPValue([2, 1], [1, 2])).toBe(1);
+    expect(pairedPValue([], [])).toBe(1);
+  });
+});
+
+describe("assessSignificance", () => {
+  it("groups models whose scores are not significantly apart", () => {
+    const { leaderboard, significance } = assessSignificance(input());
+    expect(leaderboard.map((entry) => [entry.modelId, entry.tieGroup])).toEqual([
+      [leaderboard[0].modelId, 1],
+      [leaderboard[1].modelId, 1],
+      ["gamma", 2],
+      ["delta", 3],
+    ]);
+    expect(significance.comparisons.map((item) => item.significant)).toEqual([false, true, true]);
+    leaderboard.forEach((entry) => {
+      expect(entry.interval?.lower).toBeLessThanOrEqual(entry.interval?.upper ?? -1);
+    });
+    expect(tiedModelIds(leaderboard)).toEqual(new Set(["alpha", "beta"]));
+  });
+
+  it("is reproducible for a seed", () => {
+    expect(assessSignificance(input())).toEqual(assessSignificance(input()));
+  });
+});
+
+describe("tieAwareShortlist", () => {
+  it("widens the cut to keep tied models together", () => {
+    const { leaderboard } = assessSignificance(input());
+    expect(tieAwareShortlist(leaderboard, 1).sort()).toEqual(["alpha", "beta"]);
+    expect(tieAwareShortlist(leaderboard, 3)).toHaveLength(3);
+  });
+
+  it("takes the top entries when there are no tie groups", () => {
+    expect(tieAwareShortlist(input().leaderboard, 2)).toHaveLength(2);
+  });
+});
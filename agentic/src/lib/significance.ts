@@ -0,0 +1,184 @@
+import type {
+  AggregationConfig,
+  ConfidenceInterval,
+  CrossEvaluation,
+  LeaderboardEntry,
+  RankComparison,
+  Rubric,
+  SampleRound,
+  SignificanceSummary,
+} from "@/types";
+import { createRandom } from "@/lib/random";
+import { average, computeLeaderboard, roundScore } from "@/lib/scoring";
+
+export const BOOTSTRAP_ITERATIONS = 1000;
+export const CONFIDENCE_LEVEL = 0.95;
+export const SIGNIFICANCE_ALPHA = 0.05;
+export const SHORTLIST_SIZE = 3;
+
+export interface SignificanceInput {
+  rounds: Pick<SampleRound, "responses" | "crossEvaluations">[];
+  leaderboard: LeaderboardEntry[];
+  rubric: Rubric;
+  aggregation: AggregationConfig;
+  /** Seeds the resampling so a run's intervals are reproducible. */
+  seed: string;
+  iterations?: number;
+}
+
+function quantile(sorted: number[], share: number): number {
+  if (!sorted.length) return 0;
+  const position = (sorted.length - 1) * share;
+  const low = Math.floor(position);
+  const high = Math.ceil(position);
+  return sorted[low] + (sorted[high] - sorted[low]) * (position - low);
+}
+
+/**
+ * Resamples peer reviewers with replacement and recomputes the leaderboard
+ * under the run's aggregation, once per iteration. Multi-sample runs resample
+ * each round and average, matching how their leaderboard is built. Returns
+ * each model's aggregate score per iteration.
+ */
+export function bootstrapAggregates({
+  rounds,
+  leaderboard,
+  rubric,
+  aggregation,
+  seed,
+  iterations = BOOTSTRAP_ITERATIONS,
+}: SignificanceInput): Record<string, number[]> {
+  const random = createRandom(`${seed}|bootstrap`);
+  const draws: Record<string, number[]> = {};
+  leaderboard.forEach((entry) => {
+    draws[entry.modelId] = [];
+  });
+  const reviewsByRound = rounds.map((round) => {
+    const byEvaluator = new Map<string, CrossEvaluation[]>();
+    round.crossEvaluations.forEach((item) => {
+      byEvaluator.set(item.evaluatorId, [...(byEvaluator.get(item.evaluatorId) ?? []), item]);
+    });
+    return byEvaluator;
+  });
+  for (let iteration = 0; iteration < iterations; iteration += 1) {
+    const totals: Record<string, number[]> = {};
+    rounds.forEach((round, index) => {
+      const evaluators = Array.from(reviewsByRound[index].keys());
+      const crossEvaluations = evaluators.flatMap(() => {
+        const drawn = evaluators[Math.floor(random() * evaluators.length)];
+        return reviewsByRound[index].get(drawn) ?? [];
+      });
+      computeLeaderboard({
+        responses: round.responses,
+        crossEvaluations,
+        rubric,
+        aggregation,
+      }).forEach((entry) => {
+        (totals[entry.modelId] ??= []).push(entry.aggregateScore);
+      });
+    });
+    Object.keys(draws).forEach((modelId) => {
+      draws[modelId].push(average(totals[modelId] ?? []));
+    });
+  }
+  return draws;
+}
+
+/** Two-sided bootstrap p-value that the paired draws of two scores are equal. */
+export function pairedPValue(higher: number[], lower: number[]): number {
+  if (!higher.length) return 1;
+  let atOrBelow = 0;
+  let atOrAbove = 0;
+  higher.forEach((value, index) => {
+    const difference = value - lower[index];
+    if (difference <= 0) atOrBelow += 1;
+    if (difference >= 0) atOrAbove += 1;
+  });
+  return Math.min(1, (2 * Math.min(atOrBelow, atOrAbove)) / higher.length);
+}
+
+/**
+ * Annotates each entry with a bootstrap confidence interval and tie group,
+ * and tests every pair of adjacent ranks. A new tie group starts below each
+ * significant gap.
+ */
+export function assessSignificance(input: SignificanceInput): {
+  leaderboard: LeaderboardEntry[];
+  significance: SignificanceSummary;
+} {
+  const iterations = input.iterations ?? BOOTSTRAP_ITERATIONS;
+  const draws = bootstrapAggregates({ ...input, iterations });
+  const tail = (1 - CONFIDENCE_LEVEL) / 2;
+  const comparisons: RankComparison[] = input.leaderboard.slice(1).map((lower, index) => {
+    const higher = input.leaderboard[index];
+    const pValue = pairedPValue(draws[higher.modelId], draws[lower.modelId]);
+    return {
+      higherId: higher.modelId,
+      lowerId: lower.modelId,
+      difference: roundScore(higher.aggregateScore - lower.aggregateScore),
+      pValue: roundScore(pValue, 3),
+      significant: pValue < SIGNIFICANCE_ALPHA,
+    };
+  });
+  let tieGroup = 1;
+  const leaderboard = input.leaderboard.map((entry, index) => {
+    if (index > 0 && comparisons[index - 1].significant) tieGroup += 1;
+    const sorted = [...draws[entry.modelId]].sort((a, b) => a - b);
+    return {
+      ...entry,
+      interval: {
+        lower: roundScore(quantile(sorted, tail)),
+        upper: roundScore(quantile(sorted, 1 - tail)),
+      },
+      tieGroup,
+    };
+  });
+  return {
+    leaderboard,
+    significance: {
+      level: CONFIDENCE_LEVEL,
+      alpha: SIGNIFICANCE_ALPHA,
+      iterations,
+      comparisons,
+    },
+  };
+}
+
+/**
+ * The top `size` models, widened to whole tie groups so a model is never cut
+ * while one it is statistically tied with goes through.
+ */
+export function tieAwareShortlist(
+  leaderboard: LeaderboardEntry[],
+  size = SHORTLIST_SIZE,
+): string[] {
+  const cutoff = leaderboard[Math.min(size, leaderboard.length) - 1]?.tieGroup;
+  const shortlisted =
+    cutoff === undefined
+      ? leaderboard.slice(0, size)
+      : leaderboard.filter((entry) => (entry.tieGroup ?? Infinity) <= cutoff);
+  return shortlisted.map((entry) => entry.modelId);
+}
+
+/** Models that share a tie group with at least one other model. */
+export function tiedModelIds(leaderboard: LeaderboardEntry[]): Set<string> {
+  const sizes = new Map<number, number>();
+  leaderboard.forEach((entry) => {
+    if (entry.tieGroup !== undefined) {
+      sizes.set(entry.tieGroup, (sizes.get(entry.tieGroup) ?? 0) + 1);
+    }
+  });
+  return new Set(
+    leaderboard
+      .filter((entry) => entry.tieGroup !== undefined && (sizes.get(entry.tieGroup) ?? 0) > 1)
+      .map((entry) => entry.modelId),
+  );
+}
+
+export function formatPValue(pValue: number): string {
+  return pValue < 0.001 ? "p < 0.001" : `p = ${pValue.toFixed(3)}`;
+}
+
+export function formatInterval(interval: ConfidenceInterval): string {
+  return `${interval.lower.toFixed(2)} – ${interval.upper.toFixed(2)}`;
+}
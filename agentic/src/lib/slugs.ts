@@ -0,0 +1,12 @@
+/** Ids and keys users may pick: lowercase, starting alphanumeric, at most 48 characters. */
+export const SLUG_PATTERN = /^[a-z0-9][a-z0-9_-]{0,47}$/;
+
+/** "Citation quality!" → "citation-quality", for ids and keys left blank. */
+export function slugify(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 48);
+}
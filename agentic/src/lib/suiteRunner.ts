@@ -0,0 +1,111 @@
+import type {
+  AggregationConfig,
+  ModelOption,
+  Rubric,
+  SuiteEvent,
+  SuiteItem,
+  SuiteReport,
+} from "@/types";
+import { parseEvaluationRequest, runEvaluation, type EvaluationRequest } from "@/lib/arena";
+import { createProviderRegistry, type ProviderRegistry } from "@/lib/providers";
+import { MODEL_OPTIONS } from "@/lib/models";
+import { DEFAULT_RUBRIC } from "@/lib/rubrics";
+import { aggregateSuite, SuiteParseError, type SuiteRow } from "@/lib/suites";
+
+const SUITE_CONCURRENCY = 4;
+
+export interface SuiteContext {
+  models?: ModelOption[];
+  rubric?: Rubric;
+  aggregation?: AggregationConfig;
+  registry?: ProviderRegistry;
+  onEvent?: (event: SuiteEvent) => void;
+}
+
+/** Builds one validated evaluation request per suite row. */
+export function buildSuiteRequests(
+  rows: SuiteRow[],
+  modelIds: string[],
+  models: ModelOption[] = MODEL_OPTIONS,
+  rubric: Rubric = DEFAULT_RUBRIC,
+  aggregation?: AggregationConfig,
+): EvaluationRequest[] {
+  return rows.map((row, index) => {
+    try {
+      return parseEvaluationRequest(
+        {
+          prompt: row.prompt,
+          mode: row.mode,
+          modelIds,
+          imageReference: row.imageReference,
+          runCounter: index,
+          rubricId: rubric.id,
+          aggregation,
+        },
+        models,
+        [rubric],
+      );
+    } catch (error) {
+      throw new SuiteParseError(error instanceof Error ? error.message : String(error), row.line);
+    }
+  });
+}
+
+/**
+ * Runs the roster over every suite row with bounded concurrency and reports
+ * items in completion order. Items in the report keep the suite order. A
+ * failed row is reported with its error and the rest of the suite carries on.
+ */
+export async function runSuite(
+  rows: SuiteRow[],
+  modelIds: string[],
+  {
+    models = MODEL_OPTIONS,
+    rubric = DEFAULT_RUBRIC,
+    aggregation,
+    registry = createProviderRegistry(),
+    onEvent = () => undefined,
+  }: SuiteContext = {},
+): Promise<SuiteReport> {
+  const requests = buildSuiteRequests(rows, modelIds, models, rubric, aggregation);
+  const items: SuiteItem[] = new Array(rows.length);
+  let cursor = 0;
+  let completed = 0;
+  onEvent({ type: "suiteStarted", total: rows.length });
+
+  const worker = async () => {
+    while (cursor < rows.length) {
+      const index = cursor;
+      cursor += 1;
+      const row = rows[index];
+      const item: SuiteItem = {
+        id: row.id,
+        prompt: row.prompt,
+        mode: row.mode,
+        imageReference: row.imageReference,
+        tags: row.tags,
+        result: null,
+      };
+      try {
+        item.result = await runEvaluation(requests[index], { models, registry });
+      } catch (error) {
+        item.error = error instanceof Error ? error.message : "Evaluation failed.";
+      }
+      items[index] = item;
+      completed += 1;
+      onEvent({
+        type: item.result ? "suiteItem" : "suiteItemError",
+        index: completed,
+        total: rows.length,
+        item,
+      });
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(SUITE_CONCURRENCY, rows.length) }, () => worker()),
+  );
+
+  const report = aggregateSuite(items);
+  onEvent({ type: "suiteComplete", report });
+  return report;
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import type { LeaderboardEntry, ResultState, SuiteItem } from "@/types";
+import { aggregateSuite, parseCsv, parsePromptSuite, SuiteParseError, UNTAGGED } from "./suites";
+
+function result(scores: Record<string, number>): ResultState {
+  const leaderboard = Object.entries(scores)
+    .sort(([, a], [, b]) => b - a)
+    .map(([modelId, score]): LeaderboardEntry => ({
+      modelId,
+      ownScore: score,
+      crossScore: score,
+      aggregateScore: score,
+    }));
+  return {
+    responses: [],
+    crossEvaluations: [],
+    leaderboard,
+    geminiVerdict: null,
+    topThree: leaderboard.map((entry) => entry.modelId),
+  };
+}
+
+function item(id: string, tags: string[], suiteResult: ResultState | null): SuiteItem {
+  return { id, prompt: id, mode: "text", imageReference: null, tags, result: suiteResult };
+}
+
+describe("parseCsv", () => {
+  it("honours quoted fields, escaped quotes and CRLF", () => {
+    expect(parseCsv('prompt,tags\r\n"Say ""hi"", then stop",a;b\r\n')).toEqual([
+      ["prompt", "tags"],
+      ['Say "hi", then stop', "a;b"],
+    ]);
+  });
+
+  it("rejects an unterminated quote", () => {
+    expect(() => parseCsv('prompt\n"open')).toThrow(SuiteParseError);
+  });
+});
+
+describe("parsePromptSuite", () => {
+  it("reads JSONL rows with defaults and normalised tags", () => {
+    const rows = parsePromptSuite(
+      '{"prompt": "One", "tags": ["Math", "math "]}\n\n{"id": "two", "prompt": "Two", "mode": "IMAGE", "image": "chart.png"}',
+    );
+    expect(rows).toEqual([
+      { id: "row-1", line: 1, prompt: "One", mode: "text", imageReference: null, tags: ["math"] },
+      {
+        id: "two",
+        line: 3,
+        prompt: "Two",
+        mode: "image",
+        imageReference: "chart.png",
+        tags: [],
+      },
+    ]);
+  });
+
+  it("reads CSV by header and numbers rows after it", () => {
+    const rows = parsePromptSuite("Prompt,Tags\nFirst,a|b\nSecond,", "csv");
+    expect(rows.map((row) => [row.line, row.prompt, row.tags])).toEqual([
+      [2, "First", ["a", "b"]],
+      [3, "Second", []],
+    ]);
+  });
+
+  it("reports the offending line", () => {
+    expect(() => parsePromptSuite('{"prompt": "ok"}\n{"prompt": ""}')).toThrow(
+      "Line 2: Missing prompt.",
+    );
+    expect(() => parsePromptSuite('{"prompt": "ok", "mode": "smell"}')).toThrow(
+      'Line 1: Unknown mode "smell".',
+    );
+    expect(() => parsePromptSuite('{"prompt": "ok"}\n[1]')).toThrow(
+      "Line 2: Each line must be a JSON object.",
+    );
+    expect(() =>
+      parsePromptSuite('{"id": "a", "prompt": "x"}\n{"id": "a", "prompt": "y"}'),
+    ).toThrow('Line 2: Duplicate id "a".');
+    expect(() => parsePromptSuite("question\nWhat?", "csv")).toThrow(/"prompt" column/);
+  });
+});
+
+describe("aggregateSuite", () => {
+  it("builds overall and per-tag leaderboards, leaving failed items out", () => {
+    const report = aggregateSuite([
+      item("one", ["math"], result({ alpha: 8, beta: 6 })),
+      item("two", [], result({ alpha: 4, beta: 7 })),
+      item("three", ["math"], null),
+    ]);
+    expect(report.items).toHaveLength(3);
+    expect(report.overall.map((entry) => [entry.modelId, entry.aggregateScore])).toEqual([
+      ["beta", 6.5],
+      ["alpha", 6],
+    ]);
+    expect(report.overall.find((entry) => entry.modelId === "alpha")?.wins).toBe(1);
+    expect(Object.keys(report.byTag)).toEqual(["math", UNTAGGED]);
+    expect(report.byTag.math[0]).toMatchObject({ modelId: "alpha", prompts: 1 });
+  });
+});
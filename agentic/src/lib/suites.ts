@@ -0,0 +1,234 @@
+import type {
+  PromptMode,
+  ResultState,
+  SuiteItem,
+  SuiteReport,
+  TagLeaderboardEntry,
+} from "@/types";
+import { PROMPT_MODES } from "@/lib/attachments";
+import { average, roundScore } from "@/lib/scoring";
+
+export const MAX_SUITE_ROWS = 500;
+export const UNTAGGED = "untagged";
+
+export type SuiteFormat = "jsonl" | "csv";
+
+export interface SuiteRow {
+  id: string;
+  /** 1-based line (JSONL) or record (CSV) number, for error messages. */
+  line: number;
+  prompt: string;
+  mode: PromptMode;
+  imageReference: string | null;
+  tags: string[];
+}
+
+export class SuiteParseError extends Error {
+  readonly line?: number;
+
+  constructor(message: string, line?: number) {
+    super(line ? `Line ${line}: ${message}` : message);
+    this.name = "SuiteParseError";
+    this.line = line;
+  }
+}
+
+export function detectSuiteFormat(content: string): SuiteFormat {
+  return content.trimStart().startsWith("{") ? "jsonl" : "csv";
+}
+
+function normaliseTags(value: unknown): string[] {
+  const raw = Array.isArray(value)
+    ? value.map(String)
+    : typeof value === "string"
+      ? value.split(/[;|,]/)
+      : [];
+  return Array.from(new Set(raw.map((tag) => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+function toRow(record: Record<string, unknown>, line: number, index: number): SuiteRow {
+  const prompt = typeof record.prompt === "string" ? record.prompt.trim() : "";
+  if (!prompt) {
+    throw new SuiteParseError("Missing prompt.", line);
+  }
+  const rawMode =
+    typeof record.mode === "string" && record.mode.trim() ? record.mode.trim() : "text";
+  const mode = rawMode.toLowerCase() as PromptMode;
+  if (!PROMPT_MODES.includes(mode)) {
+    throw new SuiteParseError(`Unknown mode "${rawMode}".`, line);
+  }
+  const image = record.image ?? record.imageReference ?? record.image_reference;
+  const id =
+    typeof record.id === "string" && record.id.trim() ? record.id.trim() : `row-${index + 1}`;
+  return {
+    id,
+    line,
+    prompt,
+    mode,
+    imageReference: typeof image === "string" && image.trim() ? image.trim() : null,
+    tags: normaliseTags(record.tags),
+  };
+}
+
+/** Splits CSV text into records, honouring quoted fields and escaped quotes. */
+export function parseCsv(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let index = 0; index < content.length; index += 1) {
+    const char = content[index];
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[index + 1] === "\n") index += 1;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new SuiteParseError("Unterminated quoted field.");
+  }
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter((item) => item.some((value) => value.trim()));
+}
+
+export function parsePromptSuite(
+  content: string,
+  format: SuiteFormat = detectSuiteFormat(content),
+): SuiteRow[] {
+  let rows: SuiteRow[];
+  if (format === "jsonl") {
+    rows = content
+      .split(/\r?\n/)
+      .map((text, index) => ({ text: text.trim(), line: index + 1 }))
+      .filter((item) => item.text)
+      .map((item, index) => {
+        let record: unknown;
+        try {
+          record = JSON.parse(item.text);
+        } catch {
+          throw new SuiteParseError("Invalid JSON.", item.line);
+        }
+        if (!record || typeof record !== "object" || Array.isArray(record)) {
+          throw new SuiteParseError("Each line must be a JSON object.", item.line);
+        }
+        return toRow(record as Record<string, unknown>, item.line, index);
+      });
+  } else {
+    const [header, ...records] = parseCsv(content);
+    if (!header) {
+      throw new SuiteParseError("The suite is empty.");
+    }
+    const columns = header.map((column) => column.trim().toLowerCase());
+    if (!columns.includes("prompt")) {
+      throw new SuiteParseError('CSV header must include a "prompt" column.', 1);
+    }
+    rows = records.map((values, index) => {
+      const record: Record<string, unknown> = {};
+      columns.forEach((column, columnIndex) => {
+        record[column] = values[columnIndex] ?? "";
+      });
+      return toRow(record, index + 2, index);
+    });
+  }
+
+  if (!rows.length) {
+    throw new SuiteParseError("The suite is empty.");
+  }
+  if (rows.length > MAX_SUITE_ROWS) {
+    throw new SuiteParseError(`Suites are limited to ${MAX_SUITE_ROWS} prompts.`);
+  }
+  const seen = new Set<string>();
+  rows.forEach((row) => {
+    if (seen.has(row.id)) throw new SuiteParseError(`Duplicate id "${row.id}".`, row.line);
+    seen.add(row.id);
+  });
+  return rows;
+}
+
+interface ScoreBucket {
+  own: number[];
+  cross: number[];
+  aggregate: number[];
+  wins: number;
+  arbiterWins: number;
+}
+
+function aggregateEntries(results: ResultState[]): TagLeaderboardEntry[] {
+  const buckets = new Map<string, ScoreBucket>();
+  results.forEach((result) => {
+    result.leaderboard.forEach((entry, index) => {
+      const bucket = buckets.get(entry.modelId) ?? {
+        own: [],
+        cross: [],
+        aggregate: [],
+        wins: 0,
+        arbiterWins: 0,
+      };
+      bucket.own.push(entry.ownScore);
+      bucket.cross.push(entry.crossScore);
+      bucket.aggregate.push(entry.aggregateScore);
+      if (index === 0) bucket.wins += 1;
+      if (result.geminiVerdict?.orderedModelIds[0] === entry.modelId) bucket.arbiterWins += 1;
+      buckets.set(entry.modelId, bucket);
+    });
+  });
+  return Array.from(buckets.entries())
+    .map(([modelId, bucket]) => ({
+      modelId,
+      prompts: bucket.aggregate.length,
+      ownScore: roundScore(average(bucket.own)),
+      crossScore: roundScore(average(bucket.cross)),
+      aggregateScore: roundScore(average(bucket.aggregate)),
+      wins: bucket.wins,
+      arbiterWins: bucket.arbiterWins,
+    }))
+    .sort((a, b) => b.aggregateScore - a.aggregateScore || a.modelId.localeCompare(b.modelId));
+}
+
+/**
+ * Rolls per-prompt results up into an overall leaderboard and one per tag.
+ * Failed items stay in the report but not in the leaderboards.
+ */
+export function aggregateSuite(items: SuiteItem[]): SuiteReport {
+  const byTag: Record<string, ResultState[]> = {};
+  const results: ResultState[] = [];
+  items.forEach(({ tags, result }) => {
+    if (!result) return;
+    results.push(result);
+    (tags.length ? tags : [UNTAGGED]).forEach((tag) => {
+      (byTag[tag] ??= []).push(result);
+    });
+  });
+  const tagLeaderboards: Record<string, TagLeaderboardEntry[]> = {};
+  Object.keys(byTag)
+    .sort()
+    .forEach((tag) => {
+      tagLeaderboards[tag] = aggregateEntries(byTag[tag]);
+    });
+  return {
+    items,
+    overall: aggregateEntries(results),
+    byTag: tagLeaderboards,
+  };
+}
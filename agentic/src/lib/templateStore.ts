@@ -0,0 +1,79 @@
+import type { PromptTemplate } from "@/types";
+import { createJsonStore } from "@/lib/jsonStore";
+import {
+  BUILT_IN_TEMPLATES,
+  contentChanged,
+  currentVersion,
+  TemplateError,
+  validateTemplate,
+} from "@/lib/templates";
+
+/** Custom templates only; the built-in starters are always listed first. */
+const store = createJsonStore<PromptTemplate[]>("templates.json", () => []);
+
+function assertEditable(id: string) {
+  if (BUILT_IN_TEMPLATES.some((template) => template.id === id)) {
+    throw new TemplateError("Built-in templates are read-only; duplicate one to customise it.");
+  }
+}
+
+export async function listTemplates(): Promise<PromptTemplate[]> {
+  return [...BUILT_IN_TEMPLATES, ...(await store.read())];
+}
+
+export async function getTemplate(id: string): Promise<PromptTemplate | null> {
+  const templates = await listTemplates();
+  return templates.find((template) => template.id === id) ?? null;
+}
+
+export async function createTemplate(input: unknown): Promise<PromptTemplate> {
+  const { content, ...details } = validateTemplate(input);
+  assertEditable(details.id);
+  const template: PromptTemplate = {
+    ...details,
+    versions: [{ version: 1, createdAt: new Date().toISOString(), ...content }],
+  };
+  await store.update((templates) => {
+    if (templates.some((item) => item.id === template.id)) {
+      throw new TemplateError(`A template with id "${template.id}" already exists.`);
+    }
+    return [...templates, template];
+  });
+  return template;
+}
+
+/**
+ * Renaming and retagging edit the template in place; changing the body,
+ * system prompt, mode or variables appends a version. Runs record the
+ * version they used, so earlier revisions stay resolvable.
+ */
+export async function updateTemplate(id: string, input: unknown): Promise<PromptTemplate | null> {
+  assertEditable(id);
+  const { content, ...details } = validateTemplate({ ...(input as object), id });
+  let updated: PromptTemplate | null = null;
+  await store.update((templates) =>
+    templates.map((item) => {
+      if (item.id !== id) return item;
+      const latest = currentVersion(item);
+      const versions = contentChanged(latest, content)
+        ? [
+            ...item.versions,
+            { version: latest.version + 1, createdAt: new Date().toISOString(), ...content },
+          ]
+        : item.versions;
+      updated = { ...details, versions };
+      return updated;
+    }),
+  );
+  return updated;
+}
+
+export async function deleteTemplate(id: string): Promise<boolean> {
+  assertEditable(id);
+  let found = false;
+  await store.update((templates) => {
+    found = templates.some((item) => item.id === id);
+    return templates.filter((item) => item.id !== id);
+  });
+  return found;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { MAX_SYSTEM_PROMPT_LENGTH } from "./modelRegistry";
+import {
+  BUILT_IN_TEMPLATES,
+  currentVersion,
+  extractVariables,
+  renderTemplate,
+  TemplateError,
+  validateTemplate,
+  validateValues,
+} from "./templates";
+
+describe("extractVariables", () => {
+  it("lists placeholders once, in order of first appearance", () => {
+    expect(extractVariables("{{ b }} then {{a}} and {{b}}", "{{c}} {{ not valid }}")).toEqual([
+      "b",
+      "a",
+      "c",
+    ]);
+  });
+});
+
+describe("renderTemplate", () => {
+  it("fills values over defaults in the body and system prompt", () => {
+    const support = currentVersion(BUILT_IN_TEMPLATES[1]);
+    const { prompt, systemPrompt } = renderTemplate(support, { company: "Globex" });
+    expect(systemPrompt).toBe(
+      "You are a warm, concise support agent for Globex. Never promise refunds the policy does not allow.",
+    );
+    expect(prompt).toContain("Replacements ship within five business days.");
+  });
+});
+
+describe("validateTemplate", () => {
+  it("derives the id and variables from the definition", () => {
+    const template = validateTemplate({
+      name: "Bug triage!",
+      body: "Triage {{issue}} for {{team}}.",
+      tags: ["Ops", "ops", " "],
+      variables: [{ name: "team", label: "Team", defaultValue: "platform" }, { name: "unused" }],
+    });
+    expect(template.id).toBe("bug-triage");
+    expect(template.tags).toEqual(["ops"]);
+    expect(template.content.mode).toBe("text");
+    expect(template.content.variables).toEqual([
+      { name: "issue", label: "issue", description: "", defaultValue: "", multiline: false },
+      { name: "team", label: "Team", description: "", defaultValue: "platform", multiline: false },
+    ]);
+  });
+
+  it("rejects malformed templates with a TemplateError", () => {
+    const base = { name: "T", body: "Hi" };
+    expect(() => validateTemplate([])).toThrow(TemplateError);
+    expect(() => validateTemplate({ ...base, body: " " })).toThrow("Template needs a prompt body.");
+    expect(() => validateTemplate({ ...base, id: "Bad Id" })).toThrow(/may only contain/);
+    expect(() => validateTemplate({ ...base, mode: "smell" })).toThrow(/mode must be one of/);
+    expect(() => validateTemplate({ ...base, tags: "a,b" })).toThrow(
+      "Template tags must be a list.",
+    );
+    expect(() =>
+      validateTemplate({ ...base, systemPrompt: "x".repeat(MAX_SYSTEM_PROMPT_LENGTH + 1) }),
+    ).toThrow(/System prompts are limited/);
+  });
+});
+
+describe("validateValues", () => {
+  it("falls back to defaults and rejects non-string values", () => {
+    const version = currentVersion(BUILT_IN_TEMPLATES[2]);
+    expect(validateValues({ chart: "bar chart" }, version)).toEqual({
+      chart: "bar chart",
+      audience: "a non-technical executive",
+    });
+    expect(() => validateValues({ chart: 3 }, version)).toThrow(TemplateError);
+  });
+});
@@ -0,0 +1,288 @@
+import type {
+  PromptMode,
+  PromptTemplate,
+  PromptTemplateVersion,
+  TemplateVariable,
+} from "@/types";
+import { PROMPT_MODES } from "@/lib/attachments";
+import { isRecord } from "@/lib/guards";
+import { MAX_SYSTEM_PROMPT_LENGTH } from "@/lib/modelRegistry";
+import { SLUG_PATTERN, slugify } from "@/lib/slugs";
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z][A-Za-z0-9_]{0,31})\s*\}\}/g;
+const MAX_VARIABLES = 16;
+const MAX_TAGS = 8;
+const MAX_BODY_LENGTH = 8000;
+const MAX_VALUE_LENGTH = 4000;
+
+export const BUILT_IN_CREATED_AT = "2024-01-01T00:00:00.000Z";
+
+function variable(
+  name: string,
+  label: string,
+  defaultValue: string,
+  description = "",
+  multiline = false,
+): TemplateVariable {
+  return { name, label, description, defaultValue, multiline };
+}
+
+function builtIn(
+  template: Omit<PromptTemplate, "versions">,
+  version: Omit<PromptTemplateVersion, "version" | "createdAt">,
+): PromptTemplate {
+  return { ...template, versions: [{ version: 1, createdAt: BUILT_IN_CREATED_AT, ...version }] };
+}
+
+/** Read-only starter scenarios; the first one fills to the arena's default prompt. */
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  builtIn(
+    {
+      id: "innovation-brief",
+      name: "Innovation team brief",
+      description: "Systems-level design exploration with failure modes and community angles.",
+      tags: ["design", "reasoning"],
+    },
+    {
+      body: "You are assisting a multidisciplinary innovation team exploring {{topic}}. Combine systems-level reasoning with tangible design suggestions. The response should include: (1) a comparative assessment of three candidate {{options}}, (2) evaluation of potential failure modes under {{stressor}}, (3) opportunities to incorporate community participation and sensing infrastructure.",
+      systemPrompt: "",
+      mode: "multimodal",
+      variables: [
+        variable("topic", "Topic", "climate-resilient urban farming"),
+        variable("options", "Options to compare", "multimodal greenhouse layouts"),
+        variable("stressor", "Stress condition", "extreme weather events"),
+      ],
+    },
+  ),
+  builtIn(
+    {
+      id: "support-reply",
+      name: "Customer support reply",
+      description: "Tests tone, policy adherence and empathy in a support persona.",
+      tags: ["persona", "writing"],
+    },
+    {
+      body: "A customer writes:\n\n{{message}}\n\nDraft a reply that resolves their issue within this policy: {{policy}}",
+      systemPrompt: "You are a {{tone}} support agent for {{company}}. Never promise refunds the policy does not allow.",
+      mode: "text",
+      variables: [
+        variable(
+          "message",
+          "Customer message",
+          "My order arrived broken and I need it replaced before Friday.",
+          "Paste the message the model should answer.",
+          true,
+        ),
+        variable("policy", "Policy", "Replacements ship within five business days."),
+        variable("tone", "Tone", "warm, concise"),
+        variable("company", "Company", "Acme Outfitters"),
+      ],
+    },
+  ),
+  builtIn(
+    {
+      id: "chart-reading",
+      name: "Chart reading",
+      description: "Asks for grounded figures from an attached chart or screenshot.",
+      tags: ["vision", "analysis"],
+    },
+    {
+      body: "Read the attached {{chart}}. Report the three most important figures with their units, then explain what they imply for {{audience}}. Say so explicitly if a value cannot be read.",
+      systemPrompt: "",
+      mode: "image",
+      variables: [
+        variable("chart", "Chart type", "line chart"),
+        variable("audience", "Audience", "a non-technical executive"),
+      ],
+    },
+  ),
+];
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+export function currentVersion(template: PromptTemplate): PromptTemplateVersion {
+  return template.versions[template.versions.length - 1];
+}
+
+export function findVersion(
+  template: PromptTemplate,
+  version: number,
+): PromptTemplateVersion | undefined {
+  return template.versions.find((item) => item.version === version);
+}
+
+/** Placeholder names in order of first appearance. */
+export function extractVariables(...texts: string[]): string[] {
+  const names: string[] = [];
+  texts.forEach((text) => {
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      if (!names.includes(match[1])) names.push(match[1]);
+    }
+  });
+  return names;
+}
+
+/** Substitutes each `{{name}}`, falling back to the variable's default. */
+export function fillTemplate(
+  text: string,
+  variables: TemplateVariable[],
+  values: Record<string, string> = {},
+): string {
+  return text.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    const value = values[name] ?? variables.find((item) => item.name === name)?.defaultValue;
+    return value ?? placeholder;
+  });
+}
+
+export function renderTemplate(
+  version: PromptTemplateVersion,
+  values: Record<string, string> = {},
+): { prompt: string; systemPrompt: string } {
+  return {
+    prompt: fillTemplate(version.body, version.variables, values),
+    systemPrompt: fillTemplate(version.systemPrompt, version.variables, values),
+  };
+}
+
+/** Default values for every variable, for seeding a fill-in form. */
+export function defaultValues(version: PromptTemplateVersion): Record<string, string> {
+  return Object.fromEntries(version.variables.map((item) => [item.name, item.defaultValue]));
+}
+
+function readText(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+/**
+ * Variables are derived from the placeholders in the body and system prompt;
+ * submitted definitions only supply labels, defaults and descriptions.
+ */
+function validateVariables(input: unknown, names: string[]): TemplateVariable[] {
+  if (input != null && !Array.isArray(input)) {
+    throw new TemplateError("Template variables must be a list.");
+  }
+  if (names.length > MAX_VARIABLES) {
+    throw new TemplateError(`Templates are limited to ${MAX_VARIABLES} variables.`);
+  }
+  const definitions = ((input as unknown[] | undefined) ?? []).filter(isRecord);
+  return names.map((name) => {
+    const definition = definitions.find((item) => item.name === name) ?? {};
+    const defaultValue = typeof definition.defaultValue === "string" ? definition.defaultValue : "";
+    if (defaultValue.length > MAX_VALUE_LENGTH) {
+      throw new TemplateError(`The default for {{${name}}} is too long.`);
+    }
+    return {
+      name,
+      label: readText(definition.label) || name,
+      description: readText(definition.description),
+      defaultValue,
+      multiline: definition.multiline === true,
+    };
+  });
+}
+
+/** Checks the versioned part of a template definition, throwing `TemplateError`. */
+export function validateTemplateContent(
+  input: Record<string, unknown>,
+): Omit<PromptTemplateVersion, "version" | "createdAt"> {
+  const body = typeof input.body === "string" ? input.body.trim() : "";
+  if (!body) throw new TemplateError("Template needs a prompt body.");
+  if (body.length > MAX_BODY_LENGTH) {
+    throw new TemplateError(`Template bodies are limited to ${MAX_BODY_LENGTH} characters.`);
+  }
+  const systemPrompt = typeof input.systemPrompt === "string" ? input.systemPrompt.trim() : "";
+  if (systemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+    throw new TemplateError(
+      `System prompts are limited to ${MAX_SYSTEM_PROMPT_LENGTH} characters.`,
+    );
+  }
+  const mode = (input.mode ?? "text") as PromptMode;
+  if (!PROMPT_MODES.includes(mode)) {
+    throw new TemplateError(`Template mode must be one of ${PROMPT_MODES.join(", ")}.`);
+  }
+  const variables = validateVariables(input.variables, extractVariables(body, systemPrompt));
+  return { body, systemPrompt, mode, variables };
+}
+
+/** Checks an untrusted template definition, throwing `TemplateError`. */
+export function validateTemplate(input: unknown): {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  content: Omit<PromptTemplateVersion, "version" | "createdAt">;
+} {
+  if (!isRecord(input)) throw new TemplateError("Template must be a JSON object.");
+  const name = readText(input.name);
+  if (!name) throw new TemplateError("Template needs a name.");
+  const id = readText(input.id) || slugify(name);
+  if (!SLUG_PATTERN.test(id)) {
+    throw new TemplateError(
+      `Template id "${id}" may only contain lowercase letters, digits, "-" and "_".`,
+    );
+  }
+  if (input.tags != null && !Array.isArray(input.tags)) {
+    throw new TemplateError("Template tags must be a list.");
+  }
+  const tags = Array.from(
+    new Set(
+      ((input.tags as unknown[] | undefined) ?? [])
+        .map((tag) => readText(tag).toLowerCase())
+        .filter(Boolean),
+    ),
+  );
+  if (tags.length > MAX_TAGS) {
+    throw new TemplateError(`Templates are limited to ${MAX_TAGS} tags.`);
+  }
+  return {
+    id,
+    name,
+    description: readText(input.description),
+    tags,
+    content: validateTemplateContent(input),
+  };
+}
+
+/** True when two revisions would send different prompts or render different forms. */
+export function contentChanged(
+  before: Omit<PromptTemplateVersion, "version" | "createdAt">,
+  after: Omit<PromptTemplateVersion, "version" | "createdAt">,
+): boolean {
+  return (
+    before.body !== after.body ||
+    before.systemPrompt !== after.systemPrompt ||
+    before.mode !== after.mode ||
+    JSON.stringify(before.variables) !== JSON.stringify(after.variables)
+  );
+}
+
+/** Checks the variable values a client filled in, throwing `TemplateError`. */
+export function validateValues(
+  input: unknown,
+  version: PromptTemplateVersion,
+): Record<string, string> {
+  if (input != null && !isRecord(input)) {
+    throw new TemplateError("Template variables must be an object of strings.");
+  }
+  const values: Record<string, string> = {};
+  version.variables.forEach((item) => {
+    const value = (input as Record<string, unknown> | undefined)?.[item.name];
+    if (value == null) {
+      values[item.name] = item.defaultValue;
+      return;
+    }
+    if (typeof value !== "string") {
+      throw new TemplateError(`The value for {{${item.name}}} must be a string.`);
+    }
+    if (value.length > MAX_VALUE_LENGTH) {
+      throw new TemplateError(`The value for {{${item.name}}} is too long.`);
+    }
+    values[item.name] = value;
+  });
+  return values;
+}
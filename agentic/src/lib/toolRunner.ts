@@ -0,0 +1,302 @@
+import type {
+  CrossEvaluation,
+  ModelOption,
+  ModelResponse,
+  ToolCall,
+  ToolKit,
+} from "@/types";
+import { isRecord } from "@/lib/guards";
+import {
+  fetchCrossEvaluation,
+  fetchModelResponse,
+  resolveProvider,
+  type ChatMessage,
+  type ProviderRegistry,
+  type ResponseRequest,
+} from "@/lib/providers";
+import { createRandom, hashSeed, pickMany, pickOne, randomBetween } from "@/lib/random";
+import { joinNames } from "@/lib/scoring";
+import {
+  describeToolCall,
+  MAX_TOOL_CALLS,
+  parseToolCall,
+  scoreToolCalls,
+  validateToolArguments,
+} from "@/lib/tools";
+
+type ToolArguments = Record<string, unknown>;
+
+interface MockTool {
+  /** Deterministic: the same arguments always return the same result. */
+  run: (args: ToolArguments) => unknown;
+  /** Valid arguments synthetic models call the tool with. */
+  example: ToolArguments;
+}
+
+const CARRIERS = ["TAP", "British Airways", "easyJet", "Ryanair", "Vueling"];
+const RATES_TO_GBP: Record<string, number> = { GBP: 1, EUR: 1.17, USD: 1.27 };
+
+function reference(prefix: string, ...parts: unknown[]): string {
+  return `${prefix}-${hashSeed(parts.join("|")) % 100000}`;
+}
+
+/** Local stand-ins for the built-in toolkits, keyed by toolkit then tool name. */
+const TOOL_MOCKS: Record<string, Record<string, MockTool>> = {
+  "trip-planner": {
+    search_flights: {
+      run: ({ origin, destination, date }) => {
+        const random = createRandom(`flights|${origin}|${destination}|${date}`.toLowerCase());
+        const carriers = pickMany(random, CARRIERS, 3);
+        const flights = carriers.map((carrier) => {
+          const hour = String(6 + Math.floor(random() * 14)).padStart(2, "0");
+          return {
+            carrier,
+            flight: reference(carrier.slice(0, 2).toUpperCase(), origin, destination, date),
+            departs: `${date}T${hour}:${pickOne(random, ["05", "20", "35", "50"])}`,
+            price_gbp: Math.round(randomBetween(random, 58, 240)),
+          };
+        });
+        return { flights: flights.sort((a, b) => a.price_gbp - b.price_gbp) };
+      },
+      example: { origin: "London", destination: "Lisbon", date: "2025-06-14" },
+    },
+    convert_currency: {
+      run: ({ amount, from, to }) => {
+        const rate = RATES_TO_GBP[to as string] / RATES_TO_GBP[from as string];
+        return { amount: Math.round((amount as number) * rate * 100) / 100, currency: to, rate };
+      },
+      example: { amount: 106, from: "GBP", to: "USD" },
+    },
+    get_weather: {
+      run: ({ city, date }) => {
+        const random = createRandom(`weather|${city}|${date}`.toLowerCase());
+        const high = Math.round(randomBetween(random, 14, 31));
+        return {
+          city,
+          date,
+          conditions: pickOne(random, ["sunny", "partly cloudy", "light rain", "overcast"]),
+          high_c: high,
+          low_c: high - Math.round(randomBetween(random, 6, 10)),
+        };
+      },
+      example: { city: "Lisbon", date: "2025-06-14" },
+    },
+    book_hotel: {
+      run: ({ city, nights }) => ({ confirmation: reference("HT", city, nights), city, nights }),
+      example: { city: "Lisbon", nights: 3 },
+    },
+  },
+  "order-support": {
+    lookup_order: {
+      run: ({ order_id }) => {
+        if (!/^A-\d+$/i.test(order_id as string)) return { found: false, order_id };
+        const random = createRandom(`order|${order_id}`.toUpperCase());
+        return {
+          found: true,
+          order_id,
+          status: "delivered",
+          delivered_on: "2025-05-02",
+          items: [
+            pickOne(random, [
+              { sku: "TAB-11-128", name: 'Tablet 11" 128GB', price_gbp: 349 },
+              { sku: "PHN-6-256", name: 'Phone 6.1" 256GB', price_gbp: 599 },
+              { sku: "LAP-14-512", name: 'Laptop 14" 512GB', price_gbp: 899 },
+            ]),
+          ],
+        };
+      },
+      example: { order_id: "A-1042" },
+    },
+    create_replacement: {
+      run: ({ order_id, reason }) => ({
+        replacement_id: reference("RP", order_id, reason),
+        order_id,
+        reason,
+        ships_in_days: 2,
+      }),
+      example: { order_id: "A-1042", reason: "damaged" },
+    },
+    issue_refund: {
+      run: ({ order_id, amount }) => ({ refund_id: reference("RF", order_id, amount), amount }),
+      example: { order_id: "A-1042", amount: 349 },
+    },
+  },
+  "meeting-scheduler": {
+    find_free_slots: {
+      run: ({ participants, date, duration_minutes }) => {
+        const random = createRandom(
+          `slots|${participants}|${date}|${duration_minutes}`.toLowerCase(),
+        );
+        const times = pickMany(random, ["09:00", "10:30", "11:15", "13:00", "14:30", "16:00"], 3);
+        return { date, slots: times.sort().map((time) => `${date}T${time}`) };
+      },
+      example: { participants: "Ana, Ben", date: "2025-09-03", duration_minutes: 30 },
+    },
+    book_meeting: {
+      run: ({ title, start, duration_minutes, participants }) => ({
+        event_id: reference("EV", title, start),
+        title,
+        start,
+        duration_minutes,
+        participants,
+      }),
+      example: {
+        title: "Roadmap sync",
+        start: "2025-09-03T10:30",
+        duration_minutes: 30,
+        participants: "Ana, Ben",
+      },
+    },
+    send_email: {
+      run: ({ to, subject }) => ({ sent: true, to, subject }),
+      example: { to: "ana@example.com", subject: "Roadmap sync", body: "See you then." },
+    },
+  },
+};
+
+/** Validates a call against its schema and, when it passes, runs the mock. */
+export function executeToolCall(toolkit: ToolKit, name: string, rawArguments: unknown): ToolCall {
+  const args = isRecord(rawArguments) ? rawArguments : {};
+  const tool = toolkit.tools.find((item) => item.name === name);
+  if (!tool) return { name, arguments: args, error: `Unknown tool "${name}".` };
+  const errors = validateToolArguments(tool, rawArguments);
+  if (errors.length) {
+    return { name, arguments: args, error: `Invalid arguments: ${errors.join("; ")}.` };
+  }
+  const mock = TOOL_MOCKS[toolkit.id]?.[name];
+  if (!mock) return { name, arguments: args, error: `No mock backs "${name}".` };
+  return { name, arguments: args, output: JSON.stringify(mock.run(args)) };
+}
+
+/**
+ * A synthetic model's calls: each expected tool in order, with seeded slips
+ * (skipping it, reaching for a distractor, dropping a required argument) that
+ * are rarer for models tagged for tools or orchestration.
+ */
+function simulateToolCalls(model: ModelOption, toolkit: ToolKit, seed: string): ToolCall[] {
+  const random = createRandom(`${seed}|tools|${model.id}`);
+  const skilled = model.tags.some((tag) => tag === "tools" || tag === "orchestration");
+  const slip = skilled ? 0.08 : 0.22;
+  const distractors = toolkit.tools.filter((tool) => !toolkit.expectedTools.includes(tool.name));
+  return toolkit.expectedTools.flatMap((expected) => {
+    if (random() < slip) return [];
+    const name =
+      distractors.length && random() < slip ? pickOne(random, distractors).name : expected;
+    const args = { ...TOOL_MOCKS[toolkit.id]?.[name]?.example };
+    if (random() < slip) {
+      const required = toolkit.tools.find((tool) => tool.name === name)?.parameters.required ?? [];
+      if (required.length) delete args[required[0]];
+    }
+    return [executeToolCall(toolkit, name, args)];
+  });
+}
+
+function describeToolResult(call: ToolCall, remaining: number): string {
+  const result = call.error
+    ? `Tool call rejected: ${call.error}`
+    : `Tool result for ${call.name}: ${call.output}`;
+  return remaining
+    ? result
+    : `${result}\n\nThat was your last tool call; give your final answer now.`;
+}
+
+/**
+ * Runs `model` against the toolkit: each reply is either a tool call, answered
+ * with the mock's result as the next message, or the final answer. This is a
+ * plain-text protocol (see `toolInstructions`), not the vendors' native
+ * function calling, so it works with every provider. Every call is recorded;
+ * `content` is the final answer. A model still calling tools at the limit gets
+ * one last request without the toolkit, and an empty answer if it calls again.
+ */
+export async function fetchToolResponse(
+  registry: ProviderRegistry,
+  model: ModelOption,
+  request: ResponseRequest,
+  toolkit: ToolKit,
+): Promise<ModelResponse> {
+  let calls: ToolCall[] = [];
+  let exhausted = false;
+  let reply = await fetchModelResponse(registry, model, { ...request, toolkit });
+  if (resolveProvider(registry, model).kind === "synthetic") {
+    calls = simulateToolCalls(model, toolkit, request.seed);
+    const used = Array.from(new Set(calls.filter((call) => !call.error).map((call) => call.name)));
+    reply = {
+      ...reply,
+      content: `${reply.content}\n\n${
+        used.length ? `Checked with ${joinNames(used)}.` : "Answered without tool results."
+      }`,
+    };
+  } else {
+    const history: ChatMessage[] = [];
+    let prompt = request.prompt;
+    for (let call = parseToolCall(reply.content); call; call = parseToolCall(reply.content)) {
+      if (calls.length >= MAX_TOOL_CALLS) {
+        exhausted = true;
+        break;
+      }
+      const recorded = executeToolCall(toolkit, call.name, call.arguments);
+      calls.push(recorded);
+      history.push(
+        { role: "user", content: prompt },
+        { role: "assistant", content: reply.content },
+      );
+      prompt = describeToolResult(recorded, MAX_TOOL_CALLS - calls.length);
+      reply = await fetchModelResponse(registry, model, {
+        ...request,
+        prompt,
+        history: [...history],
+        toolkit,
+      });
+    }
+    if (exhausted) {
+      history.push(
+        { role: "user", content: prompt },
+        { role: "assistant", content: reply.content },
+      );
+      reply = await fetchModelResponse(registry, model, {
+        ...request,
+        prompt: `You have used all ${MAX_TOOL_CALLS} tool calls. Reply with your final answer as plain text, using the results you already have.`,
+        history: [...history],
+      });
+      if (parseToolCall(reply.content)) reply = { ...reply, content: "" };
+    }
+  }
+  return {
+    ...reply,
+    toolTrace: {
+      calls,
+      ...scoreToolCalls(calls, toolkit),
+      ...(exhausted ? { exhausted: true } : {}),
+    },
+  };
+}
+
+/** The task as reviewers see it: the prompt plus each call the candidate made and its result. */
+function describeToolTask(prompt: string, toolkit: ToolKit, calls: ToolCall[]): string {
+  const trace = calls.length
+    ? calls
+        .map(
+          (call, index) =>
+            `${index + 1}. ${describeToolCall(call)} -> ${call.error ? `rejected: ${call.error}` : call.output}`,
+        )
+        .join("\n")
+    : "It made no tool calls.";
+  return `${prompt}\n\nThe candidate could call ${joinNames(
+    toolkit.tools.map((tool) => tool.name),
+  )}. Its calls, in order:\n${trace}\n\nJudge the final answer: whether it answers the task and is grounded in these results.`;
+}
+
+/** Has `evaluator` score the final answer against the tool results `target` actually received. */
+export function fetchToolReview(
+  registry: ProviderRegistry,
+  evaluator: ModelOption,
+  target: ModelOption,
+  targetResponse: ModelResponse,
+  request: ResponseRequest,
+  toolkit: ToolKit,
+): Promise<CrossEvaluation> {
+  return fetchCrossEvaluation(registry, evaluator, target, targetResponse, {
+    ...request,
+    prompt: describeToolTask(request.prompt, toolkit, targetResponse.toolTrace?.calls ?? []),
+  });
+}
@@ -0,0 +1,257 @@
+import type { ToolCall, ToolDefinition, ToolKit } from "@/types";
+import { isRecord } from "@/lib/guards";
+import { roundScore } from "@/lib/scoring";
+
+/** Tool calls a model may make before it has to answer. */
+export const MAX_TOOL_CALLS = 6;
+
+export class ToolKitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ToolKitError";
+  }
+}
+
+export const BUILT_IN_TOOLKITS: ToolKit[] = [
+  {
+    id: "trip-planner",
+    name: "Trip planner",
+    description: "Flights, currency and weather lookups; a hotel booking tool is a distractor.",
+    task: "I'm flying from London to Lisbon on 2025-06-14. Find the cheapest direct flight, tell me its price in US dollars, and what weather to expect when I land.",
+    tools: [
+      {
+        name: "search_flights",
+        description: "Lists direct flights on a date, cheapest first, with prices in GBP.",
+        parameters: {
+          type: "object",
+          properties: {
+            origin: { type: "string", description: "Departure city." },
+            destination: { type: "string", description: "Arrival city." },
+            date: { type: "string", description: "Travel date as YYYY-MM-DD." },
+          },
+          required: ["origin", "destination", "date"],
+        },
+      },
+      {
+        name: "convert_currency",
+        description: "Converts an amount between currencies at today's rate.",
+        parameters: {
+          type: "object",
+          properties: {
+            amount: { type: "number" },
+            from: { type: "string", enum: ["GBP", "EUR", "USD"] },
+            to: { type: "string", enum: ["GBP", "EUR", "USD"] },
+          },
+          required: ["amount", "from", "to"],
+        },
+      },
+      {
+        name: "get_weather",
+        description: "Forecast for a city on a date.",
+        parameters: {
+          type: "object",
+          properties: {
+            city: { type: "string" },
+            date: { type: "string", description: "YYYY-MM-DD." },
+          },
+          required: ["city", "date"],
+        },
+      },
+      {
+        name: "book_hotel",
+        description: "Books a hotel room in a city.",
+        parameters: {
+          type: "object",
+          properties: {
+            city: { type: "string" },
+            nights: { type: "integer" },
+          },
+          required: ["city", "nights"],
+        },
+      },
+    ],
+    expectedTools: ["search_flights", "convert_currency", "get_weather"],
+  },
+  {
+    id: "order-support",
+    name: "Support desk",
+    description: "Order lookup and replacements; a refund tool the customer did not ask for.",
+    task: "Order A-1042 arrived with a cracked screen. Check what was in the order and arrange a replacement. The customer does not want a refund.",
+    tools: [
+      {
+        name: "lookup_order",
+        description: "Returns an order's items, status and delivery date.",
+        parameters: {
+          type: "object",
+          properties: { order_id: { type: "string" } },
+          required: ["order_id"],
+        },
+      },
+      {
+        name: "create_replacement",
+        description: "Ships a replacement for an order and returns its tracking reference.",
+        parameters: {
+          type: "object",
+          properties: {
+            order_id: { type: "string" },
+            reason: { type: "string", enum: ["damaged", "missing", "wrong_item"] },
+          },
+          required: ["order_id", "reason"],
+        },
+      },
+      {
+        name: "issue_refund",
+        description: "Refunds an amount to the customer's original payment method.",
+        parameters: {
+          type: "object",
+          properties: {
+            order_id: { type: "string" },
+            amount: { type: "number" },
+          },
+          required: ["order_id", "amount"],
+        },
+      },
+    ],
+    expectedTools: ["lookup_order", "create_replacement"],
+  },
+  {
+    id: "meeting-scheduler",
+    name: "Meeting scheduler",
+    description: "Calendar search and booking; an email tool that is not needed.",
+    task: 'Find a 30-minute slot when Ana and Ben are both free on 2025-09-03 and book it as "Roadmap sync".',
+    tools: [
+      {
+        name: "find_free_slots",
+        description: "Lists start times when everyone named is free.",
+        parameters: {
+          type: "object",
+          properties: {
+            participants: { type: "string", description: "Comma-separated names." },
+            date: { type: "string", description: "YYYY-MM-DD." },
+            duration_minutes: { type: "integer" },
+          },
+          required: ["participants", "date", "duration_minutes"],
+        },
+      },
+      {
+        name: "book_meeting",
+        description: "Puts a meeting in the participants' calendars.",
+        parameters: {
+          type: "object",
+          properties: {
+            title: { type: "string" },
+            start: { type: "string", description: "YYYY-MM-DDTHH:MM." },
+            duration_minutes: { type: "integer" },
+            participants: { type: "string", description: "Comma-separated names." },
+          },
+          required: ["title", "start", "duration_minutes", "participants"],
+        },
+      },
+      {
+        name: "send_email",
+        description: "Sends an email.",
+        parameters: {
+          type: "object",
+          properties: {
+            to: { type: "string" },
+            subject: { type: "string" },
+            body: { type: "string" },
+          },
+          required: ["to", "subject", "body"],
+        },
+      },
+    ],
+    expectedTools: ["find_free_slots", "book_meeting"],
+  },
+];
+
+export function findToolkit(id: string, toolkits: ToolKit[] = BUILT_IN_TOOLKITS): ToolKit {
+  const toolkit = toolkits.find((item) => item.id === id);
+  if (!toolkit) throw new ToolKitError(`Unknown toolkit "${id}".`);
+  return toolkit;
+}
+
+const TYPE_CHECKS: Record<string, (value: unknown) => boolean> = {
+  string: (value) => typeof value === "string",
+  number: (value) => typeof value === "number" && Number.isFinite(value),
+  integer: (value) => Number.isInteger(value),
+  boolean: (value) => typeof value === "boolean",
+};
+
+/** Problems with `args` against the tool's schema; empty when the call is valid. */
+export function validateToolArguments(tool: ToolDefinition, args: unknown): string[] {
+  if (!isRecord(args)) return ["arguments must be an object"];
+  const { properties, required = [] } = tool.parameters;
+  const errors = required
+    .filter((key) => args[key] === undefined)
+    .map((key) => `missing "${key}"`);
+  Object.entries(args).forEach(([key, value]) => {
+    const property = properties[key];
+    if (!property) {
+      errors.push(`unexpected "${key}"`);
+    } else if (!TYPE_CHECKS[property.type](value)) {
+      errors.push(`"${key}" must be ${property.type === "integer" ? "an" : "a"} ${property.type}`);
+    } else if (property.enum && !property.enum.includes(value as string | number)) {
+      errors.push(`"${key}" must be one of ${property.enum.join(", ")}`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Selection is the F1 of the distinct tools called against the expected ones,
+ * so both skipping a needed tool and calling a distractor cost points.
+ */
+export function scoreToolCalls(
+  calls: ToolCall[],
+  toolkit: ToolKit,
+): { selection: number; argumentValidity: number } {
+  const called = new Set(calls.map((call) => call.name));
+  const hits = toolkit.expectedTools.filter((name) => called.has(name)).length;
+  const precision = called.size ? hits / called.size : 0;
+  const recall = toolkit.expectedTools.length ? hits / toolkit.expectedTools.length : 1;
+  const selection = precision + recall ? (2 * precision * recall) / (precision + recall) : 0;
+  const valid = calls.filter((call) => !call.error).length;
+  return {
+    selection: roundScore(selection * 10),
+    argumentValidity: roundScore(calls.length ? (valid / calls.length) * 10 : 0),
+  };
+}
+
+/**
+ * The protocol, appended to the model's system prompt on toolkit runs. Calls
+ * and results travel as plain text (results as the next user message), not
+ * through any vendor's native function calling.
+ */
+export function toolInstructions(toolkit: ToolKit): string {
+  return [
+    "You can call these tools, described as JSON Schema:",
+    JSON.stringify(toolkit.tools, null, 2),
+    'To call one, reply with only a JSON object: {"tool": "<name>", "arguments": {...}}. The result comes back as the next message.',
+    `Make at most ${MAX_TOOL_CALLS} calls. When you have what you need, reply with your final answer as plain text.`,
+  ].join("\n\n");
+}
+
+/** Reads a reply as a tool call; null when it is a final answer. */
+export function parseToolCall(reply: string): { name: string; arguments: unknown } | null {
+  const text = reply
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  if (!text.startsWith("{")) return null;
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (!isRecord(parsed) || typeof parsed.tool !== "string") return null;
+    return { name: parsed.tool, arguments: parsed.arguments ?? {} };
+  } catch {
+    return null;
+  }
+}
+
+/** "search_flights(origin: London, …)" for traces and exports. */
+export function describeToolCall(call: ToolCall): string {
+  const args = Object.entries(call.arguments)
+    .map(([key, value]) => `${key}: ${typeof value === "string" ? value : JSON.stringify(value)}`)
+    .join(", ");
+  return `${call.name}(${args})`;
+}
@@ -1,36 +1,235 @@
-export type PromptMode = "text" | "image" | "multimodal";
+export type PromptMode = "text" | "image" | "audio" | "video" | "multimodal";
+
+/** What happens to models that lack an input channel the run needs. */
+export type ModalityPolicy = "flag" | "skip";
+
+export type AttachmentKind = "image" | "audio" | "video";
+
+export type ModelModality = "text" | "vision" | "audio" | "video";
+
+export interface ModelPricing {
+  /** USD per million input tokens. */
+  inputPerMillion: number;
+  /** USD per million output tokens. */
+  outputPerMillion: number;
+}
+
+export interface GenerationParams {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  /** Replaces the run's system prompt for this model. */
+  systemPrompt?: string;
+}
 
 export interface ModelOption {
   id: string;
   name: string;
   provider: string;
   tags: string[];
-  modality: ("text" | "vision" | "audio" | "video")[];
+  modality: ModelModality[];
+  /** Overrides the provider's base URL for this model only. */
+  endpoint?: string;
+  /** Vendor model string sent to the API; defaults to `id`. */
+  modelName?: string;
+  /** Context window in tokens. */
+  contextWindow?: number;
+  pricing?: ModelPricing;
+  defaultParams?: GenerationParams;
 }
 
-export interface MetricScores {
-  clarity: number;
-  relevance: number;
-  accuracy: number;
-  depth: number;
-  safety: number;
+/** Scores keyed by rubric metric key, each on that metric's own scale. */
+export type MetricScores = Record<string, number>;
+
+export interface RubricMetric {
+  /** Stable identifier used as the `MetricScores` key. */
+  key: string;
+  label: string;
+  description: string;
+  /** Relative weight; weights are normalised when computing overall scores. */
+  weight: number;
+  /** Inclusive range judges score on. Overall scores are always reported on 0–10. */
+  scale: { min: number; max: number };
+}
+
+export interface Rubric {
+  id: string;
+  name: string;
+  description: string;
+  metrics: RubricMetric[];
+}
+
+export interface TemplateVariable {
+  /** Placeholder name, written `{{name}}` in the template body. */
+  name: string;
+  label: string;
+  description: string;
+  defaultValue: string;
+  /** Long values get a textarea instead of a single-line field. */
+  multiline: boolean;
+}
+
+/** One immutable revision of a template; edits append a new version. */
+export interface PromptTemplateVersion {
+  version: number;
+  createdAt: string;
+  body: string;
+  /** Persona or instructions sent as the system prompt; may use variables too. */
+  systemPrompt: string;
+  mode: PromptMode;
+  variables: TemplateVariable[];
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  /** Oldest first; the last entry is the current version. */
+  versions: PromptTemplateVersion[];
+}
+
+/** Which template revision and variable values produced a run's prompt. */
+export interface TemplateUsage {
+  templateId: string;
+  templateName: string;
+  version: number;
+  variables: Record<string, string>;
+  /** True when the prompt was edited by hand after filling the template. */
+  edited: boolean;
+}
+
+/** One user turn of a scripted conversation scenario. */
+export interface ScenarioTurn {
+  /** The scripted user message, or on simulated turns the simulated user's ask. */
+  content: string;
+  /** Written by a simulated user reacting to the model's previous reply. */
+  simulated?: boolean;
+  /** What a good reply to this turn does; reviewers score the turn against it. */
+  expectation?: string;
+}
+
+/** One exchange of a model's run through a conversation scenario. */
+export interface TranscriptTurn {
+  /** The user message as sent, with simulated follow-ups already written out. */
+  user: string;
+  reply: string;
+  simulated?: boolean;
+  expectation?: string;
+  /** Own score of the turn; remote turns carry the peers' mean once reviews are in. */
+  overallScore?: number;
+  metrics?: MetricScores;
 }
 
 export interface ModelResponse {
   modelId: string;
+  /** The answer, or on conversation runs the whole transcript as text. */
   content: string;
   supportingPoints: string[];
   modalityNotes: string;
+  /** On conversation runs, averaged over the turns. */
   overallScore: number;
   metrics: MetricScores;
+  /**
+   * Answered by a remote provider, which the engine cannot score: `metrics` and
+   * `overallScore` are the peers' mean once reviews are in, and the leaderboard
+   * leaves the own score out of the blend.
+   */
+  peerScored?: boolean;
+  /** Input channels the run needed that the model lacks; it answered without them. */
+  missingModalities?: ModelModality[];
+  /** Every exchange, on runs driven by a conversation scenario. */
+  transcript?: TranscriptTurn[];
+  /** Tool calls and their scores, on runs against a toolkit; `content` is the final answer. */
+  toolTrace?: ToolTrace;
+}
+
+/** The subset of JSON Schema tool arguments are validated against. */
+export interface ToolParameterSchema {
+  type: "object";
+  properties: Record<
+    string,
+    {
+      type: "string" | "number" | "integer" | "boolean";
+      description?: string;
+      enum?: Array<string | number>;
+    }
+  >;
+  required?: string[];
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: ToolParameterSchema;
+}
+
+/** A task backed by mock tools, with the tools a good answer has to call. */
+export interface ToolKit {
+  id: string;
+  name: string;
+  description: string;
+  /** Filled in as the run's prompt. */
+  task: string;
+  tools: ToolDefinition[];
+  expectedTools: string[];
+}
+
+/** One recorded call, in the order the model made it. */
+export interface ToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+  /** The mock's result as JSON; absent when the call was rejected. */
+  output?: string;
+  /** Why the call was rejected: an unknown tool or arguments off the schema. */
+  error?: string;
+}
+
+export interface ToolTrace {
+  calls: ToolCall[];
+  /** 0–10 F1 of the distinct tools called against the toolkit's expected tools. */
+  selection: number;
+  /** 0–10 share of calls whose arguments matched the tool's schema. */
+  argumentValidity: number;
+  /**
+   * The model was still calling tools when the step limit cut it off; its
+   * answer comes from one last request without tools, empty if it still called one.
+   */
+  exhausted?: boolean;
+}
+
+/** A reviewer's score for one turn of a conversation. */
+export interface TurnReview {
+  metrics: MetricScores;
+  overall: number;
+  commentary: string;
 }
 
 export interface CrossEvaluation {
   evaluatorId: string;
   targetId: string;
+  /** On conversation runs these score the conversation as a whole. */
   metrics: MetricScores;
   overall: number;
   commentary: string;
+  /** Per-turn scores, in transcript order, on conversation runs. */
+  turns?: TurnReview[];
+}
+
+export type PeerAverage = "mean" | "median";
+export type PeerWeighting = "uniform" | "reliability";
+export type ScoreNormalisation = "none" | "zscore";
+
+/** How `computeLeaderboard` folds own, peer and self scores into one number. */
+export interface AggregationConfig {
+  /** Drops the evaluator == target review from the blend. */
+  excludeSelf: boolean;
+  /** Rescales each evaluator's reviews to remove harsh or lenient graders. */
+  normalisation: ScoreNormalisation;
+  /** Weights each peer reviewer by how closely they track the other reviewers. */
+  peerWeighting: PeerWeighting;
+  peerAverage: PeerAverage;
+  weights: { own: number; peer: number; self: number };
 }
 
 export interface LeaderboardEntry {
@@ -38,9 +237,245 @@ export interface LeaderboardEntry {
   aggregateScore: number;
   ownScore: number;
   crossScore: number;
+  /** This model's weight as a peer reviewer under reliability weighting. */
+  reviewerWeight?: number;
+  /** Mean of tool selection and argument validity, on toolkit runs. */
+  toolScore?: number;
+  /** Spread across samples; scores above are then sample means. */
+  spread?: SampleSpread;
+  /** Bootstrap confidence interval of `aggregateScore`. */
+  interval?: ConfidenceInterval;
+  /**
+   * 1-based group of models whose scores are not significantly apart. Groups
+   * chain through adjacent ties, so the first and last member may differ.
+   */
+  tieGroup?: number;
+}
+
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+/** Bootstrap test between two adjacent leaderboard ranks. */
+export interface RankComparison {
+  higherId: string;
+  lowerId: string;
+  difference: number;
+  /** Two-sided bootstrap p-value for "these two scores are equal". */
+  pValue: number;
+  significant: boolean;
+}
+
+export interface SignificanceSummary {
+  /** Confidence level of each entry's `interval`, e.g. 0.95. */
+  level: number;
+  alpha: number;
+  iterations: number;
+  comparisons: RankComparison[];
+}
+
+/** Mean and sample variance of one score across a model's samples. */
+export interface ScoreSpread {
+  mean: number;
+  variance: number;
+  /**
+   * Samples behind a metric spread, when fewer than the entry's: a peer-scored
+   * answer has no score for a metric no reviewer returned.
+   */
+  samples?: number;
+}
+
+export interface SampleSpread {
+  samples: number;
+  /** Own-response metric scores, each on its metric's scale. */
+  metrics: Record<string, ScoreSpread>;
+  aggregateScore: ScoreSpread;
+}
+
+/** One complete pass of responses and peer review in a multi-sample run. */
+export interface SampleRound {
+  responses: ModelResponse[];
+  crossEvaluations: CrossEvaluation[];
+  leaderboard: LeaderboardEntry[];
+}
+
+export type ArbiterProtocol = "listwise" | "pairwise" | "rubric";
+export type PanelVoting = "majority" | "borda";
+
+/** Who judges the shortlist and how. */
+export interface ArbiterConfig {
+  /** Registered models on the panel; empty uses the built-in Gemini-3-Pro arbiter. */
+  judgeIds: string[];
+  /** Rank the shortlist in one pass, run a round-robin of head-to-heads, or re-score each finalist. */
+  protocol: ArbiterProtocol;
+  /** How a panel's ballots combine; a single judge's ballot stands as is. */
+  voting: PanelVoting;
+  /** Finalists before widening for ties. */
+  shortlistSize: number;
+}
+
+/** One judge's ranking of the shortlist. */
+export interface JudgeBallot {
+  judgeId: string;
+  orderedModelIds: string[];
+  /** Protocol score per finalist: 0–10 for listwise and rubric, head-to-head wins for pairwise. */
+  scores: Record<string, number>;
+  rationales: Record<string, string>;
 }
 
 export interface GeminiVerdict {
   orderedModelIds: string[];
   commentary: string;
+  /** Why each finalist placed where it did, keyed by model id; absent on older runs. */
+  rationales?: Record<string, string>;
+  /**
+   * 0–1. One judge: the winner's margin over the runner-up, or its head-to-head
+   * win share in a pairwise tournament. A panel: the share of ballots it topped.
+   */
+  confidence?: number;
+  /** Each judge's ranking when a panel voted. */
+  ballots?: JudgeBallot[];
+}
+
+export interface Attachment {
+  kind: AttachmentKind;
+  name: string;
+  mimeType: string;
+  /** File contents, base64 encoded without the data URL prefix. */
+  base64: string;
 }
+
+/** The single `image` field older clients send instead of `attachments`. */
+export type ImageAttachment = Omit<Attachment, "kind">;
+
+export interface ResultState {
+  /** Rubric the run was scored against; absent on runs from before rubrics existed. */
+  rubric?: Rubric;
+  /** Leaderboard formula; absent on runs that used the original fixed blend. */
+  aggregation?: AggregationConfig;
+  /** Selected models left out because they lack an input channel the run needs. */
+  skippedModelIds?: string[];
+  /**
+   * Every round of a multi-sample run; the fields below then hold the first
+   * round and the leaderboard averaged over all of them.
+   */
+  samples?: SampleRound[];
+  responses: ModelResponse[];
+  crossEvaluations: CrossEvaluation[];
+  leaderboard: LeaderboardEntry[];
+  /** Bootstrap tests behind the intervals and tie groups; absent on older runs. */
+  significance?: SignificanceSummary;
+  /** Judges and protocol behind the verdict; absent on runs with the fixed Gemini-3-Pro arbiter. */
+  arbiter?: ArbiterConfig;
+  geminiVerdict: GeminiVerdict | null;
+  /**
+   * Shortlist sent to the arbiter: the top `arbiter.shortlistSize` (three by
+   * default), widened to every model statistically tied with the last of them.
+   */
+  topThree: string[];
+  /**
+   * Set on blind runs: the "Model A", "Model B"… alias of each model. Reviewers
+   * and the arbiter only saw these, and the UI shows them until the user votes.
+   */
+  aliases?: Record<string, string>;
+}
+
+export type EvaluationEvent =
+  | { type: "aliases"; aliases: Record<string, string> }
+  | { type: "response"; response: ModelResponse }
+  | { type: "crossEvaluation"; evaluation: CrossEvaluation }
+  | { type: "sample"; completed: number; total: number }
+  | { type: "leaderboard"; leaderboard: LeaderboardEntry[]; topThree: string[] }
+  | { type: "verdict"; verdict: GeminiVerdict }
+  | { type: "complete"; result: ResultState; runId?: string }
+  | { type: "error"; message: string };
+
+/** "a" and "b" name the winning side; "both-bad" is a tie where neither answer was acceptable. */
+export type BattleOutcome = "a" | "b" | "tie" | "both-bad";
+
+/** One blind A/B vote between two of a run's responses. */
+export interface BattleVote {
+  /** Model shown as Response A. */
+  leftId: string;
+  /** Model shown as Response B. */
+  rightId: string;
+  outcome: BattleOutcome;
+  votedAt: string;
+}
+
+export interface StoredRun {
+  id: string;
+  createdAt: string;
+  prompt: string;
+  mode: PromptMode;
+  /** Label for the run's attachments, or the suite row's image reference. */
+  imageDescriptor: string | null;
+  /** Snapshot of the roster at run time, so renamed models still render. */
+  models: ModelOption[];
+  /** System prompt sent ahead of the prompt, when the run used one. */
+  systemPrompt?: string;
+  /** Template the prompt was filled from, if any. */
+  template?: TemplateUsage;
+  /** Conversation script the models were run through; its first turn is the prompt. */
+  scenario?: ScenarioTurn[];
+  /** Snapshot of the toolkit the models could call, so the trace still reads without it. */
+  toolkit?: ToolKit;
+  /** Run-wide generation settings, over each model's registry defaults. */
+  params?: GenerationParams;
+  /** Per-model settings for this run, over the run-wide ones. */
+  modelParams?: Record<string, GenerationParams>;
+  /** Snapshot of arbiter judges outside the roster, so their names still render. */
+  judges?: ModelOption[];
+  runCounter: number;
+  result: ResultState;
+  userChoice: string | null;
+  /** Blind battle votes cast on this run's responses, oldest first. */
+  battles?: BattleVote[];
+}
+
+export interface RunSummary {
+  id: string;
+  createdAt: string;
+  prompt: string;
+  mode: PromptMode;
+  modelIds: string[];
+  arbiterPick: string | null;
+  userChoice: string | null;
+}
+
+export interface SuiteItem {
+  id: string;
+  prompt: string;
+  mode: PromptMode;
+  imageReference: string | null;
+  tags: string[];
+  /** Null when the prompt's run failed; the item then stays out of the leaderboards. */
+  result: ResultState | null;
+  error?: string;
+}
+
+export interface TagLeaderboardEntry {
+  modelId: string;
+  prompts: number;
+  ownScore: number;
+  crossScore: number;
+  aggregateScore: number;
+  /** Prompts where the model topped the leaderboard. */
+  wins: number;
+  /** Prompts where the arbiter picked the model. */
+  arbiterWins: number;
+}
+
+export interface SuiteReport {
+  items: SuiteItem[];
+  overall: TagLeaderboardEntry[];
+  byTag: Record<string, TagLeaderboardEntry[]>;
+}
+
+export type SuiteEvent =
+  | { type: "suiteStarted"; total: number }
+  | { type: "suiteItem"; index: number; total: number; item: SuiteItem }
+  | { type: "suiteItemError"; index: number; total: number; item: SuiteItem }
+  | { type: "suiteComplete"; report: SuiteReport }
+  | { type: "error"; message: string };